@@ -0,0 +1,390 @@
+import {
+    ArrayTypeName,
+    ContractDefinition,
+    ContractKind,
+    DataLocation,
+    EnumDefinition,
+    ErrorDefinition,
+    EventDefinition,
+    FunctionDefinition,
+    FunctionKind,
+    FunctionStateMutability,
+    FunctionVisibility,
+    Mapping,
+    StateVariableVisibility,
+    StructDefinition,
+    TypeName,
+    UserDefinedTypeName,
+    VariableDeclaration
+} from "../ast";
+import {
+    ArrayType,
+    FunctionType,
+    getUserDefinedTypeFQName,
+    PointerType,
+    TupleType,
+    TypeNode,
+    UserDefinedType,
+    variableDeclarationToTypeNode
+} from "../types";
+import {
+    ABIEncoderVersion,
+    abiTypeToCanonicalName,
+    abiTypeToLibraryCanonicalName,
+    toABIEncodedType
+} from "../types/abi";
+
+/**
+ * Parameter of the ABI entry (also used for struct `components`)
+ */
+export interface ABIParameter {
+    components?: ABIParameter[];
+    indexed?: boolean;
+    internalType: string;
+    name: string;
+    type: string;
+}
+
+export type ABIEntryType = "function" | "constructor" | "fallback" | "receive" | "event" | "error";
+
+/**
+ * Entry of the contract JSON ABI.
+ *
+ * Properties are declared (and assigned) in alphabetical order,
+ * as solc emits them in this order.
+ */
+export interface ABIEntry {
+    anonymous?: boolean;
+    inputs?: ABIParameter[];
+    name?: string;
+    outputs?: ABIParameter[];
+    stateMutability?: string;
+    type: ABIEntryType;
+}
+
+function getStateMutability(mutability: FunctionStateMutability): string {
+    return mutability === FunctionStateMutability.Constant
+        ? FunctionStateMutability.View
+        : mutability;
+}
+
+/**
+ * Returns type string as solc prints it into `internalType` (without data locations)
+ */
+function getInternalTypeName(type: TypeNode): string {
+    if (type instanceof PointerType) {
+        return getInternalTypeName(type.to);
+    }
+
+    if (type instanceof ArrayType) {
+        const size = type.size === undefined ? "" : type.size.toString();
+
+        return `${getInternalTypeName(type.elementT)}[${size}]`;
+    }
+
+    if (type instanceof UserDefinedType) {
+        const def = type.definition;
+
+        if (def instanceof StructDefinition) {
+            return `struct ${getUserDefinedTypeFQName(def)}`;
+        }
+
+        if (def instanceof EnumDefinition) {
+            return `enum ${getUserDefinedTypeFQName(def)}`;
+        }
+
+        if (def instanceof ContractDefinition) {
+            return `${def.kind === ContractKind.Library ? "library" : "contract"} ${def.name}`;
+        }
+
+        return getUserDefinedTypeFQName(def);
+    }
+
+    if (type instanceof FunctionType) {
+        const params = type.parameters.map(getInternalTypeName).join(",");
+        const returns = type.returns.map(getInternalTypeName).join(",");
+
+        let result = `function (${params})`;
+
+        if (type.mutability !== FunctionStateMutability.NonPayable) {
+            result += ` ${type.mutability}`;
+        }
+
+        if (type.visibility === FunctionVisibility.External) {
+            result += " external";
+        }
+
+        return returns === "" ? result : `${result} returns (${returns})`;
+    }
+
+    return type.pp();
+}
+
+/**
+ * Builds description of the ABI parameter of the `type`.
+ *
+ * When `library` is set, enums are described by their library canonical names
+ * (instead of underlying integer types), as solc does for library functions.
+ */
+function formatParameter(name: string, type: TypeNode, library = false): ABIParameter {
+    const internalType = getInternalTypeName(type);
+
+    if (library && type instanceof UserDefinedType && type.definition instanceof EnumDefinition) {
+        return { internalType, name, type: abiTypeToLibraryCanonicalName(type) };
+    }
+
+    const target = type instanceof PointerType ? type.to : type;
+
+    if (target instanceof ArrayType) {
+        const size = target.size === undefined ? "" : target.size.toString();
+        const element = formatParameter("", target.elementT, library);
+        const result: ABIParameter = { internalType, name, type: `${element.type}[${size}]` };
+
+        return element.components === undefined
+            ? result
+            : { components: element.components, ...result };
+    }
+
+    if (target instanceof UserDefinedType && target.definition instanceof StructDefinition) {
+        const components = target.definition.vMembers.map((member) =>
+            formatParameter(member.name, variableDeclarationToTypeNode(member), library)
+        );
+
+        return { components, internalType, name, type: "tuple" };
+    }
+
+    const encoded = toABIEncodedType(target, ABIEncoderVersion.V2);
+
+    return { internalType, name, type: abiTypeToCanonicalName(encoded) };
+}
+
+function formatParameters(decls: readonly VariableDeclaration[], library = false): ABIParameter[] {
+    return decls.map((decl) =>
+        formatParameter(decl.name, variableDeclarationToTypeNode(decl), library)
+    );
+}
+
+function formatFunction(fn: FunctionDefinition, library: boolean): ABIEntry {
+    return {
+        inputs: formatParameters(fn.vParameters.vParameters, library),
+        name: fn.name,
+        outputs: formatParameters(fn.vReturnParameters.vParameters, library),
+        stateMutability: getStateMutability(fn.stateMutability),
+        type: "function"
+    };
+}
+
+/**
+ * Returns names of the getter return values. Only struct members have names.
+ */
+function getGetterReturnNames(decl: VariableDeclaration, count: number): string[] {
+    let type: TypeName | undefined = decl.vType;
+
+    while (type instanceof ArrayTypeName || type instanceof Mapping) {
+        type = type instanceof Mapping ? type.vValueType : type.vBaseType;
+    }
+
+    if (
+        type instanceof UserDefinedTypeName &&
+        type.vReferencedDeclaration instanceof StructDefinition
+    ) {
+        return type.vReferencedDeclaration.vMembers
+            .filter(
+                (member) =>
+                    !(member.vType instanceof Mapping || member.vType instanceof ArrayTypeName)
+            )
+            .map((member) => member.name);
+    }
+
+    return new Array(count).fill("");
+}
+
+function formatGetter(decl: VariableDeclaration): ABIEntry {
+    const [args, ret] = decl.getterArgsAndReturn();
+    const rets = ret instanceof TupleType ? ret.elements : [ret];
+    const names = getGetterReturnNames(decl, rets.length);
+
+    return {
+        inputs: args.map((arg) => formatParameter("", arg)),
+        name: decl.name,
+        outputs: rets.map((type, i) => formatParameter(names[i], type)),
+        stateMutability: FunctionStateMutability.View,
+        type: "function"
+    };
+}
+
+function formatEvent(event: EventDefinition): ABIEntry {
+    return {
+        anonymous: event.anonymous,
+        inputs: event.vParameters.vParameters.map((decl) => {
+            const param = formatParameter(decl.name, variableDeclarationToTypeNode(decl));
+            const { components, ...rest } = param;
+            const result: ABIParameter = { indexed: decl.indexed, ...rest };
+
+            return components === undefined ? result : { components, ...result };
+        }),
+        name: event.name,
+        type: "event"
+    };
+}
+
+function formatError(error: ErrorDefinition): ABIEntry {
+    return {
+        inputs: formatParameters(error.vParameters.vParameters),
+        name: error.name,
+        type: "error"
+    };
+}
+
+/**
+ * Public and external functions and public state variable getters,
+ * available on the contract (including inherited ones), ordered by selector.
+ */
+function getInterfaceFunctions(contract: ContractDefinition): ABIEntry[] {
+    const library = contract.kind === ContractKind.Library;
+    const entries = new Map<string, ABIEntry>();
+
+    for (const base of contract.vLinearizedBaseContracts) {
+        for (const fn of base.vFunctions) {
+            if (
+                fn.kind !== FunctionKind.Function ||
+                !(
+                    fn.visibility === FunctionVisibility.Public ||
+                    fn.visibility === FunctionVisibility.External
+                )
+            ) {
+                continue;
+            }
+
+            /**
+             * Library ABI only contains functions, that do not modify state
+             * and do not accept or return storage references
+             */
+            if (
+                library &&
+                !(
+                    (fn.stateMutability === FunctionStateMutability.Pure ||
+                        fn.stateMutability === FunctionStateMutability.View ||
+                        fn.stateMutability === FunctionStateMutability.Constant) &&
+                    [...fn.vParameters.vParameters, ...fn.vReturnParameters.vParameters].every(
+                        (decl) => decl.storageLocation !== DataLocation.Storage
+                    )
+                )
+            ) {
+                continue;
+            }
+
+            const selector = fn.canonicalSignatureHash(ABIEncoderVersion.V2);
+
+            if (!entries.has(selector)) {
+                entries.set(selector, formatFunction(fn, library));
+            }
+        }
+
+        for (const decl of base.vStateVariables) {
+            if (decl.visibility !== StateVariableVisibility.Public) {
+                continue;
+            }
+
+            const selector = decl.getterCanonicalSignatureHash(ABIEncoderVersion.V2);
+
+            if (!entries.has(selector)) {
+                entries.set(selector, formatGetter(decl));
+            }
+        }
+    }
+
+    return [...entries.keys()].sort().map((selector) => entries.get(selector) as ABIEntry);
+}
+
+/**
+ * Events, defined in the contract and its bases (most derived first),
+ * with duplicate signatures removed.
+ */
+function getInterfaceEvents(contract: ContractDefinition): EventDefinition[] {
+    const signatures = new Set<string>();
+    const result: EventDefinition[] = [];
+
+    for (const base of contract.vLinearizedBaseContracts) {
+        for (const event of base.vEvents) {
+            const signature = event.canonicalSignature(ABIEncoderVersion.V2);
+
+            if (!signatures.has(signature)) {
+                signatures.add(signature);
+                result.push(event);
+            }
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Errors, defined in the contract and its bases, and errors used by the contract,
+ * ordered by AST id.
+ */
+function getInterfaceErrors(contract: ContractDefinition): ErrorDefinition[] {
+    const errors = new Set<ErrorDefinition>(contract.vUsedErrors);
+
+    for (const base of contract.vLinearizedBaseContracts) {
+        for (const error of base.vErrors) {
+            errors.add(error);
+        }
+    }
+
+    return [...errors].sort((a, b) => a.id - b.id);
+}
+
+/**
+ * Generates JSON ABI of the `contract` from the AST.
+ *
+ * The result has the same format as solc `abi` output (of version 0.6.0 and later):
+ * entries are ordered by type and name and properties are ordered alphabetically,
+ * so `JSON.stringify()` of the result matches the compiler output.
+ */
+export function getContractABI(contract: ContractDefinition): ABIEntry[] {
+    const entries = getInterfaceFunctions(contract);
+
+    const constructor = contract.vConstructor;
+
+    /**
+     * Abstract contracts can not be deployed, so their constructors are omitted
+     */
+    if (constructor && !contract.abstract) {
+        entries.push({
+            inputs: formatParameters(constructor.vParameters.vParameters),
+            stateMutability: getStateMutability(constructor.stateMutability),
+            type: "constructor"
+        });
+    }
+
+    for (const kind of [FunctionKind.Fallback, FunctionKind.Receive]) {
+        for (const base of contract.vLinearizedBaseContracts) {
+            const fn = base.vFunctions.find((candidate) => candidate.kind === kind);
+
+            if (fn) {
+                entries.push({
+                    stateMutability: getStateMutability(fn.stateMutability),
+                    type: kind === FunctionKind.Fallback ? "fallback" : "receive"
+                });
+
+                break;
+            }
+        }
+    }
+
+    entries.push(...getInterfaceEvents(contract).map(formatEvent));
+    entries.push(...getInterfaceErrors(contract).map(formatError));
+
+    /**
+     * Solc orders entries by type and name. Order of entries with equal keys is preserved.
+     */
+    const compare = (a: string | undefined, b: string | undefined): number => {
+        const x = a === undefined ? "" : a;
+        const y = b === undefined ? "" : b;
+
+        return x < y ? -1 : x > y ? 1 : 0;
+    };
+
+    return entries.sort((a, b) => compare(a.type, b.type) || compare(a.name, b.name));
+}
@@ -0,0 +1,538 @@
+import {
+    ContractDefinition,
+    ContractKind,
+    Expression,
+    FunctionCall,
+    FunctionCallKind,
+    FunctionDefinition,
+    Identifier,
+    InheritanceSpecifier,
+    MemberAccess,
+    ModifierDefinition,
+    ModifierInvocation,
+    NewExpression,
+    SourceUnit,
+    StateVariableVisibility,
+    UserDefinedTypeName,
+    VariableDeclaration
+} from "../ast";
+import { generalizeType, TypeNode, variableDeclarationToTypeNode } from "../types";
+
+export enum CallKind {
+    /**
+     * Internal call, including virtual dispatch and calls of free functions
+     */
+    Internal = "internal",
+    Super = "super",
+    Modifier = "modifier",
+    BaseConstructor = "base_constructor",
+    Library = "library",
+    External = "external",
+    Creation = "creation"
+}
+
+/**
+ * Node of the call graph.
+ *
+ * `ContractDefinition` stands for the implicit constructor of the contract
+ * (state variable initializers and base constructor calls), when there is no explicit one.
+ * `VariableDeclaration` stands for the getter of the public state variable.
+ */
+export type CallGraphNode =
+    | FunctionDefinition
+    | ModifierDefinition
+    | VariableDeclaration
+    | ContractDefinition;
+
+export type CallSite = FunctionCall | ModifierInvocation | InheritanceSpecifier;
+
+export interface CallGraphEdge {
+    caller: CallGraphNode;
+    callee: CallGraphNode;
+    kind: CallKind;
+    callSite: CallSite;
+
+    /**
+     * Most-derived contract, for which the call is resolved.
+     * Is `undefined` for calls, made outside of contracts (e.g. in free functions).
+     */
+    contract?: ContractDefinition;
+}
+
+export function getCallGraphNodeName(node: CallGraphNode): string {
+    if (node instanceof ContractDefinition) {
+        return node.name;
+    }
+
+    /**
+     * Constructors, fallback and receive functions are unnamed
+     */
+    const name = node instanceof FunctionDefinition && node.name === "" ? node.kind : node.name;
+
+    return node.vScope instanceof ContractDefinition ? `${node.vScope.name}.${name}` : name;
+}
+
+export class CallGraph {
+    readonly nodes: readonly CallGraphNode[];
+    readonly edges: readonly CallGraphEdge[];
+
+    constructor(nodes: CallGraphNode[], edges: CallGraphEdge[]) {
+        this.nodes = nodes;
+        this.edges = edges;
+    }
+
+    /**
+     * Returns outgoing edges of the `caller`.
+     * When `contract` is specified, only edges, that are valid
+     * for the most-derived `contract`, are returned.
+     */
+    getCallees(caller: CallGraphNode, contract?: ContractDefinition): CallGraphEdge[] {
+        return this.edges.filter(
+            (edge) => edge.caller === caller && CallGraph.matchesContract(edge, contract)
+        );
+    }
+
+    /**
+     * Returns incoming edges of the `callee`.
+     * When `contract` is specified, only edges, that are valid
+     * for the most-derived `contract`, are returned.
+     */
+    getCallers(callee: CallGraphNode, contract?: ContractDefinition): CallGraphEdge[] {
+        return this.edges.filter(
+            (edge) => edge.callee === callee && CallGraph.matchesContract(edge, contract)
+        );
+    }
+
+    getEdgesAt(callSite: CallSite): CallGraphEdge[] {
+        return this.edges.filter((edge) => edge.callSite === callSite);
+    }
+
+    toJSON(): any {
+        return {
+            nodes: this.nodes.map((node) => ({
+                id: node.id,
+                nodeType: node.type,
+                name: getCallGraphNodeName(node)
+            })),
+            edges: this.edges.map((edge) => ({
+                caller: edge.caller.id,
+                callee: edge.callee.id,
+                kind: edge.kind,
+                callSite: edge.callSite.id,
+                contract: edge.contract === undefined ? null : edge.contract.id
+            }))
+        };
+    }
+
+    /**
+     * Produces graph description in DOT format for debugging purposes.
+     * Edges, that differ only by call site or most-derived contract, are merged.
+     */
+    toDot(): string {
+        const lines: string[] = ["digraph CallGraph {", "    node [shape=box];"];
+
+        for (const node of this.nodes) {
+            lines.push(`    N${node.id} [label="${getCallGraphNodeName(node)}"];`);
+        }
+
+        const seen = new Set<string>();
+
+        for (const edge of this.edges) {
+            const line = `    N${edge.caller.id} -> N${edge.callee.id} [label="${edge.kind}"];`;
+
+            if (!seen.has(line)) {
+                seen.add(line);
+
+                lines.push(line);
+            }
+        }
+
+        lines.push("}");
+
+        return lines.join("\n");
+    }
+
+    private static matchesContract(
+        edge: CallGraphEdge,
+        contract: ContractDefinition | undefined
+    ): boolean {
+        return contract === undefined || edge.contract === undefined || edge.contract === contract;
+    }
+}
+
+type Callee = [CallGraphNode, CallKind];
+
+function isContractTyped(expr: Expression): boolean {
+    return expr.typeString !== undefined && expr.typeString.startsWith("contract ");
+}
+
+function isBuiltinIdentifier(expr: Expression, name: string): boolean {
+    return expr instanceof Identifier && expr.name === name && expr.referencedDeclaration < 0;
+}
+
+function getConstructorNode(contract: ContractDefinition): CallGraphNode {
+    const constructor = contract.vConstructor;
+
+    return constructor === undefined ? contract : constructor;
+}
+
+/**
+ * Returns string representations of the parameter types without data locations,
+ * as public functions could override external ones, changing `calldata` to `memory`.
+ *
+ * Signature hashes are not used to match overrides,
+ * as they could not be computed for internal functions with `mapping` parameters.
+ */
+function getParameterTypes(callable: FunctionDefinition | VariableDeclaration): string[] {
+    const types: TypeNode[] =
+        callable instanceof FunctionDefinition
+            ? callable.vParameters.vParameters.map(variableDeclarationToTypeNode)
+            : callable.getterArgsAndReturn()[0];
+
+    return types.map((type) => generalizeType(type)[0].pp());
+}
+
+function isSameCallable(
+    candidate: FunctionDefinition | VariableDeclaration,
+    definition: FunctionDefinition | VariableDeclaration
+): boolean {
+    if (candidate.name !== definition.name) {
+        return false;
+    }
+
+    const candidateTypes = getParameterTypes(candidate);
+    const definitionTypes = getParameterTypes(definition);
+
+    return (
+        candidateTypes.length === definitionTypes.length &&
+        candidateTypes.every((type, i) => type === definitionTypes[i])
+    );
+}
+
+/**
+ * Resolves the `definition` in the linearized `bases`, starting from the one at index `start`
+ */
+function resolveInBases(
+    bases: readonly ContractDefinition[],
+    start: number,
+    definition: FunctionDefinition | VariableDeclaration
+): FunctionDefinition | VariableDeclaration | undefined {
+    for (let i = start; i < bases.length; i++) {
+        const fn = bases[i].vFunctions.find((candidate) => isSameCallable(candidate, definition));
+
+        if (fn) {
+            return fn;
+        }
+
+        const getter = bases[i].vStateVariables.find(
+            (candidate) =>
+                candidate.visibility === StateVariableVisibility.Public &&
+                isSameCallable(candidate, definition)
+        );
+
+        if (getter) {
+            return getter;
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Resolves virtually dispatched function for the most-derived `contract`
+ */
+function resolveVirtual(
+    contract: ContractDefinition,
+    definition: FunctionDefinition | VariableDeclaration
+): FunctionDefinition | VariableDeclaration | undefined {
+    return resolveInBases(contract.vLinearizedBaseContracts, 0, definition);
+}
+
+/**
+ * Resolves `super.<fn>` in the scope of the `base`, that is inherited by the most-derived `contract`
+ */
+function resolveSuper(
+    contract: ContractDefinition,
+    base: ContractDefinition,
+    definition: FunctionDefinition
+): FunctionDefinition | VariableDeclaration | undefined {
+    const bases = contract.vLinearizedBaseContracts;
+
+    return resolveInBases(bases, bases.indexOf(base) + 1, definition);
+}
+
+/**
+ * Resolves modifier for the most-derived `contract`. Modifiers could not be overloaded,
+ * so they are matched by name.
+ */
+function resolveModifier(
+    contract: ContractDefinition,
+    modifier: ModifierDefinition
+): ModifierDefinition | undefined {
+    for (const base of contract.vLinearizedBaseContracts) {
+        const resolved = base.vModifiers.find((candidate) => candidate.name === modifier.name);
+
+        if (resolved) {
+            return resolved;
+        }
+    }
+
+    return undefined;
+}
+
+class CallGraphBuilder {
+    private nodes = new Set<CallGraphNode>();
+    private edges: CallGraphEdge[] = [];
+    private edgeKeys = new Set<string>();
+
+    build(units: SourceUnit[]): CallGraph {
+        const contracts: ContractDefinition[] = [];
+
+        for (const unit of units) {
+            contracts.push(
+                ...unit
+                    .getChildrenByType(ContractDefinition)
+                    .filter((contract) => contract.kind !== ContractKind.Interface)
+            );
+        }
+
+        for (const unit of units) {
+            for (const fn of unit.vFunctions) {
+                this.addNode(fn);
+
+                for (const call of fn.getChildrenByType(FunctionCall)) {
+                    this.processCall(call, fn, undefined, undefined);
+                }
+            }
+        }
+
+        for (const contract of contracts) {
+            for (const fn of contract.vFunctions) {
+                this.addNode(fn);
+            }
+
+            for (const modifier of contract.vModifiers) {
+                this.addNode(modifier);
+            }
+        }
+
+        for (const contract of contracts) {
+            for (const base of contract.vLinearizedBaseContracts) {
+                if (base.kind !== ContractKind.Interface) {
+                    this.processContract(base, contract);
+                }
+            }
+        }
+
+        return new CallGraph([...this.nodes], this.edges);
+    }
+
+    /**
+     * Adds edges for call sites in the `base`, resolved for the most-derived `contract`
+     */
+    private processContract(base: ContractDefinition, contract: ContractDefinition): void {
+        const implicitCaller = getConstructorNode(base);
+
+        for (const specifier of base.vInheritanceSpecifiers) {
+            const parent = specifier.vBaseType.vReferencedDeclaration;
+
+            if (parent instanceof ContractDefinition && parent.kind !== ContractKind.Interface) {
+                this.addEdge(
+                    implicitCaller,
+                    getConstructorNode(parent),
+                    CallKind.BaseConstructor,
+                    specifier,
+                    contract
+                );
+            }
+        }
+
+        for (const invocation of base.getChildrenByType(ModifierInvocation)) {
+            const caller = invocation.parent as FunctionDefinition;
+            const modifier = invocation.vModifier;
+
+            if (modifier instanceof ModifierDefinition) {
+                const resolved = resolveModifier(contract, modifier);
+
+                this.addEdge(
+                    caller,
+                    resolved === undefined ? modifier : resolved,
+                    CallKind.Modifier,
+                    invocation,
+                    contract
+                );
+            } else if (modifier instanceof ContractDefinition) {
+                this.addEdge(
+                    caller,
+                    getConstructorNode(modifier),
+                    CallKind.BaseConstructor,
+                    invocation,
+                    contract
+                );
+            }
+        }
+
+        for (const call of base.getChildrenByType(FunctionCall)) {
+            const caller =
+                call.getClosestParentBySelector<FunctionDefinition | ModifierDefinition>(
+                    (node) =>
+                        node instanceof FunctionDefinition || node instanceof ModifierDefinition
+                ) ?? implicitCaller;
+
+            this.processCall(call, caller, base, contract);
+        }
+    }
+
+    private processCall(
+        call: FunctionCall,
+        caller: CallGraphNode,
+        base: ContractDefinition | undefined,
+        contract: ContractDefinition | undefined
+    ): void {
+        if (call.kind !== FunctionCallKind.FunctionCall) {
+            return;
+        }
+
+        const callee = this.resolveCallee(call.vCallee, base, contract);
+
+        if (callee !== undefined) {
+            this.addEdge(caller, callee[0], callee[1], call, contract);
+        }
+    }
+
+    private resolveCallee(
+        expr: Expression,
+        base: ContractDefinition | undefined,
+        contract: ContractDefinition | undefined
+    ): Callee | undefined {
+        if (expr instanceof NewExpression) {
+            const typeName = expr.vTypeName;
+
+            if (
+                typeName instanceof UserDefinedTypeName &&
+                typeName.vReferencedDeclaration instanceof ContractDefinition
+            ) {
+                return [getConstructorNode(typeName.vReferencedDeclaration), CallKind.Creation];
+            }
+
+            return undefined;
+        }
+
+        if (!(expr instanceof Identifier || expr instanceof MemberAccess)) {
+            return undefined;
+        }
+
+        const definition = expr.vReferencedDeclaration;
+
+        if (
+            !(
+                definition instanceof FunctionDefinition ||
+                (definition instanceof VariableDeclaration && definition.stateVariable)
+            )
+        ) {
+            return undefined;
+        }
+
+        const scope = definition.vScope;
+
+        if (expr instanceof Identifier) {
+            if (
+                contract !== undefined &&
+                scope instanceof ContractDefinition &&
+                scope.kind !== ContractKind.Library &&
+                definition instanceof FunctionDefinition
+            ) {
+                const resolved = resolveVirtual(contract, definition);
+
+                return [resolved === undefined ? definition : resolved, CallKind.Internal];
+            }
+
+            return [definition, CallKind.Internal];
+        }
+
+        const object = expr.vExpression;
+
+        if (isBuiltinIdentifier(object, "super")) {
+            const resolved =
+                contract !== undefined &&
+                base !== undefined &&
+                definition instanceof FunctionDefinition
+                    ? resolveSuper(contract, base, definition)
+                    : undefined;
+
+            return [resolved === undefined ? definition : resolved, CallKind.Super];
+        }
+
+        if (scope instanceof ContractDefinition && scope.kind === ContractKind.Library) {
+            return [definition, CallKind.Library];
+        }
+
+        if (
+            object instanceof Identifier &&
+            object.vReferencedDeclaration instanceof ContractDefinition
+        ) {
+            /**
+             * Explicitly bound call, like `Base.fn()`, is not dispatched virtually
+             */
+            return [definition, CallKind.Internal];
+        }
+
+        if (scope instanceof SourceUnit) {
+            /**
+             * Free function, that is attached to the type via `using for`
+             */
+            return [definition, CallKind.Internal];
+        }
+
+        if (isContractTyped(object)) {
+            if (isBuiltinIdentifier(object, "this") && contract !== undefined) {
+                const resolved = resolveVirtual(contract, definition);
+
+                return [resolved === undefined ? definition : resolved, CallKind.External];
+            }
+
+            return [definition, CallKind.External];
+        }
+
+        return undefined;
+    }
+
+    private addNode(node: CallGraphNode): void {
+        this.nodes.add(node);
+    }
+
+    private addEdge(
+        caller: CallGraphNode,
+        callee: CallGraphNode,
+        kind: CallKind,
+        callSite: CallSite,
+        contract: ContractDefinition | undefined
+    ): void {
+        const key = [caller.id, callee.id, kind, callSite.id, contract ? contract.id : ""].join(
+            ":"
+        );
+
+        if (this.edgeKeys.has(key)) {
+            return;
+        }
+
+        this.edgeKeys.add(key);
+
+        this.addNode(caller);
+        this.addNode(callee);
+
+        this.edges.push({ caller, callee, kind, callSite, contract });
+    }
+}
+
+/**
+ * Builds call graph over all `units`.
+ *
+ * Internal calls, `super` calls and modifier invocations are resolved
+ * following the C3 linearization of every possible most-derived contract,
+ * so the same call site may produce several edges with different `contract`s.
+ * Calls via function-typed values are not tracked.
+ */
+export function buildCallGraph(units: SourceUnit[]): CallGraph {
+    return new CallGraphBuilder().build(units);
+}
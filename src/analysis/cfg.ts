@@ -0,0 +1,802 @@
+import {
+    ASTNode,
+    BinaryOperation,
+    Block,
+    Break,
+    Conditional,
+    Continue,
+    ContractDefinition,
+    DoWhileStatement,
+    Expression,
+    ExpressionStatement,
+    ForStatement,
+    FunctionCall,
+    FunctionDefinition,
+    Identifier,
+    IfStatement,
+    ModifierDefinition,
+    ModifierInvocation,
+    PlaceholderStatement,
+    resolve,
+    Return,
+    RevertStatement,
+    Statement,
+    Throw,
+    TryStatement,
+    UncheckedBlock,
+    WhileStatement
+} from "../ast";
+import { assert } from "../misc";
+
+export enum CFGEdgeKind {
+    Normal = "normal",
+    True = "true",
+    False = "false",
+    Break = "break",
+    Continue = "continue",
+    Return = "return",
+    Revert = "revert",
+    TrySuccess = "try_success",
+    TryCatch = "try_catch"
+}
+
+export interface CFGEdge {
+    from: BasicBlock;
+    to: BasicBlock;
+    kind: CFGEdgeKind;
+}
+
+export interface CFGOptions {
+    /**
+     * Splice bodies of the invoked modifiers into the CFG of the function.
+     * Each `PlaceholderStatement` is replaced by the rest of the modifier chain
+     * (and eventually by the function body).
+     */
+    inlineModifiers?: boolean;
+
+    /**
+     * Contract, that is used to resolve virtual modifiers, when `inlineModifiers` is set.
+     * Defaults to the contract, where the function is defined.
+     */
+    contract?: ContractDefinition;
+}
+
+export type CFGNodeLabeler = (node: ASTNode) => string;
+
+/**
+ * Straight-line sequence of AST nodes, that are evaluated one after another.
+ *
+ * Statements are stored as whole nodes. Expressions are stored separately
+ * only when they are split across several blocks due to short-circuit evaluation
+ * (`&&`, `||` and `Conditional`). In that case each fragment is stored
+ * in the block, where its evaluation completes.
+ */
+export class BasicBlock {
+    readonly id: number;
+
+    /**
+     * AST nodes in evaluation order
+     */
+    readonly nodes: ASTNode[] = [];
+
+    readonly successors: CFGEdge[] = [];
+    readonly predecessors: CFGEdge[] = [];
+
+    /**
+     * Is `true` when nodes of the block are located inside of the `UncheckedBlock`
+     */
+    readonly unchecked: boolean;
+
+    constructor(id: number, unchecked = false) {
+        this.id = id;
+        this.unchecked = unchecked;
+    }
+}
+
+export function defaultCFGNodeLabel(node: ASTNode): string {
+    return `${node.type} #${node.id} (${node.src})`;
+}
+
+function escapeDot(str: string): string {
+    return str.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+export class CFG {
+    /**
+     * Function or modifier, which body is represented by the graph
+     */
+    readonly root: FunctionDefinition | ModifierDefinition;
+
+    readonly entry: BasicBlock;
+
+    /**
+     * Block, that is reached on normal termination (fall-through or `return`)
+     */
+    readonly exit: BasicBlock;
+
+    /**
+     * Block, that is reached on abnormal termination (`revert`, `throw` and failed `try` calls)
+     */
+    readonly revert: BasicBlock;
+
+    readonly blocks: readonly BasicBlock[];
+
+    private nodeToBlocks = new Map<ASTNode, BasicBlock[]>();
+
+    constructor(
+        root: FunctionDefinition | ModifierDefinition,
+        entry: BasicBlock,
+        exit: BasicBlock,
+        revert: BasicBlock,
+        blocks: BasicBlock[]
+    ) {
+        this.root = root;
+        this.entry = entry;
+        this.exit = exit;
+        this.revert = revert;
+        this.blocks = blocks;
+
+        for (const block of blocks) {
+            for (const node of block.nodes) {
+                const owners = this.nodeToBlocks.get(node);
+
+                if (owners === undefined) {
+                    this.nodeToBlocks.set(node, [block]);
+                } else if (!owners.includes(block)) {
+                    owners.push(block);
+                }
+            }
+        }
+    }
+
+    get edges(): CFGEdge[] {
+        const result: CFGEdge[] = [];
+
+        for (const block of this.blocks) {
+            result.push(...block.successors);
+        }
+
+        return result;
+    }
+
+    /**
+     * Returns blocks, that contain the `node`.
+     * Node may be contained by several blocks when modifier bodies are inlined
+     * and the modifier has several `PlaceholderStatement`s.
+     */
+    getBlocksOf(node: ASTNode): BasicBlock[] {
+        const owners = this.nodeToBlocks.get(node);
+
+        return owners === undefined ? [] : owners.slice();
+    }
+
+    /**
+     * Produces graph description in DOT format for debugging purposes
+     */
+    toDot(labeler: CFGNodeLabeler = defaultCFGNodeLabel): string {
+        const lines: string[] = [];
+        const name = this.root.name === "" ? this.root.type : this.root.name;
+
+        lines.push(`digraph "${escapeDot(name)}" {`, "    node [shape=box];");
+
+        for (const block of this.blocks) {
+            let header = `B${block.id}`;
+
+            if (block === this.entry) {
+                header += " (entry)";
+            } else if (block === this.exit) {
+                header += " (exit)";
+            } else if (block === this.revert) {
+                header += " (revert)";
+            }
+
+            if (block.unchecked) {
+                header += " unchecked";
+            }
+
+            const label = [header, ...block.nodes.map(labeler)]
+                .map((line) => escapeDot(line) + "\\l")
+                .join("");
+
+            lines.push(`    B${block.id} [label="${label}"];`);
+        }
+
+        for (const edge of this.edges) {
+            const attrs = edge.kind === CFGEdgeKind.Normal ? "" : ` [label="${edge.kind}"]`;
+
+            lines.push(`    B${edge.from.id} -> B${edge.to.id}${attrs};`);
+        }
+
+        lines.push("}");
+
+        return lines.join("\n");
+    }
+}
+
+type PendingEdge = [BasicBlock | undefined, CFGEdgeKind];
+type PlaceholderHandler = (block: BasicBlock) => BasicBlock | undefined;
+
+interface LoopContext {
+    breaks: PendingEdge[];
+    continues: PendingEdge[];
+}
+
+function isShortCircuit(node: ASTNode): boolean {
+    return (
+        node instanceof Conditional ||
+        (node instanceof BinaryOperation && (node.operator === "&&" || node.operator === "||"))
+    );
+}
+
+function hasShortCircuit(expr: Expression): boolean {
+    return expr.getChildrenBySelector(isShortCircuit).length > 0;
+}
+
+function isRevertCall(stmt: ExpressionStatement): boolean {
+    const call = stmt.vExpression;
+
+    return (
+        call instanceof FunctionCall &&
+        call.vExpression instanceof Identifier &&
+        call.vExpression.name === "revert" &&
+        call.vExpression.referencedDeclaration < 0
+    );
+}
+
+class CFGBuilder {
+    private root: FunctionDefinition | ModifierDefinition;
+    private options: CFGOptions;
+
+    private blocks: BasicBlock[] = [];
+
+    private unchecked = false;
+    private loops: LoopContext[] = [];
+    private returns: PendingEdge[] = [];
+    private placeholder?: PlaceholderHandler;
+
+    private entry: BasicBlock;
+    private exit: BasicBlock;
+    private revert: BasicBlock;
+
+    constructor(root: FunctionDefinition | ModifierDefinition, options: CFGOptions) {
+        this.root = root;
+        this.options = options;
+
+        this.entry = this.makeBlock();
+        this.exit = this.makeBlock();
+        this.revert = this.makeBlock();
+    }
+
+    build(): CFG {
+        const root = this.root;
+        const entry = this.entry;
+
+        let end: BasicBlock | undefined;
+
+        if (root instanceof FunctionDefinition && this.options.inlineModifiers) {
+            const invocations = root.vModifiers.filter(
+                (invocation) => invocation.vModifier instanceof ModifierDefinition
+            );
+
+            end = this.modifierChain(root, invocations, 0, entry);
+        } else {
+            end = root.vBody ? this.statement(root.vBody, entry) : entry;
+        }
+
+        for (const [from, kind] of [...this.returns, [end, CFGEdgeKind.Normal] as PendingEdge]) {
+            if (from) {
+                this.connect(from, this.exit, kind);
+            }
+        }
+
+        return new CFG(root, entry, this.exit, this.revert, this.blocks);
+    }
+
+    private makeBlock(): BasicBlock {
+        const block = new BasicBlock(this.blocks.length, this.unchecked);
+
+        this.blocks.push(block);
+
+        return block;
+    }
+
+    private connect(from: BasicBlock, to: BasicBlock, kind = CFGEdgeKind.Normal): void {
+        const edge: CFGEdge = { from, to, kind };
+
+        from.successors.push(edge);
+        to.predecessors.push(edge);
+    }
+
+    /**
+     * Returns a block, where the next node may be appended.
+     * A new block is started when the current one is unreachable
+     * or when the node crosses the boundary of the `UncheckedBlock`.
+     */
+    private ensure(current: BasicBlock | undefined): BasicBlock {
+        if (current !== undefined && current.unchecked === this.unchecked) {
+            return current;
+        }
+
+        const block = this.makeBlock();
+
+        if (current !== undefined) {
+            this.connect(current, block);
+        }
+
+        return block;
+    }
+
+    /**
+     * Returns a block, that joins the `sources`,
+     * or `undefined` if none of the sources is reachable.
+     */
+    private join(sources: PendingEdge[]): BasicBlock | undefined {
+        const reachable = sources.filter(([from]) => from !== undefined);
+
+        if (reachable.length === 0) {
+            return undefined;
+        }
+
+        /**
+         * Sole fall-through source may be continued without a separate block
+         */
+        if (reachable.length === 1 && reachable[0][1] === CFGEdgeKind.Normal) {
+            return reachable[0][0];
+        }
+
+        const block = this.makeBlock();
+
+        for (const [from, kind] of reachable) {
+            this.connect(from as BasicBlock, block, kind);
+        }
+
+        return block;
+    }
+
+    /**
+     * Builds a part of the graph in an isolated context of a function or modifier body:
+     * `return` statements only leave the body and are joined with its fall-through end.
+     */
+    private scoped(
+        current: BasicBlock,
+        placeholder: PlaceholderHandler | undefined,
+        builder: (block: BasicBlock) => BasicBlock | undefined
+    ): BasicBlock | undefined {
+        const loops = this.loops;
+        const returns = this.returns;
+        const prevPlaceholder = this.placeholder;
+
+        this.loops = [];
+        this.returns = [];
+        this.placeholder = placeholder;
+
+        const end = builder(current);
+        const result = this.join([...this.returns, [end, CFGEdgeKind.Normal]]);
+
+        this.loops = loops;
+        this.returns = returns;
+        this.placeholder = prevPlaceholder;
+
+        return result;
+    }
+
+    private modifierChain(
+        fn: FunctionDefinition,
+        invocations: ModifierInvocation[],
+        index: number,
+        current: BasicBlock
+    ): BasicBlock | undefined {
+        if (index === invocations.length) {
+            const body = fn.vBody;
+
+            return this.scoped(current, undefined, (block) =>
+                body ? this.statement(body, block) : block
+            );
+        }
+
+        const invocation = invocations[index];
+        const modifier = this.resolveModifier(fn, invocation);
+
+        let block = this.ensure(current);
+
+        for (const arg of invocation.vArguments) {
+            block = this.expression(arg, block);
+        }
+
+        block.nodes.push(invocation);
+
+        const body = modifier.vBody;
+        const placeholder: PlaceholderHandler = (from) =>
+            this.modifierChain(fn, invocations, index + 1, from);
+
+        return this.scoped(block, placeholder, (start) =>
+            body ? this.statement(body, start) : start
+        );
+    }
+
+    private resolveModifier(
+        fn: FunctionDefinition,
+        invocation: ModifierInvocation
+    ): ModifierDefinition {
+        const modifier = invocation.vModifier;
+
+        assert(modifier instanceof ModifierDefinition, "Expected modifier, got {0}", modifier);
+
+        const scope =
+            this.options.contract ??
+            (fn.vScope instanceof ContractDefinition ? fn.vScope : undefined);
+
+        if (scope === undefined) {
+            return modifier;
+        }
+
+        const resolved = resolve(scope, modifier);
+
+        return resolved === undefined ? modifier : resolved;
+    }
+
+    /**
+     * Appends evaluation of the `expr` to the graph, starting at `block`.
+     * Returns the block, where evaluation of the `expr` completes.
+     *
+     * Expressions without short-circuit evaluation are not recorded,
+     * as they are evaluated as a part of the enclosing node.
+     */
+    private expression(expr: Expression, block: BasicBlock): BasicBlock {
+        if (!hasShortCircuit(expr)) {
+            return block;
+        }
+
+        let end: BasicBlock;
+
+        if (expr instanceof BinaryOperation && isShortCircuit(expr)) {
+            const leftEnd = this.fragment(expr.vLeftExpression, block);
+            const right = this.makeBlock();
+            const isAnd = expr.operator === "&&";
+
+            this.connect(leftEnd, right, isAnd ? CFGEdgeKind.True : CFGEdgeKind.False);
+
+            const rightEnd = this.fragment(expr.vRightExpression, right);
+
+            end = this.join([
+                [leftEnd, isAnd ? CFGEdgeKind.False : CFGEdgeKind.True],
+                [rightEnd, CFGEdgeKind.Normal]
+            ]) as BasicBlock;
+        } else if (expr instanceof Conditional) {
+            const conditionEnd = this.fragment(expr.vCondition, block);
+            const trueBlock = this.makeBlock();
+            const falseBlock = this.makeBlock();
+
+            this.connect(conditionEnd, trueBlock, CFGEdgeKind.True);
+            this.connect(conditionEnd, falseBlock, CFGEdgeKind.False);
+
+            end = this.join([
+                [this.fragment(expr.vTrueExpression, trueBlock), CFGEdgeKind.Normal],
+                [this.fragment(expr.vFalseExpression, falseBlock), CFGEdgeKind.Normal]
+            ]) as BasicBlock;
+        } else {
+            end = block;
+
+            for (const child of expr.children) {
+                if (child instanceof Expression) {
+                    end = this.expression(child, end);
+                }
+            }
+        }
+
+        end.nodes.push(expr);
+
+        return end;
+    }
+
+    /**
+     * Same as `expression()`, but always records the `expr`,
+     * as it is evaluated apart from the enclosing node.
+     */
+    private fragment(expr: Expression, block: BasicBlock): BasicBlock {
+        const end = this.expression(expr, block);
+
+        if (end.nodes[end.nodes.length - 1] !== expr) {
+            end.nodes.push(expr);
+        }
+
+        return end;
+    }
+
+    /**
+     * Appends the `stmt` as a single node, after evaluation of its child expressions.
+     */
+    private simple(stmt: Statement, current: BasicBlock | undefined): BasicBlock {
+        let block = this.ensure(current);
+
+        for (const child of stmt.children) {
+            if (child instanceof Expression) {
+                block = this.expression(child, block);
+            }
+        }
+
+        block.nodes.push(stmt);
+
+        return block;
+    }
+
+    /**
+     * Appends the `stmt` to the graph, starting at `current`.
+     * Returns the block, where the control flows after the statement,
+     * or `undefined` if the statement never completes normally.
+     */
+    private statement(stmt: Statement, current: BasicBlock | undefined): BasicBlock | undefined {
+        if (stmt instanceof Block) {
+            for (const child of stmt.vStatements) {
+                current = this.statement(child, current);
+            }
+
+            return current;
+        }
+
+        if (stmt instanceof UncheckedBlock) {
+            const unchecked = this.unchecked;
+
+            this.unchecked = true;
+
+            for (const child of stmt.vStatements) {
+                current = this.statement(child, current);
+            }
+
+            this.unchecked = unchecked;
+
+            return current;
+        }
+
+        if (stmt instanceof IfStatement) {
+            return this.ifStatement(stmt, current);
+        }
+
+        if (stmt instanceof WhileStatement) {
+            return this.whileStatement(stmt, current);
+        }
+
+        if (stmt instanceof DoWhileStatement) {
+            return this.doWhileStatement(stmt, current);
+        }
+
+        if (stmt instanceof ForStatement) {
+            return this.forStatement(stmt, current);
+        }
+
+        if (stmt instanceof TryStatement) {
+            return this.tryStatement(stmt, current);
+        }
+
+        const block = this.simple(stmt, current);
+
+        if (stmt instanceof Return) {
+            this.returns.push([block, CFGEdgeKind.Return]);
+
+            return undefined;
+        }
+
+        if (
+            stmt instanceof RevertStatement ||
+            stmt instanceof Throw ||
+            (stmt instanceof ExpressionStatement && isRevertCall(stmt))
+        ) {
+            this.connect(block, this.revert, CFGEdgeKind.Revert);
+
+            return undefined;
+        }
+
+        if (stmt instanceof Break || stmt instanceof Continue) {
+            const loop = this.loops[this.loops.length - 1];
+
+            assert(loop !== undefined, "Unexpected {0} outside of loop", stmt);
+
+            if (stmt instanceof Break) {
+                loop.breaks.push([block, CFGEdgeKind.Break]);
+            } else {
+                loop.continues.push([block, CFGEdgeKind.Continue]);
+            }
+
+            return undefined;
+        }
+
+        if (stmt instanceof PlaceholderStatement && this.placeholder) {
+            return this.placeholder(block);
+        }
+
+        return block;
+    }
+
+    private ifStatement(
+        stmt: IfStatement,
+        current: BasicBlock | undefined
+    ): BasicBlock | undefined {
+        const conditionEnd = this.expression(stmt.vCondition, this.ensure(current));
+
+        conditionEnd.nodes.push(stmt);
+
+        const trueBlock = this.makeBlock();
+
+        this.connect(conditionEnd, trueBlock, CFGEdgeKind.True);
+
+        const trueEnd = this.statement(stmt.vTrueBody, trueBlock);
+
+        let falseEnd: PendingEdge;
+
+        if (stmt.vFalseBody) {
+            const falseBlock = this.makeBlock();
+
+            this.connect(conditionEnd, falseBlock, CFGEdgeKind.False);
+
+            falseEnd = [this.statement(stmt.vFalseBody, falseBlock), CFGEdgeKind.Normal];
+        } else {
+            falseEnd = [conditionEnd, CFGEdgeKind.False];
+        }
+
+        return this.join([[trueEnd, CFGEdgeKind.Normal], falseEnd]);
+    }
+
+    private loopBody(body: Statement, block: BasicBlock): [BasicBlock | undefined, LoopContext] {
+        const loop: LoopContext = { breaks: [], continues: [] };
+
+        this.loops.push(loop);
+
+        const end = this.statement(body, block);
+
+        this.loops.pop();
+
+        return [end, loop];
+    }
+
+    private whileStatement(
+        stmt: WhileStatement,
+        current: BasicBlock | undefined
+    ): BasicBlock | undefined {
+        const header = this.makeBlock();
+
+        if (current) {
+            this.connect(current, header);
+        }
+
+        const conditionEnd = this.expression(stmt.vCondition, header);
+
+        conditionEnd.nodes.push(stmt);
+
+        const body = this.makeBlock();
+
+        this.connect(conditionEnd, body, CFGEdgeKind.True);
+
+        const [bodyEnd, loop] = this.loopBody(stmt.vBody, body);
+        const latches: PendingEdge[] = [[bodyEnd, CFGEdgeKind.Normal], ...loop.continues];
+
+        for (const [from, kind] of latches) {
+            if (from) {
+                this.connect(from, header, kind);
+            }
+        }
+
+        return this.join([[conditionEnd, CFGEdgeKind.False], ...loop.breaks]);
+    }
+
+    private doWhileStatement(
+        stmt: DoWhileStatement,
+        current: BasicBlock | undefined
+    ): BasicBlock | undefined {
+        const body = this.makeBlock();
+
+        if (current) {
+            this.connect(current, body);
+        }
+
+        const [bodyEnd, loop] = this.loopBody(stmt.vBody, body);
+        const condition = this.join([[bodyEnd, CFGEdgeKind.Normal], ...loop.continues]);
+        const exits: PendingEdge[] = [...loop.breaks];
+
+        if (condition) {
+            const conditionEnd = this.expression(stmt.vCondition, condition);
+
+            conditionEnd.nodes.push(stmt);
+
+            this.connect(conditionEnd, body, CFGEdgeKind.True);
+
+            exits.unshift([conditionEnd, CFGEdgeKind.False]);
+        }
+
+        return this.join(exits);
+    }
+
+    private forStatement(
+        stmt: ForStatement,
+        current: BasicBlock | undefined
+    ): BasicBlock | undefined {
+        if (stmt.vInitializationExpression) {
+            current = this.statement(stmt.vInitializationExpression, current);
+        }
+
+        const header = this.makeBlock();
+
+        if (current) {
+            this.connect(current, header);
+        }
+
+        const conditionEnd = stmt.vCondition ? this.expression(stmt.vCondition, header) : header;
+
+        conditionEnd.nodes.push(stmt);
+
+        const body = this.makeBlock();
+
+        this.connect(conditionEnd, body, stmt.vCondition ? CFGEdgeKind.True : CFGEdgeKind.Normal);
+
+        const [bodyEnd, loop] = this.loopBody(stmt.vBody, body);
+        const latches: PendingEdge[] = [[bodyEnd, CFGEdgeKind.Normal], ...loop.continues];
+
+        if (stmt.vLoopExpression) {
+            const loopExpression = this.join(latches);
+
+            latches.length = 0;
+
+            if (loopExpression) {
+                latches.push([
+                    this.statement(stmt.vLoopExpression, loopExpression),
+                    CFGEdgeKind.Normal
+                ]);
+            }
+        }
+
+        for (const [from, kind] of latches) {
+            if (from) {
+                this.connect(from, header, kind);
+            }
+        }
+
+        const exits: PendingEdge[] = stmt.vCondition ? [[conditionEnd, CFGEdgeKind.False]] : [];
+
+        return this.join([...exits, ...loop.breaks]);
+    }
+
+    private tryStatement(
+        stmt: TryStatement,
+        current: BasicBlock | undefined
+    ): BasicBlock | undefined {
+        const callEnd = this.expression(stmt.vExternalCall, this.ensure(current));
+
+        callEnd.nodes.push(stmt);
+
+        const ends: PendingEdge[] = [];
+
+        let catchesAll = false;
+
+        stmt.vClauses.forEach((clause, i) => {
+            const block = this.makeBlock();
+
+            this.connect(callEnd, block, i === 0 ? CFGEdgeKind.TrySuccess : CFGEdgeKind.TryCatch);
+
+            block.nodes.push(clause);
+
+            ends.push([this.statement(clause.vBlock, block), CFGEdgeKind.Normal]);
+
+            if (i > 0 && clause.errorName === "") {
+                catchesAll = true;
+            }
+        });
+
+        /**
+         * Errors, that are not matched by any of the catch clauses, are propagated.
+         */
+        if (!catchesAll) {
+            this.connect(callEnd, this.revert, CFGEdgeKind.Revert);
+        }
+
+        return this.join(ends);
+    }
+}
+
+/**
+ * Builds control-flow graph for the body of the function or modifier.
+ */
+export function buildCFG(
+    root: FunctionDefinition | ModifierDefinition,
+    options: CFGOptions = {}
+): CFG {
+    return new CFGBuilder(root, options).build();
+}
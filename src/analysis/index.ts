@@ -0,0 +1,7 @@
+export * from "./abi";
+export * from "./call_graph";
+export * from "./cfg";
+export * from "./selectors";
+export * from "./storage_layout";
+export * from "./upgrade_safety";
+export * from "./verification";
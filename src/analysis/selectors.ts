@@ -0,0 +1,293 @@
+import {
+    ContractDefinition,
+    ContractKind,
+    FunctionDefinition,
+    FunctionKind,
+    FunctionVisibility,
+    SourceUnit,
+    StateVariableVisibility,
+    VariableDeclaration
+} from "../ast";
+import { CompilationOutput } from "../compile/constants";
+import { getContractOutput, SolcOutput } from "../compile/output";
+import { getABIEncoderVersion } from "../types";
+import { ABIEncoderVersion } from "../types/abi";
+
+/**
+ * Compilation outputs, that are required by `checkSelectors()`
+ */
+export const SelectorCheckOutputs = [
+    CompilationOutput.AST,
+    CompilationOutput.ABI,
+    CompilationOutput.EVM_METHODIDENTIFIERS
+];
+
+export enum SelectorMismatchKind {
+    /**
+     * Signature is reported by the compiler, but with the different selector
+     */
+    Selector = "selector",
+
+    /**
+     * Computed signature is not reported by the compiler
+     */
+    Signature = "signature",
+
+    /**
+     * Signature, reported by the compiler, does not match any function or getter
+     */
+    Missing = "missing",
+
+    /**
+     * Interface id differs from the one, that is composed of the compiler selectors
+     */
+    InterfaceId = "interface_id"
+}
+
+export interface SelectorMismatch {
+    kind: SelectorMismatchKind;
+    message: string;
+
+    /**
+     * Function or public state variable, which selector is computed.
+     * Is the contract for `Missing` and `InterfaceId` mismatches.
+     */
+    node: FunctionDefinition | VariableDeclaration | ContractDefinition;
+
+    contract: ContractDefinition;
+    encoderVersion: ABIEncoderVersion;
+
+    /**
+     * Computed signature (or the signature of the compiler for `Missing` mismatches)
+     */
+    signature: string;
+
+    /**
+     * Signature of the compiler, that is the likely counterpart of the computed one
+     * (the only unmatched signature with the same name)
+     */
+    expectedSignature?: string;
+
+    /**
+     * Computed selector (or interface id)
+     */
+    computed?: string;
+
+    /**
+     * Selector (or interface id), composed from the compiler output
+     */
+    expected?: string;
+}
+
+type InterfaceMember = FunctionDefinition | VariableDeclaration;
+
+function getSignature(member: InterfaceMember, encoderVersion: ABIEncoderVersion): string {
+    return member instanceof FunctionDefinition
+        ? member.canonicalSignature(encoderVersion)
+        : member.getterCanonicalSignature(encoderVersion);
+}
+
+function getSelector(member: InterfaceMember, encoderVersion: ABIEncoderVersion): string {
+    return member instanceof FunctionDefinition
+        ? member.canonicalSignatureHash(encoderVersion)
+        : member.getterCanonicalSignatureHash(encoderVersion);
+}
+
+function describeMember(member: InterfaceMember): string {
+    const scope = member.vScope as ContractDefinition;
+
+    return member instanceof FunctionDefinition
+        ? `function ${scope.name}.${member.name}`
+        : `getter of ${scope.name}.${member.name}`;
+}
+
+function isInterfaceFunction(fn: FunctionDefinition): boolean {
+    return (
+        fn.kind === FunctionKind.Function &&
+        (fn.visibility === FunctionVisibility.Public ||
+            fn.visibility === FunctionVisibility.External)
+    );
+}
+
+/**
+ * Public and external functions and public state variable getters of the `contract`
+ * and its bases by computed signatures. Overridden members are omitted.
+ */
+function getInterfaceMembers(
+    contract: ContractDefinition,
+    encoderVersion: ABIEncoderVersion
+): Map<string, InterfaceMember> {
+    const result = new Map<string, InterfaceMember>();
+
+    for (const base of contract.vLinearizedBaseContracts) {
+        const members: InterfaceMember[] = [
+            ...base.vFunctions.filter(isInterfaceFunction),
+            ...base.vStateVariables.filter(
+                (decl) => decl.visibility === StateVariableVisibility.Public
+            )
+        ];
+
+        for (const member of members) {
+            const signature = getSignature(member, encoderVersion);
+
+            if (!result.has(signature)) {
+                result.set(signature, member);
+            }
+        }
+    }
+
+    return result;
+}
+
+function getName(signature: string): string {
+    return signature.slice(0, signature.indexOf("("));
+}
+
+function checkContract(
+    contract: ContractDefinition,
+    identifiers: { [signature: string]: string },
+    encoderVersion: ABIEncoderVersion
+): SelectorMismatch[] {
+    const result: SelectorMismatch[] = [];
+    const members = getInterfaceMembers(contract, encoderVersion);
+    const unmatched = new Set(Object.keys(identifiers).filter((sig) => !members.has(sig)));
+
+    for (const [signature, member] of members) {
+        const computed = getSelector(member, encoderVersion);
+        const expected = identifiers[signature];
+        const description = describeMember(member);
+
+        if (expected === undefined) {
+            const candidates = [...unmatched].filter(
+                (candidate) => getName(candidate) === member.name
+            );
+
+            const mismatch: SelectorMismatch = {
+                kind: SelectorMismatchKind.Signature,
+                message: `Signature ${signature} of ${description} is not reported by the compiler for ${contract.name}`,
+                node: member,
+                contract,
+                encoderVersion,
+                signature,
+                computed
+            };
+
+            if (candidates.length === 1) {
+                const [candidate] = candidates;
+
+                mismatch.expectedSignature = candidate;
+                mismatch.expected = identifiers[candidate];
+                mismatch.message += ` (compiler reports ${candidate})`;
+
+                unmatched.delete(candidate);
+            }
+
+            result.push(mismatch);
+        } else if (computed !== expected) {
+            result.push({
+                kind: SelectorMismatchKind.Selector,
+                message: `Selector of ${signature} of ${description} is ${computed} instead of ${expected} for ${contract.name}`,
+                node: member,
+                contract,
+                encoderVersion,
+                signature,
+                computed,
+                expected
+            });
+        }
+    }
+
+    for (const signature of unmatched) {
+        result.push({
+            kind: SelectorMismatchKind.Missing,
+            message: `Signature ${signature} (${identifiers[signature]}), reported by the compiler for ${contract.name}, does not match any function or getter`,
+            node: contract,
+            contract,
+            encoderVersion,
+            signature,
+            expected: identifiers[signature]
+        });
+    }
+
+    /**
+     * Interface id is composed only of the own functions of the interface (without inherited ones)
+     */
+    if (contract.kind === ContractKind.Interface) {
+        const computed = contract.interfaceId(encoderVersion);
+        const selectors: string[] = [];
+
+        for (const fn of contract.vFunctions) {
+            const expected = identifiers[fn.canonicalSignature(encoderVersion)];
+
+            /**
+             * Functions, that are not reported by the compiler, are already mismatches
+             */
+            if (expected === undefined) {
+                return result;
+            }
+
+            selectors.push(expected);
+        }
+
+        const expected = selectors
+            .map((selector) => BigInt("0x" + selector))
+            .reduce((a, b) => a ^ b, BigInt(0))
+            .toString(16)
+            .padStart(8, "0");
+
+        if (computed !== expected) {
+            result.push({
+                kind: SelectorMismatchKind.InterfaceId,
+                message: `Interface id of ${contract.name} is ${computed} instead of ${expected}`,
+                node: contract,
+                contract,
+                encoderVersion,
+                signature: contract.name,
+                computed,
+                expected
+            });
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Compares selectors, that are computed for public and external functions and public getters
+ * of all contracts of the `units`, with the `evm.methodIdentifiers` of the compiler output `data`.
+ * Selectors are computed with the ABI encoder version of the `units` (see `getABIEncoderVersion()`).
+ *
+ * The `data` is expected to contain `SelectorCheckOutputs`.
+ * Contracts without compiler output are skipped.
+ */
+export function checkSelectors(
+    units: Iterable<SourceUnit>,
+    data: SolcOutput,
+    compilerVersion: string
+): SelectorMismatch[] {
+    const sourceUnits = [...units];
+    const encoderVersion = getABIEncoderVersion(sourceUnits, compilerVersion);
+    const result: SelectorMismatch[] = [];
+
+    for (const unit of sourceUnits) {
+        for (const contract of unit.vContracts) {
+            const output = getContractOutput(data, contract);
+
+            if (output === undefined || output.abi === undefined) {
+                continue;
+            }
+
+            const identifiers = output.evm && output.evm.methodIdentifiers;
+
+            if (identifiers === undefined) {
+                throw new Error(
+                    `Compiler output for ${contract.name} has no "${CompilationOutput.EVM_METHODIDENTIFIERS}"`
+                );
+            }
+
+            result.push(...checkContract(contract, identifiers, encoderVersion));
+        }
+    }
+
+    return result;
+}
@@ -0,0 +1,384 @@
+import {
+    ContractDefinition,
+    EnumDefinition,
+    FunctionVisibility,
+    Mutability,
+    StructDefinition,
+    UserDefinedValueTypeDefinition,
+    VariableDeclaration
+} from "../ast";
+import { assert } from "../misc";
+import {
+    AddressType,
+    ArrayType,
+    BoolType,
+    BytesType,
+    elementaryTypeNameToTypeNode,
+    enumToIntType,
+    FixedBytesType,
+    FunctionType,
+    generalizeType,
+    IntType,
+    MappingType,
+    PointerType,
+    StringType,
+    TypeNode,
+    typeNameToTypeNode,
+    UserDefinedType
+} from "../types";
+
+/**
+ * Entry of the `storage` list (or of the struct `members` list)
+ * of the solc `storageLayout` output.
+ */
+export interface StorageLayoutEntry {
+    astId: number;
+    contract: string;
+    label: string;
+    offset: number;
+    slot: string;
+    type: string;
+}
+
+export type StorageEncoding = "inplace" | "mapping" | "dynamic_array" | "bytes";
+
+export interface StorageLayoutType {
+    encoding: StorageEncoding;
+    label: string;
+    numberOfBytes: string;
+    base?: string;
+    key?: string;
+    value?: string;
+    members?: StorageLayoutEntry[];
+}
+
+/**
+ * Storage layout in the same format as solc `storageLayout` output
+ * (`CompilationOutput.STORAGE_LAYOUT`).
+ */
+export interface StorageLayout {
+    storage: StorageLayoutEntry[];
+    types: { [typeId: string]: StorageLayoutType } | null;
+}
+
+const SLOT_SIZE = 32;
+
+/**
+ * Returns `true` for state variables, that occupy storage
+ * (constants and immutables do not).
+ */
+export function isStorageVariable(decl: VariableDeclaration): boolean {
+    return decl.stateVariable && !decl.constant && decl.mutability === Mutability.Mutable;
+}
+
+function getVariableType(decl: VariableDeclaration): TypeNode {
+    assert(decl.vType !== undefined, "Expected {0} to have type", decl);
+
+    return typeNameToTypeNode(decl.vType);
+}
+
+/**
+ * Solc omits data locations in labels of the types
+ */
+function getTypeLabel(type: TypeNode): string {
+    if (type instanceof FunctionType) {
+        const generalize = (t: TypeNode) => generalizeType(t)[0];
+
+        return new FunctionType(
+            undefined,
+            type.parameters.map(generalize),
+            type.returns.map(generalize),
+            type.visibility,
+            type.mutability
+        ).pp();
+    }
+
+    return type.pp();
+}
+
+class StorageLayoutBuilder {
+    readonly types = new Map<string, StorageLayoutType>();
+
+    private contractName: string;
+
+    /**
+     * Cache of number of occupied slots for struct definitions
+     */
+    private structSlots = new Map<StructDefinition, bigint>();
+
+    constructor(contract: ContractDefinition) {
+        this.contractName = `${contract.vScope.sourceEntryKey}:${contract.name}`;
+    }
+
+    /**
+     * Assigns slots and offsets to values of the `types` in the order of appearance,
+     * following solc packing rules. Returns positions and the total number of occupied slots.
+     */
+    offsets(types: TypeNode[]): [Array<[bigint, number]>, bigint] {
+        const positions: Array<[bigint, number]> = [];
+
+        let slot = BigInt(0);
+        let offset = 0;
+
+        for (const type of types) {
+            const bytes = this.storageBytes(type);
+            const slots = this.storageSlots(type);
+
+            if (offset + bytes > SLOT_SIZE) {
+                slot++;
+                offset = 0;
+            }
+
+            positions.push([slot, offset]);
+
+            if (slots === BigInt(1) && offset + bytes <= SLOT_SIZE) {
+                offset += bytes;
+            } else {
+                slot += slots;
+                offset = 0;
+            }
+        }
+
+        if (offset > 0) {
+            slot++;
+        }
+
+        return [positions, slot];
+    }
+
+    layout(decls: readonly VariableDeclaration[]): StorageLayoutEntry[] {
+        const types = decls.map(getVariableType);
+        const [positions] = this.offsets(types);
+
+        return decls.map((decl, i) => {
+            const [slot, offset] = positions[i];
+
+            return {
+                astId: decl.id,
+                contract: this.contractName,
+                label: decl.name,
+                offset,
+                slot: slot.toString(),
+                type: this.register(types[i])
+            };
+        });
+    }
+
+    /**
+     * Number of bytes, occupied by the value of the `type` in the slot.
+     * Values of types, that span over multiple slots, always start a new slot.
+     */
+    storageBytes(type: TypeNode): number {
+        if (type instanceof IntType) {
+            return type.nBits / 8;
+        }
+
+        if (type instanceof BoolType) {
+            return 1;
+        }
+
+        if (type instanceof AddressType) {
+            return 20;
+        }
+
+        if (type instanceof FixedBytesType) {
+            return type.size;
+        }
+
+        if (type instanceof FunctionType) {
+            return type.visibility === FunctionVisibility.External ? 24 : 8;
+        }
+
+        if (type instanceof UserDefinedType) {
+            const def = type.definition;
+
+            if (def instanceof ContractDefinition) {
+                return 20;
+            }
+
+            if (def instanceof EnumDefinition) {
+                return enumToIntType(def).nBits / 8;
+            }
+
+            if (def instanceof UserDefinedValueTypeDefinition) {
+                return this.storageBytes(elementaryTypeNameToTypeNode(def.underlyingType.name));
+            }
+        }
+
+        return SLOT_SIZE;
+    }
+
+    /**
+     * Number of slots, occupied by the value of the `type`
+     */
+    storageSlots(type: TypeNode): bigint {
+        if (type instanceof ArrayType && type.size !== undefined) {
+            const elementBytes = this.storageBytes(type.elementT);
+
+            if (elementBytes <= 16) {
+                const perSlot = BigInt(Math.floor(SLOT_SIZE / elementBytes));
+
+                return (type.size + perSlot - BigInt(1)) / perSlot;
+            }
+
+            return type.size * this.storageSlots(type.elementT);
+        }
+
+        if (type instanceof UserDefinedType && type.definition instanceof StructDefinition) {
+            const def = type.definition;
+            const cached = this.structSlots.get(def);
+
+            if (cached !== undefined) {
+                return cached;
+            }
+
+            const [, slots] = this.offsets(def.vMembers.map(getVariableType));
+            const result = slots > BigInt(0) ? slots : BigInt(1);
+
+            this.structSlots.set(def, result);
+
+            return result;
+        }
+
+        return BigInt(1);
+    }
+
+    /**
+     * Computes solc type identifier of the `type`
+     */
+    typeId(type: TypeNode, location = "storage"): string {
+        if (type instanceof PointerType) {
+            return this.typeId(type.to, `${type.location}_ptr`);
+        }
+
+        if (type instanceof AddressType) {
+            return type.payable ? "t_address_payable" : "t_address";
+        }
+
+        if (type instanceof IntType || type instanceof BoolType || type instanceof FixedBytesType) {
+            return `t_${type.pp()}`;
+        }
+
+        if (type instanceof BytesType || type instanceof StringType) {
+            return `t_${type.pp()}_${location}`;
+        }
+
+        if (type instanceof ArrayType) {
+            const size = type.size === undefined ? "dyn" : type.size.toString();
+
+            return `t_array(${this.typeId(type.elementT, location)})${size}_${location}`;
+        }
+
+        if (type instanceof MappingType) {
+            /**
+             * Mapping keys of reference types are memory pointers
+             */
+            return `t_mapping(${this.typeId(type.keyType, "memory_ptr")},${this.typeId(
+                type.valueType,
+                location
+            )})`;
+        }
+
+        if (type instanceof FunctionType) {
+            const args = type.parameters.map((t) => this.typeId(t)).join(",");
+            const rets = type.returns.map((t) => this.typeId(t)).join(",");
+
+            return `t_function_${type.visibility}_${type.mutability}(${args})returns(${rets})`;
+        }
+
+        if (type instanceof UserDefinedType) {
+            const def = type.definition;
+            const suffix = `(${def.name})${def.id}`;
+
+            if (def instanceof StructDefinition) {
+                return `t_struct${suffix}_${location}`;
+            }
+
+            if (def instanceof EnumDefinition) {
+                return `t_enum${suffix}`;
+            }
+
+            if (def instanceof ContractDefinition) {
+                return `t_contract${suffix}`;
+            }
+
+            return `t_userDefinedValueType${suffix}`;
+        }
+
+        throw new Error(`Unable to compute storage type identifier for ${type.pp()}`);
+    }
+
+    /**
+     * Adds description of the `type` (and all of its nested types) to the `types` map.
+     * Returns type identifier.
+     */
+    register(type: TypeNode, location = "storage"): string {
+        const id = this.typeId(type, location);
+
+        if (this.types.has(id)) {
+            return id;
+        }
+
+        const numberOfBytes = (
+            BigInt(this.storageBytes(type)) * this.storageSlots(type)
+        ).toString();
+
+        const info: StorageLayoutType = {
+            encoding: "inplace",
+            label: getTypeLabel(type),
+            numberOfBytes
+        };
+
+        /**
+         * Register description prior to the nested types to handle recursive structs
+         */
+        this.types.set(id, info);
+
+        if (type instanceof ArrayType) {
+            info.base = this.register(type.elementT);
+
+            if (type.size === undefined) {
+                info.encoding = "dynamic_array";
+            }
+        } else if (type instanceof MappingType) {
+            info.encoding = "mapping";
+            info.key = this.register(type.keyType, "memory_ptr");
+            info.value = this.register(type.valueType);
+        } else if (type instanceof BytesType || type instanceof StringType) {
+            info.encoding = "bytes";
+        } else if (type instanceof UserDefinedType && type.definition instanceof StructDefinition) {
+            info.members = this.layout(type.definition.vMembers);
+        }
+
+        return id;
+    }
+}
+
+/**
+ * Computes storage layout of the `contract` from the AST,
+ * walking the state variables of linearized base contracts from the most base one.
+ *
+ * The result has the same format as solc `storageLayout` output.
+ */
+export function getStorageLayout(contract: ContractDefinition): StorageLayout {
+    const builder = new StorageLayoutBuilder(contract);
+    const decls: VariableDeclaration[] = [];
+
+    for (const base of [...contract.vLinearizedBaseContracts].reverse()) {
+        decls.push(...base.vStateVariables.filter(isStorageVariable));
+    }
+
+    const storage = builder.layout(decls);
+
+    if (builder.types.size === 0) {
+        return { storage, types: null };
+    }
+
+    const types: { [typeId: string]: StorageLayoutType } = {};
+
+    for (const id of [...builder.types.keys()].sort()) {
+        types[id] = builder.types.get(id) as StorageLayoutType;
+    }
+
+    return { storage, types };
+}
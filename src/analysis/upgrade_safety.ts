@@ -0,0 +1,359 @@
+import { ContractDefinition, VariableDeclaration } from "../ast";
+import { Coordinates, Location } from "../misc";
+import { getStorageLayout, StorageLayoutEntry, StorageLayoutType } from "./storage_layout";
+
+export enum StorageIssueKind {
+    Removed = "removed",
+    Reordered = "reordered",
+    TypeChanged = "type_changed",
+    BaseInserted = "base_inserted",
+    GapShrunk = "gap_shrunk",
+    GapGrown = "gap_grown"
+}
+
+/**
+ * State variable declaration of one of the contract versions, that is involved into the issue
+ */
+export interface StorageIssueSide {
+    declaration: VariableDeclaration;
+    location: Location;
+    coordinates: Coordinates;
+    slot: string;
+    offset: number;
+    type: string;
+}
+
+export interface StorageIssue {
+    kind: StorageIssueKind;
+    message: string;
+
+    /**
+     * Variable of the previous version of the contract
+     */
+    old: StorageIssueSide;
+
+    /**
+     * Matching variable of the new version of the contract.
+     * Is `undefined` when variable is removed.
+     */
+    new?: StorageIssueSide;
+}
+
+type TypeMap = { [typeId: string]: StorageLayoutType };
+
+/**
+ * Prefix of names of the reserved storage gap variables (e.g. `uint256[50] __gap`)
+ */
+const GAP_PREFIX = "__gap";
+
+interface LayoutInfo {
+    contract: ContractDefinition;
+    types: TypeMap;
+    files?: Map<string, string>;
+}
+
+function getDeclaration(info: LayoutInfo, entry: StorageLayoutEntry): VariableDeclaration {
+    return info.contract.requiredContext.locate(entry.astId) as VariableDeclaration;
+}
+
+/**
+ * Key to match contracts across versions: contracts are identified
+ * by the declaring source unit and by their name, as bases with the same name
+ * may be declared in different units.
+ *
+ * The unit of the checked contract itself is not named,
+ * so both versions of it may reside in different files.
+ */
+function getContractKey(info: LayoutInfo, contract: ContractDefinition): string {
+    const unit = contract.vScope;
+    const unitKey = unit === info.contract.vScope ? "" : unit.sourceEntryKey;
+
+    return `${unitKey}:${contract.name}`;
+}
+
+/**
+ * Key to match state variables across versions: variables are identified
+ * by the key of the declaring contract and by their own name.
+ */
+function getEntryKey(info: LayoutInfo, entry: StorageLayoutEntry): string {
+    const decl = getDeclaration(info, entry);
+
+    return `${getContractKey(info, decl.vScope as ContractDefinition)}.${decl.name}`;
+}
+
+/**
+ * Name of the state variable to use in messages (e.g. `Storage.balances`)
+ */
+function getEntryName(info: LayoutInfo, entry: StorageLayoutEntry): string {
+    const decl = getDeclaration(info, entry);
+
+    return `${(decl.vScope as ContractDefinition).name}.${decl.name}`;
+}
+
+function getSlots(types: TypeMap, entry: StorageLayoutEntry): bigint {
+    const numberOfBytes = BigInt(types[entry.type].numberOfBytes);
+
+    return (numberOfBytes + BigInt(31)) / BigInt(32);
+}
+
+function makeSide(info: LayoutInfo, entry: StorageLayoutEntry): StorageIssueSide {
+    const declaration = getDeclaration(info, entry);
+    const location = Location.createForNode(declaration);
+    const content = info.files ? info.files.get(location.fileName) : undefined;
+
+    return {
+        declaration,
+        location,
+        coordinates: location.getCoordinates(content),
+        slot: entry.slot,
+        offset: entry.offset,
+        type: entry.type
+    };
+}
+
+/**
+ * Checks that values of types `oldId` and `newId` have the same storage representation.
+ * Type identifiers are not compared directly, as they include AST ids,
+ * that differ between compilations.
+ */
+function isCompatibleType(
+    oldTypes: TypeMap,
+    oldId: string,
+    newTypes: TypeMap,
+    newId: string,
+    visited = new Set<string>()
+): boolean {
+    const pair = `${oldId}|${newId}`;
+
+    if (visited.has(pair)) {
+        return true;
+    }
+
+    visited.add(pair);
+
+    const oldType = oldTypes[oldId];
+    const newType = newTypes[newId];
+
+    if (oldType.encoding !== newType.encoding || oldType.numberOfBytes !== newType.numberOfBytes) {
+        return false;
+    }
+
+    const nested: Array<[string | undefined, string | undefined]> = [
+        [oldType.base, newType.base],
+        [oldType.key, newType.key],
+        [oldType.value, newType.value]
+    ];
+
+    for (const [oldNested, newNested] of nested) {
+        if (oldNested === undefined && newNested === undefined) {
+            continue;
+        }
+
+        if (
+            oldNested === undefined ||
+            newNested === undefined ||
+            !isCompatibleType(oldTypes, oldNested, newTypes, newNested, visited)
+        ) {
+            return false;
+        }
+    }
+
+    const oldMembers = oldType.members === undefined ? [] : oldType.members;
+    const newMembers = newType.members === undefined ? [] : newType.members;
+
+    if (oldMembers.length !== newMembers.length) {
+        return false;
+    }
+
+    return oldMembers.every((oldMember, i) => {
+        const newMember = newMembers[i];
+
+        return (
+            oldMember.slot === newMember.slot &&
+            oldMember.offset === newMember.offset &&
+            isCompatibleType(oldTypes, oldMember.type, newTypes, newMember.type, visited)
+        );
+    });
+}
+
+/**
+ * Returns names of base contracts of the new version, that are inserted
+ * before the `scope` contract in the storage order (and therefore may shift its variables).
+ */
+function getInsertedBases(
+    oldInfo: LayoutInfo,
+    newInfo: LayoutInfo,
+    scope: ContractDefinition
+): string[] {
+    const oldKeys = new Set(
+        oldInfo.contract.vLinearizedBaseContracts.map((base) => getContractKey(oldInfo, base))
+    );
+
+    const result: string[] = [];
+
+    for (const base of [...newInfo.contract.vLinearizedBaseContracts].reverse()) {
+        if (base === scope) {
+            break;
+        }
+
+        if (!oldKeys.has(getContractKey(newInfo, base))) {
+            result.push(base.name);
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Compares storage layouts of the two versions of the contract
+ * and reports state variables, which storage is not preserved by the new version.
+ *
+ * Variables are matched by the declaring contract (its source unit and name) and by own name.
+ * Renamed variables, new variables, appended after the existing ones,
+ * and storage gaps (`__gap` variables), that shrink to free space for the new variables,
+ * are considered safe. Gaps, that grow, are reported as they overlap the other variables.
+ *
+ * @param oldFiles Source contents of the previous version, used to compute coordinates
+ * @param newFiles Source contents of the new version, used to compute coordinates
+ */
+export function checkStorageUpgrade(
+    oldContract: ContractDefinition,
+    newContract: ContractDefinition,
+    oldFiles?: Map<string, string>,
+    newFiles?: Map<string, string>
+): StorageIssue[] {
+    const oldLayout = getStorageLayout(oldContract);
+    const newLayout = getStorageLayout(newContract);
+
+    const oldInfo: LayoutInfo = {
+        contract: oldContract,
+        types: oldLayout.types === null ? {} : oldLayout.types,
+        files: oldFiles
+    };
+
+    const newInfo: LayoutInfo = {
+        contract: newContract,
+        types: newLayout.types === null ? {} : newLayout.types,
+        files: newFiles
+    };
+
+    const newEntries = new Map<string, StorageLayoutEntry>();
+
+    for (const entry of newLayout.storage) {
+        newEntries.set(getEntryKey(newInfo, entry), entry);
+    }
+
+    const issues: StorageIssue[] = [];
+
+    for (const oldEntry of oldLayout.storage) {
+        const newEntry = newEntries.get(getEntryKey(oldInfo, oldEntry));
+        const name = getEntryName(oldInfo, oldEntry);
+
+        if (newEntry === undefined) {
+            /**
+             * Consider variable to be renamed, if other variable of compatible type
+             * takes exactly the same position.
+             */
+            const renamed = newLayout.storage.find(
+                (candidate) =>
+                    candidate.slot === oldEntry.slot &&
+                    candidate.offset === oldEntry.offset &&
+                    !oldLayout.storage.some(
+                        (other) => getEntryKey(oldInfo, other) === getEntryKey(newInfo, candidate)
+                    ) &&
+                    isCompatibleType(oldInfo.types, oldEntry.type, newInfo.types, candidate.type)
+            );
+
+            if (renamed === undefined) {
+                issues.push({
+                    kind: StorageIssueKind.Removed,
+                    message: `State variable ${name} is removed`,
+                    old: makeSide(oldInfo, oldEntry)
+                });
+            }
+
+            continue;
+        }
+
+        const oldSide = makeSide(oldInfo, oldEntry);
+        const newSide = makeSide(newInfo, newEntry);
+
+        /**
+         * Gaps of the same size are checked as regular variables
+         */
+        if (oldEntry.label.startsWith(GAP_PREFIX)) {
+            const oldSlots = getSlots(oldInfo.types, oldEntry);
+            const newSlots = getSlots(newInfo.types, newEntry);
+            const oldEnd = BigInt(oldEntry.slot) + oldSlots;
+            const newEnd = BigInt(newEntry.slot) + newSlots;
+
+            if (newSlots > oldSlots) {
+                issues.push({
+                    kind: StorageIssueKind.GapGrown,
+                    message: `Storage gap ${name} grows from ${oldSlots} to ${newSlots} slots`,
+                    old: oldSide,
+                    new: newSide
+                });
+
+                continue;
+            }
+
+            if (newSlots < oldSlots) {
+                if (oldEnd !== newEnd) {
+                    issues.push({
+                        kind: StorageIssueKind.GapShrunk,
+                        message: `Storage gap ${name} ends at slot ${newEnd} instead of ${oldEnd}`,
+                        old: oldSide,
+                        new: newSide
+                    });
+                }
+
+                continue;
+            }
+        }
+
+        if (oldEntry.slot !== newEntry.slot || oldEntry.offset !== newEntry.offset) {
+            const inserted = getInsertedBases(
+                oldInfo,
+                newInfo,
+                newSide.declaration.vScope as ContractDefinition
+            );
+
+            const position = `slot ${newEntry.slot} offset ${newEntry.offset} instead of slot ${oldEntry.slot} offset ${oldEntry.offset}`;
+
+            issues.push(
+                inserted.length > 0
+                    ? {
+                          kind: StorageIssueKind.BaseInserted,
+                          message: `State variable ${name} is shifted to ${position} by inserted base contracts: ${inserted.join(
+                              ", "
+                          )}`,
+                          old: oldSide,
+                          new: newSide
+                      }
+                    : {
+                          kind: StorageIssueKind.Reordered,
+                          message: `State variable ${name} is moved to ${position}`,
+                          old: oldSide,
+                          new: newSide
+                      }
+            );
+
+            continue;
+        }
+
+        if (!isCompatibleType(oldInfo.types, oldEntry.type, newInfo.types, newEntry.type)) {
+            const oldLabel = oldInfo.types[oldEntry.type].label;
+            const newLabel = newInfo.types[newEntry.type].label;
+
+            issues.push({
+                kind: StorageIssueKind.TypeChanged,
+                message: `Type of state variable ${name} is changed from "${oldLabel}" to "${newLabel}"`,
+                old: oldSide,
+                new: newSide
+            });
+        }
+    }
+
+    return issues;
+}
@@ -0,0 +1,107 @@
+import { ContractDefinition, SourceUnit } from "../ast";
+import { CompilationOutput } from "../compile/constants";
+import { createCompilerInput, SolcInput } from "../compile/input";
+
+/**
+ * Compilation outputs, that are selected in the verification input
+ */
+export const VerificationOutputs = [
+    CompilationOutput.ABI,
+    CompilationOutput.METADATA,
+    CompilationOutput.EVM_BYTECODE_OBJECT,
+    CompilationOutput.EVM_DEPLOYEDBYTECODE_OBJECT
+];
+
+/**
+ * Compiler settings, that affect the bytecode (or the metadata, which hash is embedded into it),
+ * so they are preserved in the verification input. Other settings are omitted.
+ */
+export const VerificationSettings = [
+    "debug",
+    "evmVersion",
+    "libraries",
+    "metadata",
+    "optimizer",
+    "remappings",
+    "viaIR"
+];
+
+export interface VerificationInput {
+    compilerVersion: string;
+
+    /**
+     * Fully qualified name of the contract (`<source unit name>:<contract name>`)
+     */
+    contractName: string;
+
+    /**
+     * Standard JSON input of the compiler
+     */
+    input: SolcInput;
+}
+
+/**
+ * Returns the source unit of the `contract` and all units, it imports (directly or transitively)
+ */
+export function getImportClosure(contract: ContractDefinition): SourceUnit[] {
+    const result = new Set<SourceUnit>([contract.vScope]);
+
+    for (const unit of result) {
+        for (const directive of unit.vImportDirectives) {
+            result.add(directive.vSourceUnit);
+        }
+    }
+
+    return [...result];
+}
+
+/**
+ * Creates minimal standard JSON input to verify the `contract` (e.g. on block explorer).
+ * Input contains only sources of the import closure of the `contract`,
+ * so it compiles to the same bytecode, as the compiler metadata also includes only these sources.
+ *
+ * @param contract Contract to verify
+ * @param files Source contents by source unit names (as in `CompileResult.files`)
+ * @param compilerVersion Compiler version, the contract was compiled with
+ * @param remappings Path remappings, the contract was compiled with
+ * @param compilerSettings Compiler settings, the contract was compiled with.
+ *  Only the `VerificationSettings` are preserved.
+ */
+export function createVerificationInput(
+    contract: ContractDefinition,
+    files: Map<string, string>,
+    compilerVersion: string,
+    remappings: string[] = [],
+    compilerSettings?: any
+): VerificationInput {
+    const sources = new Map<string, string>();
+    const names = getImportClosure(contract)
+        .map((unit) => unit.sourceEntryKey)
+        .sort();
+
+    for (const name of names) {
+        const content = files.get(name);
+
+        if (content === undefined) {
+            throw new Error(`Unable to find contents of the source "${name}"`);
+        }
+
+        sources.set(name, content);
+    }
+
+    const settings: any = {};
+
+    if (compilerSettings !== undefined) {
+        for (const key of VerificationSettings) {
+            if (compilerSettings[key] !== undefined) {
+                settings[key] = compilerSettings[key];
+            }
+        }
+    }
+
+    return {
+        compilerVersion,
+        contractName: `${contract.vScope.sourceEntryKey}:${contract.name}`,
+        input: createCompilerInput(sources, remappings, VerificationOutputs, settings)
+    };
+}
@@ -63,6 +63,22 @@ import { Mapping } from "./implementation/type/mapping";
 import { TypeName } from "./implementation/type/type_name";
 import { UserDefinedTypeName } from "./implementation/type/user_defined_type_name";
 
+import { YulAssignment } from "./implementation/yul/yul_assignment";
+import { YulBlock } from "./implementation/yul/yul_block";
+import { YulBreak } from "./implementation/yul/yul_break";
+import { YulCase } from "./implementation/yul/yul_case";
+import { YulContinue } from "./implementation/yul/yul_continue";
+import { YulExpressionStatement } from "./implementation/yul/yul_expression_statement";
+import { YulForLoop } from "./implementation/yul/yul_for_loop";
+import { YulFunctionCall } from "./implementation/yul/yul_function_call";
+import { YulFunctionDefinition } from "./implementation/yul/yul_function_definition";
+import { YulIdentifier } from "./implementation/yul/yul_identifier";
+import { YulIf } from "./implementation/yul/yul_if";
+import { YulLeave } from "./implementation/yul/yul_leave";
+import { YulLiteral } from "./implementation/yul/yul_literal";
+import { YulSwitch } from "./implementation/yul/yul_switch";
+import { YulTypedName } from "./implementation/yul/yul_typed_name";
+import { YulVariableDeclaration } from "./implementation/yul/yul_variable_declaration";
 /**
  * When applied to following tuple type:
  * ```
@@ -532,6 +548,8 @@ const argExtractionMapping = new Map<ASTNodeConstructor<ASTNode>, (node: any) =>
             node.operations,
             node.yul,
             node.documentation,
+            node.flags,
+            node.evmVersion,
             node.raw
         ]
     ],
@@ -671,6 +689,126 @@ const argExtractionMapping = new Map<ASTNodeConstructor<ASTNode>, (node: any) =>
             node.path,
             node.raw
         ]
+    ],
+    [
+        YulAssignment,
+        (node: YulAssignment): Specific<ConstructorParameters<typeof YulAssignment>> => [
+            node.vVariableNames,
+            node.vValue,
+            node.raw
+        ]
+    ],
+    [
+        YulBlock,
+        (node: YulBlock): Specific<ConstructorParameters<typeof YulBlock>> => [
+            node.vStatements,
+            node.raw
+        ]
+    ],
+    [YulBreak, (node: YulBreak): Specific<ConstructorParameters<typeof YulBreak>> => [node.raw]],
+    [
+        YulCase,
+        (node: YulCase): Specific<ConstructorParameters<typeof YulCase>> => [
+            node.vValue,
+            node.vBody,
+            node.raw
+        ]
+    ],
+    [
+        YulContinue,
+        (node: YulContinue): Specific<ConstructorParameters<typeof YulContinue>> => [node.raw]
+    ],
+    [
+        YulExpressionStatement,
+        (
+            node: YulExpressionStatement
+        ): Specific<ConstructorParameters<typeof YulExpressionStatement>> => [
+            node.vExpression,
+            node.raw
+        ]
+    ],
+    [
+        YulForLoop,
+        (node: YulForLoop): Specific<ConstructorParameters<typeof YulForLoop>> => [
+            node.vPre,
+            node.vCondition,
+            node.vPost,
+            node.vBody,
+            node.raw
+        ]
+    ],
+    [
+        YulFunctionCall,
+        (node: YulFunctionCall): Specific<ConstructorParameters<typeof YulFunctionCall>> => [
+            node.vFunctionName,
+            node.vArguments,
+            node.raw
+        ]
+    ],
+    [
+        YulFunctionDefinition,
+        (
+            node: YulFunctionDefinition
+        ): Specific<ConstructorParameters<typeof YulFunctionDefinition>> => [
+            node.name,
+            node.vParameters,
+            node.vReturnVariables,
+            node.vBody,
+            node.raw
+        ]
+    ],
+    [
+        YulIdentifier,
+        (node: YulIdentifier): Specific<ConstructorParameters<typeof YulIdentifier>> => [
+            node.name,
+            node.referencedDeclaration,
+            node.raw
+        ]
+    ],
+    [
+        YulIf,
+        (node: YulIf): Specific<ConstructorParameters<typeof YulIf>> => [
+            node.vCondition,
+            node.vBody,
+            node.raw
+        ]
+    ],
+    [YulLeave, (node: YulLeave): Specific<ConstructorParameters<typeof YulLeave>> => [node.raw]],
+    [
+        YulLiteral,
+        (node: YulLiteral): Specific<ConstructorParameters<typeof YulLiteral>> => [
+            node.kind,
+            node.value,
+            node.hexValue,
+            node.typeName,
+            node.raw
+        ]
+    ],
+    [
+        YulSwitch,
+        (node: YulSwitch): Specific<ConstructorParameters<typeof YulSwitch>> => [
+            node.vExpression,
+            node.vCases,
+            node.raw
+        ]
+    ],
+    [
+        YulTypedName,
+        (node: YulTypedName): Specific<ConstructorParameters<typeof YulTypedName>> => [
+            node.name,
+            node.typeName,
+            node.raw
+        ]
+    ],
+    [
+        YulVariableDeclaration,
+        (
+            node: YulVariableDeclaration
+        ): Specific<ConstructorParameters<typeof YulVariableDeclaration>> => [
+            node.vVariables,
+            node.vValue,
+            node.raw
+        ]
     ]
 ]);
 
@@ -1011,6 +1149,82 @@ export class ASTNodeFactory {
         return this.make(UserDefinedTypeName, ...args);
     }
 
+    makeYulAssignment(
+        ...args: Specific<ConstructorParameters<typeof YulAssignment>>
+    ): YulAssignment {
+        return this.make(YulAssignment, ...args);
+    }
+
+    makeYulBlock(...args: Specific<ConstructorParameters<typeof YulBlock>>): YulBlock {
+        return this.make(YulBlock, ...args);
+    }
+
+    makeYulBreak(...args: Specific<ConstructorParameters<typeof YulBreak>>): YulBreak {
+        return this.make(YulBreak, ...args);
+    }
+
+    makeYulCase(...args: Specific<ConstructorParameters<typeof YulCase>>): YulCase {
+        return this.make(YulCase, ...args);
+    }
+
+    makeYulContinue(...args: Specific<ConstructorParameters<typeof YulContinue>>): YulContinue {
+        return this.make(YulContinue, ...args);
+    }
+
+    makeYulExpressionStatement(
+        ...args: Specific<ConstructorParameters<typeof YulExpressionStatement>>
+    ): YulExpressionStatement {
+        return this.make(YulExpressionStatement, ...args);
+    }
+
+    makeYulForLoop(...args: Specific<ConstructorParameters<typeof YulForLoop>>): YulForLoop {
+        return this.make(YulForLoop, ...args);
+    }
+
+    makeYulFunctionCall(
+        ...args: Specific<ConstructorParameters<typeof YulFunctionCall>>
+    ): YulFunctionCall {
+        return this.make(YulFunctionCall, ...args);
+    }
+
+    makeYulFunctionDefinition(
+        ...args: Specific<ConstructorParameters<typeof YulFunctionDefinition>>
+    ): YulFunctionDefinition {
+        return this.make(YulFunctionDefinition, ...args);
+    }
+
+    makeYulIdentifier(
+        ...args: Specific<ConstructorParameters<typeof YulIdentifier>>
+    ): YulIdentifier {
+        return this.make(YulIdentifier, ...args);
+    }
+
+    makeYulIf(...args: Specific<ConstructorParameters<typeof YulIf>>): YulIf {
+        return this.make(YulIf, ...args);
+    }
+
+    makeYulLeave(...args: Specific<ConstructorParameters<typeof YulLeave>>): YulLeave {
+        return this.make(YulLeave, ...args);
+    }
+
+    makeYulLiteral(...args: Specific<ConstructorParameters<typeof YulLiteral>>): YulLiteral {
+        return this.make(YulLiteral, ...args);
+    }
+
+    makeYulSwitch(...args: Specific<ConstructorParameters<typeof YulSwitch>>): YulSwitch {
+        return this.make(YulSwitch, ...args);
+    }
+
+    makeYulTypedName(...args: Specific<ConstructorParameters<typeof YulTypedName>>): YulTypedName {
+        return this.make(YulTypedName, ...args);
+    }
+
+    makeYulVariableDeclaration(
+        ...args: Specific<ConstructorParameters<typeof YulVariableDeclaration>>
+    ): YulVariableDeclaration {
+        return this.make(YulVariableDeclaration, ...args);
+    }
+
     makeNode(...args: Specific<ConstructorParameters<typeof ASTNode>>): ASTNode {
         return this.make(ASTNode, ...args);
     }
@@ -1144,7 +1358,8 @@ export class ASTNodeFactory {
         if (
             node instanceof Identifier ||
             node instanceof MemberAccess ||
-            node instanceof UserDefinedTypeName
+            node instanceof UserDefinedTypeName ||
+            node instanceof YulIdentifier
         ) {
             node.referencedDeclaration = patch(node.referencedDeclaration);
         }
@@ -39,6 +39,106 @@ export interface ASTReaderConfiguration {
 
 const contextIdSequence = sequence();
 
+/**
+ * Returns max of numeric `id` properties, that are found in raw compiler output data.
+ */
+function getMaxRawId(raw: any): number {
+    let max = 0;
+
+    if (raw instanceof Array) {
+        for (const element of raw) {
+            max = Math.max(max, getMaxRawId(element));
+        }
+    } else if (typeof raw === "object" && raw !== null) {
+        for (const [key, value] of Object.entries(raw)) {
+            if (key === "id" && typeof value === "number") {
+                max = Math.max(max, value);
+            } else if (typeof value === "object") {
+                max = Math.max(max, getMaxRawId(value));
+            }
+        }
+    }
+
+    return max;
+}
+
+/**
+ * Properties of raw AST nodes (of modern and legacy formats),
+ * that hold node ids or arrays of node ids.
+ */
+const rawIdProperties = new Set([
+    "id",
+    "referencedDeclaration",
+    "overloadedDeclarations",
+    "scope",
+    "sourceUnit",
+    "functionReturnParameters",
+    "linearizedBaseContracts",
+    "contractDependencies",
+    "usedErrors",
+    "usedEvents",
+    "baseFunctions",
+    "baseModifiers",
+    "superFunction",
+    "assignments",
+    "declaration"
+]);
+
+function shiftRawId(value: any, offset: number): any {
+    if (value instanceof Array) {
+        return value.map((element) => shiftRawId(element, offset));
+    }
+
+    /**
+     * Builtins (e.g. `msg` or `abi`) are referred by negative ids,
+     * that some compiler versions are printing as unsigned 32-bit integers.
+     * Such ids are kept as is.
+     */
+    return typeof value === "number" && value >= 0 && value < 0x80000000 ? value + offset : value;
+}
+
+/**
+ * Returns a copy of the raw compiler output data, where node ids
+ * and all references to them are shifted by `offset`.
+ *
+ * Allows to read outputs of different compilations into the same `ASTContext`
+ * without id collisions (e.g. by using `ASTContext.lastId` as an offset).
+ * Note that type identifiers in `typeDescriptions` are not updated.
+ */
+export function shiftRawIds(raw: any, offset: number): any {
+    if (raw instanceof Array) {
+        return raw.map((element) => shiftRawIds(element, offset));
+    }
+
+    if (typeof raw !== "object" || raw === null) {
+        return raw;
+    }
+
+    const result: any = {};
+
+    for (const [key, value] of Object.entries(raw)) {
+        if (rawIdProperties.has(key)) {
+            result[key] = shiftRawId(value, offset);
+        } else if (key === "exportedSymbols" && value instanceof Object) {
+            result[key] = {};
+
+            for (const [name, ids] of Object.entries(value)) {
+                result[key][name] = shiftRawId(ids, offset);
+            }
+        } else if (key === "internalFunctionIDs" && value instanceof Object) {
+            result[key] = {};
+
+            for (const [id, index] of Object.entries(value)) {
+                result[key][shiftRawId(Number(id), offset)] = index;
+            }
+        } else {
+            result[key] = shiftRawIds(value, offset);
+        }
+    }
+
+    return result;
+}
+
 export class ASTContext {
     /**
      * ID to distinct different contexts
@@ -169,11 +269,30 @@ export class ASTReader {
      */
     postprocessor: ASTPostprocessor;
 
+    /**
+     * Last id, that was generated for a node without an id in raw compiler output
+     */
+    private lastGeneratedId = 0;
+
     constructor(context = new ASTContext(), postprocessor = new ASTPostprocessor()) {
         this.context = context;
         this.postprocessor = postprocessor;
     }
 
+    /**
+     * Produces an unique id for a node, that has no id in raw compiler output
+     * (e.g. nodes of Yul AST). Generated ids are not colliding with ids
+     * of the nodes in the context and ids of the nodes in the data,
+     * that is currently processed by `read()`.
+     */
+    generateId(): number {
+        do {
+            this.lastGeneratedId++;
+        } while (this.context.map.has(this.lastGeneratedId));
+
+        return this.lastGeneratedId;
+    }
+
     /**
      * Takes a Solc-compiler JSON output data and reads it to produce
      * universal AST node tree.
@@ -190,6 +309,8 @@ export class ASTReader {
         const rootNodeTypeName = "SourceUnit";
         const result: SourceUnit[] = [];
 
+        this.lastGeneratedId = Math.max(this.lastGeneratedId, getMaxRawId(data.sources));
+
         for (const [key, content] of entries) {
             let ast;
 
@@ -40,6 +40,11 @@ export class SourceUnit extends ASTNodeWithChildren<ASTNode> {
      */
     exportedSymbols: Map<string, number>;
 
+    /**
+     * Version of the compiler, that produced the unit (if known)
+     */
+    compilerVersion?: string;
+
     constructor(
         id: number,
         src: string,
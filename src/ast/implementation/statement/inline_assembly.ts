@@ -1,26 +1,42 @@
+import { ASTNode } from "../../ast_node";
 import { StructuredDocumentation } from "../meta";
+import { YulBlock } from "../yul/yul_block";
 import { Statement } from "./statement";
 
-export interface YulNode {
-    nodeType: string;
-    src: string;
-
-    [name: string]: any;
-}
-
 export class InlineAssembly extends Statement {
     externalReferences: any[];
 
+    /**
+     * Assembly code string. Is present in ASTs, produced by Solidity prior to 0.6.0.
+     */
     operations?: string;
-    yul?: YulNode;
+
+    /**
+     * Root block of Yul AST. Is present in ASTs, produced by Solidity 0.6.0 and later.
+     */
+    yul?: YulBlock;
+
+    /**
+     * Flags of the assembly block (e.g. `"memory-safe"`).
+     * Is present in ASTs, produced by Solidity 0.8.13 and later.
+     */
+    flags?: string[];
+
+    /**
+     * EVM version, that the assembly block was analyzed against.
+     * Is present in ASTs, produced by Solidity 0.6.0 and later.
+     */
+    evmVersion?: string;
 
     constructor(
         id: number,
         src: string,
         externalReferences: any[],
         operations?: string,
-        yul?: YulNode,
+        yul?: YulBlock,
         documentation?: string | StructuredDocumentation,
+        flags?: string[],
+        evmVersion?: string,
         raw?: any
     ) {
         super(id, src, documentation, raw);
@@ -28,5 +44,13 @@ export class InlineAssembly extends Statement {
         this.externalReferences = externalReferences;
         this.operations = operations;
         this.yul = yul;
+        this.flags = flags;
+        this.evmVersion = evmVersion;
+
+        this.acceptChildren();
+    }
+
+    get children(): readonly ASTNode[] {
+        return this.pickNodes(this.yul);
     }
 }
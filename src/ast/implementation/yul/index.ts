@@ -0,0 +1,19 @@
+export * from "./yul_assignment";
+export * from "./yul_ast_node";
+export * from "./yul_block";
+export * from "./yul_break";
+export * from "./yul_case";
+export * from "./yul_continue";
+export * from "./yul_expression";
+export * from "./yul_expression_statement";
+export * from "./yul_for_loop";
+export * from "./yul_function_call";
+export * from "./yul_function_definition";
+export * from "./yul_identifier";
+export * from "./yul_if";
+export * from "./yul_leave";
+export * from "./yul_literal";
+export * from "./yul_statement";
+export * from "./yul_switch";
+export * from "./yul_typed_name";
+export * from "./yul_variable_declaration";
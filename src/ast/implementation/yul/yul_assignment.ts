@@ -0,0 +1,35 @@
+import { ASTNode } from "../../ast_node";
+import { YulExpression } from "./yul_expression";
+import { YulIdentifier } from "./yul_identifier";
+import { YulStatement } from "./yul_statement";
+
+export class YulAssignment extends YulStatement {
+    /**
+     * Assigned variables, e.g. `a` and `b` in `a, b := f()`
+     */
+    vVariableNames: YulIdentifier[];
+
+    /**
+     * Assigned value expression
+     */
+    vValue: YulExpression;
+
+    constructor(
+        id: number,
+        src: string,
+        variableNames: YulIdentifier[],
+        value: YulExpression,
+        raw?: any
+    ) {
+        super(id, src, raw);
+
+        this.vVariableNames = variableNames;
+        this.vValue = value;
+
+        this.acceptChildren();
+    }
+
+    get children(): readonly ASTNode[] {
+        return this.pickNodes(this.vVariableNames, this.vValue);
+    }
+}
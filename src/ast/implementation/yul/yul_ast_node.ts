@@ -0,0 +1,8 @@
+import { ASTNode, ASTNodeWithChildren } from "../../ast_node";
+
+/**
+ * Base class for the nodes of Yul AST, that is a content of `InlineAssembly`
+ */
+export class YulASTNode extends ASTNode {}
+
+export class YulASTNodeWithChildren<T extends ASTNode> extends ASTNodeWithChildren<T> {}
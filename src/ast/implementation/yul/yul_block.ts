@@ -0,0 +1,21 @@
+import { YulStatement, YulStatementWithChildren } from "./yul_statement";
+
+/**
+ * Yul block is a compound statement and it can hold other Yul statements
+ */
+export class YulBlock extends YulStatementWithChildren<YulStatement> {
+    constructor(id: number, src: string, statements: Iterable<YulStatement>, raw?: any) {
+        super(id, src, raw);
+
+        for (const statement of statements) {
+            this.appendChild(statement);
+        }
+    }
+
+    /**
+     * An array of the member statements
+     */
+    get vStatements(): YulStatement[] {
+        return this.ownChildren as YulStatement[];
+    }
+}
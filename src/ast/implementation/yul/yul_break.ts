@@ -0,0 +1,3 @@
+import { YulStatement } from "./yul_statement";
+
+export class YulBreak extends YulStatement {}
@@ -0,0 +1,36 @@
+import { ASTNode } from "../../ast_node";
+import { YulASTNode } from "./yul_ast_node";
+import { YulBlock } from "./yul_block";
+import { YulLiteral } from "./yul_literal";
+
+export class YulCase extends YulASTNode {
+    /**
+     * Literal value to match against or `default` for the default case
+     */
+    vValue: YulLiteral | "default";
+
+    /**
+     * Block that gets executed if the case is matched
+     */
+    vBody: YulBlock;
+
+    constructor(id: number, src: string, value: YulLiteral | "default", body: YulBlock, raw?: any) {
+        super(id, src, raw);
+
+        this.vValue = value;
+        this.vBody = body;
+
+        this.acceptChildren();
+    }
+
+    /**
+     * Is `true` for the `default` case of the switch statement
+     */
+    get isDefault(): boolean {
+        return this.vValue === "default";
+    }
+
+    get children(): readonly ASTNode[] {
+        return this.pickNodes(this.vValue, this.vBody);
+    }
+}
@@ -0,0 +1,3 @@
+import { YulASTNode } from "./yul_ast_node";
+
+export class YulExpression extends YulASTNode {}
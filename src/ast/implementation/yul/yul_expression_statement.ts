@@ -0,0 +1,22 @@
+import { ASTNode } from "../../ast_node";
+import { YulExpression } from "./yul_expression";
+import { YulStatement } from "./yul_statement";
+
+export class YulExpressionStatement extends YulStatement {
+    /**
+     * Expression, that is used as a statement
+     */
+    vExpression: YulExpression;
+
+    constructor(id: number, src: string, expression: YulExpression, raw?: any) {
+        super(id, src, raw);
+
+        this.vExpression = expression;
+
+        this.acceptChildren();
+    }
+
+    get children(): readonly ASTNode[] {
+        return this.pickNodes(this.vExpression);
+    }
+}
@@ -0,0 +1,49 @@
+import { ASTNode } from "../../ast_node";
+import { YulBlock } from "./yul_block";
+import { YulExpression } from "./yul_expression";
+import { YulStatement } from "./yul_statement";
+
+export class YulForLoop extends YulStatement {
+    /**
+     * Initialization block, that is executed once before the loop
+     */
+    vPre: YulBlock;
+
+    /**
+     * Continuation condition, e.g. `lt(i, 10)`
+     */
+    vCondition: YulExpression;
+
+    /**
+     * Post-iteration block, e.g. `{ i := add(i, 1) }`
+     */
+    vPost: YulBlock;
+
+    /**
+     * Block that gets executed if the condition is evaluated to non-zero value
+     */
+    vBody: YulBlock;
+
+    constructor(
+        id: number,
+        src: string,
+        pre: YulBlock,
+        condition: YulExpression,
+        post: YulBlock,
+        body: YulBlock,
+        raw?: any
+    ) {
+        super(id, src, raw);
+
+        this.vPre = pre;
+        this.vCondition = condition;
+        this.vPost = post;
+        this.vBody = body;
+
+        this.acceptChildren();
+    }
+
+    get children(): readonly ASTNode[] {
+        return this.pickNodes(this.vPre, this.vCondition, this.vPost, this.vBody);
+    }
+}
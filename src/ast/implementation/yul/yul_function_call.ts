@@ -0,0 +1,34 @@
+import { ASTNode } from "../../ast_node";
+import { YulExpression } from "./yul_expression";
+import { YulIdentifier } from "./yul_identifier";
+
+export class YulFunctionCall extends YulExpression {
+    /**
+     * Identifier of the called function (builtin or user-defined)
+     */
+    vFunctionName: YulIdentifier;
+
+    /**
+     * Call arguments, e.g array with `1` and `2` expressions in `add(1, 2)`
+     */
+    vArguments: YulExpression[];
+
+    constructor(
+        id: number,
+        src: string,
+        functionName: YulIdentifier,
+        args: YulExpression[],
+        raw?: any
+    ) {
+        super(id, src, raw);
+
+        this.vFunctionName = functionName;
+        this.vArguments = args;
+
+        this.acceptChildren();
+    }
+
+    get children(): readonly ASTNode[] {
+        return this.pickNodes(this.vFunctionName, this.vArguments);
+    }
+}
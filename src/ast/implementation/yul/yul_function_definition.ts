@@ -0,0 +1,49 @@
+import { ASTNode } from "../../ast_node";
+import { YulBlock } from "./yul_block";
+import { YulStatement } from "./yul_statement";
+import { YulTypedName } from "./yul_typed_name";
+
+export class YulFunctionDefinition extends YulStatement {
+    /**
+     * Identifier of the function
+     */
+    name: string;
+
+    /**
+     * Function parameters
+     */
+    vParameters: YulTypedName[];
+
+    /**
+     * Function return variables
+     */
+    vReturnVariables: YulTypedName[];
+
+    /**
+     * Function body block
+     */
+    vBody: YulBlock;
+
+    constructor(
+        id: number,
+        src: string,
+        name: string,
+        parameters: YulTypedName[],
+        returnVariables: YulTypedName[],
+        body: YulBlock,
+        raw?: any
+    ) {
+        super(id, src, raw);
+
+        this.name = name;
+        this.vParameters = parameters;
+        this.vReturnVariables = returnVariables;
+        this.vBody = body;
+
+        this.acceptChildren();
+    }
+
+    get children(): readonly ASTNode[] {
+        return this.pickNodes(this.vParameters, this.vReturnVariables, this.vBody);
+    }
+}
@@ -0,0 +1,29 @@
+import { ASTNode } from "../../ast_node";
+import { YulBlock } from "./yul_block";
+import { YulExpression } from "./yul_expression";
+import { YulStatement } from "./yul_statement";
+
+export class YulIf extends YulStatement {
+    /**
+     * Condition expression of the statement
+     */
+    vCondition: YulExpression;
+
+    /**
+     * Block that gets executed if condition is evaluated to non-zero value
+     */
+    vBody: YulBlock;
+
+    constructor(id: number, src: string, condition: YulExpression, body: YulBlock, raw?: any) {
+        super(id, src, raw);
+
+        this.vCondition = condition;
+        this.vBody = body;
+
+        this.acceptChildren();
+    }
+
+    get children(): readonly ASTNode[] {
+        return this.pickNodes(this.vCondition, this.vBody);
+    }
+}
@@ -0,0 +1,44 @@
+import { LiteralKind } from "../../constants";
+import { YulExpression } from "./yul_expression";
+
+export class YulLiteral extends YulExpression {
+    /**
+     * The type of literal: `number`, `string` or `bool`
+     */
+    kind: LiteralKind;
+
+    /**
+     * Value of the literal symbol.
+     *
+     * Could be `undefined` for string literals,
+     * that are not representable as a valid UTF-8 string.
+     */
+    value?: string;
+
+    /**
+     * Hexadecimal representation of value of the string literal symbol
+     */
+    hexValue?: string;
+
+    /**
+     * Yul type of the literal. Is empty string when not specified.
+     */
+    typeName: string;
+
+    constructor(
+        id: number,
+        src: string,
+        kind: LiteralKind,
+        value: string | undefined,
+        hexValue: string | undefined,
+        typeName: string,
+        raw?: any
+    ) {
+        super(id, src, raw);
+
+        this.kind = kind;
+        this.value = value;
+        this.hexValue = hexValue;
+        this.typeName = typeName;
+    }
+}
@@ -0,0 +1,6 @@
+import { ASTNode } from "../../ast_node";
+import { YulASTNode, YulASTNodeWithChildren } from "./yul_ast_node";
+
+export class YulStatement extends YulASTNode {}
+
+export class YulStatementWithChildren<T extends ASTNode> extends YulASTNodeWithChildren<T> {}
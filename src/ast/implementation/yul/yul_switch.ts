@@ -0,0 +1,29 @@
+import { ASTNode } from "../../ast_node";
+import { YulCase } from "./yul_case";
+import { YulExpression } from "./yul_expression";
+import { YulStatement } from "./yul_statement";
+
+export class YulSwitch extends YulStatement {
+    /**
+     * Expression, which value is matched against cases
+     */
+    vExpression: YulExpression;
+
+    /**
+     * An array of the `case` and `default` clauses
+     */
+    vCases: YulCase[];
+
+    constructor(id: number, src: string, expression: YulExpression, cases: YulCase[], raw?: any) {
+        super(id, src, raw);
+
+        this.vExpression = expression;
+        this.vCases = cases;
+
+        this.acceptChildren();
+    }
+
+    get children(): readonly ASTNode[] {
+        return this.pickNodes(this.vExpression, this.vCases);
+    }
+}
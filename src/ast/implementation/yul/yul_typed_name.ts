@@ -0,0 +1,20 @@
+import { YulASTNode } from "./yul_ast_node";
+
+export class YulTypedName extends YulASTNode {
+    /**
+     * Name of the declared variable or parameter
+     */
+    name: string;
+
+    /**
+     * Yul type of the declared variable or parameter. Is empty string when not specified.
+     */
+    typeName: string;
+
+    constructor(id: number, src: string, name: string, typeName: string, raw?: any) {
+        super(id, src, raw);
+
+        this.name = name;
+        this.typeName = typeName;
+    }
+}
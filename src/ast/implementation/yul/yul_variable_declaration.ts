@@ -0,0 +1,35 @@
+import { ASTNode } from "../../ast_node";
+import { YulExpression } from "./yul_expression";
+import { YulStatement } from "./yul_statement";
+import { YulTypedName } from "./yul_typed_name";
+
+export class YulVariableDeclaration extends YulStatement {
+    /**
+     * Declared variables, e.g. `a` and `b` in `let a, b := f()`
+     */
+    vVariables: YulTypedName[];
+
+    /**
+     * Initial value expression. Is `undefined` when not specified.
+     */
+    vValue?: YulExpression;
+
+    constructor(
+        id: number,
+        src: string,
+        variables: YulTypedName[],
+        value?: YulExpression,
+        raw?: any
+    ) {
+        super(id, src, raw);
+
+        this.vVariables = variables;
+        this.vValue = value;
+
+        this.acceptChildren();
+    }
+
+    get children(): readonly ASTNode[] {
+        return this.pickNodes(this.vVariables, this.vValue);
+    }
+}
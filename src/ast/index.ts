@@ -3,13 +3,16 @@ export * from "./implementation/expression";
 export * from "./implementation/meta";
 export * from "./implementation/statement";
 export * from "./implementation/type";
+export * from "./implementation/yul";
 export * from "./ast_node_factory";
 export * from "./ast_node_formatter";
 export * from "./ast_node";
 export * from "./ast_reader";
 export * from "./constants";
 export * from "./postprocessing";
+export * from "./serialization";
 export * from "./writing";
+export * from "./yul";
 export * from "./dispatch";
 export * from "./definitions";
 export * from "./utils";
@@ -1,5 +1,6 @@
 import { ASTReader, ASTReaderConfiguration } from "../ast_reader";
 import { InlineAssembly } from "../implementation/statement/inline_assembly";
+import { linkExternalReferences, readYulOperations } from "../yul/utils";
 import { LegacyNodeProcessor } from "./node_processor";
 
 export class LegacyInlineAssemblyProcessor extends LegacyNodeProcessor<InlineAssembly> {
@@ -16,10 +17,16 @@ export class LegacyInlineAssemblyProcessor extends LegacyNodeProcessor<InlineAss
 
         /**
          * Yul AST is absent in Solidity legacy AST.
-         * It is presented as code string in `operations` attribute instead.
+         * It is presented as code string in `operations` attribute instead,
+         * so it is parsed to get the same node structure as in modern AST.
          */
-        const yul = undefined;
+        const yul =
+            operations === undefined ? undefined : readYulOperations(reader, operations, src);
 
-        return [id, src, externalReferences, operations, yul, undefined, raw];
+        if (yul) {
+            linkExternalReferences(yul, externalReferences);
+        }
+
+        return [id, src, externalReferences, operations, yul, undefined, undefined, undefined, raw];
     }
 }
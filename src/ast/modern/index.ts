@@ -60,3 +60,17 @@ export * from "./using_for_directive_processor";
 export * from "./variable_declaration_processor";
 export * from "./variable_declaration_statement_processor";
 export * from "./while_statement_processor";
+export * from "./yul_assignment_processor";
+export * from "./yul_block_processor";
+export * from "./yul_case_processor";
+export * from "./yul_expression_statement_processor";
+export * from "./yul_for_loop_processor";
+export * from "./yul_function_call_processor";
+export * from "./yul_function_definition_processor";
+export * from "./yul_identifier_processor";
+export * from "./yul_if_processor";
+export * from "./yul_literal_processor";
+export * from "./yul_node_processor";
+export * from "./yul_switch_processor";
+export * from "./yul_typed_name_processor";
+export * from "./yul_variable_declaration_processor";
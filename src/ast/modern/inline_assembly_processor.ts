@@ -1,5 +1,7 @@
 import { ASTReader, ASTReaderConfiguration } from "../ast_reader";
-import { InlineAssembly, YulNode } from "../implementation/statement/inline_assembly";
+import { InlineAssembly } from "../implementation/statement/inline_assembly";
+import { YulBlock } from "../implementation/yul/yul_block";
+import { linkExternalReferences, readYulOperations } from "../yul/utils";
 import { ModernNodeProcessor } from "./node_processor";
 
 export class ModernInlineAssemblyProcessor extends ModernNodeProcessor<InlineAssembly> {
@@ -13,8 +15,32 @@ export class ModernInlineAssemblyProcessor extends ModernNodeProcessor<InlineAss
         const externalReferences: any[] = raw.externalReferences;
         const documentation: string | undefined = raw.documentation;
         const operations: string | undefined = raw.operations;
-        const yul: YulNode | undefined = raw.AST;
+        const flags: string[] | undefined = raw.flags;
+        const evmVersion: string | undefined = raw.evmVersion;
 
-        return [id, src, externalReferences, operations, yul, documentation, raw];
+        /**
+         * Compilers prior to 0.6.0 provide Yul code only as `operations` string
+         */
+        const yul = raw.AST
+            ? (reader.convert(raw.AST, config) as YulBlock)
+            : operations === undefined
+            ? undefined
+            : readYulOperations(reader, operations, src);
+
+        if (yul) {
+            linkExternalReferences(yul, externalReferences);
+        }
+
+        return [
+            id,
+            src,
+            externalReferences,
+            operations,
+            yul,
+            documentation,
+            flags,
+            evmVersion,
+            raw
+        ];
     }
 }
@@ -0,0 +1,20 @@
+import { ASTReader, ASTReaderConfiguration } from "../ast_reader";
+import { YulAssignment } from "../implementation/yul/yul_assignment";
+import { YulExpression } from "../implementation/yul/yul_expression";
+import { YulIdentifier } from "../implementation/yul/yul_identifier";
+import { ModernYulNodeProcessor } from "./yul_node_processor";
+
+export class ModernYulAssignmentProcessor extends ModernYulNodeProcessor<YulAssignment> {
+    process(
+        reader: ASTReader,
+        config: ASTReaderConfiguration,
+        raw: any
+    ): ConstructorParameters<typeof YulAssignment> {
+        const [id, src] = super.process(reader, config, raw);
+
+        const variableNames = reader.convertArray(raw.variableNames, config) as YulIdentifier[];
+        const value = reader.convert(raw.value, config) as YulExpression;
+
+        return [id, src, variableNames, value, raw];
+    }
+}
@@ -0,0 +1,18 @@
+import { ASTReader, ASTReaderConfiguration } from "../ast_reader";
+import { YulBlock } from "../implementation/yul/yul_block";
+import { YulStatement } from "../implementation/yul/yul_statement";
+import { ModernYulNodeProcessor } from "./yul_node_processor";
+
+export class ModernYulBlockProcessor extends ModernYulNodeProcessor<YulBlock> {
+    process(
+        reader: ASTReader,
+        config: ASTReaderConfiguration,
+        raw: any
+    ): ConstructorParameters<typeof YulBlock> {
+        const [id, src] = super.process(reader, config, raw);
+
+        const statements = reader.convertArray(raw.statements, config) as YulStatement[];
+
+        return [id, src, statements, raw];
+    }
+}
@@ -0,0 +1,22 @@
+import { ASTReader, ASTReaderConfiguration } from "../ast_reader";
+import { YulBlock } from "../implementation/yul/yul_block";
+import { YulCase } from "../implementation/yul/yul_case";
+import { YulLiteral } from "../implementation/yul/yul_literal";
+import { ModernYulNodeProcessor } from "./yul_node_processor";
+
+export class ModernYulCaseProcessor extends ModernYulNodeProcessor<YulCase> {
+    process(
+        reader: ASTReader,
+        config: ASTReaderConfiguration,
+        raw: any
+    ): ConstructorParameters<typeof YulCase> {
+        const [id, src] = super.process(reader, config, raw);
+
+        const value =
+            raw.value === "default" ? "default" : (reader.convert(raw.value, config) as YulLiteral);
+
+        const body = reader.convert(raw.body, config) as YulBlock;
+
+        return [id, src, value, body, raw];
+    }
+}
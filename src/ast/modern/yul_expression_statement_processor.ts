@@ -0,0 +1,18 @@
+import { ASTReader, ASTReaderConfiguration } from "../ast_reader";
+import { YulExpression } from "../implementation/yul/yul_expression";
+import { YulExpressionStatement } from "../implementation/yul/yul_expression_statement";
+import { ModernYulNodeProcessor } from "./yul_node_processor";
+
+export class ModernYulExpressionStatementProcessor extends ModernYulNodeProcessor<YulExpressionStatement> {
+    process(
+        reader: ASTReader,
+        config: ASTReaderConfiguration,
+        raw: any
+    ): ConstructorParameters<typeof YulExpressionStatement> {
+        const [id, src] = super.process(reader, config, raw);
+
+        const expression = reader.convert(raw.expression, config) as YulExpression;
+
+        return [id, src, expression, raw];
+    }
+}
@@ -0,0 +1,20 @@
+import { ASTReader, ASTReaderConfiguration } from "../ast_reader";
+import { YulExpression } from "../implementation/yul/yul_expression";
+import { YulFunctionCall } from "../implementation/yul/yul_function_call";
+import { YulIdentifier } from "../implementation/yul/yul_identifier";
+import { ModernYulNodeProcessor } from "./yul_node_processor";
+
+export class ModernYulFunctionCallProcessor extends ModernYulNodeProcessor<YulFunctionCall> {
+    process(
+        reader: ASTReader,
+        config: ASTReaderConfiguration,
+        raw: any
+    ): ConstructorParameters<typeof YulFunctionCall> {
+        const [id, src] = super.process(reader, config, raw);
+
+        const functionName = reader.convert(raw.functionName, config) as YulIdentifier;
+        const args = reader.convertArray(raw.arguments, config) as YulExpression[];
+
+        return [id, src, functionName, args, raw];
+    }
+}
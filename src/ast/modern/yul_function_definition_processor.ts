@@ -0,0 +1,24 @@
+import { ASTReader, ASTReaderConfiguration } from "../ast_reader";
+import { YulBlock } from "../implementation/yul/yul_block";
+import { YulFunctionDefinition } from "../implementation/yul/yul_function_definition";
+import { YulTypedName } from "../implementation/yul/yul_typed_name";
+import { ModernYulNodeProcessor } from "./yul_node_processor";
+
+export class ModernYulFunctionDefinitionProcessor extends ModernYulNodeProcessor<YulFunctionDefinition> {
+    process(
+        reader: ASTReader,
+        config: ASTReaderConfiguration,
+        raw: any
+    ): ConstructorParameters<typeof YulFunctionDefinition> {
+        const [id, src] = super.process(reader, config, raw);
+
+        const name: string = raw.name;
+
+        const parameters = reader.convertArray(raw.parameters, config) as YulTypedName[];
+        const returnVariables = reader.convertArray(raw.returnVariables, config) as YulTypedName[];
+
+        const body = reader.convert(raw.body, config) as YulBlock;
+
+        return [id, src, name, parameters, returnVariables, body, raw];
+    }
+}
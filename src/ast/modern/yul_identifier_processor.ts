@@ -0,0 +1,23 @@
+import { ASTReader, ASTReaderConfiguration } from "../ast_reader";
+import { YulIdentifier } from "../implementation/yul/yul_identifier";
+import { ModernYulNodeProcessor } from "./yul_node_processor";
+
+export class ModernYulIdentifierProcessor extends ModernYulNodeProcessor<YulIdentifier> {
+    process(
+        reader: ASTReader,
+        config: ASTReaderConfiguration,
+        raw: any
+    ): ConstructorParameters<typeof YulIdentifier> {
+        const [id, src] = super.process(reader, config, raw);
+
+        const name: string = raw.name;
+
+        /**
+         * Raw Yul identifiers do not carry references to Solidity declarations.
+         * These are linked later, using `externalReferences` of the enclosing `InlineAssembly`.
+         */
+        const referencedDeclaration = -1;
+
+        return [id, src, name, referencedDeclaration, raw];
+    }
+}
@@ -0,0 +1,20 @@
+import { ASTReader, ASTReaderConfiguration } from "../ast_reader";
+import { YulBlock } from "../implementation/yul/yul_block";
+import { YulExpression } from "../implementation/yul/yul_expression";
+import { YulIf } from "../implementation/yul/yul_if";
+import { ModernYulNodeProcessor } from "./yul_node_processor";
+
+export class ModernYulIfProcessor extends ModernYulNodeProcessor<YulIf> {
+    process(
+        reader: ASTReader,
+        config: ASTReaderConfiguration,
+        raw: any
+    ): ConstructorParameters<typeof YulIf> {
+        const [id, src] = super.process(reader, config, raw);
+
+        const condition = reader.convert(raw.condition, config) as YulExpression;
+        const body = reader.convert(raw.body, config) as YulBlock;
+
+        return [id, src, condition, body, raw];
+    }
+}
@@ -0,0 +1,21 @@
+import { ASTReader, ASTReaderConfiguration } from "../ast_reader";
+import { LiteralKind } from "../constants";
+import { YulLiteral } from "../implementation/yul/yul_literal";
+import { ModernYulNodeProcessor } from "./yul_node_processor";
+
+export class ModernYulLiteralProcessor extends ModernYulNodeProcessor<YulLiteral> {
+    process(
+        reader: ASTReader,
+        config: ASTReaderConfiguration,
+        raw: any
+    ): ConstructorParameters<typeof YulLiteral> {
+        const [id, src] = super.process(reader, config, raw);
+
+        const kind: LiteralKind = raw.kind;
+        const value: string | undefined = raw.value;
+        const hexValue: string | undefined = raw.hexValue;
+        const typeName: string = raw.type;
+
+        return [id, src, kind, value, hexValue, typeName, raw];
+    }
+}
@@ -0,0 +1,17 @@
+import { ASTNodeConstructor } from "../ast_node";
+import { ASTNodeProcessor, ASTReader, ASTReaderConfiguration } from "../ast_reader";
+import { YulASTNode } from "../implementation/yul/yul_ast_node";
+
+/**
+ * Nodes of Yul AST have no ids in compiler output,
+ * so ids are generated by the reader.
+ */
+export class ModernYulNodeProcessor<T extends YulASTNode> implements ASTNodeProcessor<T> {
+    process(
+        reader: ASTReader,
+        config: ASTReaderConfiguration,
+        raw: any
+    ): ConstructorParameters<ASTNodeConstructor<T>> {
+        return [reader.generateId(), raw.src, raw];
+    }
+}
@@ -0,0 +1,20 @@
+import { ASTReader, ASTReaderConfiguration } from "../ast_reader";
+import { YulCase } from "../implementation/yul/yul_case";
+import { YulExpression } from "../implementation/yul/yul_expression";
+import { YulSwitch } from "../implementation/yul/yul_switch";
+import { ModernYulNodeProcessor } from "./yul_node_processor";
+
+export class ModernYulSwitchProcessor extends ModernYulNodeProcessor<YulSwitch> {
+    process(
+        reader: ASTReader,
+        config: ASTReaderConfiguration,
+        raw: any
+    ): ConstructorParameters<typeof YulSwitch> {
+        const [id, src] = super.process(reader, config, raw);
+
+        const expression = reader.convert(raw.expression, config) as YulExpression;
+        const cases = reader.convertArray(raw.cases, config) as YulCase[];
+
+        return [id, src, expression, cases, raw];
+    }
+}
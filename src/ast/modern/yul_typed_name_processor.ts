@@ -0,0 +1,18 @@
+import { ASTReader, ASTReaderConfiguration } from "../ast_reader";
+import { YulTypedName } from "../implementation/yul/yul_typed_name";
+import { ModernYulNodeProcessor } from "./yul_node_processor";
+
+export class ModernYulTypedNameProcessor extends ModernYulNodeProcessor<YulTypedName> {
+    process(
+        reader: ASTReader,
+        config: ASTReaderConfiguration,
+        raw: any
+    ): ConstructorParameters<typeof YulTypedName> {
+        const [id, src] = super.process(reader, config, raw);
+
+        const name: string = raw.name;
+        const typeName: string = raw.type;
+
+        return [id, src, name, typeName, raw];
+    }
+}
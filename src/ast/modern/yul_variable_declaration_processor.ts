@@ -0,0 +1,21 @@
+import { ASTReader, ASTReaderConfiguration } from "../ast_reader";
+import { YulExpression } from "../implementation/yul/yul_expression";
+import { YulTypedName } from "../implementation/yul/yul_typed_name";
+import { YulVariableDeclaration } from "../implementation/yul/yul_variable_declaration";
+import { ModernYulNodeProcessor } from "./yul_node_processor";
+
+export class ModernYulVariableDeclarationProcessor extends ModernYulNodeProcessor<YulVariableDeclaration> {
+    process(
+        reader: ASTReader,
+        config: ASTReaderConfiguration,
+        raw: any
+    ): ConstructorParameters<typeof YulVariableDeclaration> {
+        const [id, src] = super.process(reader, config, raw);
+
+        const variables = reader.convertArray(raw.variables, config) as YulTypedName[];
+
+        const value = raw.value ? (reader.convert(raw.value, config) as YulExpression) : undefined;
+
+        return [id, src, variables, value, raw];
+    }
+}
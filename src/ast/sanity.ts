@@ -57,7 +57,23 @@ import {
     UsingForDirective,
     VariableDeclaration,
     VariableDeclarationStatement,
-    WhileStatement
+    WhileStatement,
+    YulAssignment,
+    YulBlock,
+    YulBreak,
+    YulCase,
+    YulContinue,
+    YulExpressionStatement,
+    YulForLoop,
+    YulFunctionCall,
+    YulFunctionDefinition,
+    YulIdentifier,
+    YulIf,
+    YulLeave,
+    YulLiteral,
+    YulSwitch,
+    YulTypedName,
+    YulVariableDeclaration
 } from ".";
 import { pp } from "../misc/pretty_printing";
 
@@ -359,11 +375,16 @@ export function checkSane(unit: SourceUnit, ctx: ASTContext): void {
             node instanceof EnumValue ||
             node instanceof Break ||
             node instanceof Continue ||
-            node instanceof InlineAssembly ||
             node instanceof PlaceholderStatement ||
             node instanceof Throw ||
             node instanceof ElementaryTypeName ||
-            node instanceof Literal
+            node instanceof Literal ||
+            node instanceof YulBreak ||
+            node instanceof YulContinue ||
+            node instanceof YulLeave ||
+            node instanceof YulLiteral ||
+            node instanceof YulIdentifier ||
+            node instanceof YulTypedName
         ) {
             /**
              * These nodes do not have any children or references.
@@ -669,6 +690,32 @@ export function checkSane(unit: SourceUnit, ctx: ASTContext): void {
         } else if (node instanceof UnaryOperation) {
             checkVFieldCtx(node, "vSubExpression", ctx);
             checkDirectChildren(node, "vSubExpression");
+        } else if (node instanceof InlineAssembly) {
+            checkDirectChildren(node, "yul");
+        } else if (node instanceof YulBlock) {
+            checkDirectChildren(node, "vStatements");
+        } else if (node instanceof YulFunctionCall) {
+            checkDirectChildren(node, "vFunctionName", "vArguments");
+        } else if (node instanceof YulVariableDeclaration) {
+            checkDirectChildren(node, "vVariables", "vValue");
+        } else if (node instanceof YulExpressionStatement) {
+            checkDirectChildren(node, "vExpression");
+        } else if (node instanceof YulAssignment) {
+            checkDirectChildren(node, "vVariableNames", "vValue");
+        } else if (node instanceof YulIf) {
+            checkDirectChildren(node, "vCondition", "vBody");
+        } else if (node instanceof YulCase) {
+            if (node.vValue === "default") {
+                checkDirectChildren(node, "vBody");
+            } else {
+                checkDirectChildren(node, "vValue", "vBody");
+            }
+        } else if (node instanceof YulSwitch) {
+            checkDirectChildren(node, "vExpression", "vCases");
+        } else if (node instanceof YulForLoop) {
+            checkDirectChildren(node, "vPre", "vCondition", "vPost", "vBody");
+        } else if (node instanceof YulFunctionDefinition) {
+            checkDirectChildren(node, "vParameters", "vReturnVariables", "vBody");
         } else {
             throw new Error(`Unknown ASTNode type ${node.constructor.name}`);
         }
@@ -0,0 +1,801 @@
+import { ASTNode, ASTNodeConstructor } from "../ast_node";
+import {
+    ContractDefinition,
+    EnumDefinition,
+    EnumValue,
+    ErrorDefinition,
+    EventDefinition,
+    FunctionDefinition,
+    ModifierDefinition,
+    StructDefinition,
+    UserDefinedValueTypeDefinition,
+    VariableDeclaration
+} from "../implementation/declaration";
+import {
+    Assignment,
+    BinaryOperation,
+    Conditional,
+    ElementaryTypeNameExpression,
+    Expression,
+    FunctionCall,
+    FunctionCallOptions,
+    Identifier,
+    IndexAccess,
+    IndexRangeAccess,
+    Literal,
+    MemberAccess,
+    NewExpression,
+    TupleExpression,
+    UnaryOperation
+} from "../implementation/expression";
+import {
+    IdentifierPath,
+    ImportDirective,
+    InheritanceSpecifier,
+    ModifierInvocation,
+    OverrideSpecifier,
+    ParameterList,
+    PragmaDirective,
+    SourceUnit,
+    StructuredDocumentation,
+    UsingForDirective
+} from "../implementation/meta";
+import {
+    Block,
+    Break,
+    Continue,
+    DoWhileStatement,
+    EmitStatement,
+    ExpressionStatement,
+    ForStatement,
+    IfStatement,
+    InlineAssembly,
+    PlaceholderStatement,
+    Return,
+    RevertStatement,
+    Statement,
+    StatementWithChildren,
+    Throw,
+    TryCatchClause,
+    TryStatement,
+    UncheckedBlock,
+    VariableDeclarationStatement,
+    WhileStatement
+} from "../implementation/statement";
+import {
+    ArrayTypeName,
+    ElementaryTypeName,
+    FunctionTypeName,
+    Mapping,
+    TypeName,
+    UserDefinedTypeName
+} from "../implementation/type";
+import { ASTNodeSerializer, ASTSerializer } from "./serializer";
+import { DefaultYulSerializerMapping } from "./yul_mapping";
+
+/**
+ * Declarations may have documentation either as a plain string (older compilers)
+ * or as a `StructuredDocumentation` node.
+ */
+function serializeDocumentation(
+    documentation: string | StructuredDocumentation | undefined,
+    serializer: ASTSerializer
+): any {
+    return documentation instanceof StructuredDocumentation
+        ? serializer.serialize(documentation)
+        : documentation;
+}
+
+function serializeOptional(node: ASTNode | undefined, serializer: ASTSerializer): any {
+    return node === undefined ? null : serializer.serialize(node);
+}
+
+function serializeTypeDescriptions(node: Expression | TypeName | VariableDeclaration): any {
+    return { typeString: node.typeString };
+}
+
+/**
+ * Modern compilers provide statement documentation only as a plain string
+ */
+function serializeStatementDocumentation(
+    node: Statement | StatementWithChildren<ASTNode>
+): string | undefined {
+    const documentation = node.documentation;
+
+    return documentation instanceof StructuredDocumentation ? documentation.text : documentation;
+}
+
+class StatementSerializer extends ASTNodeSerializer {
+    serializeInner(node: Statement): any {
+        return {
+            documentation: serializeStatementDocumentation(node)
+        };
+    }
+}
+
+class StructuredDocumentationSerializer extends ASTNodeSerializer {
+    serializeInner(node: StructuredDocumentation): any {
+        return { text: node.text };
+    }
+}
+
+class ElementaryTypeNameSerializer extends ASTNodeSerializer {
+    serializeInner(node: ElementaryTypeName): any {
+        return {
+            typeDescriptions: serializeTypeDescriptions(node),
+            name: node.name,
+            stateMutability: node.stateMutability
+        };
+    }
+}
+
+class ArrayTypeNameSerializer extends ASTNodeSerializer {
+    serializeInner(node: ArrayTypeName, serializer: ASTSerializer): any {
+        return {
+            typeDescriptions: serializeTypeDescriptions(node),
+            baseType: serializer.serialize(node.vBaseType),
+            length: serializeOptional(node.vLength, serializer)
+        };
+    }
+}
+
+class MappingSerializer extends ASTNodeSerializer {
+    serializeInner(node: Mapping, serializer: ASTSerializer): any {
+        return {
+            typeDescriptions: serializeTypeDescriptions(node),
+            keyType: serializer.serialize(node.vKeyType),
+            valueType: serializer.serialize(node.vValueType)
+        };
+    }
+}
+
+class UserDefinedTypeNameSerializer extends ASTNodeSerializer {
+    serializeInner(node: UserDefinedTypeName, serializer: ASTSerializer): any {
+        const result: any = {
+            typeDescriptions: serializeTypeDescriptions(node),
+            referencedDeclaration: node.referencedDeclaration
+        };
+
+        if (node.name !== undefined) {
+            result.name = node.name;
+        }
+
+        if (node.path !== undefined) {
+            result.pathNode = serializer.serialize(node.path);
+        }
+
+        return result;
+    }
+}
+
+class FunctionTypeNameSerializer extends ASTNodeSerializer {
+    serializeInner(node: FunctionTypeName, serializer: ASTSerializer): any {
+        return {
+            typeDescriptions: serializeTypeDescriptions(node),
+            visibility: node.visibility,
+            stateMutability: node.stateMutability,
+            parameterTypes: serializer.serialize(node.vParameterTypes),
+            returnParameterTypes: serializer.serialize(node.vReturnParameterTypes)
+        };
+    }
+}
+
+class IdentifierPathSerializer extends ASTNodeSerializer {
+    serializeInner(node: IdentifierPath): any {
+        return {
+            name: node.name,
+            referencedDeclaration: node.referencedDeclaration
+        };
+    }
+}
+
+class LiteralSerializer extends ASTNodeSerializer {
+    serializeInner(node: Literal): any {
+        const result: any = {
+            typeDescriptions: serializeTypeDescriptions(node),
+            kind: node.kind,
+            hexValue: node.hexValue,
+            value: node.value
+        };
+
+        if (node.subdenomination !== undefined) {
+            result.subdenomination = node.subdenomination;
+        }
+
+        return result;
+    }
+}
+
+class IdentifierSerializer extends ASTNodeSerializer {
+    serializeInner(node: Identifier): any {
+        return {
+            typeDescriptions: serializeTypeDescriptions(node),
+            name: node.name,
+            referencedDeclaration: node.referencedDeclaration
+        };
+    }
+}
+
+class FunctionCallOptionsSerializer extends ASTNodeSerializer {
+    serializeInner(node: FunctionCallOptions, serializer: ASTSerializer): any {
+        return {
+            typeDescriptions: serializeTypeDescriptions(node),
+            expression: serializer.serialize(node.vExpression),
+            names: [...node.vOptionsMap.keys()],
+            options: serializer.serializeArray(node.vOptionsMap.values())
+        };
+    }
+}
+
+class FunctionCallSerializer extends ASTNodeSerializer {
+    serializeInner(node: FunctionCall, serializer: ASTSerializer): any {
+        return {
+            typeDescriptions: serializeTypeDescriptions(node),
+            kind: node.kind,
+            expression: serializer.serialize(node.vExpression),
+            arguments: serializer.serializeArray(node.vArguments),
+            names: node.fieldNames === undefined ? [] : node.fieldNames
+        };
+    }
+}
+
+class MemberAccessSerializer extends ASTNodeSerializer {
+    serializeInner(node: MemberAccess, serializer: ASTSerializer): any {
+        return {
+            typeDescriptions: serializeTypeDescriptions(node),
+            expression: serializer.serialize(node.vExpression),
+            memberName: node.memberName,
+            referencedDeclaration: node.referencedDeclaration
+        };
+    }
+}
+
+class IndexAccessSerializer extends ASTNodeSerializer {
+    serializeInner(node: IndexAccess, serializer: ASTSerializer): any {
+        return {
+            typeDescriptions: serializeTypeDescriptions(node),
+            baseExpression: serializer.serialize(node.vBaseExpression),
+            indexExpression: serializeOptional(node.vIndexExpression, serializer)
+        };
+    }
+}
+
+class IndexRangeAccessSerializer extends ASTNodeSerializer {
+    serializeInner(node: IndexRangeAccess, serializer: ASTSerializer): any {
+        return {
+            typeDescriptions: serializeTypeDescriptions(node),
+            baseExpression: serializer.serialize(node.vBaseExpression),
+            startExpression: serializeOptional(node.vStartExpression, serializer),
+            endExpression: serializeOptional(node.vEndExpression, serializer)
+        };
+    }
+}
+
+class UnaryOperationSerializer extends ASTNodeSerializer {
+    serializeInner(node: UnaryOperation, serializer: ASTSerializer): any {
+        return {
+            typeDescriptions: serializeTypeDescriptions(node),
+            prefix: node.prefix,
+            operator: node.operator,
+            subExpression: serializer.serialize(node.vSubExpression)
+        };
+    }
+}
+
+class BinaryOperationSerializer extends ASTNodeSerializer {
+    serializeInner(node: BinaryOperation, serializer: ASTSerializer): any {
+        return {
+            typeDescriptions: serializeTypeDescriptions(node),
+            operator: node.operator,
+            leftExpression: serializer.serialize(node.vLeftExpression),
+            rightExpression: serializer.serialize(node.vRightExpression)
+        };
+    }
+}
+
+class ConditionalSerializer extends ASTNodeSerializer {
+    serializeInner(node: Conditional, serializer: ASTSerializer): any {
+        return {
+            typeDescriptions: serializeTypeDescriptions(node),
+            condition: serializer.serialize(node.vCondition),
+            trueExpression: serializer.serialize(node.vTrueExpression),
+            falseExpression: serializer.serialize(node.vFalseExpression)
+        };
+    }
+}
+
+class AssignmentSerializer extends ASTNodeSerializer {
+    serializeInner(node: Assignment, serializer: ASTSerializer): any {
+        return {
+            typeDescriptions: serializeTypeDescriptions(node),
+            operator: node.operator,
+            leftHandSide: serializer.serialize(node.vLeftHandSide),
+            rightHandSide: serializer.serialize(node.vRightHandSide)
+        };
+    }
+}
+
+class ElementaryTypeNameExpressionSerializer extends ASTNodeSerializer {
+    serializeInner(node: ElementaryTypeNameExpression, serializer: ASTSerializer): any {
+        return {
+            typeDescriptions: serializeTypeDescriptions(node),
+            typeName:
+                typeof node.typeName === "string"
+                    ? node.typeName
+                    : serializer.serialize(node.typeName)
+        };
+    }
+}
+
+class NewExpressionSerializer extends ASTNodeSerializer {
+    serializeInner(node: NewExpression, serializer: ASTSerializer): any {
+        return {
+            typeDescriptions: serializeTypeDescriptions(node),
+            typeName: serializer.serialize(node.vTypeName)
+        };
+    }
+}
+
+class TupleExpressionSerializer extends ASTNodeSerializer {
+    serializeInner(node: TupleExpression, serializer: ASTSerializer): any {
+        return {
+            typeDescriptions: serializeTypeDescriptions(node),
+            isInlineArray: node.isInlineArray,
+            components: node.vOriginalComponents.map((component) =>
+                component === null ? null : serializer.serialize(component)
+            )
+        };
+    }
+}
+
+class ExpressionStatementSerializer extends ASTNodeSerializer {
+    serializeInner(node: ExpressionStatement, serializer: ASTSerializer): any {
+        return {
+            documentation: serializeStatementDocumentation(node),
+            expression: serializer.serialize(node.vExpression)
+        };
+    }
+}
+
+class VariableDeclarationStatementSerializer extends ASTNodeSerializer {
+    /**
+     * Skipped components of tuple declarations are represented by `null`s
+     * both in `assignments` and `declarations`.
+     *
+     * Note that legacy compilers also produce `null` assignments
+     * for declarations without initial value, so declarations are matched by ids
+     * only when there are skipped components.
+     */
+    serializeInner(node: VariableDeclarationStatement, serializer: ASTSerializer): any {
+        const declarations =
+            node.vDeclarations.length === node.assignments.length
+                ? serializer.serializeArray(node.vDeclarations)
+                : node.assignments.map((id) => {
+                      const declaration = node.vDeclarations.find(
+                          (candidate) => candidate.id === id
+                      );
+
+                      return declaration === undefined ? null : serializer.serialize(declaration);
+                  });
+
+        return {
+            documentation: serializeStatementDocumentation(node),
+            assignments: node.assignments,
+            declarations,
+            initialValue: serializeOptional(node.vInitialValue, serializer)
+        };
+    }
+}
+
+class BlockSerializer extends ASTNodeSerializer {
+    serializeInner(node: Block | UncheckedBlock, serializer: ASTSerializer): any {
+        return {
+            documentation: serializeStatementDocumentation(node),
+            statements: serializer.serializeArray(node.vStatements)
+        };
+    }
+}
+
+class IfStatementSerializer extends ASTNodeSerializer {
+    serializeInner(node: IfStatement, serializer: ASTSerializer): any {
+        return {
+            documentation: serializeStatementDocumentation(node),
+            condition: serializer.serialize(node.vCondition),
+            trueBody: serializer.serialize(node.vTrueBody),
+            falseBody: serializeOptional(node.vFalseBody, serializer)
+        };
+    }
+}
+
+class ForStatementSerializer extends ASTNodeSerializer {
+    serializeInner(node: ForStatement, serializer: ASTSerializer): any {
+        return {
+            documentation: serializeStatementDocumentation(node),
+            initializationExpression: serializeOptional(node.vInitializationExpression, serializer),
+            condition: serializeOptional(node.vCondition, serializer),
+            loopExpression: serializeOptional(node.vLoopExpression, serializer),
+            body: serializer.serialize(node.vBody)
+        };
+    }
+}
+
+class WhileStatementSerializer extends ASTNodeSerializer {
+    serializeInner(node: WhileStatement | DoWhileStatement, serializer: ASTSerializer): any {
+        return {
+            documentation: serializeStatementDocumentation(node),
+            condition: serializer.serialize(node.vCondition),
+            body: serializer.serialize(node.vBody)
+        };
+    }
+}
+
+class ReturnSerializer extends ASTNodeSerializer {
+    serializeInner(node: Return, serializer: ASTSerializer): any {
+        return {
+            documentation: serializeStatementDocumentation(node),
+            functionReturnParameters: node.functionReturnParameters,
+            expression: serializeOptional(node.vExpression, serializer)
+        };
+    }
+}
+
+class EmitStatementSerializer extends ASTNodeSerializer {
+    serializeInner(node: EmitStatement, serializer: ASTSerializer): any {
+        return {
+            documentation: serializeStatementDocumentation(node),
+            eventCall: serializer.serialize(node.vEventCall)
+        };
+    }
+}
+
+class RevertStatementSerializer extends ASTNodeSerializer {
+    serializeInner(node: RevertStatement, serializer: ASTSerializer): any {
+        return {
+            documentation: serializeStatementDocumentation(node),
+            errorCall: serializer.serialize(node.errorCall)
+        };
+    }
+}
+
+class InlineAssemblySerializer extends ASTNodeSerializer {
+    /**
+     * Solc `--import-ast` requires `evmVersion` for the assembly blocks with Yul AST,
+     * so it is emitted, when it is known (compilers prior to 0.6.0 do not provide it).
+     */
+    serializeInner(node: InlineAssembly, serializer: ASTSerializer): any {
+        const result: any = {
+            documentation: serializeStatementDocumentation(node),
+            externalReferences: node.externalReferences
+        };
+
+        if (node.yul !== undefined) {
+            result.AST = serializer.serialize(node.yul);
+        }
+
+        if (node.operations !== undefined) {
+            result.operations = node.operations;
+        }
+
+        if (node.evmVersion !== undefined) {
+            result.evmVersion = node.evmVersion;
+        }
+
+        if (node.flags !== undefined) {
+            result.flags = node.flags;
+        }
+
+        return result;
+    }
+}
+
+class TryCatchClauseSerializer extends ASTNodeSerializer {
+    serializeInner(node: TryCatchClause, serializer: ASTSerializer): any {
+        return {
+            documentation: serializeStatementDocumentation(node),
+            errorName: node.errorName,
+            parameters: serializeOptional(node.vParameters, serializer),
+            block: serializer.serialize(node.vBlock)
+        };
+    }
+}
+
+class TryStatementSerializer extends ASTNodeSerializer {
+    serializeInner(node: TryStatement, serializer: ASTSerializer): any {
+        return {
+            documentation: serializeStatementDocumentation(node),
+            externalCall: serializer.serialize(node.vExternalCall),
+            clauses: serializer.serializeArray(node.vClauses)
+        };
+    }
+}
+
+class VariableDeclarationSerializer extends ASTNodeSerializer {
+    serializeInner(node: VariableDeclaration, serializer: ASTSerializer): any {
+        return {
+            constant: node.constant,
+            indexed: node.indexed,
+            name: node.name,
+            nameLocation: node.nameLocation,
+            scope: node.scope,
+            stateVariable: node.stateVariable,
+            storageLocation: node.storageLocation,
+            visibility: node.visibility,
+            mutability: node.mutability,
+            typeDescriptions: serializeTypeDescriptions(node),
+            documentation: serializeDocumentation(node.documentation, serializer),
+            typeName: serializeOptional(node.vType, serializer),
+            overrides: serializeOptional(node.vOverrideSpecifier, serializer),
+            value: serializeOptional(node.vValue, serializer)
+        };
+    }
+}
+
+class ParameterListSerializer extends ASTNodeSerializer {
+    serializeInner(node: ParameterList, serializer: ASTSerializer): any {
+        return {
+            parameters: serializer.serializeArray(node.vParameters)
+        };
+    }
+}
+
+class ModifierInvocationSerializer extends ASTNodeSerializer {
+    serializeInner(node: ModifierInvocation, serializer: ASTSerializer): any {
+        return {
+            kind: node.kind,
+            modifierName: serializer.serialize(node.vModifierName),
+            arguments: serializer.serializeArray(node.vArguments)
+        };
+    }
+}
+
+class OverrideSpecifierSerializer extends ASTNodeSerializer {
+    serializeInner(node: OverrideSpecifier, serializer: ASTSerializer): any {
+        return {
+            overrides: serializer.serializeArray(node.vOverrides)
+        };
+    }
+}
+
+class FunctionDefinitionSerializer extends ASTNodeSerializer {
+    serializeInner(node: FunctionDefinition, serializer: ASTSerializer): any {
+        return {
+            name: node.name,
+            nameLocation: node.nameLocation,
+            scope: node.scope,
+            kind: node.kind,
+            virtual: node.virtual,
+            visibility: node.visibility,
+            stateMutability: node.stateMutability,
+            implemented: node.vBody !== undefined,
+            documentation: serializeDocumentation(node.documentation, serializer),
+            overrides: serializeOptional(node.vOverrideSpecifier, serializer),
+            parameters: serializer.serialize(node.vParameters),
+            returnParameters: serializer.serialize(node.vReturnParameters),
+            modifiers: serializer.serializeArray(node.vModifiers),
+            body: serializeOptional(node.vBody, serializer)
+        };
+    }
+}
+
+class ModifierDefinitionSerializer extends ASTNodeSerializer {
+    serializeInner(node: ModifierDefinition, serializer: ASTSerializer): any {
+        return {
+            name: node.name,
+            nameLocation: node.nameLocation,
+            virtual: node.virtual,
+            visibility: node.visibility,
+            documentation: serializeDocumentation(node.documentation, serializer),
+            overrides: serializeOptional(node.vOverrideSpecifier, serializer),
+            parameters: serializer.serialize(node.vParameters),
+            body: serializeOptional(node.vBody, serializer)
+        };
+    }
+}
+
+class ErrorDefinitionSerializer extends ASTNodeSerializer {
+    serializeInner(node: ErrorDefinition, serializer: ASTSerializer): any {
+        return {
+            name: node.name,
+            nameLocation: node.nameLocation,
+            documentation: serializeDocumentation(node.documentation, serializer),
+            parameters: serializer.serialize(node.vParameters)
+        };
+    }
+}
+
+class EventDefinitionSerializer extends ASTNodeSerializer {
+    serializeInner(node: EventDefinition, serializer: ASTSerializer): any {
+        return {
+            anonymous: node.anonymous,
+            name: node.name,
+            nameLocation: node.nameLocation,
+            documentation: serializeDocumentation(node.documentation, serializer),
+            parameters: serializer.serialize(node.vParameters)
+        };
+    }
+}
+
+class StructDefinitionSerializer extends ASTNodeSerializer {
+    serializeInner(node: StructDefinition, serializer: ASTSerializer): any {
+        return {
+            name: node.name,
+            nameLocation: node.nameLocation,
+            scope: node.scope,
+            visibility: node.visibility,
+            members: serializer.serializeArray(node.vMembers)
+        };
+    }
+}
+
+class EnumValueSerializer extends ASTNodeSerializer {
+    serializeInner(node: EnumValue): any {
+        return {
+            name: node.name,
+            nameLocation: node.nameLocation
+        };
+    }
+}
+
+class EnumDefinitionSerializer extends ASTNodeSerializer {
+    serializeInner(node: EnumDefinition, serializer: ASTSerializer): any {
+        return {
+            name: node.name,
+            nameLocation: node.nameLocation,
+            members: serializer.serializeArray(node.vMembers)
+        };
+    }
+}
+
+class UserDefinedValueTypeDefinitionSerializer extends ASTNodeSerializer {
+    serializeInner(node: UserDefinedValueTypeDefinition, serializer: ASTSerializer): any {
+        return {
+            name: node.name,
+            nameLocation: node.nameLocation,
+            underlyingType: serializer.serialize(node.underlyingType)
+        };
+    }
+}
+
+class UsingForDirectiveSerializer extends ASTNodeSerializer {
+    serializeInner(node: UsingForDirective, serializer: ASTSerializer): any {
+        return {
+            libraryName: serializer.serialize(node.vLibraryName),
+            typeName: serializeOptional(node.vTypeName, serializer)
+        };
+    }
+}
+
+class InheritanceSpecifierSerializer extends ASTNodeSerializer {
+    serializeInner(node: InheritanceSpecifier, serializer: ASTSerializer): any {
+        return {
+            baseName: serializer.serialize(node.vBaseType),
+            arguments: serializer.serializeArray(node.vArguments)
+        };
+    }
+}
+
+class ContractDefinitionSerializer extends ASTNodeSerializer {
+    serializeInner(node: ContractDefinition, serializer: ASTSerializer): any {
+        const documentation = node.documentation;
+
+        const nodes = node.children.filter(
+            (child) => !(child instanceof InheritanceSpecifier || child === documentation)
+        );
+
+        return {
+            name: node.name,
+            nameLocation: node.nameLocation,
+            scope: node.scope,
+            contractKind: node.kind,
+            abstract: node.abstract,
+            fullyImplemented: node.fullyImplemented,
+            linearizedBaseContracts: node.linearizedBaseContracts,
+            usedErrors: node.usedErrors,
+            documentation: serializeDocumentation(documentation, serializer),
+            baseContracts: serializer.serializeArray(node.vInheritanceSpecifiers),
+            nodes: serializer.serializeArray(nodes)
+        };
+    }
+}
+
+class ImportDirectiveSerializer extends ASTNodeSerializer {
+    serializeInner(node: ImportDirective, serializer: ASTSerializer): any {
+        return {
+            file: node.file,
+            absolutePath: node.absolutePath,
+            unitAlias: node.unitAlias,
+            scope: node.scope,
+            sourceUnit: node.sourceUnit,
+            symbolAliases: node.symbolAliases.map((alias) => ({
+                foreign:
+                    alias.foreign instanceof Identifier
+                        ? serializer.serialize(alias.foreign)
+                        : alias.foreign,
+                local: alias.local
+            }))
+        };
+    }
+}
+
+class PragmaDirectiveSerializer extends ASTNodeSerializer {
+    serializeInner(node: PragmaDirective): any {
+        return { literals: node.literals };
+    }
+}
+
+class SourceUnitSerializer extends ASTNodeSerializer {
+    serializeInner(node: SourceUnit, serializer: ASTSerializer): any {
+        const exportedSymbols: { [name: string]: number[] } = {};
+
+        for (const [name, id] of node.exportedSymbols) {
+            exportedSymbols[name] = [id];
+        }
+
+        return {
+            absolutePath: node.absolutePath,
+            exportedSymbols,
+            nodes: serializer.serializeArray(node.children)
+        };
+    }
+}
+
+export const DefaultASTSerializerMapping = new Map<ASTNodeConstructor<ASTNode>, ASTNodeSerializer>([
+    [ElementaryTypeName, new ElementaryTypeNameSerializer()],
+    [ArrayTypeName, new ArrayTypeNameSerializer()],
+    [Mapping, new MappingSerializer()],
+    [UserDefinedTypeName, new UserDefinedTypeNameSerializer()],
+    [FunctionTypeName, new FunctionTypeNameSerializer()],
+    [Literal, new LiteralSerializer()],
+    [Identifier, new IdentifierSerializer()],
+    [IdentifierPath, new IdentifierPathSerializer()],
+    [FunctionCallOptions, new FunctionCallOptionsSerializer()],
+    [FunctionCall, new FunctionCallSerializer()],
+    [MemberAccess, new MemberAccessSerializer()],
+    [IndexAccess, new IndexAccessSerializer()],
+    [IndexRangeAccess, new IndexRangeAccessSerializer()],
+    [UnaryOperation, new UnaryOperationSerializer()],
+    [BinaryOperation, new BinaryOperationSerializer()],
+    [Conditional, new ConditionalSerializer()],
+    [ElementaryTypeNameExpression, new ElementaryTypeNameExpressionSerializer()],
+    [NewExpression, new NewExpressionSerializer()],
+    [TupleExpression, new TupleExpressionSerializer()],
+    [ExpressionStatement, new ExpressionStatementSerializer()],
+    [Assignment, new AssignmentSerializer()],
+    [VariableDeclaration, new VariableDeclarationSerializer()],
+    [Block, new BlockSerializer()],
+    [UncheckedBlock, new BlockSerializer()],
+    [VariableDeclarationStatement, new VariableDeclarationStatementSerializer()],
+    [IfStatement, new IfStatementSerializer()],
+    [ForStatement, new ForStatementSerializer()],
+    [WhileStatement, new WhileStatementSerializer()],
+    [DoWhileStatement, new WhileStatementSerializer()],
+    [Return, new ReturnSerializer()],
+    [EmitStatement, new EmitStatementSerializer()],
+    [RevertStatement, new RevertStatementSerializer()],
+    [PlaceholderStatement, new StatementSerializer()],
+    [InlineAssembly, new InlineAssemblySerializer()],
+    [TryCatchClause, new TryCatchClauseSerializer()],
+    [TryStatement, new TryStatementSerializer()],
+    [Break, new StatementSerializer()],
+    [Continue, new StatementSerializer()],
+    [Throw, new StatementSerializer()],
+    [ParameterList, new ParameterListSerializer()],
+    [ModifierInvocation, new ModifierInvocationSerializer()],
+    [OverrideSpecifier, new OverrideSpecifierSerializer()],
+    [FunctionDefinition, new FunctionDefinitionSerializer()],
+    [ModifierDefinition, new ModifierDefinitionSerializer()],
+    [ErrorDefinition, new ErrorDefinitionSerializer()],
+    [EventDefinition, new EventDefinitionSerializer()],
+    [StructDefinition, new StructDefinitionSerializer()],
+    [EnumValue, new EnumValueSerializer()],
+    [EnumDefinition, new EnumDefinitionSerializer()],
+    [UserDefinedValueTypeDefinition, new UserDefinedValueTypeDefinitionSerializer()],
+    [UsingForDirective, new UsingForDirectiveSerializer()],
+    [InheritanceSpecifier, new InheritanceSpecifierSerializer()],
+    [ContractDefinition, new ContractDefinitionSerializer()],
+    [StructuredDocumentation, new StructuredDocumentationSerializer()],
+    [ImportDirective, new ImportDirectiveSerializer()],
+    [PragmaDirective, new PragmaDirectiveSerializer()],
+    [SourceUnit, new SourceUnitSerializer()],
+    ...DefaultYulSerializerMapping
+]);
@@ -0,0 +1,3 @@
+export * from "./ast_mapping";
+export * from "./serializer";
+export * from "./yul_mapping";
@@ -0,0 +1,90 @@
+import { ASTNode, ASTNodeConstructor } from "../ast_node";
+import { SourceUnit } from "../implementation/meta/source_unit";
+
+/**
+ * Base class for all `ASTNodeSerializer`s.
+ * Child classes are responsible for producing node-specific properties
+ * of the modern (compact) Solc JSON AST.
+ */
+export abstract class ASTNodeSerializer {
+    /**
+     * Produce node-specific properties of the raw JSON node.
+     * Nested nodes should be serialized via `serializer.serialize()`.
+     */
+    abstract serializeInner(node: ASTNode, serializer: ASTSerializer): any;
+
+    /**
+     * Produce complete raw JSON node, that includes common properties
+     * (`id`, `nodeType` and `src`) and the output of `serializeInner()`.
+     */
+    serializeWhole(node: ASTNode, serializer: ASTSerializer): any {
+        return {
+            id: node.id,
+            nodeType: node.type,
+            src: node.src,
+            ...this.serializeInner(node, serializer)
+        };
+    }
+}
+
+/**
+ * Converts `ASTNode`s back to the modern (compact) Solc JSON AST.
+ *
+ * The produced JSON may be consumed by the `ASTReader`
+ * or by other tools, that accept compiler AST output.
+ * Note that trees, read from legacy AST, are serialized in modern format as well.
+ */
+export class ASTSerializer {
+    mapping: Map<ASTNodeConstructor<ASTNode>, ASTNodeSerializer>;
+
+    constructor(mapping: Map<ASTNodeConstructor<ASTNode>, ASTNodeSerializer>) {
+        this.mapping = mapping;
+    }
+
+    /**
+     * Produce raw JSON for the `node`.
+     */
+    serialize(node: ASTNode): any {
+        const serializer = this.mapping.get(node.constructor as ASTNodeConstructor<ASTNode>);
+
+        if (serializer === undefined) {
+            throw new Error(`Unable to find serializer for AST node of type "${node.type}"`);
+        }
+
+        return serializer.serializeWhole(node, this);
+    }
+
+    /**
+     * Produce an array of raw JSON for the `nodes`.
+     */
+    serializeArray(nodes: Iterable<ASTNode>): any[] {
+        const result: any[] = [];
+
+        for (const node of nodes) {
+            result.push(this.serialize(node));
+        }
+
+        return result;
+    }
+
+    /**
+     * Produce compiler-output-like data for the `units`,
+     * that has the same shape as the data, that is accepted by `ASTReader.read()`:
+     *
+     * ```
+     * { "sources": { [sourceEntryKey]: { "id": sourceListIndex, "ast": { ... } } } }
+     * ```
+     */
+    serializeSourceUnits(units: Iterable<SourceUnit>): any {
+        const sources: { [key: string]: any } = {};
+
+        for (const unit of units) {
+            sources[unit.sourceEntryKey] = {
+                id: unit.sourceListIndex,
+                ast: this.serialize(unit)
+            };
+        }
+
+        return { sources };
+    }
+}
@@ -0,0 +1,194 @@
+import { ASTNode, ASTNodeConstructor } from "../ast_node";
+import {
+    YulAssignment,
+    YulBlock,
+    YulBreak,
+    YulCase,
+    YulContinue,
+    YulExpressionStatement,
+    YulForLoop,
+    YulFunctionCall,
+    YulFunctionDefinition,
+    YulIdentifier,
+    YulIf,
+    YulLeave,
+    YulLiteral,
+    YulSwitch,
+    YulTypedName,
+    YulVariableDeclaration
+} from "../implementation/yul";
+import { ASTNodeSerializer, ASTSerializer } from "./serializer";
+
+/**
+ * Raw Yul nodes have no `id` property in compiler output.
+ * Ids are generated by `ASTReader` on reading.
+ */
+abstract class YulNodeSerializer extends ASTNodeSerializer {
+    serializeWhole(node: ASTNode, serializer: ASTSerializer): any {
+        return {
+            nodeType: node.type,
+            src: node.src,
+            ...this.serializeInner(node, serializer)
+        };
+    }
+}
+
+class YulEmptyNodeSerializer extends YulNodeSerializer {
+    serializeInner(): any {
+        return {};
+    }
+}
+
+class YulBlockSerializer extends YulNodeSerializer {
+    serializeInner(node: YulBlock, serializer: ASTSerializer): any {
+        return {
+            statements: serializer.serializeArray(node.vStatements)
+        };
+    }
+}
+
+class YulLiteralSerializer extends YulNodeSerializer {
+    serializeInner(node: YulLiteral): any {
+        const result: any = { kind: node.kind, type: node.typeName };
+
+        if (node.value !== undefined) {
+            result.value = node.value;
+        }
+
+        if (node.hexValue !== undefined) {
+            result.hexValue = node.hexValue;
+        }
+
+        return result;
+    }
+}
+
+class YulIdentifierSerializer extends YulNodeSerializer {
+    serializeInner(node: YulIdentifier): any {
+        return { name: node.name };
+    }
+}
+
+class YulTypedNameSerializer extends YulNodeSerializer {
+    serializeInner(node: YulTypedName): any {
+        return { name: node.name, type: node.typeName };
+    }
+}
+
+class YulFunctionCallSerializer extends YulNodeSerializer {
+    serializeInner(node: YulFunctionCall, serializer: ASTSerializer): any {
+        return {
+            functionName: serializer.serialize(node.vFunctionName),
+            arguments: serializer.serializeArray(node.vArguments)
+        };
+    }
+}
+
+class YulVariableDeclarationSerializer extends YulNodeSerializer {
+    serializeInner(node: YulVariableDeclaration, serializer: ASTSerializer): any {
+        const result: any = {
+            variables: serializer.serializeArray(node.vVariables)
+        };
+
+        if (node.vValue !== undefined) {
+            result.value = serializer.serialize(node.vValue);
+        }
+
+        return result;
+    }
+}
+
+class YulExpressionStatementSerializer extends YulNodeSerializer {
+    serializeInner(node: YulExpressionStatement, serializer: ASTSerializer): any {
+        return {
+            expression: serializer.serialize(node.vExpression)
+        };
+    }
+}
+
+class YulAssignmentSerializer extends YulNodeSerializer {
+    serializeInner(node: YulAssignment, serializer: ASTSerializer): any {
+        return {
+            variableNames: serializer.serializeArray(node.vVariableNames),
+            value: serializer.serialize(node.vValue)
+        };
+    }
+}
+
+class YulIfSerializer extends YulNodeSerializer {
+    serializeInner(node: YulIf, serializer: ASTSerializer): any {
+        return {
+            condition: serializer.serialize(node.vCondition),
+            body: serializer.serialize(node.vBody)
+        };
+    }
+}
+
+class YulCaseSerializer extends YulNodeSerializer {
+    serializeInner(node: YulCase, serializer: ASTSerializer): any {
+        return {
+            value: node.vValue === "default" ? "default" : serializer.serialize(node.vValue),
+            body: serializer.serialize(node.vBody)
+        };
+    }
+}
+
+class YulSwitchSerializer extends YulNodeSerializer {
+    serializeInner(node: YulSwitch, serializer: ASTSerializer): any {
+        return {
+            expression: serializer.serialize(node.vExpression),
+            cases: serializer.serializeArray(node.vCases)
+        };
+    }
+}
+
+class YulForLoopSerializer extends YulNodeSerializer {
+    serializeInner(node: YulForLoop, serializer: ASTSerializer): any {
+        return {
+            pre: serializer.serialize(node.vPre),
+            condition: serializer.serialize(node.vCondition),
+            post: serializer.serialize(node.vPost),
+            body: serializer.serialize(node.vBody)
+        };
+    }
+}
+
+class YulFunctionDefinitionSerializer extends YulNodeSerializer {
+    /**
+     * Compiler omits empty lists of parameters and return variables
+     */
+    serializeInner(node: YulFunctionDefinition, serializer: ASTSerializer): any {
+        const result: any = { name: node.name };
+
+        if (node.vParameters.length > 0) {
+            result.parameters = serializer.serializeArray(node.vParameters);
+        }
+
+        if (node.vReturnVariables.length > 0) {
+            result.returnVariables = serializer.serializeArray(node.vReturnVariables);
+        }
+
+        result.body = serializer.serialize(node.vBody);
+
+        return result;
+    }
+}
+
+export const DefaultYulSerializerMapping = new Map<ASTNodeConstructor<ASTNode>, ASTNodeSerializer>([
+    [YulBlock, new YulBlockSerializer()],
+    [YulLiteral, new YulLiteralSerializer()],
+    [YulIdentifier, new YulIdentifierSerializer()],
+    [YulTypedName, new YulTypedNameSerializer()],
+    [YulFunctionCall, new YulFunctionCallSerializer()],
+    [YulVariableDeclaration, new YulVariableDeclarationSerializer()],
+    [YulExpressionStatement, new YulExpressionStatementSerializer()],
+    [YulAssignment, new YulAssignmentSerializer()],
+    [YulIf, new YulIfSerializer()],
+    [YulCase, new YulCaseSerializer()],
+    [YulSwitch, new YulSwitchSerializer()],
+    [YulForLoop, new YulForLoopSerializer()],
+    [YulBreak, new YulEmptyNodeSerializer()],
+    [YulContinue, new YulEmptyNodeSerializer()],
+    [YulLeave, new YulEmptyNodeSerializer()],
+    [YulFunctionDefinition, new YulFunctionDefinitionSerializer()]
+]);
@@ -77,7 +77,7 @@ import {
     UserDefinedTypeName
 } from "../implementation/type";
 import { SourceFormatter } from "./formatter";
-import { ASTNodeWriter, ASTWriter, DescArgs, SrcDesc, YulWriter } from "./writer";
+import { ASTNodeWriter, ASTWriter, DescArgs, SrcDesc } from "./writer";
 import { DefaultYulWriterMapping } from "./yul_mapping";
 
 type CompoundStatement = IfStatement | ForStatement | WhileStatement;
@@ -720,23 +720,15 @@ class PlaceholderStatementWriter extends SimpleStatementWriter<PlaceholderStatem
 
 class InlineAssemblyWriter extends ASTNodeWriter {
     writeInner(node: InlineAssembly, writer: ASTWriter): SrcDesc {
-        let yul: string | undefined;
-
-        if (node.operations !== undefined) {
-            yul = node.operations;
-        }
-
         if (node.yul !== undefined) {
-            const yulWriter = new YulWriter(DefaultYulWriterMapping, writer.formatter);
-
-            yul = yulWriter.write(node.yul);
+            return writer.desc("assembly ", node.yul);
         }
 
-        if (yul === undefined) {
-            throw new Error("Unable to detect Yul data in inline assembly node: " + node.print());
+        if (node.operations !== undefined) {
+            return ["assembly " + node.operations];
         }
 
-        return ["assembly " + yul];
+        throw new Error("Unable to detect Yul data in inline assembly node: " + node.print());
     }
 
     writeWhole(node: InlineAssembly, writer: ASTWriter): SrcDesc {
@@ -1397,5 +1389,6 @@ export const DefaultASTWriterMapping = new Map<ASTNodeConstructor<ASTNode>, ASTN
     [StructuredDocumentation, new StructuredDocumentationWriter()],
     [ImportDirective, new ImportDirectiveWriter()],
     [PragmaDirective, new PragmaDirectiveWriter()],
-    [SourceUnit, new SourceUnitWriter()]
+    [SourceUnit, new SourceUnitWriter()],
+    ...DefaultYulWriterMapping
 ]);
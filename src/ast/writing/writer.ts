@@ -1,11 +1,6 @@
 import { ASTNode, ASTNodeConstructor } from "../ast_node";
-import { YulNode } from "../implementation/statement/inline_assembly";
 import { SourceFormatter } from "./formatter";
 
-export interface YulNodeWriter {
-    write(node: YulNode, writer: YulWriter): string;
-}
-
 export type SrcRangeMap = Map<ASTNode, [number, number]>;
 export type DescArgs = Array<string | ASTNode | undefined | null>;
 
@@ -66,28 +61,6 @@ export abstract class ASTNodeWriter {
     }
 }
 
-export class YulWriter {
-    mapping: Map<string, YulNodeWriter>;
-    formatter: SourceFormatter;
-
-    constructor(mapping: Map<string, YulNodeWriter>, formatter: SourceFormatter) {
-        this.mapping = mapping;
-        this.formatter = formatter;
-    }
-
-    write(node: YulNode): string {
-        const writer = this.mapping.get(node.nodeType);
-
-        if (writer) {
-            return writer.write(node, this);
-        }
-
-        const data = JSON.stringify(node, undefined, 4);
-
-        throw new Error("Unable to find writer for Yul node: " + data);
-    }
-}
-
 export class ASTWriter {
     mapping: Map<ASTNodeConstructor<ASTNode>, ASTNodeWriter>;
     formatter: SourceFormatter;
@@ -1,204 +1,229 @@
-import { YulNode } from "../implementation/statement/inline_assembly";
-import { YulNodeWriter, YulWriter } from "./writer";
+import { ASTNode, ASTNodeConstructor } from "../ast_node";
+import {
+    YulAssignment,
+    YulBlock,
+    YulBreak,
+    YulCase,
+    YulContinue,
+    YulExpressionStatement,
+    YulForLoop,
+    YulFunctionCall,
+    YulFunctionDefinition,
+    YulIdentifier,
+    YulIf,
+    YulLeave,
+    YulLiteral,
+    YulSwitch,
+    YulTypedName,
+    YulVariableDeclaration
+} from "../implementation/yul";
+import { ASTNodeWriter, ASTWriter, SrcDesc } from "./writer";
+
+function flatJoin<T1, T2>(arr: T1[][], join: T2): Array<T1 | T2> {
+    const result: Array<T1 | T2> = [];
+
+    for (let i = 0; i < arr.length; i++) {
+        result.push(...arr[i]);
+
+        if (i !== arr.length - 1) {
+            result.push(join);
+        }
+    }
+
+    return result;
+}
 
-class YulBlockWriter implements YulNodeWriter {
-    write(node: YulNode, writer: YulWriter): string {
-        if (node.statements.length === 0) {
-            return "{}";
+class YulBlockWriter extends ASTNodeWriter {
+    writeInner(node: YulBlock, writer: ASTWriter): SrcDesc {
+        if (node.vStatements.length === 0) {
+            return ["{}"];
         }
 
         const formatter = writer.formatter;
+        const wrap = formatter.renderWrap();
+        const oldIndent = formatter.renderIndent();
 
         formatter.increaseNesting();
 
-        const statements = node.statements.map(
-            (stmt: YulNode) => formatter.renderIndent() + writer.write(stmt)
-        );
+        const res: SrcDesc = [
+            "{",
+            wrap,
+            ...flatJoin(
+                node.vStatements.map<SrcDesc>((stmt) => [
+                    formatter.renderIndent(),
+                    ...writer.desc(stmt)
+                ]),
+                wrap
+            ),
+            wrap,
+            oldIndent,
+            "}"
+        ];
 
         formatter.decreaseNesting();
 
-        const wrap = formatter.renderWrap();
-        const indent = formatter.renderIndent();
-
-        return "{" + wrap + statements.join(wrap) + wrap + indent + "}";
+        return res;
     }
 }
 
-class YulLiteralWriter implements YulNodeWriter {
-    write(node: YulNode): string {
-        let result;
+class YulLiteralWriter extends ASTNodeWriter {
+    writeInner(node: YulLiteral): SrcDesc {
+        let result: string;
 
         if (node.kind === "string") {
-            if ("value" in node) {
+            if (node.value !== undefined) {
                 result = JSON.stringify(node.value);
-            } else if ("hexValue" in node) {
+            } else if (node.hexValue !== undefined) {
                 result = `hex"${node.hexValue}"`;
             } else {
-                throw new Error("Unable to pick string YulLiteral value: " + JSON.stringify(node));
+                throw new Error("Unable to pick string YulLiteral value: " + node.print());
             }
         } else {
-            result = node.value;
+            result = node.value as string;
         }
 
-        return node.type !== "" ? result + ":" + node.type : result;
+        return [node.typeName !== "" ? result + ":" + node.typeName : result];
     }
 }
 
-class YulIdentifierWriter implements YulNodeWriter {
-    write(node: YulNode): string {
-        return node.name;
+class YulIdentifierWriter extends ASTNodeWriter {
+    writeInner(node: YulIdentifier): SrcDesc {
+        return [node.name];
     }
 }
 
-class YulTypedNameWriter implements YulNodeWriter {
-    write(node: YulNode): string {
-        return node.type !== "" ? node.name + ":" + node.type : node.name;
+class YulTypedNameWriter extends ASTNodeWriter {
+    writeInner(node: YulTypedName): SrcDesc {
+        return [node.typeName !== "" ? node.name + ":" + node.typeName : node.name];
     }
 }
 
-class YulFunctionCallWriter implements YulNodeWriter {
-    write(node: YulNode, writer: YulWriter): string {
-        const id = writer.write(node.functionName);
-        const args = node.arguments.map((arg: YulNode) => writer.write(arg));
+class YulFunctionCallWriter extends ASTNodeWriter {
+    writeInner(node: YulFunctionCall, writer: ASTWriter): SrcDesc {
+        const args = node.vArguments.map((arg) => writer.desc(arg));
 
-        return id + "(" + args.join(", ") + ")";
+        return [...writer.desc(node.vFunctionName), "(", ...flatJoin(args, ", "), ")"];
     }
 }
 
-class YulVariableDeclarationWriter implements YulNodeWriter {
-    write(node: YulNode, writer: YulWriter): string {
-        const vars = node.variables.map((v: YulNode) => writer.write(v));
-        const rhs = node.value === null ? undefined : writer.write(node.value);
-        const lhs = "let " + vars.join(", ");
+class YulVariableDeclarationWriter extends ASTNodeWriter {
+    writeInner(node: YulVariableDeclaration, writer: ASTWriter): SrcDesc {
+        const vars = node.vVariables.map((v) => writer.desc(v));
+        const lhs: SrcDesc = ["let ", ...flatJoin(vars, ", ")];
 
-        return rhs !== undefined ? lhs + " := " + rhs : lhs;
+        return node.vValue ? [...lhs, " := ", ...writer.desc(node.vValue)] : lhs;
     }
 }
 
-class YulExpressionStatementWriter implements YulNodeWriter {
-    write(node: YulNode, writer: YulWriter): string {
-        return writer.write(node.expression);
+class YulExpressionStatementWriter extends ASTNodeWriter {
+    writeInner(node: YulExpressionStatement, writer: ASTWriter): SrcDesc {
+        return writer.desc(node.vExpression);
     }
 }
 
-class YulAssignmentWriter implements YulNodeWriter {
-    write(node: YulNode, writer: YulWriter): string {
-        const lhs = node.variableNames.map((v: YulNode) => writer.write(v));
-        const rhs = writer.write(node.value);
+class YulAssignmentWriter extends ASTNodeWriter {
+    writeInner(node: YulAssignment, writer: ASTWriter): SrcDesc {
+        const lhs = node.vVariableNames.map((v) => writer.desc(v));
 
-        return lhs.join(", ") + " := " + rhs;
+        return [...flatJoin(lhs, ", "), " := ", ...writer.desc(node.vValue)];
     }
 }
 
-class YulIfWriter implements YulNodeWriter {
-    write(node: YulNode, writer: YulWriter): string {
-        const condition = writer.write(node.condition);
-        const body = writer.write(node.body);
-
-        return "if " + condition + " " + body;
+class YulIfWriter extends ASTNodeWriter {
+    writeInner(node: YulIf, writer: ASTWriter): SrcDesc {
+        return writer.desc("if ", node.vCondition, " ", node.vBody);
     }
 }
 
-class YulCaseWriter implements YulNodeWriter {
-    write(node: YulNode, writer: YulWriter): string {
-        const body = writer.write(node.body);
-
-        if (node.value === "default") {
-            return "default " + body;
+class YulCaseWriter extends ASTNodeWriter {
+    writeInner(node: YulCase, writer: ASTWriter): SrcDesc {
+        if (node.vValue === "default") {
+            return writer.desc("default ", node.vBody);
         }
 
-        const value = writer.write(node.value);
-
-        return "case " + value + " " + body;
+        return writer.desc("case ", node.vValue, " ", node.vBody);
     }
 }
 
-class YulSwitchWriter implements YulNodeWriter {
-    write(node: YulNode, writer: YulWriter): string {
-        const expression = writer.write(node.expression);
-
+class YulSwitchWriter extends ASTNodeWriter {
+    writeInner(node: YulSwitch, writer: ASTWriter): SrcDesc {
         const formatter = writer.formatter;
-
-        const cases = node.cases.map(
-            (clause: YulNode) => formatter.renderIndent() + writer.write(clause)
-        );
-
         const wrap = formatter.renderWrap();
 
-        return "switch " + expression + wrap + cases.join(wrap);
+        const cases = node.vCases.map<SrcDesc>((clause) => [
+            formatter.renderIndent(),
+            ...writer.desc(clause)
+        ]);
+
+        return [...writer.desc("switch ", node.vExpression), wrap, ...flatJoin(cases, wrap)];
     }
 }
 
-class YulContinueWriter implements YulNodeWriter {
-    write(): string {
-        return "continue";
+class YulContinueWriter extends ASTNodeWriter {
+    writeInner(): SrcDesc {
+        return ["continue"];
     }
 }
 
-class YulBreakWriter implements YulNodeWriter {
-    write(): string {
-        return "break";
+class YulBreakWriter extends ASTNodeWriter {
+    writeInner(): SrcDesc {
+        return ["break"];
     }
 }
 
-class YulLeaveWriter implements YulNodeWriter {
-    write(): string {
-        return "leave";
+class YulLeaveWriter extends ASTNodeWriter {
+    writeInner(): SrcDesc {
+        return ["leave"];
     }
 }
 
-class YulForLoopWriter implements YulNodeWriter {
-    write(node: YulNode, writer: YulWriter): string {
-        const pre = writer.write(node.pre);
-        const condition = writer.write(node.condition);
-        const post = writer.write(node.post);
-        const body = writer.write(node.body);
-
-        return `for ${pre} ${condition} ${post} ${body}`;
+class YulForLoopWriter extends ASTNodeWriter {
+    writeInner(node: YulForLoop, writer: ASTWriter): SrcDesc {
+        return writer.desc(
+            "for ",
+            node.vPre,
+            " ",
+            node.vCondition,
+            " ",
+            node.vPost,
+            " ",
+            node.vBody
+        );
     }
 }
 
-class YulFunctionDefinitionWriter implements YulNodeWriter {
-    write(node: YulNode, writer: YulWriter): string {
-        const args = node.parameters
-            ? node.parameters.map((arg: any) => writer.write(arg))
-            : undefined;
-
-        const rets = node.returnVariables
-            ? node.returnVariables.map((v: any) => writer.write(v))
-            : undefined;
-
-        const body = writer.write(node.body);
-
-        const definition = ["function", node.name];
+class YulFunctionDefinitionWriter extends ASTNodeWriter {
+    writeInner(node: YulFunctionDefinition, writer: ASTWriter): SrcDesc {
+        const args = node.vParameters.map((arg) => writer.desc(arg));
+        const rets = node.vReturnVariables.map((v) => writer.desc(v));
 
-        definition.push(args ? "(" + args.join(", ") + ")" : "()");
+        const result: SrcDesc = ["function ", node.name, "(", ...flatJoin(args, ", "), ") "];
 
-        if (rets) {
-            definition.push("-> " + rets.join(", "));
+        if (rets.length > 0) {
+            result.push("-> ", ...flatJoin(rets, ", "), " ");
         }
 
-        definition.push(body);
-
-        return definition.join(" ");
-    }
-}
-
-export const DefaultYulWriterMapping = new Map<string, YulNodeWriter>([
-    ["YulBlock", new YulBlockWriter()],
-    ["YulLiteral", new YulLiteralWriter()],
-    ["YulIdentifier", new YulIdentifierWriter()],
-    ["YulTypedName", new YulTypedNameWriter()],
-    ["YulFunctionCall", new YulFunctionCallWriter()],
-    ["YulVariableDeclaration", new YulVariableDeclarationWriter()],
-    ["YulExpressionStatement", new YulExpressionStatementWriter()],
-    ["YulAssignment", new YulAssignmentWriter()],
-    ["YulIf", new YulIfWriter()],
-    ["YulCase", new YulCaseWriter()],
-    ["YulSwitch", new YulSwitchWriter()],
-    ["YulContinue", new YulContinueWriter()],
-    ["YulBreak", new YulBreakWriter()],
-    ["YulLeave", new YulLeaveWriter()],
-    ["YulForLoop", new YulForLoopWriter()],
-    ["YulFunctionDefinition", new YulFunctionDefinitionWriter()]
+        result.push(...writer.desc(node.vBody));
+
+        return result;
+    }
+}
+
+export const DefaultYulWriterMapping = new Map<ASTNodeConstructor<ASTNode>, ASTNodeWriter>([
+    [YulBlock, new YulBlockWriter()],
+    [YulLiteral, new YulLiteralWriter()],
+    [YulIdentifier, new YulIdentifierWriter()],
+    [YulTypedName, new YulTypedNameWriter()],
+    [YulFunctionCall, new YulFunctionCallWriter()],
+    [YulVariableDeclaration, new YulVariableDeclarationWriter()],
+    [YulExpressionStatement, new YulExpressionStatementWriter()],
+    [YulAssignment, new YulAssignmentWriter()],
+    [YulIf, new YulIfWriter()],
+    [YulCase, new YulCaseWriter()],
+    [YulSwitch, new YulSwitchWriter()],
+    [YulContinue, new YulContinueWriter()],
+    [YulBreak, new YulBreakWriter()],
+    [YulLeave, new YulLeaveWriter()],
+    [YulForLoop, new YulForLoopWriter()],
+    [YulFunctionDefinition, new YulFunctionDefinitionWriter()]
 ]);
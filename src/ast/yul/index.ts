@@ -0,0 +1,2 @@
+export { parseYulOperations, YulParseOptions } from "./yul_parser";
+export * from "./utils";
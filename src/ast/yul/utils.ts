@@ -0,0 +1,125 @@
+import { ASTReader } from "../ast_reader";
+import { YulBlock } from "../implementation/yul/yul_block";
+import { YulFunctionCall } from "../implementation/yul/yul_function_call";
+import { YulIdentifier } from "../implementation/yul/yul_identifier";
+import { ModernConfiguration } from "../modern/configuration";
+import { parseSourceLocation } from "../utils";
+import { parseYulOperations, SyntaxError as YulSyntaxError } from "./yul_parser";
+
+interface ExternalReferenceDesc {
+    name?: string;
+    declaration: number;
+    src: string;
+}
+
+/**
+ * Normalizes entry of `InlineAssembly.externalReferences`.
+ *
+ * Older compilers produce `{ [name]: { declaration, src, ... } }` entries,
+ * while newer ones produce `{ declaration, src, ... }` entries without a name.
+ */
+function normalizeExternalReference(entry: any): ExternalReferenceDesc {
+    if ("declaration" in entry) {
+        return entry;
+    }
+
+    const [name, info] = Object.entries(entry)[0] as [string, any];
+
+    return { ...info, name };
+}
+
+/**
+ * Parses `operations` string of `InlineAssembly` and converts it to the Yul AST.
+ * Every produced node receives `src` of the `InlineAssembly`,
+ * as `operations` is re-printed by compiler and does not preserve original locations.
+ *
+ * Returns `undefined` when `operations` contains legacy assembly constructs,
+ * that have no Yul counterpart (like labels or stack assignments).
+ */
+export function readYulOperations(
+    reader: ASTReader,
+    operations: string,
+    src: string
+): YulBlock | undefined {
+    let raw: any;
+
+    try {
+        raw = parseYulOperations(operations, { src });
+    } catch (e) {
+        if (e instanceof YulSyntaxError) {
+            return undefined;
+        }
+
+        throw e;
+    }
+
+    return reader.convert(raw, ModernConfiguration) as YulBlock;
+}
+
+/**
+ * Sets `referencedDeclaration` of Yul identifiers
+ * according to the `externalReferences` of the `InlineAssembly`.
+ *
+ * Identifiers are matched by source location first.
+ * Remaining ones (from the parsed `operations`) are matched by name
+ * in order of their appearance. Matched identifiers also receive `src` of the reference.
+ */
+export function linkExternalReferences(yul: YulBlock, externalReferences: any[]): void {
+    const identifiers = yul.getChildrenByType(YulIdentifier).filter((identifier) => {
+        const parent = identifier.parent;
+
+        return !(parent instanceof YulFunctionCall && parent.vFunctionName === identifier);
+    });
+
+    const bySrc = new Map<string, ExternalReferenceDesc>();
+
+    for (const entry of externalReferences) {
+        const ref = normalizeExternalReference(entry);
+
+        bySrc.set(ref.src, ref);
+    }
+
+    const rest: YulIdentifier[] = [];
+
+    for (const identifier of identifiers) {
+        const ref = bySrc.get(identifier.src);
+
+        if (ref === undefined) {
+            rest.push(identifier);
+        } else {
+            identifier.referencedDeclaration = ref.declaration;
+
+            bySrc.delete(ref.src);
+        }
+    }
+
+    const refs = [...bySrc.values()].sort(
+        (a, b) => parseSourceLocation(a.src).offset - parseSourceLocation(b.src).offset
+    );
+
+    const unmatched = new Map<string, ExternalReferenceDesc[]>();
+
+    for (const ref of refs) {
+        if (ref.name === undefined) {
+            continue;
+        }
+
+        const group = unmatched.get(ref.name);
+
+        if (group === undefined) {
+            unmatched.set(ref.name, [ref]);
+        } else {
+            group.push(ref);
+        }
+    }
+
+    for (const identifier of rest) {
+        const group = unmatched.get(identifier.name);
+        const ref = group === undefined ? undefined : group.shift();
+
+        if (ref !== undefined) {
+            identifier.referencedDeclaration = ref.declaration;
+            identifier.src = ref.src;
+        }
+    }
+}
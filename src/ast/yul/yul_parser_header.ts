@@ -0,0 +1,28 @@
+// Need the ts-nocheck to suppress the noUnusedLocals errors in the generated parser
+// @ts-nocheck
+import { LiteralKind } from "../constants";
+
+export interface YulParseOptions {
+    /**
+     * Source location, that is assigned to every produced node
+     */
+    src: string;
+}
+
+function makeNode(nodeType: string, fields: any, options: any): any {
+    return { nodeType, src: options.src, ...fields };
+}
+
+function makeStringLiteral(value: string, options: any): any {
+    const hexValue = Buffer.from(value, "utf-8").toString("hex");
+
+    return makeNode("YulLiteral", { kind: LiteralKind.String, value, hexValue }, options);
+}
+
+/**
+ * Parses `operations` string of the legacy `InlineAssembly` node
+ * and produces raw Yul AST, that has same structure as the one in the modern compiler output.
+ */
+export function parseYulOperations(operations: string, options: YulParseOptions): any {
+    return parse(operations, options);
+}
@@ -8,24 +8,34 @@ import {
     ASTNodeFormatter,
     ASTReader,
     ASTWriter,
+    BINARIES_URL,
+    CACHE_DIR,
+    checkSelectors,
+    checkStorageUpgrade,
     CompilationOutput,
     CompileFailedError,
     compileJson,
     compileJsonData,
     CompileResult,
+    CompilerDiagnostic,
     CompilerKind,
     CompilerVersions,
     compileSol,
     compileSourceString,
     ContractDefinition,
+    createVerificationInput,
     DefaultASTWriterMapping,
     FunctionDefinition,
     FunctionVisibility,
     getABIEncoderVersion,
     isExact,
     LatestCompilerVersion,
+    Location,
+    PathOptions,
     PossibleCompilerKinds,
+    prefetchCompilers,
     PrettyFormatter,
+    SelectorCheckOutputs,
     SourceUnit,
     StateVariableVisibility,
     VariableDeclaration,
@@ -43,7 +53,10 @@ const cli = {
         "raw",
         "with-sources",
         "tree",
-        "source"
+        "source",
+        "diagnostics",
+        "check-selectors",
+        "verification-input"
     ],
     number: ["depth"],
     string: [
@@ -52,12 +65,20 @@ const cli = {
         "path-remapping",
         "xpath",
         "compiler-settings",
-        "compiler-kind"
+        "compiler-kind",
+        "check-upgrade",
+        "check-upgrade-compiler-version",
+        "contract",
+        "prefetch-compilers",
+        "compiler-cache",
+        "base-path",
+        "include-path"
     ],
     default: {
         depth: Number.MAX_SAFE_INTEGER,
         mode: modes[0],
         "compiler-version": "auto",
+        "check-upgrade-compiler-version": "auto",
         "compiler-kind": CompilerKind.WASM
     }
 };
@@ -78,6 +99,22 @@ const cli = {
         ].join("\n");
 
         console.log(message);
+    } else if (args["prefetch-compilers"]) {
+        const compilerKind: CompilerKind = args["compiler-kind"];
+        const cacheDir: string = args["compiler-cache"]
+            ? path.resolve(process.cwd(), args["compiler-cache"])
+            : CACHE_DIR;
+
+        const versions: string[] =
+            args["prefetch-compilers"] === "all"
+                ? CompilerVersions
+                : args["prefetch-compilers"].split(",").map((version: string) => version.trim());
+
+        const paths = await prefetchCompilers(versions, compilerKind, cacheDir);
+
+        for (const compilerPath of paths) {
+            console.log(compilerPath);
+        }
     } else if (args.help || (!args._.length && !args.stdin)) {
         const message = `Compiles Solidity input and prints typed AST.
 
@@ -103,18 +140,50 @@ OPTIONS:
     --compiler-kind         What type of Solidity compiler to use. Currently supported values are 'wasm' and 'native'.
                             Default value: ${cli.default["compiler-kind"]}
     --path-remapping        Path remapping input for Solc.
+    --base-path             Directory, that imported files are looked up in (as for the solc
+                            option of the same name). Default is the current working directory.
+    --include-path          Additional directory to look up imported files in. Could be specified
+                            multiple times. Files, found in more than one directory, are errors.
     --compiler-settings     Additional settings passed to the solc compiler in the form of a
                             JSON string (e.g. '{"optimizer": {"enabled": true, "runs": 200}}').
                             Note the double quotes. For more details see https://docs.soliditylang.org/en/latest/using-the-compiler.html#input-description.
     --raw                   Print raw Solc compilation output.
     --with-sources          When used with "raw", adds "source" property with 
                             source files content to the compiler artifact.
+    --diagnostics           Print compiler errors and warnings as JSON array.
+                            Exit code is 1 if there are errors.
     --tree                  Print short tree of parent-child relations in AST.
     --source                Print source code, assembled from Solc-generated AST.
     --xpath                 XPath selector to perform for each source unit.
     --depth                 Number of children for each of AST node to print.
                             Minimum value is 0. Not affects "raw", "tree" and "source".
                             Default value: ${cli.default.depth}
+    --check-upgrade         Path to the previous version of the input (Solidity source or
+                            JSON compiler artifact). Compares storage layouts of the contract,
+                            specified by "contract", and reports state variables,
+                            that are not preserved by the input version.
+                            The previous version is compiled with the same "path-remapping"
+                            and "compiler-settings", but without "base-path" and "include-path".
+    --check-upgrade-compiler-version
+                            Solc version to compile the previous version with for "check-upgrade"
+                            (exact SemVer version or auto). Is independent of "compiler-version".
+                            Default value: ${cli.default["check-upgrade-compiler-version"]}
+    --verification-input    Print minimal standard JSON input to verify the contract,
+                            specified by "contract", (e.g. on block explorer) with the compiler
+                            version. Input contains only the sources, that are imported
+                            by the contract, and the settings, that affect the bytecode.
+    --contract              Name of the contract for "check-upgrade" and "verification-input".
+    --check-selectors       Compare selectors and interface ids, computed for public and external
+                            functions and public getters of all contracts, with the method
+                            identifiers of the compiler output and report mismatches.
+    --prefetch-compilers    Download compilers of the comma-separated list of versions
+                            (or "all") of the "compiler-kind" to the compiler cache,
+                            then print paths to the compiler files.
+    --compiler-cache        Directory to store compilers with "prefetch-compilers".
+                            Default value: ${CACHE_DIR}
+                            Set SOL_AST_COMPILER_MIRROR environment variable to use
+                            the mirror (URL or local directory) instead of ${BINARIES_URL},
+                            or SOL_AST_COMPILER_OFFLINE to only use cached compilers.
 `;
 
         console.log(message);
@@ -136,20 +205,33 @@ OPTIONS:
         }
 
         const compilerVersion: string = args["compiler-version"];
+        const previousCompilerVersion: string = args["check-upgrade-compiler-version"];
 
-        if (!(compilerVersion === "auto" || isExact(compilerVersion))) {
-            const message = [
-                `Invalid compiler version "${compilerVersion}".`,
-                'Possible values: "auto" or exact version string.'
-            ].join(" ");
+        for (const version of [compilerVersion, previousCompilerVersion]) {
+            if (!(version === "auto" || isExact(version))) {
+                const message = [
+                    `Invalid compiler version "${version}".`,
+                    'Possible values: "auto" or exact version string.'
+                ].join(" ");
 
-            throw new Error(message);
+                throw new Error(message);
+            }
         }
 
         const pathRemapping: string[] = args["path-remapping"]
             ? args["path-remapping"].split(";")
             : [];
 
+        const pathOptions: PathOptions = {};
+
+        if (args["base-path"] !== undefined) {
+            pathOptions.basePath = args["base-path"];
+        }
+
+        if (args["include-path"] !== undefined) {
+            pathOptions.includePaths = ([] as string[]).concat(args["include-path"]);
+        }
+
         let compilerSettings: any = undefined;
 
         if (args["compiler-settings"]) {
@@ -162,7 +244,9 @@ OPTIONS:
             }
         }
 
-        const compilationOutput: CompilationOutput[] = [CompilationOutput.ALL];
+        const compilationOutput: CompilationOutput[] = args["check-selectors"]
+            ? SelectorCheckOutputs
+            : [CompilationOutput.ALL];
 
         let fileName = args._[0];
         let result: CompileResult;
@@ -196,7 +280,8 @@ OPTIONS:
                               pathRemapping,
                               compilationOutput,
                               compilerSettings,
-                              compilerKind
+                              compilerKind,
+                              pathOptions
                           );
             } else {
                 fileName = path.resolve(process.cwd(), args._[0]);
@@ -211,7 +296,8 @@ OPTIONS:
                             pathRemapping,
                             compilationOutput,
                             compilerSettings,
-                            compilerKind
+                            compilerKind,
+                            pathOptions
                         );
                     } else if (iFileName.endsWith(".json")) {
                         result = await compileJson(
@@ -240,11 +326,25 @@ OPTIONS:
                                   compilerVersion,
                                   pathRemapping,
                                   compilationOutput,
-                                  compilerSettings
+                                  compilerSettings,
+                                  compilerKind,
+                                  pathOptions
                               );
                 }
             }
         } catch (e) {
+            if (e instanceof CompileFailedError && args.diagnostics) {
+                const diagnostics: CompilerDiagnostic[] = [];
+
+                for (const failure of e.failures) {
+                    diagnostics.push(...failure.errors, ...failure.warnings);
+                }
+
+                console.log(JSON.stringify(diagnostics, undefined, 4));
+
+                process.exit(1);
+            }
+
             if (e instanceof CompileFailedError) {
                 console.error("Compile errors encountered:");
 
@@ -256,7 +356,7 @@ OPTIONS:
                     );
 
                     for (const error of failure.errors) {
-                        console.error(error);
+                        console.error(error.formattedMessage);
                     }
                 }
 
@@ -268,18 +368,30 @@ OPTIONS:
 
         const { data, files } = result;
 
+        if (args.diagnostics) {
+            console.log(JSON.stringify(result.warnings, undefined, 4));
+
+            process.exit(0);
+        }
+
         if (args.raw) {
             if (args["with-sources"] && files.size > 0) {
                 if (!data.sources) {
                     data.sources = {};
                 }
 
+                /**
+                 * Source contents are not part of the compiler output,
+                 * so they are attached to untyped entries
+                 */
+                const sources: { [fileName: string]: any } = data.sources;
+
                 for (const [key, value] of files) {
-                    if (!data.sources[key]) {
-                        data.sources[key] = {};
+                    if (!sources[key]) {
+                        sources[key] = {};
                     }
 
-                    data.sources[key].source = value;
+                    sources[key].source = value;
                 }
             }
 
@@ -392,6 +504,136 @@ OPTIONS:
             process.exit(0);
         }
 
+        if (args["check-upgrade"]) {
+            const contractName: string | undefined = args.contract;
+
+            if (!contractName) {
+                throw new Error('Option "check-upgrade" requires "contract" to be specified');
+            }
+
+            const previousFileName = path.resolve(process.cwd(), args["check-upgrade"]);
+            const previous = previousFileName.toLowerCase().endsWith(".json")
+                ? await compileJson(
+                      previousFileName,
+                      previousCompilerVersion,
+                      compilationOutput,
+                      compilerSettings,
+                      compilerKind
+                  )
+                : await compileSol(
+                      previousFileName,
+                      previousCompilerVersion,
+                      pathRemapping,
+                      compilationOutput,
+                      compilerSettings,
+                      compilerKind
+                  );
+
+            const previousUnits = new ASTReader().read(previous.data, ASTKind.Any, previous.files);
+
+            const findContract = (candidates: SourceUnit[], source: string) => {
+                for (const unit of candidates) {
+                    const contract = unit.vContracts.find((c) => c.name === contractName);
+
+                    if (contract) {
+                        return contract;
+                    }
+                }
+
+                throw new Error(`Unable to find contract "${contractName}" in ${source}`);
+            };
+
+            const issues = checkStorageUpgrade(
+                findContract(previousUnits, previousFileName),
+                findContract(units, fileName),
+                previous.files,
+                files
+            );
+
+            if (issues.length === 0) {
+                console.log("No storage incompatibilities found");
+
+                process.exit(0);
+            }
+
+            for (const issue of issues) {
+                console.log(`[${issue.kind}] ${issue.message}`);
+
+                for (const [label, side] of [
+                    ["old", issue.old],
+                    ["new", issue.new]
+                ] as const) {
+                    if (side) {
+                        const { line, column } = side.coordinates.start;
+
+                        console.log(`    ${label}: ${side.location.fileName}:${line}:${column}`);
+                    }
+                }
+            }
+
+            process.exit(1);
+        }
+
+        if (args["verification-input"]) {
+            const contractName: string | undefined = args.contract;
+
+            if (!contractName) {
+                throw new Error('Option "verification-input" requires "contract" to be specified');
+            }
+
+            if (result.compilerVersion === undefined) {
+                throw new Error(
+                    'Option "verification-input" requires compiler version to be known'
+                );
+            }
+
+            const contract = units
+                .map((unit) => unit.vContracts.find((c) => c.name === contractName))
+                .find((c) => c !== undefined);
+
+            if (contract === undefined) {
+                throw new Error(`Unable to find contract "${contractName}" in ${fileName}`);
+            }
+
+            const verification = createVerificationInput(
+                contract,
+                files,
+                result.compilerVersion,
+                pathRemapping,
+                compilerSettings === undefined ? result.compilerSettings : compilerSettings
+            );
+
+            console.log(JSON.stringify(verification, undefined, 4));
+
+            process.exit(0);
+        }
+
+        if (args["check-selectors"]) {
+            if (result.compilerVersion === undefined) {
+                throw new Error('Option "check-selectors" requires compiler version to be known');
+            }
+
+            const mismatches = checkSelectors(units, data, result.compilerVersion);
+
+            if (mismatches.length === 0) {
+                console.log("No selector mismatches found");
+
+                process.exit(0);
+            }
+
+            for (const mismatch of mismatches) {
+                const location = Location.createForNode(mismatch.node);
+                const coordinates = location.getCoordinates(files.get(location.fileName));
+                const { line, column } = coordinates.start;
+
+                console.log(`[${mismatch.kind}] ${mismatch.message}`);
+                console.log(`    encoder: ${mismatch.encoderVersion}`);
+                console.log(`    at: ${location.fileName}:${line}:${column}`);
+            }
+
+            process.exit(1);
+        }
+
         if (args.source) {
             let targetCompilerVersion: string;
 
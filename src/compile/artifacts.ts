@@ -0,0 +1,264 @@
+import { keccak256 } from "js-sha3";
+import path from "path";
+import { getFileSystem } from "./file_system";
+import { SolcOutput } from "./output";
+
+/**
+ * Compiler output, recovered from the build artifacts of the development frameworks
+ */
+export interface BuildArtifact {
+    /**
+     * Compiler output in the standard JSON format
+     */
+    data: SolcOutput;
+
+    compilerVersion?: string;
+    compilerSettings?: any;
+
+    /**
+     * Source contents by source unit names
+     */
+    files: Map<string, string>;
+}
+
+/**
+ * Extracts release version from the long compiler version (e.g. `0.8.12+commit.f00d7308`)
+ */
+function getReleaseVersion(longVersion: string): string {
+    return longVersion.replace(/^v/, "").split("+")[0];
+}
+
+/**
+ * Checks that `data` is a Hardhat build info file (`artifacts/build-info/*.json`),
+ * that contains compiler input and output.
+ */
+export function isHardhatBuildInfo(data: any): boolean {
+    return (
+        data instanceof Object &&
+        typeof data.solcVersion === "string" &&
+        data.input instanceof Object &&
+        data.input.sources instanceof Object &&
+        data.output instanceof Object &&
+        data.output.sources instanceof Object
+    );
+}
+
+/**
+ * Checks that `data` is a Foundry contract artifact (`out/<File>.sol/<Contract>.json`),
+ * that embeds the AST of the source unit and the contract metadata.
+ */
+export function isFoundryArtifact(data: any): boolean {
+    return (
+        data instanceof Object &&
+        data.abi instanceof Array &&
+        data.ast instanceof Object &&
+        data.ast.nodeType === "SourceUnit" &&
+        (data.metadata !== undefined || typeof data.rawMetadata === "string")
+    );
+}
+
+export function readHardhatBuildInfo(data: any): BuildArtifact {
+    const files = new Map<string, string>();
+
+    for (const [fileName, source] of Object.entries<any>(data.input.sources)) {
+        if (source instanceof Object && typeof source.content === "string") {
+            files.set(fileName, source.content);
+        }
+    }
+
+    return {
+        data: data.output,
+        compilerVersion: data.solcVersion,
+        compilerSettings: data.input.settings,
+        files
+    };
+}
+
+function getFoundryMetadata(artifact: any): any {
+    if (typeof artifact.rawMetadata === "string") {
+        return JSON.parse(artifact.rawMetadata);
+    }
+
+    return typeof artifact.metadata === "string"
+        ? JSON.parse(artifact.metadata)
+        : artifact.metadata;
+}
+
+/**
+ * Returns source id of the source unit, that is stored in the artifact.
+ * Older artifacts have no `id` property, so the id is taken from the `src` of the unit.
+ */
+function getFoundrySourceId(artifact: any): number {
+    if (typeof artifact.id === "number") {
+        return artifact.id;
+    }
+
+    return Number(String(artifact.ast.src).split(":")[2]);
+}
+
+/**
+ * Recovers source contents from the metadata, or from the files under the `root` directory,
+ * if their hashes match the ones, recorded in the metadata.
+ */
+function recoverFoundrySources(
+    metadata: any,
+    root: string | undefined,
+    files: Map<string, string>
+): void {
+    const fs = getFileSystem();
+
+    const sources =
+        metadata instanceof Object && metadata.sources instanceof Object ? metadata.sources : {};
+
+    for (const [fileName, source] of Object.entries<any>(sources)) {
+        if (files.has(fileName)) {
+            continue;
+        }
+
+        if (typeof source.content === "string") {
+            files.set(fileName, source.content);
+
+            continue;
+        }
+
+        if (root === undefined) {
+            continue;
+        }
+
+        const filePath = path.join(root, fileName);
+
+        if (!fs.exists(filePath)) {
+            continue;
+        }
+
+        const content = fs.readTextFile(filePath);
+
+        if (
+            typeof source.keccak256 !== "string" ||
+            source.keccak256.replace(/^0x/, "") === keccak256(content)
+        ) {
+            files.set(fileName, content);
+        }
+    }
+}
+
+/**
+ * Combines Foundry contract artifacts of the same compilation
+ * to the compiler output in the standard JSON format.
+ *
+ * Source contents are not stored in the artifacts. They are recovered
+ * from the files under the `root` (project) directory, if it is specified.
+ */
+export function readFoundryArtifacts(artifacts: any[], root?: string): BuildArtifact {
+    const sources: { [fileName: string]: any } = {};
+    const contracts: { [fileName: string]: { [contractName: string]: any } } = {};
+    const files = new Map<string, string>();
+
+    let compilerVersion: string | undefined;
+    let compilerSettings: any;
+
+    for (const artifact of artifacts) {
+        const metadata = getFoundryMetadata(artifact);
+        const fileName: string = artifact.ast.absolutePath;
+
+        if (metadata instanceof Object && metadata.compiler instanceof Object) {
+            const version = getReleaseVersion(metadata.compiler.version);
+
+            if (compilerVersion !== undefined && compilerVersion !== version) {
+                throw new Error(
+                    `Artifacts are produced by different compiler versions: ${compilerVersion} and ${version}`
+                );
+            }
+
+            compilerVersion = version;
+        }
+
+        if (
+            compilerSettings === undefined &&
+            metadata instanceof Object &&
+            metadata.settings instanceof Object
+        ) {
+            compilerSettings = { ...metadata.settings };
+
+            /**
+             * Compilation target is a metadata-only setting
+             */
+            delete compilerSettings.compilationTarget;
+        }
+
+        if (sources[fileName] === undefined) {
+            sources[fileName] = { ast: artifact.ast, id: getFoundrySourceId(artifact) };
+        }
+
+        const target =
+            metadata instanceof Object && metadata.settings instanceof Object
+                ? metadata.settings.compilationTarget
+                : undefined;
+
+        const contractName = target instanceof Object ? target[fileName] : undefined;
+
+        if (typeof contractName === "string") {
+            if (contracts[fileName] === undefined) {
+                contracts[fileName] = {};
+            }
+
+            contracts[fileName][contractName] = {
+                abi: artifact.abi,
+                metadata: JSON.stringify(metadata),
+                evm: {
+                    bytecode: artifact.bytecode,
+                    deployedBytecode: artifact.deployedBytecode,
+                    methodIdentifiers: artifact.methodIdentifiers
+                }
+            };
+        }
+
+        recoverFoundrySources(metadata, root, files);
+    }
+
+    return {
+        data: { sources, contracts },
+        compilerVersion,
+        compilerSettings,
+        files
+    };
+}
+
+/**
+ * Reads all contract artifacts from the Foundry output directory (`out/` by default).
+ * Build info files (`build-info/` directory) are skipped.
+ *
+ * Sources are recovered relative to the `root` directory,
+ * that is the parent of the output directory by default.
+ */
+export function readFoundryOutDir(outDir: string, root = path.dirname(outDir)): BuildArtifact {
+    const fs = getFileSystem();
+
+    const artifacts: any[] = [];
+
+    for (const dirName of fs.readDir(outDir).sort()) {
+        const dir = path.join(outDir, dirName);
+
+        if (dirName === "build-info" || !fs.stat(dir).isDirectory) {
+            continue;
+        }
+
+        for (const fileName of fs.readDir(dir).sort()) {
+            if (!fileName.endsWith(".json")) {
+                continue;
+            }
+
+            const data = JSON.parse(fs.readTextFile(path.join(dir, fileName)));
+
+            if (isFoundryArtifact(data)) {
+                artifacts.push(data);
+            }
+        }
+    }
+
+    if (artifacts.length === 0) {
+        throw new Error(`No Foundry artifacts found in ${outDir}`);
+    }
+
+    return readFoundryArtifacts(artifacts, root);
+}
@@ -0,0 +1,219 @@
+import crypto from "crypto";
+import path from "path";
+import { CompilerKind } from "./constants";
+import { FileStats, FileSystem, LocalFileSystem } from "./file_system";
+import { SolcInput } from "./input";
+
+export interface CompilationCacheLimits {
+    /**
+     * Maximum total size of the stored outputs in bytes
+     */
+    maxSize: number;
+
+    /**
+     * Maximum number of the stored outputs
+     */
+    maxEntries: number;
+}
+
+export const DefaultCompilationCacheLimits: CompilationCacheLimits = {
+    maxSize: 1024 * 1024 * 1024,
+    maxEntries: 1000
+};
+
+const ENTRY_EXT = ".json";
+
+/**
+ * Serializes `value` to JSON with sorted object keys,
+ * so equal values always produce equal strings.
+ */
+function stableStringify(value: any): string {
+    if (value instanceof Array) {
+        return `[${value.map(stableStringify).join(",")}]`;
+    }
+
+    if (value instanceof Object) {
+        const entries = Object.keys(value)
+            .sort()
+            .filter((key) => value[key] !== undefined)
+            .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`);
+
+        return `{${entries.join(",")}}`;
+    }
+
+    return JSON.stringify(value);
+}
+
+/**
+ * On-disk cache of compiler outputs. Outputs are keyed by hash
+ * of the standard JSON input, compiler version and compiler kind.
+ *
+ * When limits are exceeded, least recently used outputs are evicted.
+ * Outputs are stored on the local disk, unless other file system is specified.
+ */
+export class CompilationCache {
+    readonly dir: string;
+    readonly limits: CompilationCacheLimits;
+    readonly fs: FileSystem;
+
+    constructor(
+        dir: string,
+        limits: Partial<CompilationCacheLimits> = {},
+        fs: FileSystem = LocalFileSystem
+    ) {
+        this.dir = dir;
+        this.limits = { ...DefaultCompilationCacheLimits, ...limits };
+        this.fs = fs;
+    }
+
+    static getKey(input: SolcInput, version: string, kind: CompilerKind): string {
+        return crypto
+            .createHash("sha256")
+            .update(stableStringify({ input, version, kind }))
+            .digest("hex");
+    }
+
+    private getEntryPath(key: string): string {
+        return path.join(this.dir, key + ENTRY_EXT);
+    }
+
+    has(key: string): boolean {
+        return this.fs.exists(this.getEntryPath(key));
+    }
+
+    /**
+     * Returns stored compiler output for the `key` or `undefined` if there is none
+     */
+    get(key: string): any | undefined {
+        const entryPath = this.getEntryPath(key);
+
+        let output: any;
+
+        try {
+            output = JSON.parse(this.fs.readTextFile(entryPath));
+        } catch (e) {
+            /**
+             * Missing or partially written entry
+             */
+            return undefined;
+        }
+
+        /**
+         * Modification time is used to track recently used entries
+         */
+        this.fs.touch(entryPath);
+
+        return output;
+    }
+
+    set(key: string, output: any): void {
+        const entryPath = this.getEntryPath(key);
+        const tmpPath = `${entryPath}.${process.pid}.tmp`;
+
+        this.fs.writeFile(tmpPath, JSON.stringify(output));
+        this.fs.move(tmpPath, entryPath);
+
+        this.prune();
+    }
+
+    /**
+     * Removes stored output for the `key`. Returns `true` if there was one.
+     */
+    delete(key: string): boolean {
+        const entryPath = this.getEntryPath(key);
+
+        if (!this.fs.exists(entryPath)) {
+            return false;
+        }
+
+        this.fs.remove(entryPath);
+
+        return true;
+    }
+
+    /**
+     * Removes stored output of the compilation of the `input`
+     */
+    invalidate(input: SolcInput, version: string, kind: CompilerKind): boolean {
+        return this.delete(CompilationCache.getKey(input, version, kind));
+    }
+
+    /**
+     * Removes all stored outputs
+     */
+    clear(): void {
+        for (const [entryPath] of this.entries()) {
+            this.fs.remove(entryPath);
+        }
+    }
+
+    /**
+     * Returns total size of stored outputs in bytes
+     */
+    size(): number {
+        return this.entries().reduce((total, [, stats]) => total + stats.size, 0);
+    }
+
+    /**
+     * Evicts least recently used outputs until the cache fits into the limits
+     */
+    prune(): void {
+        const entries = this.entries().sort(([, a], [, b]) => b.mtimeMs - a.mtimeMs);
+
+        let size = 0;
+
+        entries.forEach(([entryPath, stats], i) => {
+            size += stats.size;
+
+            if (i >= this.limits.maxEntries || size > this.limits.maxSize) {
+                this.fs.remove(entryPath);
+            }
+        });
+    }
+
+    private entries(): Array<[string, FileStats]> {
+        if (!this.fs.exists(this.dir)) {
+            return [];
+        }
+
+        return this.fs
+            .readDir(this.dir)
+            .filter((name) => name.endsWith(ENTRY_EXT))
+            .map((name) => {
+                const entryPath = path.join(this.dir, name);
+
+                return [entryPath, this.fs.stat(entryPath)];
+            });
+    }
+}
+
+/**
+ * Explicitly configured cache: `undefined` if not configured, `null` if disabled
+ */
+let compilationCache: CompilationCache | null | undefined;
+
+/**
+ * Sets the cache, that is used by `compile()` (and `compile*()` functions family).
+ * Pass `null` to disable caching or `undefined` to reset to the default behavior.
+ */
+export function setCompilationCache(cache: CompilationCache | null | undefined): void {
+    compilationCache = cache;
+}
+
+/**
+ * Returns the cache, that is used by `compile()`.
+ *
+ * If the cache is not set explicitly, but `SOL_AST_COMPILATION_CACHE` environment variable
+ * is specified, then the cache is created in the directory from the variable.
+ */
+export function getCompilationCache(): CompilationCache | undefined {
+    if (compilationCache === undefined) {
+        const dir = process.env["SOL_AST_COMPILATION_CACHE"];
+
+        if (dir !== undefined && dir !== "") {
+            compilationCache = new CompilationCache(dir);
+        }
+    }
+
+    return compilationCache === null ? undefined : compilationCache;
+}
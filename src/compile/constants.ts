@@ -115,6 +115,7 @@ export enum CompilationOutput {
     EVM_BYTECODE_SOURCEMAP = "evm.bytecode.sourceMap",
     EVM_BYTECODE_LINKREFERENCES = "evm.bytecode.linkReferences",
     EVM_BYTECODE_GENERATEDSOURCES = "evm.bytecode.generatedSources",
+    EVM_DEPLOYEDBYTECODE_OBJECT = "evm.deployedBytecode.object",
     EVM_DEPLOYEDBYTECODE_IMMUTABLEREFERENCES = "evm.deployedBytecode.immutableReferences",
     EVM_METHODIDENTIFIERS = "evm.methodIdentifiers",
     EVM_GASESTIMATES = "evm.gasEstimates",
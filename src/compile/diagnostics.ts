@@ -0,0 +1,140 @@
+export enum DiagnosticSeverity {
+    Error = "error",
+    Warning = "warning",
+    Info = "info"
+}
+
+export interface DiagnosticSourceLocation {
+    file: string;
+    start: number;
+    end: number;
+    message?: string;
+}
+
+/**
+ * Error, warning or info message, reported by the compiler
+ */
+export interface CompilerDiagnostic {
+    severity: DiagnosticSeverity;
+
+    /**
+     * Type of the message, e.g. `TypeError`, `ParserError` or `Warning`
+     */
+    type: string;
+
+    /**
+     * Unique code of the message. Reported by Solc 0.8.0 and later.
+     */
+    errorCode?: string;
+
+    component?: string;
+    message: string;
+    formattedMessage: string;
+    sourceLocation?: DiagnosticSourceLocation;
+    secondarySourceLocations?: DiagnosticSourceLocation[];
+    compilerVersion?: string;
+}
+
+/**
+ * Solc < 0.5 reports messages as strings like
+ * `file.sol:3:1: ParserError: Expected token Semicolon got 'RBrace'`
+ */
+const rxLegacyMessage = /^(?:[^\n]*?:\d+:\d+: )?(\w+): ([^\n]*)/;
+
+function parseLegacyDiagnostic(text: string, compilerVersion?: string): CompilerDiagnostic {
+    const matches = text.match(rxLegacyMessage);
+    const type = matches === null ? "Error" : matches[1];
+    const message = matches === null ? text : matches[2];
+
+    const diagnostic: CompilerDiagnostic = {
+        severity: type === "Warning" ? DiagnosticSeverity.Warning : DiagnosticSeverity.Error,
+        type,
+        message,
+        formattedMessage: text
+    };
+
+    if (compilerVersion !== undefined) {
+        diagnostic.compilerVersion = compilerVersion;
+    }
+
+    return diagnostic;
+}
+
+function parseSourceLocation(raw: any): DiagnosticSourceLocation {
+    const location: DiagnosticSourceLocation = {
+        file: raw.file,
+        start: raw.start,
+        end: raw.end
+    };
+
+    if (raw.message !== undefined) {
+        location.message = raw.message;
+    }
+
+    return location;
+}
+
+function parseDiagnostic(raw: any, compilerVersion?: string): CompilerDiagnostic {
+    const diagnostic: CompilerDiagnostic = {
+        severity: raw.severity,
+        type: raw.type,
+        message: raw.message,
+        formattedMessage: raw.formattedMessage === undefined ? raw.message : raw.formattedMessage
+    };
+
+    if (raw.errorCode !== undefined) {
+        diagnostic.errorCode = raw.errorCode;
+    }
+
+    if (raw.component !== undefined) {
+        diagnostic.component = raw.component;
+    }
+
+    if (raw.sourceLocation instanceof Object) {
+        diagnostic.sourceLocation = parseSourceLocation(raw.sourceLocation);
+    }
+
+    if (raw.secondarySourceLocations instanceof Array) {
+        diagnostic.secondarySourceLocations = raw.secondarySourceLocations.map(parseSourceLocation);
+    }
+
+    if (compilerVersion !== undefined) {
+        diagnostic.compilerVersion = compilerVersion;
+    }
+
+    return diagnostic;
+}
+
+/**
+ * Collects all messages (of any severity) from the `errors` section of the compiler output
+ */
+export function detectCompileDiagnostics(
+    data: any,
+    compilerVersion?: string
+): CompilerDiagnostic[] {
+    const diagnostics: CompilerDiagnostic[] = [];
+
+    if (data.errors instanceof Array) {
+        for (const error of data.errors) {
+            const typeOf = typeof error;
+
+            if (typeOf === "object") {
+                /**
+                 * Solc >= 0.5
+                 */
+                diagnostics.push(parseDiagnostic(error, compilerVersion));
+            } else if (typeOf === "string") {
+                /**
+                 * Solc < 0.5
+                 */
+                diagnostics.push(parseLegacyDiagnostic(error, compilerVersion));
+            }
+        }
+    }
+
+    return diagnostics;
+}
+
+export function isErrorDiagnostic(diagnostic: CompilerDiagnostic): boolean {
+    return diagnostic.severity === DiagnosticSeverity.Error;
+}
@@ -0,0 +1,237 @@
+import fse from "fs-extra";
+import path from "path";
+
+export interface FileStats {
+    isDirectory: boolean;
+
+    /**
+     * Size of the file in bytes
+     */
+    size: number;
+
+    /**
+     * Modification time in milliseconds since the epoch
+     */
+    mtimeMs: number;
+}
+
+/**
+ * File system, that is used to read sources, resolve imports and manage caches.
+ * Allows the compile pipeline to run over in-memory projects.
+ */
+export interface FileSystem {
+    exists(filePath: string): boolean;
+
+    /**
+     * Throws if there is no file or directory at `filePath`
+     */
+    stat(filePath: string): FileStats;
+
+    readFile(filePath: string): Buffer;
+    readTextFile(filePath: string): string;
+
+    /**
+     * Writes the file, creating missing parent directories
+     */
+    writeFile(filePath: string, content: string | Buffer): void;
+
+    /**
+     * Returns names of the directory entries
+     */
+    readDir(dirPath: string): string[];
+
+    /**
+     * Moves the file, overwriting the existing one at `to`
+     */
+    move(from: string, to: string): void;
+
+    /**
+     * Removes the file or the directory with its contents. Does nothing if there is none.
+     */
+    remove(filePath: string): void;
+
+    /**
+     * Sets modification time of the file to the current time
+     */
+    touch(filePath: string): void;
+}
+
+export class DiskFileSystem implements FileSystem {
+    exists(filePath: string): boolean {
+        return fse.existsSync(filePath);
+    }
+
+    stat(filePath: string): FileStats {
+        const stats = fse.statSync(filePath);
+
+        return { isDirectory: stats.isDirectory(), size: stats.size, mtimeMs: stats.mtimeMs };
+    }
+
+    readFile(filePath: string): Buffer {
+        return fse.readFileSync(filePath);
+    }
+
+    readTextFile(filePath: string): string {
+        return fse.readFileSync(filePath, { encoding: "utf-8" });
+    }
+
+    writeFile(filePath: string, content: string | Buffer): void {
+        fse.outputFileSync(filePath, content);
+    }
+
+    readDir(dirPath: string): string[] {
+        return fse.readdirSync(dirPath);
+    }
+
+    move(from: string, to: string): void {
+        fse.moveSync(from, to, { overwrite: true });
+    }
+
+    remove(filePath: string): void {
+        fse.removeSync(filePath);
+    }
+
+    touch(filePath: string): void {
+        const now = new Date();
+
+        fse.utimesSync(filePath, now, now);
+    }
+}
+
+interface MemoryFile {
+    content: Buffer;
+    mtimeMs: number;
+}
+
+/**
+ * File system, that keeps files in memory (e.g. a snapshot of a git tree or a set of editor buffers).
+ * Relative paths are resolved against the current working directory. Directories exist implicitly,
+ * while there are files in them.
+ */
+export class MemoryFileSystem implements FileSystem {
+    private files = new Map<string, MemoryFile>();
+
+    constructor(files: { [filePath: string]: string | Buffer } = {}) {
+        for (const [filePath, content] of Object.entries(files)) {
+            this.writeFile(filePath, content);
+        }
+    }
+
+    private getFile(filePath: string): MemoryFile {
+        const file = this.files.get(path.resolve(filePath));
+
+        if (file === undefined) {
+            throw new Error(`No such file: ${filePath}`);
+        }
+
+        return file;
+    }
+
+    private isDirectory(filePath: string): boolean {
+        const prefix = path.join(path.resolve(filePath), path.sep);
+
+        for (const name of this.files.keys()) {
+            if (name.startsWith(prefix)) {
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    exists(filePath: string): boolean {
+        return this.files.has(path.resolve(filePath)) || this.isDirectory(filePath);
+    }
+
+    stat(filePath: string): FileStats {
+        if (this.isDirectory(filePath)) {
+            return { isDirectory: true, size: 0, mtimeMs: 0 };
+        }
+
+        const file = this.getFile(filePath);
+
+        return { isDirectory: false, size: file.content.length, mtimeMs: file.mtimeMs };
+    }
+
+    readFile(filePath: string): Buffer {
+        return this.getFile(filePath).content;
+    }
+
+    readTextFile(filePath: string): string {
+        return this.readFile(filePath).toString("utf-8");
+    }
+
+    writeFile(filePath: string, content: string | Buffer): void {
+        this.files.set(path.resolve(filePath), {
+            content: typeof content === "string" ? Buffer.from(content, "utf-8") : content,
+            mtimeMs: Date.now()
+        });
+    }
+
+    readDir(dirPath: string): string[] {
+        if (!this.isDirectory(dirPath)) {
+            throw new Error(`No such directory: ${dirPath}`);
+        }
+
+        const prefix = path.join(path.resolve(dirPath), path.sep);
+        const result = new Set<string>();
+
+        for (const name of this.files.keys()) {
+            if (name.startsWith(prefix)) {
+                result.add(name.slice(prefix.length).split(path.sep)[0]);
+            }
+        }
+
+        return [...result].sort();
+    }
+
+    move(from: string, to: string): void {
+        const file = this.getFile(from);
+
+        this.files.delete(path.resolve(from));
+        this.files.set(path.resolve(to), file);
+    }
+
+    remove(filePath: string): void {
+        const name = path.resolve(filePath);
+        const prefix = path.join(name, path.sep);
+
+        for (const candidate of [...this.files.keys()]) {
+            if (candidate === name || candidate.startsWith(prefix)) {
+                this.files.delete(candidate);
+            }
+        }
+    }
+
+    touch(filePath: string): void {
+        this.getFile(filePath).mtimeMs = Date.now();
+    }
+}
+
+/**
+ * File system of the local disk. Compilers are always stored on it,
+ * as they are executed (or loaded) from their files.
+ */
+export const LocalFileSystem: FileSystem = new DiskFileSystem();
+
+let fileSystem: FileSystem | undefined;
+
+/**
+ * Sets the file system, that is used to read sources and resolve imports
+ * by `compile*()` functions family, import resolvers and project loaders.
+ * Pass `undefined` to reset to the local disk.
+ *
+ * The compiler cache (`CACHE_DIR` with platform lists and compiler files) is not affected
+ * and always stays on the `LocalFileSystem`, as compilers are executed (or loaded) from their files.
+ * The compilation cache uses the file system, it is created with (see `CompilationCache`).
+ */
+export function setFileSystem(fs: FileSystem | undefined): void {
+    fileSystem = fs;
+}
+
+/**
+ * Returns the file system, that is used to read sources and resolve imports
+ */
+export function getFileSystem(): FileSystem {
+    return fileSystem === undefined ? LocalFileSystem : fileSystem;
+}
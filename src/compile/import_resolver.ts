@@ -1,15 +1,49 @@
-import fse from "fs-extra";
 import path from "path";
-
-const findUpSync = require("findup-sync");
+import { FileSystem, getFileSystem } from "./file_system";
+import { CompileInferenceError } from "./utils";
 
 export interface ImportResolver {
+    /**
+     * File system, that resolved paths belong to.
+     * If not set, the one of `getFileSystem()` is assumed.
+     */
+    readonly fs?: FileSystem;
+
     resolve(fileName: string): string | undefined;
+
+    /**
+     * Returns file system paths, that `resolve()` tries for the `fileName`.
+     * Used to report imports, that could not be resolved.
+     */
+    getCandidates?(fileName: string): string[];
 }
 
 export class FileSystemResolver implements ImportResolver {
+    /**
+     * Directory, relative (not absolute) file names are resolved against.
+     * If not specified, file names are resolved against the current working directory.
+     */
+    private basePath?: string;
+
+    readonly fs: FileSystem;
+
+    constructor(basePath?: string, fs = getFileSystem()) {
+        this.basePath = basePath;
+        this.fs = fs;
+    }
+
     resolve(fileName: string): string | undefined {
-        return fse.existsSync(fileName) ? fileName : undefined;
+        const [filePath] = this.getCandidates(fileName);
+
+        return this.fs.exists(filePath) ? filePath : undefined;
+    }
+
+    getCandidates(fileName: string): string[] {
+        return [
+            this.basePath === undefined || path.isAbsolute(fileName)
+                ? fileName
+                : path.join(this.basePath, fileName)
+        ];
     }
 }
 
@@ -18,35 +52,91 @@ export type Remapping = [string, string, string];
 export class LocalNpmResolver implements ImportResolver {
     private baseDir: string;
 
-    constructor(baseDir: string) {
+    readonly fs: FileSystem;
+
+    constructor(baseDir: string, fs = getFileSystem()) {
         this.baseDir = baseDir;
+        this.fs = fs;
     }
 
     resolve(fileName: string): string | undefined {
-        let currentDir = this.baseDir;
+        return this.getCandidates(fileName).find((modulePath) => this.fs.exists(modulePath));
+    }
+
+    /**
+     * Returns paths of the `fileName` in `node_modules` directories
+     * of the base directory and all of its parents
+     */
+    getCandidates(fileName: string): string[] {
+        const result: string[] = [];
+
+        let currentDir = path.resolve(this.baseDir);
 
         while (true) {
-            const modulesPath = findUpSync("node_modules/", { cwd: currentDir });
+            const modulesPath = path.join(currentDir, "node_modules");
 
-            if (modulesPath === null) {
-                break;
+            if (this.fs.exists(modulesPath) && this.fs.stat(modulesPath).isDirectory) {
+                result.push(path.join(modulesPath, fileName));
             }
 
-            const modulePath = path.join(modulesPath, fileName);
+            const parentDir = path.dirname(currentDir);
 
-            if (fse.existsSync(modulePath)) {
-                return modulePath;
+            if (parentDir === currentDir) {
+                break;
             }
 
-            const oldDir = currentDir;
+            currentDir = parentDir;
+        }
 
-            currentDir = path.join(currentDir, "..");
+        return result;
+    }
+}
 
-            if (oldDir === currentDir) {
-                break;
+/**
+ * Resolves source unit names against the base path and include paths,
+ * as solc does for `--base-path` and `--include-path` options
+ * (see https://docs.soliditylang.org/en/latest/path-resolution.html#base-path-and-include-paths).
+ *
+ * Empty base path stands for the current working directory.
+ * It is an error, when the file is found in more than one of the directories.
+ */
+export class IncludePathResolver implements ImportResolver {
+    private basePath: string;
+    private includePaths: string[];
+
+    readonly fs: FileSystem;
+
+    constructor(basePath: string, includePaths: string[] = [], fs = getFileSystem()) {
+        this.basePath = basePath;
+        this.includePaths = includePaths;
+        this.fs = fs;
+    }
+
+    resolve(fileName: string): string | undefined {
+        const candidates = this.getCandidates(fileName).filter((filePath) =>
+            this.fs.exists(filePath)
+        );
+
+        if (candidates.length > 1) {
+            throw new CompileInferenceError(
+                `Ambiguous import ${fileName}: found at ${candidates.join(", ")}`
+            );
+        }
+
+        return candidates.length === 1 ? candidates[0] : undefined;
+    }
+
+    getCandidates(fileName: string): string[] {
+        const result: string[] = [];
+
+        for (const dir of [this.basePath, ...this.includePaths]) {
+            const filePath = dir === "" ? fileName : path.join(dir, fileName);
+
+            if (!result.includes(filePath)) {
+                result.push(filePath);
             }
         }
 
-        return undefined;
+        return result;
     }
 }
@@ -1,7 +1,14 @@
+export * from "./artifacts";
+export * from "./cache";
 export * from "./compiler_selection";
 export * from "./constants";
+export * from "./diagnostics";
+export * from "./file_system";
 export * from "./import_resolver";
 export * from "./inference";
 export * from "./kinds";
+export * from "./metadata";
+export * from "./output";
+export * from "./project";
 export * from "./utils";
 export * from "./version";
@@ -0,0 +1,253 @@
+import { ImportResolver } from "../import_resolver";
+
+/**
+ * Import directive of the source unit
+ */
+export interface ImportDependency {
+    /**
+     * Path, as it is written in the import directive
+     */
+    path: string;
+
+    /**
+     * Source unit name, that the path is resolved to (after normalization and remappings)
+     */
+    sourceUnitName: string;
+}
+
+/**
+ * Import, that none of the resolvers could find
+ */
+export interface UnresolvedImport {
+    /**
+     * Source unit name of the importing unit
+     */
+    importer: string;
+
+    /**
+     * Path, as it is written in the import directive
+     */
+    path: string;
+
+    /**
+     * Source unit name, that the path is resolved to (after normalization and remappings)
+     */
+    sourceUnitName: string;
+
+    /**
+     * File system paths, that were tried by the resolvers
+     */
+    candidates: string[];
+}
+
+export interface ImportGraphNode {
+    sourceUnitName: string;
+
+    /**
+     * Resolver, that supplied contents of the unit.
+     * Not set for the units, which contents were supplied upfront.
+     */
+    resolver?: ImportResolver;
+
+    /**
+     * File system path, returned by the resolver
+     */
+    resolvedPath?: string;
+
+    /**
+     * Imports of the unit in order of appearance
+     */
+    imports: ImportDependency[];
+}
+
+/**
+ * Dependency graph of source units, that is produced by `findAllFiles()`
+ */
+export class ImportGraph {
+    /**
+     * Source unit names, that the search started from
+     */
+    readonly roots: string[];
+
+    /**
+     * Nodes of all found units by source unit names
+     */
+    readonly nodes = new Map<string, ImportGraphNode>();
+
+    /**
+     * Imports, that could not be resolved
+     */
+    readonly unresolved: UnresolvedImport[] = [];
+
+    constructor(roots: Iterable<string>) {
+        this.roots = [...roots];
+    }
+
+    /**
+     * Returns source unit names, that are directly imported by the `sourceUnitName` unit
+     */
+    getImports(sourceUnitName: string): string[] {
+        const node = this.nodes.get(sourceUnitName);
+
+        if (node === undefined) {
+            return [];
+        }
+
+        return [...new Set(node.imports.map((dependency) => dependency.sourceUnitName))];
+    }
+
+    /**
+     * Returns source unit names of the units, that directly import the `sourceUnitName` unit
+     */
+    getImporters(sourceUnitName: string): string[] {
+        const result: string[] = [];
+
+        for (const node of this.nodes.values()) {
+            if (node.imports.some((dependency) => dependency.sourceUnitName === sourceUnitName)) {
+                result.push(node.sourceUnitName);
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Returns the shortest chain of imports from one of the roots to the `sourceUnitName` unit
+     * (both ends included), that explains why the unit is included.
+     * Returns `undefined` if the unit is not reachable.
+     */
+    getImportChain(sourceUnitName: string): string[] | undefined {
+        const parents = new Map<string, string | undefined>();
+        const queue: string[] = [];
+
+        for (const root of this.roots) {
+            if (!parents.has(root)) {
+                parents.set(root, undefined);
+                queue.push(root);
+            }
+        }
+
+        for (let i = 0; i < queue.length; i++) {
+            const current = queue[i];
+
+            if (current === sourceUnitName) {
+                const chain: string[] = [];
+
+                for (let name: string | undefined = current; name !== undefined; ) {
+                    chain.unshift(name);
+
+                    name = parents.get(name);
+                }
+
+                return chain;
+            }
+
+            for (const imported of this.getImports(current)) {
+                if (this.nodes.has(imported) && !parents.has(imported)) {
+                    parents.set(imported, current);
+                    queue.push(imported);
+                }
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Returns cycles of imports (strongly connected components with more than one unit
+     * or units, that import themselves). Cycles are legal in Solidity,
+     * but prevent units of the cycle from being compiled separately.
+     */
+    findCycles(): string[][] {
+        const indices = new Map<string, number>();
+        const lowLinks = new Map<string, number>();
+        const stack: string[] = [];
+        const onStack = new Set<string>();
+        const result: string[][] = [];
+
+        const visit = (name: string): void => {
+            indices.set(name, indices.size);
+            lowLinks.set(name, indices.get(name) as number);
+
+            stack.push(name);
+            onStack.add(name);
+
+            for (const imported of this.getImports(name)) {
+                if (!this.nodes.has(imported)) {
+                    continue;
+                }
+
+                if (!indices.has(imported)) {
+                    visit(imported);
+
+                    lowLinks.set(
+                        name,
+                        Math.min(lowLinks.get(name) as number, lowLinks.get(imported) as number)
+                    );
+                } else if (onStack.has(imported)) {
+                    lowLinks.set(
+                        name,
+                        Math.min(lowLinks.get(name) as number, indices.get(imported) as number)
+                    );
+                }
+            }
+
+            if (lowLinks.get(name) !== indices.get(name)) {
+                return;
+            }
+
+            const component: string[] = [];
+
+            let member: string;
+
+            do {
+                member = stack.pop() as string;
+
+                onStack.delete(member);
+                component.push(member);
+            } while (member !== name);
+
+            if (component.length > 1 || this.getImports(name).includes(name)) {
+                result.push(component.reverse());
+            }
+        };
+
+        for (const name of this.nodes.keys()) {
+            if (!indices.has(name)) {
+                visit(name);
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Returns source unit names in topological order: each unit follows all of its imports.
+     * Imports, that close a cycle, are ignored, so the units of the cycle are ordered
+     * by the traversal (see `findCycles()`).
+     */
+    topologicalOrder(): string[] {
+        const visited = new Set<string>();
+        const result: string[] = [];
+
+        const visit = (name: string): void => {
+            visited.add(name);
+
+            for (const imported of this.getImports(name)) {
+                if (this.nodes.has(imported) && !visited.has(imported)) {
+                    visit(imported);
+                }
+            }
+
+            result.push(name);
+        };
+
+        for (const name of [...this.roots, ...this.nodes.keys()]) {
+            if (this.nodes.has(name) && !visited.has(name)) {
+                visit(name);
+            }
+        }
+
+        return result;
+    }
+}
@@ -1,6 +1,11 @@
-import fse from "fs-extra";
 import { dirname, normalize } from "path";
-import { CompileInferenceError, ImportResolver, Remapping } from "..";
+import {
+    CompileInferenceError,
+    getFileSystem,
+    ImportResolver,
+    Remapping,
+    UnresolvedImportsError
+} from "..";
 import { assert } from "../..";
 import {
     AnyFileLevelNode,
@@ -8,19 +13,39 @@ import {
     parseFileLevelDefinitions,
     SyntaxError
 } from "./file_level_definitions_parser";
+import { ImportGraph, ImportGraphNode, UnresolvedImport } from "./graph";
 
 /**
- * Apply the first remapping in `remappings` that fits `path` and
- * return the updated path.
+ * Apply the remapping from `remappings`, that fits `path`, imported by the `importer`
+ * source unit, and return the updated path.
+ *
+ * Follows solc semantics, described in
+ * https://docs.soliditylang.org/en/latest/path-resolution.html#import-remapping:
+ * the context of the remapping must be a prefix of the importer source unit name and
+ * the prefix of the remapping must be a prefix of the path. The remapping with the longest
+ * context is selected, then the one with the longest prefix. If there are still multiple
+ * candidates, the last one is selected.
  */
-function applyRemappings(remappings: Remapping[], path: string): string {
-    for (const [, prefix, mapped_prefix] of remappings) {
-        if (path.startsWith(prefix)) {
-            return path.replace(prefix, mapped_prefix);
+export function applyRemappings(remappings: Remapping[], importer: string, path: string): string {
+    let best: Remapping | undefined;
+
+    for (const remapping of remappings) {
+        const [context, prefix] = remapping;
+
+        if (!(importer.startsWith(context) && path.startsWith(prefix))) {
+            continue;
+        }
+
+        if (
+            best === undefined ||
+            context.length > best[0].length ||
+            (context.length === best[0].length && prefix.length >= best[1].length)
+        ) {
+            best = remapping;
         }
     }
 
-    return path;
+    return best === undefined ? path : best[2] + path.slice(best[1].length);
 }
 
 /**
@@ -73,17 +98,18 @@ function normalizeRelativeImportPath(importer: string, imported: string): string
  * https://docs.soliditylang.org/en/v0.8.8/path-resolution.html
  *
  * This takes into account relative and absolute paths and remappings.
+ * As solc does, remappings are applied to relative imports after normalization.
  */
 function computeSourceUnitName(
     importerSourceUnit: string,
     imported: string,
     remappings: Remapping[]
 ): string {
-    if (isPathWithRelativePrefix(imported)) {
-        return normalizeRelativeImportPath(importerSourceUnit, imported);
-    }
+    const sourceUnitName = isPathWithRelativePrefix(imported)
+        ? normalizeRelativeImportPath(importerSourceUnit, imported)
+        : imported;
 
-    return applyRemappings(remappings, imported);
+    return applyRemappings(remappings, importerSourceUnit, sourceUnitName);
 }
 
 /**
@@ -91,44 +117,67 @@ function computeSourceUnitName(
  * `remappings` and a list of `ImportResolver`s - `resolvers`, find all
  * files that are imported from the starting set `files` but are
  * **missing** in `files` and add them into the files map.
+ *
+ * Returns the dependency graph of the found files. Imports, that could not be resolved,
+ * are collected in `unresolved` of the graph, instead of failing on the first one.
  */
-export function findAllFiles(
+export function buildImportGraph(
     files: Map<string, string>,
     remappings: Remapping[],
     resolvers: ImportResolver[]
-): void {
-    // Queue of source unit names to process
-    const queue: string[] = [...files.keys()];
-    const visited = new Set<string>();
+): ImportGraph {
+    const graph = new ImportGraph(files.keys());
+
+    // Queue of source unit names to process with the imports, that led to them
+    const queue: Array<[string, UnresolvedImport | undefined]> = [...files.keys()].map((name) => [
+        name,
+        undefined
+    ]);
 
     while (queue.length > 0) {
-        const sourceUnitName = queue.pop() as string;
+        const [sourceUnitName, origin] = queue.pop() as [string, UnresolvedImport | undefined];
 
         /**
          * Skip already processed units
          */
-        if (visited.has(sourceUnitName)) {
+        if (graph.nodes.has(sourceUnitName)) {
             continue;
         }
 
-        visited.add(sourceUnitName);
-
         let content = files.get(sourceUnitName);
+        let resolver: ImportResolver | undefined;
+        let resolvedPath: string | undefined;
 
         // Missing contents - try and fill them in from the resolvers
         if (content === undefined) {
-            for (const resolver of resolvers) {
-                const resolvedPath = resolver.resolve(sourceUnitName);
+            for (const candidate of resolvers) {
+                resolvedPath = candidate.resolve(sourceUnitName);
 
                 if (resolvedPath !== undefined) {
-                    content = fse.readFileSync(resolvedPath, { encoding: "utf-8" });
+                    resolver = candidate;
+                    content = (
+                        candidate.fs === undefined ? getFileSystem() : candidate.fs
+                    ).readTextFile(resolvedPath);
 
                     break;
                 }
             }
 
             if (content === undefined) {
-                throw new CompileInferenceError(`Couldn't find ${sourceUnitName}`);
+                /**
+                 * Units, that are supplied upfront, always have contents
+                 */
+                assert(origin !== undefined, `Missing origin of ${sourceUnitName}`);
+
+                for (const candidate of resolvers) {
+                    if (candidate.getCandidates !== undefined) {
+                        origin.candidates.push(...candidate.getCandidates(sourceUnitName));
+                    }
+                }
+
+                graph.unresolved.push(origin);
+
+                continue;
             }
 
             files.set(sourceUnitName, content);
@@ -152,10 +201,50 @@ export function findAllFiles(
             throw e;
         }
 
+        const node: ImportGraphNode = { sourceUnitName, resolver, resolvedPath, imports: [] };
+
+        graph.nodes.set(sourceUnitName, node);
+
         for (const fld of flds) {
             if (fld.kind === FileLevelNodeKind.Import) {
-                queue.push(computeSourceUnitName(sourceUnitName, fld.path, remappings));
+                const importedName = computeSourceUnitName(sourceUnitName, fld.path, remappings);
+
+                node.imports.push({ path: fld.path, sourceUnitName: importedName });
+
+                queue.push([
+                    importedName,
+                    {
+                        importer: sourceUnitName,
+                        path: fld.path,
+                        sourceUnitName: importedName,
+                        candidates: []
+                    }
+                ]);
             }
         }
     }
+
+    return graph;
+}
+
+/**
+ * Given a partial map `files` from **source unit names** to file contents, a list of
+ * `remappings` and a list of `ImportResolver`s - `resolvers`, find all
+ * files that are imported from the starting set `files` but are
+ * **missing** in `files` and add them into the files map.
+ *
+ * Throws `UnresolvedImportsError` with all imports, that could not be resolved.
+ */
+export function findAllFiles(
+    files: Map<string, string>,
+    remappings: Remapping[],
+    resolvers: ImportResolver[]
+): ImportGraph {
+    const graph = buildImportGraph(files, remappings, resolvers);
+
+    if (graph.unresolved.length > 0) {
+        throw new UnresolvedImportsError(graph.unresolved);
+    }
+
+    return graph;
 }
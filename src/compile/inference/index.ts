@@ -1,2 +1,3 @@
+export * from "./graph";
 export * from "./imports";
 export { parseFileLevelDefinitions } from "./file_level_definitions_parser";
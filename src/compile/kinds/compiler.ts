@@ -1,4 +1,3 @@
-import axios from "axios";
 import { spawn } from "child_process";
 import fse from "fs-extra";
 import path from "path";
@@ -6,60 +5,260 @@ import * as stream from "stream";
 import { promisify } from "util";
 import { CompilerKind, CompilerVersions } from "..";
 import { assert } from "../../misc";
+import { LocalFileSystem } from "../file_system";
 import { SolcInput } from "../input";
 import { isExact } from "../version";
 import {
-    BINARIES_URL,
     CACHE_DIR,
+    CompilerChecksumError,
+    CompilerUnavailableError,
+    fetchFromMirror,
+    getCachedCompilerVersions,
+    getCompilerBuildEntry,
     getCompilerMDForPlatform,
     getCompilerPrefixForOs,
-    isSubDir
+    isOfflineMode,
+    isSubDir,
+    quarantineCompilerFile,
+    verifyCompilerChecksums,
+    VersionListEntry
 } from "./md";
 
 const solc = require("solc");
 
+/**
+ * Options of the compiler invocation
+ */
+export interface CompilerInvocationOptions {
+    /**
+     * Signal to cancel the compilation. Native compiler process is killed, when the signal is aborted.
+     */
+    signal?: AbortSignal;
+
+    /**
+     * Wall-clock time limit of the native compiler process in milliseconds
+     */
+    timeout?: number;
+
+    /**
+     * Maximum size of the native compiler output in bytes
+     */
+    maxOutputSize?: number;
+
+    /**
+     * Handling of the non-empty stderr of the native compiler:
+     * `"reject"` (default) fails the compilation, `"ignore"` discards the stderr,
+     * and the callback receives the stderr without failing the compilation.
+     */
+    stderr?: "reject" | "ignore" | ((stderr: string) => void);
+}
+
+/**
+ * Raised when the native compiler does not finish in time. The compiler process is killed.
+ */
+export class CompilerTimeoutError extends Error {
+    constructor(public readonly path: string, public readonly timeout: number) {
+        super(`Compiler ${path} did not finish in ${timeout} ms`);
+    }
+}
+
+/**
+ * Raised when the compilation is cancelled by the `AbortSignal`. The compiler process is killed.
+ */
+export class CompilerAbortedError extends Error {
+    constructor(public readonly path: string) {
+        super(`Compilation by ${path} is aborted`);
+    }
+}
+
+/**
+ * Raised when the native compiler fails: it could not be started, exits with non-zero code,
+ * is killed by a signal, produces too large or invalid output, or writes to stderr
+ * (unless stderr is ignored).
+ */
+export class CompilerCrashError extends Error {
+    constructor(
+        message: string,
+        public readonly path: string,
+        public readonly exitCode: number | null = null,
+        public readonly signal: NodeJS.Signals | null = null,
+        public readonly stderr = ""
+    ) {
+        super(message);
+    }
+}
+
+/**
+ * Time to wait after `SIGTERM`, before the compiler process is killed by `SIGKILL`
+ */
+const KILL_GRACE_PERIOD = 1000;
+
 export abstract class Compiler {
     constructor(public readonly version: string, public readonly path: string) {}
 
-    abstract compile(inputJson: SolcInput): Promise<any>;
+    abstract compile(inputJson: SolcInput, options?: CompilerInvocationOptions): Promise<any>;
 }
 
 export class NativeCompiler extends Compiler {
-    async compile(input: SolcInput): Promise<any> {
+    async compile(input: SolcInput, options: CompilerInvocationOptions = {}): Promise<any> {
+        const { signal, timeout, maxOutputSize } = options;
+        const stderrHandling = options.stderr === undefined ? "reject" : options.stderr;
+
+        if (signal !== undefined && signal.aborted) {
+            throw new CompilerAbortedError(this.path);
+        }
+
         const child = spawn(this.path, ["--standard-json"], {});
 
         return new Promise((resolve, reject) => {
+            const stdout: Buffer[] = [];
+
+            let stdoutSize = 0;
+            let stderr = "";
+
+            /**
+             * Error, that caused the process to be killed
+             */
+            let failure: Error | undefined;
+
+            let timeoutTimer: NodeJS.Timeout | undefined;
+            let killTimer: NodeJS.Timeout | undefined;
+
+            const kill = (error: Error): void => {
+                if (failure !== undefined) {
+                    return;
+                }
+
+                failure = error;
+
+                child.kill("SIGTERM");
+
+                killTimer = setTimeout(() => child.kill("SIGKILL"), KILL_GRACE_PERIOD);
+            };
+
+            const onAbort = (): void => kill(new CompilerAbortedError(this.path));
+
+            if (signal !== undefined) {
+                signal.addEventListener("abort", onAbort);
+            }
+
+            if (timeout !== undefined) {
+                timeoutTimer = setTimeout(
+                    () => kill(new CompilerTimeoutError(this.path, timeout)),
+                    timeout
+                );
+            }
+
+            const cleanup = (): void => {
+                if (timeoutTimer !== undefined) {
+                    clearTimeout(timeoutTimer);
+                }
+
+                if (killTimer !== undefined) {
+                    clearTimeout(killTimer);
+                }
+
+                if (signal !== undefined) {
+                    signal.removeEventListener("abort", onAbort);
+                }
+            };
+
+            child.on("error", (e) => {
+                cleanup();
+
+                reject(
+                    new CompilerCrashError(
+                        `Unable to run compiler ${this.path}: ${e.message}`,
+                        this.path
+                    )
+                );
+            });
+
+            /**
+             * Compiler may exit before the input is written (e.g. when killed)
+             */
+            child.stdin.on("error", () => undefined);
+
             child.stdin.write(JSON.stringify(input), "utf-8");
             child.stdin.end();
 
-            let stdout = "";
-            let stderr = "";
+            child.stdout.on("data", (data: Buffer) => {
+                stdoutSize += data.length;
 
-            child.stdout.on("data", (data) => {
-                stdout += data;
+                if (maxOutputSize !== undefined && stdoutSize > maxOutputSize) {
+                    kill(
+                        new CompilerCrashError(
+                            `Compiler ${this.path} output exceeds ${maxOutputSize} bytes`,
+                            this.path
+                        )
+                    );
+
+                    return;
+                }
+
+                stdout.push(data);
             });
 
             child.stderr.on("data", (data) => {
                 stderr += data;
             });
 
-            child.on("close", (code) => {
+            child.on("close", (code, exitSignal) => {
+                cleanup();
+
+                if (failure !== undefined) {
+                    reject(failure);
+                    return;
+                }
+
                 if (code !== 0) {
-                    reject(`Compiler exited with code ${code}, stderr: ${stderr}`);
+                    reject(
+                        new CompilerCrashError(
+                            exitSignal === null
+                                ? `Compiler exited with code ${code}, stderr: ${stderr}`
+                                : `Compiler is killed by signal ${exitSignal}, stderr: ${stderr}`,
+                            this.path,
+                            code,
+                            exitSignal,
+                            stderr
+                        )
+                    );
                     return;
                 }
 
                 if (stderr !== "") {
-                    reject(`Compiler exited with non-empty stderr: ${stderr}`);
-                    return;
+                    if (stderrHandling === "reject") {
+                        reject(
+                            new CompilerCrashError(
+                                `Compiler exited with non-empty stderr: ${stderr}`,
+                                this.path,
+                                code,
+                                exitSignal,
+                                stderr
+                            )
+                        );
+                        return;
+                    }
+
+                    if (stderrHandling !== "ignore") {
+                        stderrHandling(stderr);
+                    }
                 }
 
                 let outJson: any;
 
                 try {
-                    outJson = JSON.parse(stdout);
-                } catch (e) {
-                    reject(e);
+                    outJson = JSON.parse(Buffer.concat(stdout).toString("utf-8"));
+                } catch (e: any) {
+                    reject(
+                        new CompilerCrashError(
+                            `Compiler produced invalid output: ${e.message}`,
+                            this.path,
+                            code,
+                            exitSignal,
+                            stderr
+                        )
+                    );
                     return;
                 }
 
@@ -69,8 +268,16 @@ export class NativeCompiler extends Compiler {
     }
 }
 
+/**
+ * WASM compilers run synchronously in the current process,
+ * so only the signal, that is already aborted, cancels the compilation.
+ */
 export class WasmCompiler extends Compiler {
-    async compile(input: SolcInput): Promise<any> {
+    async compile(input: SolcInput, options: CompilerInvocationOptions = {}): Promise<any> {
+        if (options.signal !== undefined && options.signal.aborted) {
+            throw new CompilerAbortedError(this.path);
+        }
+
         const module = require(this.path);
         const wrappedModule = solc.setupMethods(module);
         const output = wrappedModule.compile(JSON.stringify(input));
@@ -79,22 +286,56 @@ export class WasmCompiler extends Compiler {
     }
 }
 
-type CompilerMapping = [CompilerKind.Native, NativeCompiler] | [CompilerKind.WASM, WasmCompiler];
+/**
+ * Paths of cached compilers, that were already verified by the current process
+ */
+const verifiedCompilers = new Set<string>();
 
-export async function getCompilerForVersion<T extends CompilerMapping>(
-    version: string,
-    kind: T[0]
-): Promise<T[1] | undefined> {
-    assert(
-        isExact(version),
-        "Version string must contain exact SemVer-formatted version without any operators"
-    );
+/**
+ * Downloads compiler from the mirror to the temporary file
+ * and verifies it (if `entry` is provided), then moves it to `localPath`.
+ * This way other processes, that share the cache,
+ * never observe partially downloaded or corrupted files.
+ * Compiler files are always stored on the local disk (see `setFileSystem()`).
+ */
+async function downloadCompiler(
+    relPath: string,
+    localPath: string,
+    entry?: VersionListEntry
+): Promise<void> {
+    const source = await fetchFromMirror(relPath);
+
+    const tmpPath = `${localPath}.${process.pid}.download`;
+    const target = fse.createWriteStream(tmpPath, { mode: 0o555 });
+    const pipeline = promisify(stream.pipeline);
+
+    try {
+        await pipeline(source, target);
+
+        if (entry !== undefined) {
+            verifyCompilerChecksums(tmpPath, entry);
+        }
+    } catch (e) {
+        if (LocalFileSystem.exists(tmpPath)) {
+            quarantineCompilerFile(tmpPath);
+        }
 
-    let prefix: string | undefined;
+        throw e;
+    }
+
+    LocalFileSystem.move(tmpPath, localPath);
+}
 
+/**
+ * Returns platform prefix of compiler builds for the `kind`
+ * or `undefined` if there are no builds for the current platform.
+ */
+export function getCompilerPrefix(kind: CompilerKind): string | undefined {
     if (kind === CompilerKind.Native) {
-        prefix = getCompilerPrefixForOs();
-    } else if (kind === CompilerKind.WASM) {
+        return getCompilerPrefixForOs();
+    }
+
+    if (kind === CompilerKind.WASM) {
         /**
          * Using BIN distribution here due to WASM distributions do not have 0.5.17 build and also OOM issues.
          *
@@ -102,42 +343,130 @@ export async function getCompilerForVersion<T extends CompilerMapping>(
          *
          * @todo Reconsider this at some point.
          */
-        prefix = "bin";
-    } else {
-        throw new Error(`Unsupported compiler kind "${kind}"`);
+        return "bin";
     }
 
-    assert(CompilerVersions.includes(version), `Unsupported ${kind} compiler version ${version}`);
-
-    if (prefix === undefined) {
-        return undefined;
-    }
+    throw new Error(`Unsupported compiler kind "${kind}"`);
+}
 
-    const md = await getCompilerMDForPlatform(prefix);
+/**
+ * Ensures that verified compiler file of the `version` is present in `cacheDir`
+ * (downloading it from the mirror if necessary) and returns its path.
+ * Returns `undefined` if there is no build of the `version` for the platform.
+ */
+async function provisionCompiler(
+    prefix: string,
+    version: string,
+    cacheDir: string
+): Promise<string | undefined> {
+    const md = await getCompilerMDForPlatform(prefix, cacheDir);
     const compilerFileName = md.releases[version];
 
     if (compilerFileName === undefined) {
         return undefined;
     }
 
-    const compilerLocalPath = path.join(CACHE_DIR, prefix, compilerFileName);
+    const compilerLocalPath = path.join(cacheDir, prefix, compilerFileName);
 
     assert(
-        isSubDir(compilerLocalPath, CACHE_DIR),
-        `Path ${compilerLocalPath} escapes from cache dir ${CACHE_DIR}`
+        isSubDir(compilerLocalPath, cacheDir),
+        `Path ${compilerLocalPath} escapes from cache dir ${cacheDir}`
     );
 
-    if (!fse.existsSync(compilerLocalPath)) {
-        const response = await axios({
-            method: "GET",
-            url: `${BINARIES_URL}/${prefix}/${compilerFileName}`,
-            responseType: "stream"
-        });
+    if (verifiedCompilers.has(compilerLocalPath)) {
+        return compilerLocalPath;
+    }
+
+    const entry = getCompilerBuildEntry(md, compilerFileName);
+
+    if (LocalFileSystem.exists(compilerLocalPath) && entry !== undefined) {
+        try {
+            verifyCompilerChecksums(compilerLocalPath, entry);
+        } catch (e) {
+            if (!(e instanceof CompilerChecksumError)) {
+                throw e;
+            }
+
+            quarantineCompilerFile(compilerLocalPath);
+        }
+    }
+
+    if (!LocalFileSystem.exists(compilerLocalPath)) {
+        if (isOfflineMode()) {
+            throw new CompilerUnavailableError(
+                `Compiler ${version} for platform "${prefix}" is not found in cache dir ${cacheDir} (offline mode)`,
+                getCachedCompilerVersions(prefix, cacheDir)
+            );
+        }
+
+        await downloadCompiler(`${prefix}/${compilerFileName}`, compilerLocalPath, entry);
+    }
+
+    verifiedCompilers.add(compilerLocalPath);
+
+    return compilerLocalPath;
+}
+
+/**
+ * User-supplied native compiler binaries by versions
+ */
+const customNativeCompilers = new Map<string, string>();
+
+/**
+ * Makes `getCompilerForVersion()` use the native compiler binary at `filePath`
+ * (e.g. a custom solc build) for the `version` instead of the downloaded one.
+ * Pass `undefined` to switch back to the downloaded compiler.
+ */
+export function setNativeCompilerPath(version: string, filePath: string | undefined): void {
+    assert(
+        isExact(version),
+        "Version string must contain exact SemVer-formatted version without any operators"
+    );
+
+    if (filePath === undefined) {
+        customNativeCompilers.delete(version);
+    } else {
+        customNativeCompilers.set(version, filePath);
+    }
+}
+
+/**
+ * Returns path to the native compiler binary, that is set for the `version`
+ * by `setNativeCompilerPath()`, or `undefined` if the downloaded compiler is used.
+ */
+export function getNativeCompilerPath(version: string): string | undefined {
+    return customNativeCompilers.get(version);
+}
 
-        const target = fse.createWriteStream(compilerLocalPath, { mode: 0o555 });
-        const pipeline = promisify(stream.pipeline);
+type CompilerMapping = [CompilerKind.Native, NativeCompiler] | [CompilerKind.WASM, WasmCompiler];
+
+export async function getCompilerForVersion<T extends CompilerMapping>(
+    version: string,
+    kind: T[0]
+): Promise<T[1] | undefined> {
+    assert(
+        isExact(version),
+        "Version string must contain exact SemVer-formatted version without any operators"
+    );
+
+    const prefix = getCompilerPrefix(kind);
+
+    assert(CompilerVersions.includes(version), `Unsupported ${kind} compiler version ${version}`);
+
+    const customPath = customNativeCompilers.get(version);
+
+    if (kind === CompilerKind.Native && customPath !== undefined) {
+        return new NativeCompiler(version, customPath);
+    }
+
+    if (prefix === undefined) {
+        return undefined;
+    }
 
-        await pipeline(response.data, target);
+    const compilerLocalPath = await provisionCompiler(prefix, version, CACHE_DIR);
+
+    if (compilerLocalPath === undefined) {
+        return undefined;
     }
 
     if (kind === CompilerKind.Native) {
@@ -150,3 +479,43 @@ export async function getCompilerForVersion<T extends CompilerMapping>(
 
     throw new Error(`Unable to detemine compiler constructor for kind "${kind}"`);
 }
+
+/**
+ * Downloads (and verifies) compilers of the `versions` to the `cacheDir`,
+ * so the directory could be copied to the hosts without internet access
+ * and used there as the compiler cache (see `SOL_AST_COMPILER_CACHE` and `SOL_AST_COMPILER_OFFLINE`).
+ *
+ * Returns paths to the compiler files.
+ */
+export async function prefetchCompilers(
+    versions: string[],
+    kind: CompilerKind,
+    cacheDir = CACHE_DIR
+): Promise<string[]> {
+    const prefix = getCompilerPrefix(kind);
+
+    if (prefix === undefined) {
+        throw new Error(`There are no "${kind}" compiler builds for current platform`);
+    }
+
+    const paths: string[] = [];
+
+    for (const version of versions) {
+        assert(
+            CompilerVersions.includes(version),
+            `Unsupported ${kind} compiler version ${version}`
+        );
+
+        const compilerLocalPath = await provisionCompiler(prefix, version, cacheDir);
+
+        if (compilerLocalPath === undefined) {
+            throw new Error(
+                `Couldn't find "${kind}" compiler for version ${version} for current platform`
+            );
+        }
+
+        paths.push(compilerLocalPath);
+    }
+
+    return paths;
+}
@@ -1,8 +1,12 @@
 import axios from "axios";
 import { assert } from "console";
-import fse from "fs-extra";
+import crypto from "crypto";
+import { keccak256 } from "js-sha3";
 import os from "os";
 import path, { isAbsolute, relative } from "path";
+import { Readable } from "stream";
+import { fileURLToPath } from "url";
+import { FileSystem, LocalFileSystem } from "../file_system";
 
 export function getCompilerPrefixForOs(): string | undefined {
     const arch = os.arch();
@@ -45,6 +49,37 @@ export interface VersionListEntry {
     urls: string[];
 }
 
+export type ChecksumAlgorithm = "sha256" | "keccak256";
+
+/**
+ * Raised when contents of the compiler file do not match checksums of the platform metadata
+ */
+export class CompilerChecksumError extends Error {
+    constructor(
+        public readonly path: string,
+        public readonly algorithm: ChecksumAlgorithm,
+        public readonly expected: string,
+        public readonly actual: string
+    ) {
+        super(
+            `Checksum verification failed for compiler ${path}: expected ${algorithm} ${expected}, got ${actual}`
+        );
+    }
+}
+
+/**
+ * Raised when the compiler (or the platform metadata) is not available in offline mode
+ */
+export class CompilerUnavailableError extends Error {
+    constructor(message: string, public readonly available: string[] = []) {
+        super(
+            available.length > 0
+                ? `${message}. Available versions: ${available.join(", ")}`
+                : `${message}. No compilers are available`
+        );
+    }
+}
+
 const cacheDirDefault = path.join(__dirname, "..", "..", "..", ".compiler_cache");
 const cacheDirCustom = process.env["SOL_AST_COMPILER_CACHE"];
 
@@ -60,26 +95,173 @@ export function isSubDir(child: string, parent: string): boolean {
     return !isAbsolute(relPath) && !relPath.startsWith("..");
 }
 
-export async function getCompilerMDForPlatform(prefix: string): Promise<CompilerPlatformMetadata> {
-    const cachedListPath = path.join(CACHE_DIR, prefix, "list.json");
+/**
+ * Returns location of compiler builds, that has the same layout as `BINARIES_URL`:
+ * remote URL, `file://` URL or path to the local directory.
+ * Could be customized by setting `SOL_AST_COMPILER_MIRROR` environment variable.
+ */
+export function getCompilerMirror(): string {
+    const mirror = process.env["SOL_AST_COMPILER_MIRROR"];
+
+    return mirror === undefined || mirror === "" ? BINARIES_URL : mirror;
+}
+
+/**
+ * Returns `true` if `SOL_AST_COMPILER_OFFLINE` environment variable is set.
+ * In offline mode only compilers from the cache directory are used.
+ */
+export function isOfflineMode(): boolean {
+    const value = process.env["SOL_AST_COMPILER_OFFLINE"];
+
+    return value !== undefined && !["", "0", "false"].includes(value.toLowerCase());
+}
+
+/**
+ * Opens stream of the file at `relPath` of the compiler mirror.
+ * Local mirror directories are read from the `fs` file system.
+ */
+export async function fetchFromMirror(
+    relPath: string,
+    mirror = getCompilerMirror(),
+    fs: FileSystem = LocalFileSystem
+): Promise<Readable> {
+    if (/^https?:\/\//i.test(mirror)) {
+        const response = await axios({
+            method: "GET",
+            url: `${mirror.replace(/\/+$/, "")}/${relPath}`,
+            responseType: "stream"
+        });
+
+        return response.data;
+    }
+
+    const dir = mirror.toLowerCase().startsWith("file://") ? fileURLToPath(mirror) : mirror;
+    const filePath = path.join(dir, relPath);
+
+    if (!fs.exists(filePath)) {
+        throw new Error(`File ${relPath} is not found in compiler mirror ${mirror}`);
+    }
+
+    return Readable.from([fs.readFile(filePath)]);
+}
+
+async function readStream(input: Readable): Promise<string> {
+    const chunks: Buffer[] = [];
+
+    for await (const chunk of input) {
+        chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+    }
+
+    return Buffer.concat(chunks).toString("utf-8");
+}
+
+/**
+ * Returns versions of compilers, which files are present in the cache directory
+ */
+export function getCachedCompilerVersions(
+    prefix: string,
+    cacheDir = CACHE_DIR,
+    fs: FileSystem = LocalFileSystem
+): string[] {
+    const cachedListPath = path.join(cacheDir, prefix, "list.json");
+
+    if (!fs.exists(cachedListPath)) {
+        return [];
+    }
+
+    const md = JSON.parse(fs.readTextFile(cachedListPath)) as CompilerPlatformMetadata;
+
+    return Object.entries(md.releases)
+        .filter(([, fileName]) => fs.exists(path.join(cacheDir, prefix, fileName)))
+        .map(([version]) => version);
+}
+
+export async function getCompilerMDForPlatform(
+    prefix: string,
+    cacheDir = CACHE_DIR,
+    fs: FileSystem = LocalFileSystem
+): Promise<CompilerPlatformMetadata> {
+    const cachedListPath = path.join(cacheDir, prefix, "list.json");
 
     assert(
-        isSubDir(cachedListPath, CACHE_DIR),
-        `Path ${cachedListPath} escapes from cache dir ${CACHE_DIR}`
+        isSubDir(cachedListPath, cacheDir),
+        `Path ${cachedListPath} escapes from cache dir ${cacheDir}`
     );
 
-    if (fse.existsSync(cachedListPath)) {
-        return fse.readJSONSync(cachedListPath) as CompilerPlatformMetadata;
+    if (fs.exists(cachedListPath)) {
+        return JSON.parse(fs.readTextFile(cachedListPath)) as CompilerPlatformMetadata;
     }
 
-    const response = await axios.get<CompilerPlatformMetadata>(
-        `${BINARIES_URL}/${prefix}/list.json`
-    );
+    if (isOfflineMode()) {
+        throw new CompilerUnavailableError(
+            `Compiler list for platform "${prefix}" is not found in cache dir ${cacheDir} (offline mode)`
+        );
+    }
 
-    const metaData = response.data;
+    const metaData = JSON.parse(
+        await readStream(await fetchFromMirror(`${prefix}/list.json`))
+    ) as CompilerPlatformMetadata;
 
-    fse.ensureDirSync(path.join(CACHE_DIR, prefix));
-    fse.writeJSONSync(cachedListPath, metaData);
+    fs.writeFile(cachedListPath, JSON.stringify(metaData));
 
     return metaData;
 }
+
+/**
+ * Returns build entry of the platform metadata, that corresponds to the compiler file name.
+ */
+export function getCompilerBuildEntry(
+    md: CompilerPlatformMetadata,
+    fileName: string
+): VersionListEntry | undefined {
+    return md.builds.find((entry) => entry.path === fileName);
+}
+
+function normalizeChecksum(checksum: string): string {
+    const lower = checksum.toLowerCase();
+
+    return lower.startsWith("0x") ? lower.slice(2) : lower;
+}
+
+/**
+ * Checks contents of the compiler file against `sha256` and `keccak256` checksums
+ * of the build entry. Throws `CompilerChecksumError` on mismatch.
+ */
+export function verifyCompilerChecksums(
+    filePath: string,
+    entry: VersionListEntry,
+    fs: FileSystem = LocalFileSystem
+): void {
+    const content = fs.readFile(filePath);
+
+    const checksums: Array<[ChecksumAlgorithm, string | undefined, () => string]> = [
+        ["sha256", entry.sha256, () => crypto.createHash("sha256").update(content).digest("hex")],
+        ["keccak256", entry.keccak256, () => keccak256(content)]
+    ];
+
+    for (const [algorithm, expected, compute] of checksums) {
+        if (expected === undefined) {
+            continue;
+        }
+
+        const actual = compute();
+
+        if (normalizeChecksum(expected) !== actual) {
+            throw new CompilerChecksumError(filePath, algorithm, expected, "0x" + actual);
+        }
+    }
+}
+
+/**
+ * Moves the (corrupted or partially downloaded) compiler file
+ * to the `quarantine` directory next to it, so it could be inspected later.
+ * Returns the new path of the file.
+ */
+export function quarantineCompilerFile(filePath: string, fs: FileSystem = LocalFileSystem): string {
+    const dir = path.join(path.dirname(filePath), "quarantine");
+    const target = path.join(dir, `${path.basename(filePath)}.${Date.now()}`);
+
+    fs.move(filePath, target);
+
+    return target;
+}
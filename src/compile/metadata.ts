@@ -0,0 +1,102 @@
+import { keccak256 } from "js-sha3";
+import { SolcContractMetadata } from "./output";
+
+export enum MetadataSourceStatus {
+    /**
+     * Hash of the file contents matches the recorded one
+     */
+    Match = "match",
+
+    /**
+     * Hash of the file contents differs from the recorded one
+     */
+    Mismatch = "mismatch",
+
+    /**
+     * There are no contents of the source
+     */
+    Missing = "missing"
+}
+
+export interface MetadataSourceCheck {
+    /**
+     * Source unit name, as it is recorded in the metadata
+     */
+    fileName: string;
+
+    status: MetadataSourceStatus;
+
+    /**
+     * Hex-encoded `keccak256` hash, recorded in the metadata (without `0x` prefix)
+     */
+    expected: string;
+
+    /**
+     * Hex-encoded `keccak256` hash of the contents (when they are present)
+     */
+    actual?: string;
+}
+
+/**
+ * Parses the `metadata` output of the compiler (or the metadata file, that is referenced
+ * by the CBOR trailer of the bytecode), checking that it has the expected structure.
+ */
+export function parseContractMetadata(json: string): SolcContractMetadata {
+    const metadata = JSON.parse(json);
+
+    const isValid =
+        metadata instanceof Object &&
+        typeof metadata.version === "number" &&
+        typeof metadata.language === "string" &&
+        metadata.compiler instanceof Object &&
+        typeof metadata.compiler.version === "string" &&
+        metadata.settings instanceof Object &&
+        metadata.sources instanceof Object &&
+        Object.values<any>(metadata.sources).every(
+            (source) => source instanceof Object && typeof source.keccak256 === "string"
+        );
+
+    if (!isValid) {
+        throw new Error("Invalid contract metadata: " + json.slice(0, 64));
+    }
+
+    return metadata;
+}
+
+/**
+ * Checks `keccak256` hashes of all sources, recorded in the `metadata`,
+ * against the contents of the `files` (as in `CompileResult.files`).
+ *
+ * Files are matched by source unit names (the `sourceEntryKey` of the `SourceUnit`),
+ * so a set of units is the one, that produced the artifact,
+ * only if all the results have the `Match` status.
+ */
+export function verifyMetadataSources(
+    metadata: SolcContractMetadata,
+    files: Map<string, string>
+): MetadataSourceCheck[] {
+    const result: MetadataSourceCheck[] = [];
+
+    for (const [fileName, source] of Object.entries(metadata.sources)) {
+        const expected = source.keccak256.replace(/^0x/, "");
+        const content = files.get(fileName);
+
+        if (content === undefined) {
+            result.push({ fileName, status: MetadataSourceStatus.Missing, expected });
+
+            continue;
+        }
+
+        const actual = keccak256(content);
+
+        result.push({
+            fileName,
+            status:
+                actual === expected ? MetadataSourceStatus.Match : MetadataSourceStatus.Mismatch,
+            expected,
+            actual
+        });
+    }
+
+    return result;
+}
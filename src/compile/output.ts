@@ -0,0 +1,175 @@
+import { ABIEntry } from "../analysis/abi";
+import { StorageLayout } from "../analysis/storage_layout";
+import { ContractDefinition } from "../ast/implementation/declaration/contract_definition";
+import { GeneratedSource } from "../evm/source_map";
+import { parseContractMetadata } from "./metadata";
+
+/**
+ * Interfaces of the solc standard JSON output, as specified in
+ * https://docs.soliditylang.org/en/latest/using-the-compiler.html#output-description
+ *
+ * Sections, that are not requested by `CompilationOutput` (or not produced by the compiler version),
+ * are `undefined`.
+ */
+
+export interface SolcCodeRange {
+    start: number;
+    length: number;
+}
+
+export interface SolcFunctionDebugData {
+    entryPoint: number | null;
+    id: number | null;
+    parameterSlots: number;
+    returnSlots: number;
+}
+
+export interface SolcBytecodeOutput {
+    /**
+     * Hex-encoded bytecode (without `0x` prefix). Unlinked library addresses are placeholders.
+     */
+    object: string;
+
+    opcodes?: string;
+    sourceMap?: string;
+    functionDebugData?: { [functionName: string]: SolcFunctionDebugData };
+    generatedSources?: GeneratedSource[];
+
+    /**
+     * Positions of library placeholders by source unit names and library names
+     */
+    linkReferences?: { [fileName: string]: { [libraryName: string]: SolcCodeRange[] } };
+}
+
+export interface SolcDeployedBytecodeOutput extends SolcBytecodeOutput {
+    /**
+     * Positions of immutable values by AST ids of immutable variables
+     */
+    immutableReferences?: { [astId: string]: SolcCodeRange[] };
+}
+
+export interface SolcGasEstimates {
+    creation?: {
+        codeDepositCost: string;
+        executionCost: string;
+        totalCost: string;
+    };
+    external?: { [signature: string]: string };
+    internal?: { [signature: string]: string };
+}
+
+export interface SolcEVMOutput {
+    assembly?: string;
+    legacyAssembly?: any;
+    bytecode?: SolcBytecodeOutput;
+    deployedBytecode?: SolcDeployedBytecodeOutput;
+
+    /**
+     * Hex-encoded function selectors by function signatures
+     */
+    methodIdentifiers?: { [signature: string]: string };
+
+    gasEstimates?: SolcGasEstimates;
+}
+
+export interface SolcDevDoc {
+    kind?: "dev";
+    version?: number;
+    author?: string;
+    details?: string;
+    title?: string;
+    custom?: { [tag: string]: string };
+    methods?: { [signature: string]: any };
+    events?: { [signature: string]: any };
+    errors?: { [signature: string]: any[] };
+    stateVariables?: { [name: string]: any };
+    [otherKeys: string]: any;
+}
+
+export interface SolcUserDoc {
+    kind?: "user";
+    version?: number;
+    notice?: string;
+    methods?: { [signature: string]: { notice?: string } };
+    events?: { [signature: string]: { notice?: string } };
+    errors?: { [signature: string]: Array<{ notice?: string }> };
+    [otherKeys: string]: any;
+}
+
+/**
+ * Contract metadata (the `metadata` output is this structure, serialized to JSON)
+ */
+export interface SolcContractMetadata {
+    compiler: { version: string; keccak256?: string };
+    language: string;
+    output: {
+        abi: ABIEntry[];
+        devdoc: SolcDevDoc;
+        userdoc: SolcUserDoc;
+    };
+    settings: any;
+    sources: {
+        [fileName: string]: {
+            keccak256: string;
+            urls?: string[];
+            content?: string;
+            license?: string;
+        };
+    };
+    version: number;
+}
+
+export interface SolcContractOutput {
+    abi?: ABIEntry[];
+
+    /**
+     * Contract metadata, serialized to JSON (see `getContractMetadata()`)
+     */
+    metadata?: string;
+
+    devdoc?: SolcDevDoc;
+    userdoc?: SolcUserDoc;
+    storageLayout?: StorageLayout;
+    ir?: string;
+    irOptimized?: string;
+    evm?: SolcEVMOutput;
+    ewasm?: { wast?: string; wasm?: string };
+}
+
+export interface SolcSourceOutput {
+    id: number;
+    ast?: any;
+    legacyAST?: any;
+}
+
+export interface SolcOutput {
+    errors?: any[];
+    sources?: { [fileName: string]: SolcSourceOutput };
+    contracts?: { [fileName: string]: { [contractName: string]: SolcContractOutput } };
+}
+
+/**
+ * Returns compiler output for the `contract`, that is matched
+ * by the `sourceEntryKey` of its source unit and by its name.
+ */
+export function getContractOutput(
+    data: SolcOutput,
+    contract: ContractDefinition
+): SolcContractOutput | undefined {
+    if (data.contracts === undefined) {
+        return undefined;
+    }
+
+    const contracts = data.contracts[contract.vScope.sourceEntryKey];
+
+    return contracts === undefined ? undefined : contracts[contract.name];
+}
+
+/**
+ * Returns parsed metadata of the contract output or `undefined` if it was not requested
+ */
+export function getContractMetadata(output: SolcContractOutput): SolcContractMetadata | undefined {
+    return output.metadata === undefined || output.metadata === ""
+        ? undefined
+        : parseContractMetadata(output.metadata);
+}
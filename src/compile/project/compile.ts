@@ -0,0 +1,242 @@
+import path from "path";
+import { ASTContext, ASTKind, ASTReader, shiftRawIds, SourceUnit } from "../../ast";
+import { CompilationOutput, CompilerKind, CompilerVersions } from "../constants";
+import { CompilerDiagnostic, detectCompileDiagnostics, isErrorDiagnostic } from "../diagnostics";
+import { getFileSystem } from "../file_system";
+import { FileSystemResolver, ImportResolver, LocalNpmResolver } from "../import_resolver";
+import { findAllFiles } from "../inference";
+import {
+    compile,
+    CompileFailedError,
+    CompileFailure,
+    CompileInferenceError,
+    CompileResult,
+    parsePathRemapping
+} from "../utils";
+import { extractSpecifiersFromSource, getCompilerVersionsBySpecifiers } from "../version";
+import { findProjectSources, loadProjectConfig, ProjectConfig } from "./config";
+
+/**
+ * Project sources, that are compiled together by the same compiler
+ */
+export interface ProjectSourceGroup {
+    /**
+     * Project sources of the group
+     */
+    entries: string[];
+
+    /**
+     * Versions, that satisfy pragmas of the entries and all of their imports (latest first)
+     */
+    compilerVersions: string[];
+
+    /**
+     * Contents of the entries and all of their imports by source unit names
+     */
+    files: Map<string, string>;
+}
+
+export interface ProjectCompilationGroup extends CompileResult {
+    entries: string[];
+}
+
+export interface ProjectCompileResult {
+    config: ProjectConfig;
+    groups: ProjectCompilationGroup[];
+
+    /**
+     * Context, that holds source units of all groups
+     */
+    context: ASTContext;
+
+    /**
+     * Source units of all groups, tagged with the compiler versions, that produced them.
+     * Files, that are shared by multiple groups, are present in the context once per group:
+     * their units are taken from the first of the groups.
+     */
+    sourceUnits: SourceUnit[];
+
+    /**
+     * Contents of all compiled files by source unit names
+     */
+    files: Map<string, string>;
+}
+
+export function getProjectResolvers(config: ProjectConfig): ImportResolver[] {
+    return [new FileSystemResolver(config.root), new LocalNpmResolver(config.root)];
+}
+
+function getProjectCompilerSettings(config: ProjectConfig, version: string): any {
+    const compiler = config.compilers.find((candidate) => candidate.version === version);
+
+    return compiler === undefined ? config.compilerSettings : compiler.settings;
+}
+
+/**
+ * Splits project sources into groups, that could be compiled by the same compiler version.
+ *
+ * Compiler versions for each source are selected from the configured compilers
+ * (or all supported versions, if none configured) by the pragmas of the source
+ * and all of its imports. Sources are added to the first group with compatible versions.
+ */
+export function groupProjectSources(
+    config: ProjectConfig,
+    entries = findProjectSources(config)
+): ProjectSourceGroup[] {
+    const remappings = parsePathRemapping(config.remappings);
+    const resolvers = getProjectResolvers(config);
+
+    const candidates =
+        config.compilers.length > 0
+            ? CompilerVersions.filter((version) =>
+                  config.compilers.some((compiler) => compiler.version === version)
+              )
+            : CompilerVersions;
+
+    const groups: ProjectSourceGroup[] = [];
+
+    for (const entry of entries) {
+        const files = new Map([
+            [entry, getFileSystem().readTextFile(path.join(config.root, entry))]
+        ]);
+
+        findAllFiles(files, remappings, resolvers);
+
+        const specifiers: string[] = [];
+
+        for (const source of files.values()) {
+            specifiers.push(...extractSpecifiersFromSource(source));
+        }
+
+        const versions = getCompilerVersionsBySpecifiers(specifiers, candidates);
+
+        if (versions.length === 0) {
+            throw new CompileInferenceError(
+                `No compiler version satisfies pragmas of ${entry} and its imports`
+            );
+        }
+
+        const group = groups.find((candidate) =>
+            candidate.compilerVersions.some((version) => versions.includes(version))
+        );
+
+        if (group === undefined) {
+            groups.push({ entries: [entry], compilerVersions: versions, files });
+
+            continue;
+        }
+
+        group.entries.push(entry);
+        group.compilerVersions = group.compilerVersions.filter((version) =>
+            versions.includes(version)
+        );
+
+        for (const [name, source] of files) {
+            group.files.set(name, source);
+        }
+    }
+
+    for (const group of groups) {
+        group.compilerVersions.reverse();
+    }
+
+    return groups;
+}
+
+/**
+ * Discovers and compiles all sources of the Foundry, Hardhat or plain project
+ * at the `root` directory (or with the supplied configuration).
+ *
+ * Sources are compiled in groups, produced by `groupProjectSources()`.
+ * For each group compiler versions are tried from the latest one,
+ * until compilation succeeds. Source units of all groups are read into the same context.
+ */
+export async function compileProject(
+    rootOrConfig: string | ProjectConfig,
+    compilationOutput: CompilationOutput[] = [CompilationOutput.ALL],
+    kind?: CompilerKind
+): Promise<ProjectCompileResult> {
+    const config =
+        typeof rootOrConfig === "string" ? loadProjectConfig(rootOrConfig) : rootOrConfig;
+    const sourceGroups = groupProjectSources(config);
+
+    if (sourceGroups.length === 0) {
+        throw new CompileInferenceError(
+            `No Solidity sources found in ${path.join(config.root, config.sources)}`
+        );
+    }
+
+    const reader = new ASTReader();
+    const groups: ProjectCompilationGroup[] = [];
+    const sourceUnits = new Map<string, SourceUnit>();
+    const allFiles = new Map<string, string>();
+
+    for (const { entries, compilerVersions, files } of sourceGroups) {
+        const failures: CompileFailure[] = [];
+
+        let result: ProjectCompilationGroup | undefined;
+
+        for (const compilerVersion of compilerVersions) {
+            const data = await compile(
+                files,
+                config.remappings,
+                compilerVersion,
+                compilationOutput,
+                getProjectCompilerSettings(config, compilerVersion),
+                kind
+            );
+
+            const diagnostics = detectCompileDiagnostics(data, compilerVersion);
+            const errors = diagnostics.filter(isErrorDiagnostic);
+            const warnings: CompilerDiagnostic[] = diagnostics.filter(
+                (diagnostic) => !isErrorDiagnostic(diagnostic)
+            );
+
+            if (errors.length === 0) {
+                result = { entries, data, compilerVersion, files, warnings };
+
+                break;
+            }
+
+            failures.push({ compilerVersion, errors, warnings });
+        }
+
+        if (result === undefined) {
+            throw new CompileFailedError(failures);
+        }
+
+        groups.push(result);
+
+        /**
+         * Node ids of different compilations collide,
+         * so ids of the following groups are shifted past the ids, that are already taken.
+         */
+        const data =
+            groups.length === 1
+                ? result.data
+                : {
+                      ...result.data,
+                      sources: shiftRawIds(result.data.sources, reader.context.lastId)
+                  };
+
+        for (const unit of reader.read(data, ASTKind.Any, files)) {
+            unit.compilerVersion = result.compilerVersion;
+
+            if (!sourceUnits.has(unit.absolutePath)) {
+                sourceUnits.set(unit.absolutePath, unit);
+            }
+        }
+
+        for (const [name, source] of files) {
+            allFiles.set(name, source);
+        }
+    }
+
+    return {
+        config,
+        groups,
+        context: reader.context,
+        sourceUnits: [...sourceUnits.values()],
+        files: allFiles
+    };
+}
@@ -0,0 +1,290 @@
+import path from "path";
+import { getFileSystem } from "../file_system";
+import { isExact } from "../version";
+import { parseToml } from "./toml";
+
+export enum ProjectKind {
+    Foundry = "foundry",
+    Hardhat = "hardhat",
+    Plain = "plain"
+}
+
+export const FoundryConfigFile = "foundry.toml";
+export const HardhatConfigFile = "hardhat.config.json";
+export const RemappingsFile = "remappings.txt";
+
+export interface ProjectCompilerConfig {
+    version: string;
+    settings: any;
+}
+
+export interface ProjectConfig {
+    kind: ProjectKind;
+
+    /**
+     * Absolute path to the project root directory
+     */
+    root: string;
+
+    /**
+     * Directory with project sources, relative to the root
+     */
+    sources: string;
+
+    /**
+     * Directories with dependencies, relative to the root
+     */
+    libs: string[];
+
+    remappings: string[];
+
+    /**
+     * Compilers, that are explicitly configured for the project.
+     * If empty, compiler versions are detected from the pragmas of the sources.
+     */
+    compilers: ProjectCompilerConfig[];
+
+    /**
+     * Compiler settings for the versions, that are not explicitly configured
+     */
+    compilerSettings: any;
+}
+
+/**
+ * Reads remappings from the file with one remapping per line
+ * (e.g. `remappings.txt` of Foundry projects). Empty lines and `#` comments are skipped.
+ */
+export function readRemappingsFile(fileName: string): string[] {
+    return getFileSystem()
+        .readTextFile(fileName)
+        .split(/\r?\n/)
+        .map((line) => line.replace(/#.*$/, "").trim())
+        .filter((line) => line !== "");
+}
+
+function readRootRemappings(root: string): string[] {
+    const fileName = path.join(root, RemappingsFile);
+
+    return getFileSystem().exists(fileName) ? readRemappingsFile(fileName) : [];
+}
+
+function toPosixPath(fileName: string): string {
+    return fileName.split(path.sep).join("/");
+}
+
+function withTrailingSlash(dir: string): string {
+    return dir.endsWith("/") ? dir : dir + "/";
+}
+
+/**
+ * Detects remappings for the dependencies in the `libs` directories, as Foundry does:
+ * each `<lib>/<name>` is remapped by `<name>/` prefix to its `src/` or `contracts/`
+ * subdirectory (if present). Dependencies, that are already remapped explicitly, are skipped.
+ */
+function detectLibRemappings(root: string, libs: string[], remappings: string[]): string[] {
+    const fs = getFileSystem();
+
+    const prefixes = remappings.map((remapping) => remapping.replace(/^[^:=]*:/, ""));
+    const targets = remappings.map((remapping) => remapping.replace(/^[^=]*=/, ""));
+    const result: string[] = [];
+
+    for (const lib of libs) {
+        const libDir = path.join(root, lib);
+
+        if (!fs.exists(libDir) || !fs.stat(libDir).isDirectory) {
+            continue;
+        }
+
+        for (const name of fs.readDir(libDir).sort()) {
+            const depDir = path.join(libDir, name);
+
+            if (!fs.stat(depDir).isDirectory) {
+                continue;
+            }
+
+            const prefix = name + "/";
+            const depPath = withTrailingSlash(toPosixPath(path.join(lib, name)));
+
+            if (
+                prefixes.some((candidate) => candidate.startsWith(prefix)) ||
+                targets.some((candidate) => candidate.startsWith(depPath))
+            ) {
+                continue;
+            }
+
+            const subDir = ["src", "contracts"].find((candidate) =>
+                fs.exists(path.join(depDir, candidate))
+            );
+
+            const target =
+                subDir === undefined ? path.join(lib, name) : path.join(lib, name, subDir);
+
+            result.push(`${prefix}=${withTrailingSlash(toPosixPath(target))}`);
+        }
+    }
+
+    return result;
+}
+
+function loadFoundryConfig(root: string): ProjectConfig {
+    const toml = parseToml(getFileSystem().readTextFile(path.join(root, FoundryConfigFile)));
+
+    const profiles = toml.profile instanceof Object ? toml.profile : {};
+    const profileName = process.env["FOUNDRY_PROFILE"];
+
+    const profile = {
+        ...profiles.default,
+        ...(profileName === undefined ? {} : profiles[profileName])
+    };
+
+    const sources: string = profile.src === undefined ? "src" : profile.src;
+    const libs: string[] = profile.libs === undefined ? ["lib"] : profile.libs;
+
+    const remappings: string[] = [
+        ...(profile.remappings instanceof Array ? profile.remappings : []),
+        ...readRootRemappings(root)
+    ];
+
+    if (profile.auto_detect_remappings !== false) {
+        remappings.push(...detectLibRemappings(root, libs, remappings));
+    }
+
+    const settings: any = {};
+
+    if (profile.optimizer !== undefined || profile.optimizer_runs !== undefined) {
+        settings.optimizer = {
+            enabled: profile.optimizer === true,
+            runs: profile.optimizer_runs === undefined ? 200 : profile.optimizer_runs
+        };
+    }
+
+    if (profile.evm_version !== undefined) {
+        settings.evmVersion = profile.evm_version;
+    }
+
+    if (profile.via_ir !== undefined) {
+        settings.viaIR = profile.via_ir;
+    }
+
+    /**
+     * `solc` could also be a path to the compiler binary, that is not supported
+     */
+    const version: string | undefined =
+        profile.solc_version === undefined ? profile.solc : profile.solc_version;
+
+    const compilers =
+        typeof version === "string" && isExact(version.replace(/^v/, ""))
+            ? [{ version: version.replace(/^v/, ""), settings }]
+            : [];
+
+    return {
+        kind: ProjectKind.Foundry,
+        root,
+        sources,
+        libs,
+        remappings,
+        compilers,
+        compilerSettings: settings
+    };
+}
+
+function loadHardhatConfig(root: string): ProjectConfig {
+    const config = JSON.parse(getFileSystem().readTextFile(path.join(root, HardhatConfigFile)));
+    const paths = config.paths instanceof Object ? config.paths : {};
+    const solidity = config.solidity;
+
+    let compilers: ProjectCompilerConfig[];
+
+    if (typeof solidity === "string") {
+        compilers = [{ version: solidity, settings: {} }];
+    } else if (solidity instanceof Object && solidity.compilers instanceof Array) {
+        compilers = solidity.compilers.map((compiler: any) => ({
+            version: compiler.version,
+            settings: compiler.settings === undefined ? {} : compiler.settings
+        }));
+    } else if (solidity instanceof Object && typeof solidity.version === "string") {
+        compilers = [
+            {
+                version: solidity.version,
+                settings: solidity.settings === undefined ? {} : solidity.settings
+            }
+        ];
+    } else {
+        compilers = [];
+    }
+
+    return {
+        kind: ProjectKind.Hardhat,
+        root,
+        sources: paths.sources === undefined ? "contracts" : paths.sources,
+        libs: ["node_modules"],
+        remappings: readRootRemappings(root),
+        compilers,
+        compilerSettings: compilers.length > 0 ? compilers[0].settings : {}
+    };
+}
+
+/**
+ * Loads configuration of the project at the `root` directory.
+ *
+ * Foundry projects are detected by `foundry.toml` file and Hardhat projects are detected
+ * by `hardhat.config.json` file (JSON equivalent of the Hardhat config).
+ * Otherwise all sources under the root are considered as project sources.
+ * Remappings from `remappings.txt` are used for all kinds of projects.
+ */
+export function loadProjectConfig(root: string): ProjectConfig {
+    const fs = getFileSystem();
+
+    root = path.resolve(root);
+
+    if (fs.exists(path.join(root, FoundryConfigFile))) {
+        return loadFoundryConfig(root);
+    }
+
+    if (fs.exists(path.join(root, HardhatConfigFile))) {
+        return loadHardhatConfig(root);
+    }
+
+    return {
+        kind: ProjectKind.Plain,
+        root,
+        sources: ".",
+        libs: ["lib", "node_modules"],
+        remappings: readRootRemappings(root),
+        compilers: [],
+        compilerSettings: {}
+    };
+}
+
+/**
+ * Returns source unit names (paths relative to the project root) of all Solidity files
+ * in the sources directory of the project. Dependencies and hidden directories are skipped.
+ */
+export function findProjectSources(config: ProjectConfig): string[] {
+    const fs = getFileSystem();
+
+    const skipDirs = new Set(config.libs.map((lib) => path.join(config.root, lib)));
+    const result: string[] = [];
+
+    const walk = (dir: string): void => {
+        for (const name of fs.readDir(dir)) {
+            const entryPath = path.join(dir, name);
+
+            if (fs.stat(entryPath).isDirectory) {
+                if (!(name.startsWith(".") || skipDirs.has(entryPath))) {
+                    walk(entryPath);
+                }
+            } else if (name.endsWith(".sol")) {
+                result.push(toPosixPath(path.relative(config.root, entryPath)));
+            }
+        }
+    };
+
+    const sourcesDir = path.join(config.root, config.sources);
+
+    if (fs.exists(sourcesDir)) {
+        walk(sourcesDir);
+    }
+
+    return result.sort();
+}
@@ -0,0 +1,3 @@
+export * from "./compile";
+export * from "./config";
+export { parseToml, TomlSyntaxError } from "./toml";
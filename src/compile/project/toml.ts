@@ -0,0 +1,321 @@
+/**
+ * Raised when TOML document could not be parsed
+ */
+export class TomlSyntaxError extends Error {
+    constructor(message: string, public readonly offset: number) {
+        super(`${message} at offset ${offset}`);
+    }
+}
+
+const rxBareKey = /[A-Za-z0-9_-]/;
+const rxNumber = /^[+-]?(\d[\d_]*)(\.\d[\d_]*)?([eE][+-]?\d+)?$/;
+const rxNumberChar = /[0-9A-Za-z_.+-]/;
+
+/**
+ * Parser of the TOML subset, that is used by project configuration files (e.g. `foundry.toml`):
+ * tables, arrays of tables, dotted keys, strings, numbers, booleans, arrays and inline tables.
+ * Date-time values are not supported.
+ */
+class TomlParser {
+    private pos = 0;
+
+    /**
+     * Arrays, that are defined by `[[...]]` headers.
+     * Keys of the following headers refer to the last tables of these arrays.
+     */
+    private readonly tableArrays = new Set<any[]>();
+
+    constructor(private readonly text: string) {}
+
+    parse(): any {
+        const root: any = {};
+
+        let table = root;
+
+        while (true) {
+            this.skipWhitespace(true);
+
+            if (this.pos >= this.text.length) {
+                return root;
+            }
+
+            if (this.peek() === "[") {
+                const isArray = this.text.startsWith("[[", this.pos);
+
+                this.pos += isArray ? 2 : 1;
+
+                const keys = this.parseKey();
+
+                this.skipWhitespace(false);
+                this.expect("]");
+
+                if (isArray) {
+                    this.expect("]");
+
+                    table = this.appendTable(root, keys);
+                } else {
+                    table = this.getTable(root, keys);
+                }
+            } else {
+                const keys = this.parseKey();
+
+                this.skipWhitespace(false);
+                this.expect("=");
+                this.skipWhitespace(false);
+
+                const target = this.getTable(table, keys.slice(0, -1));
+
+                target[keys[keys.length - 1]] = this.parseValue();
+            }
+
+            this.skipWhitespace(false);
+
+            if (this.pos < this.text.length && this.peek() !== "\n") {
+                this.fail(`Unexpected character "${this.peek()}"`);
+            }
+        }
+    }
+
+    private fail(message: string): never {
+        throw new TomlSyntaxError(message, this.pos);
+    }
+
+    private peek(): string {
+        return this.text[this.pos];
+    }
+
+    private expect(char: string): void {
+        if (this.peek() !== char) {
+            this.fail(`Expected "${char}"`);
+        }
+
+        this.pos++;
+    }
+
+    /**
+     * Skips spaces and comments. New lines are skipped only if `newLines` is set.
+     */
+    private skipWhitespace(newLines: boolean): void {
+        while (this.pos < this.text.length) {
+            const char = this.peek();
+
+            if (char === "#") {
+                while (this.pos < this.text.length && this.peek() !== "\n") {
+                    this.pos++;
+                }
+            } else if (char === " " || char === "\t" || char === "\r") {
+                this.pos++;
+            } else if (char === "\n" && newLines) {
+                this.pos++;
+            } else {
+                return;
+            }
+        }
+    }
+
+    private getTable(root: any, keys: string[]): any {
+        let table = root;
+
+        for (const key of keys) {
+            if (table[key] === undefined) {
+                table[key] = {};
+            } else if (this.tableArrays.has(table[key])) {
+                table = table[key][table[key].length - 1];
+
+                continue;
+            } else if (!(table[key] instanceof Object) || table[key] instanceof Array) {
+                this.fail(`Key "${key}" is not a table`);
+            }
+
+            table = table[key];
+        }
+
+        return table;
+    }
+
+    /**
+     * Appends new table to the array of tables (e.g. `[[profile.default.fs_permissions]]`)
+     */
+    private appendTable(root: any, keys: string[]): any {
+        const parent = this.getTable(root, keys.slice(0, -1));
+        const key = keys[keys.length - 1];
+
+        if (parent[key] === undefined) {
+            parent[key] = [];
+
+            this.tableArrays.add(parent[key]);
+        } else if (!this.tableArrays.has(parent[key])) {
+            this.fail(`Key "${key}" is not an array of tables`);
+        }
+
+        const table = {};
+
+        parent[key].push(table);
+
+        return table;
+    }
+
+    private parseKey(): string[] {
+        const keys: string[] = [];
+
+        while (true) {
+            this.skipWhitespace(false);
+
+            const char = this.peek();
+
+            if (char === '"' || char === "'") {
+                keys.push(this.parseString());
+            } else {
+                const start = this.pos;
+
+                while (this.pos < this.text.length && rxBareKey.test(this.peek())) {
+                    this.pos++;
+                }
+
+                if (start === this.pos) {
+                    this.fail("Expected key");
+                }
+
+                keys.push(this.text.slice(start, this.pos));
+            }
+
+            this.skipWhitespace(false);
+
+            if (this.peek() !== ".") {
+                return keys;
+            }
+
+            this.pos++;
+        }
+    }
+
+    private parseString(): string {
+        const quote = this.peek();
+        const start = this.pos;
+
+        this.pos++;
+
+        while (this.pos < this.text.length && this.peek() !== quote) {
+            if (this.peek() === "\n") {
+                this.fail("Unterminated string");
+            }
+
+            this.pos += quote === '"' && this.peek() === "\\" ? 2 : 1;
+        }
+
+        if (this.pos >= this.text.length) {
+            this.fail("Unterminated string");
+        }
+
+        this.pos++;
+
+        const raw = this.text.slice(start, this.pos);
+
+        if (quote === "'") {
+            return raw.slice(1, -1);
+        }
+
+        try {
+            return JSON.parse(raw);
+        } catch (e) {
+            return this.fail(`Invalid string ${raw}`);
+        }
+    }
+
+    private parseValue(): any {
+        const char = this.peek();
+
+        if (char === '"' || char === "'") {
+            return this.parseString();
+        }
+
+        if (char === "[") {
+            return this.parseArray();
+        }
+
+        if (char === "{") {
+            return this.parseInlineTable();
+        }
+
+        const start = this.pos;
+
+        while (this.pos < this.text.length && rxNumberChar.test(this.peek())) {
+            this.pos++;
+        }
+
+        const raw = this.text.slice(start, this.pos);
+
+        if (raw === "true" || raw === "false") {
+            return raw === "true";
+        }
+
+        if (rxNumber.test(raw)) {
+            return Number(raw.replace(/_/g, ""));
+        }
+
+        return this.fail(`Invalid value "${raw}"`);
+    }
+
+    private parseArray(): any[] {
+        const result: any[] = [];
+
+        this.expect("[");
+
+        while (true) {
+            this.skipWhitespace(true);
+
+            if (this.peek() === "]") {
+                this.pos++;
+
+                return result;
+            }
+
+            result.push(this.parseValue());
+
+            this.skipWhitespace(true);
+
+            if (this.peek() === ",") {
+                this.pos++;
+            } else if (this.peek() !== "]") {
+                this.fail(`Expected "," or "]"`);
+            }
+        }
+    }
+
+    private parseInlineTable(): any {
+        const result: any = {};
+
+        this.expect("{");
+        this.skipWhitespace(false);
+
+        if (this.peek() === "}") {
+            this.pos++;
+
+            return result;
+        }
+
+        while (true) {
+            const keys = this.parseKey();
+
+            this.skipWhitespace(false);
+            this.expect("=");
+            this.skipWhitespace(false);
+
+            this.getTable(result, keys.slice(0, -1))[keys[keys.length - 1]] = this.parseValue();
+
+            this.skipWhitespace(false);
+
+            if (this.peek() === "}") {
+                this.pos++;
+
+                return result;
+            }
+
+            this.expect(",");
+        }
+    }
+}
+
+export function parseToml(text: string): any {
+    return new TomlParser(text).parse();
+}
@@ -1,6 +1,24 @@
-import fse from "fs-extra";
 import path from "path";
-import { FileSystemResolver, getCompilerForVersion, ImportResolver, LocalNpmResolver } from ".";
+import {
+    CompilerInvocationOptions,
+    FileSystemResolver,
+    getCompilerForVersion,
+    getFileSystem,
+    getNativeCompilerPath,
+    ImportResolver,
+    IncludePathResolver,
+    isSubDir,
+    LocalNpmResolver
+} from ".";
+import {
+    BuildArtifact,
+    isFoundryArtifact,
+    isHardhatBuildInfo,
+    readFoundryArtifacts,
+    readFoundryOutDir,
+    readHardhatBuildInfo
+} from "./artifacts";
+import { CompilationCache, getCompilationCache } from "./cache";
 import {
     CompilerVersionSelectionStrategy,
     LatestVersionInEachSeriesStrategy,
@@ -8,9 +26,11 @@ import {
     VersionDetectionStrategy
 } from "./compiler_selection";
 import { CompilationOutput, CompilerKind } from "./constants";
+import { CompilerDiagnostic, detectCompileDiagnostics, isErrorDiagnostic } from "./diagnostics";
 import { Remapping } from "./import_resolver";
-import { findAllFiles } from "./inference";
+import { findAllFiles, ImportGraph, UnresolvedImport } from "./inference";
 import { createCompilerInput } from "./input";
+import { SolcOutput } from "./output";
 
 export interface MemoryStorage {
     [path: string]: {
@@ -19,18 +39,61 @@ export interface MemoryStorage {
 }
 
 export interface CompileResult {
-    data: any;
+    /**
+     * Compiler output in the standard JSON format
+     */
+    data: SolcOutput;
     compilerVersion?: string;
     files: Map<string, string>;
+
+    /**
+     * Non-error messages (warnings and infos), reported by the compiler
+     */
+    warnings: CompilerDiagnostic[];
+
+    /**
+     * Compiler settings, recovered from the build artifacts
+     */
+    compilerSettings?: any;
 }
 
 export interface CompileFailure {
-    errors: string[];
+    errors: CompilerDiagnostic[];
+    warnings: CompilerDiagnostic[];
     compilerVersion?: string;
 }
 
+/**
+ * Options of the source file lookup, equivalent to `--base-path` and `--include-path` of solc
+ */
+export interface PathOptions {
+    basePath?: string;
+    includePaths?: string[];
+}
+
 export class CompileInferenceError extends Error {}
 
+/**
+ * Thrown by `findAllFiles()`, when some of the imports could not be resolved.
+ * All unresolved imports are collected before the error is thrown.
+ */
+export class UnresolvedImportsError extends CompileInferenceError {
+    unresolved: UnresolvedImport[];
+
+    constructor(unresolved: UnresolvedImport[]) {
+        super(
+            unresolved
+                .map(
+                    (entry) =>
+                        `Couldn't find ${entry.sourceUnitName} (imported as "${entry.path}" by ${entry.importer})`
+                )
+                .join("\n")
+        );
+
+        this.unresolved = unresolved;
+    }
+}
+
 export class CompileFailedError extends Error {
     failures: CompileFailure[];
 
@@ -40,7 +103,10 @@ export class CompileFailedError extends Error {
         this.failures = entries;
 
         const formattedErrorStr = entries.map(
-            (entry) => `==== ${entry.compilerVersion} ===:\n ${entry.errors.join("\n")}\n`
+            (entry) =>
+                `==== ${entry.compilerVersion} ===:\n ${entry.errors
+                    .map((error) => error.formattedMessage)
+                    .join("\n")}\n`
         );
 
         this.message = `Compiler Errors: ${formattedErrorStr}`;
@@ -81,9 +147,10 @@ export function resolveFiles(
     files: Map<string, string>,
     remapping: string[],
     resolvers: ImportResolver[]
-): void {
+): ImportGraph {
     const parsedRemapping = parsePathRemapping(remapping);
-    findAllFiles(files, parsedRemapping, resolvers);
+
+    return findAllFiles(files, parsedRemapping, resolvers);
 }
 
 function fillFilesFromSources(
@@ -118,7 +185,8 @@ export async function compile(
     version: string,
     compilationOutput: CompilationOutput[] = [CompilationOutput.ALL],
     compilerSettings?: any,
-    kind = CompilerKind.WASM
+    kind = CompilerKind.WASM,
+    invocationOptions?: CompilerInvocationOptions
 ): Promise<any> {
     const compilerInput = createCompilerInput(
         files,
@@ -127,6 +195,25 @@ export async function compile(
         compilerSettings
     );
 
+    /**
+     * Outputs of custom native binaries are not cached: they would share entries
+     * with the downloaded compiler of the same version, and binaries could be rebuilt in place.
+     */
+    const cache =
+        kind === CompilerKind.Native && getNativeCompilerPath(version) !== undefined
+            ? undefined
+            : getCompilationCache();
+
+    const key = cache ? CompilationCache.getKey(compilerInput, version, kind) : undefined;
+
+    if (cache && key) {
+        const cached = cache.get(key);
+
+        if (cached !== undefined) {
+            return cached;
+        }
+    }
+
     const compiler = await getCompilerForVersion(version, kind);
 
     if (compiler === undefined) {
@@ -135,35 +222,89 @@ export async function compile(
         );
     }
 
-    return compiler.compile(compilerInput);
+    const output = await compiler.compile(compilerInput, invocationOptions);
+
+    if (cache && key) {
+        cache.set(key, output);
+    }
+
+    return output;
 }
 
 export function detectCompileErrors(data: any): string[] {
-    const errors: string[] = [];
-
-    if (data.errors instanceof Array) {
-        for (const error of data.errors) {
-            const typeOf = typeof error;
-
-            if (typeOf === "object") {
-                /**
-                 * Solc >= 0.5
-                 */
-                if (error.severity === "error") {
-                    errors.push(error.formattedMessage);
-                }
-            } else if (typeOf === "string") {
-                /**
-                 * Solc < 0.5
-                 */
-                if (!error.match("Warning")) {
-                    errors.push(error);
-                }
-            }
+    return detectCompileDiagnostics(data)
+        .filter(isErrorDiagnostic)
+        .map((diagnostic) => diagnostic.formattedMessage);
+}
+
+/**
+ * Splits messages of the compiler output to errors and other (non-error) messages
+ */
+function splitDiagnostics(
+    data: any,
+    compilerVersion?: string
+): [CompilerDiagnostic[], CompilerDiagnostic[]] {
+    const diagnostics = detectCompileDiagnostics(data, compilerVersion);
+
+    return [
+        diagnostics.filter(isErrorDiagnostic),
+        diagnostics.filter((diagnostic) => !isErrorDiagnostic(diagnostic))
+    ];
+}
+
+/**
+ * Produces compile result from the build artifact, that already contains compiler output
+ */
+function getBuildArtifactResult(artifact: BuildArtifact): CompileResult {
+    const { data, compilerVersion, compilerSettings, files } = artifact;
+    const [errors, warnings] = splitDiagnostics(data, compilerVersion);
+
+    if (errors.length) {
+        throw new CompileFailedError([{ compilerVersion, errors, warnings }]);
+    }
+
+    const result: CompileResult = { data, compilerVersion, files, warnings };
+
+    if (compilerSettings !== undefined) {
+        result.compilerSettings = compilerSettings;
+    }
+
+    return result;
+}
+
+/**
+ * Returns source unit name for the file, passed to the compiler.
+ * As solc does, the base path or include path (the first one, that contains the file)
+ * is stripped from the file name.
+ */
+function getEntrySourceUnitName(fileName: string, pathOptions: PathOptions): string {
+    const dirs = [pathOptions.basePath, ...(pathOptions.includePaths || [])];
+
+    for (const dir of dirs) {
+        if (dir === undefined || dir === "") {
+            continue;
+        }
+
+        const absDir = path.resolve(dir);
+        const absFileName = path.resolve(fileName);
+
+        if (isSubDir(absFileName, absDir)) {
+            return path.relative(absDir, absFileName).split(path.sep).join("/");
         }
     }
 
-    return errors;
+    return fileName;
+}
+
+function getImportResolvers(entryFileDir: string, pathOptions: PathOptions): ImportResolver[] {
+    if (pathOptions.basePath === undefined && pathOptions.includePaths === undefined) {
+        return [new FileSystemResolver(), new LocalNpmResolver(entryFileDir)];
+    }
+
+    const basePath = pathOptions.basePath === undefined ? "" : pathOptions.basePath;
+    const includePaths = pathOptions.includePaths === undefined ? [] : pathOptions.includePaths;
+
+    return [new IncludePathResolver(basePath, includePaths), new LocalNpmResolver(entryFileDir)];
 }
 
 export async function compileSourceString(
@@ -173,13 +314,14 @@ export async function compileSourceString(
     remapping: string[],
     compilationOutput: CompilationOutput[] = [CompilationOutput.ALL],
     compilerSettings?: any,
-    kind?: CompilerKind
+    kind?: CompilerKind,
+    pathOptions: PathOptions = {}
 ): Promise<CompileResult> {
-    const entrySourceUnit = fileName;
-    const entryFileDir = path.dirname(entrySourceUnit);
+    const entrySourceUnit = getEntrySourceUnitName(fileName, pathOptions);
+    const entryFileDir = path.dirname(fileName);
 
     const files = new Map([[entrySourceUnit, sourceCode]]);
-    const resolvers = [new FileSystemResolver(), new LocalNpmResolver(entryFileDir)];
+    const resolvers = getImportResolvers(entryFileDir, pathOptions);
 
     resolveFiles(files, remapping, resolvers);
 
@@ -196,13 +338,13 @@ export async function compileSourceString(
             kind
         );
 
-        const errors = detectCompileErrors(data);
+        const [errors, warnings] = splitDiagnostics(data, compilerVersion);
 
         if (errors.length === 0) {
-            return { data, compilerVersion, files };
+            return { data, compilerVersion, files, warnings };
         }
 
-        failures.push({ compilerVersion, errors });
+        failures.push({ compilerVersion, errors, warnings });
     }
 
     throw new CompileFailedError(failures);
@@ -214,9 +356,10 @@ export async function compileSol(
     remapping: string[],
     compilationOutput: CompilationOutput[] = [CompilationOutput.ALL],
     compilerSettings?: any,
-    kind?: CompilerKind
+    kind?: CompilerKind,
+    pathOptions: PathOptions = {}
 ): Promise<CompileResult> {
-    const sourceCode = fse.readFileSync(fileName, { encoding: "utf-8" });
+    const sourceCode = getFileSystem().readTextFile(fileName);
 
     return compileSourceString(
         fileName,
@@ -225,7 +368,8 @@ export async function compileSol(
         remapping,
         compilationOutput,
         compilerSettings,
-        kind
+        kind,
+        pathOptions
     );
 }
 
@@ -239,23 +383,41 @@ export async function compileJsonData(
 ): Promise<CompileResult> {
     const files = new Map<string, string>();
 
-    if (!(data instanceof Object && data.sources instanceof Object)) {
+    if (
+        !(
+            data instanceof Object &&
+            (data.sources instanceof Object || isHardhatBuildInfo(data) || isFoundryArtifact(data))
+        )
+    ) {
         throw new Error(`Unable to find required properties in "${fileName}"`);
     }
 
+    if (isHardhatBuildInfo(data)) {
+        return getBuildArtifactResult(readHardhatBuildInfo(data));
+    }
+
+    if (isFoundryArtifact(data)) {
+        /**
+         * Artifacts are stored as `<root>/out/<File>.sol/<Contract>.json`
+         */
+        const root = path.dirname(path.dirname(path.dirname(path.resolve(fileName))));
+
+        return getBuildArtifactResult(readFoundryArtifacts([data], root));
+    }
+
     const sources: { [fileName: string]: any } = data.sources;
 
     if (consistentlyContainsOneOf(sources, "ast", "legacyAST", "AST")) {
         const compilerVersion = undefined;
-        const errors = detectCompileErrors(data);
+        const [errors, warnings] = splitDiagnostics(data, compilerVersion);
 
         if (errors.length) {
-            throw new CompileFailedError([{ compilerVersion, errors }]);
+            throw new CompileFailedError([{ compilerVersion, errors, warnings }]);
         }
 
         fillFilesFromSources(files, sources);
 
-        return { data, compilerVersion, files };
+        return { data, compilerVersion, files, warnings };
     }
 
     if (consistentlyContainsOneOf(sources, "source")) {
@@ -276,13 +438,13 @@ export async function compileJsonData(
                 kind
             );
 
-            const errors = detectCompileErrors(compileData);
+            const [errors, warnings] = splitDiagnostics(compileData, compilerVersion);
 
             if (errors.length === 0) {
-                return { data: compileData, compilerVersion, files };
+                return { data: compileData, compilerVersion, files, warnings };
             }
 
-            failures.push({ compilerVersion, errors });
+            failures.push({ compilerVersion, errors, warnings });
         }
 
         throw new CompileFailedError(failures);
@@ -300,7 +462,15 @@ export async function compileJson(
     compilerSettings?: any,
     kind?: CompilerKind
 ): Promise<CompileResult> {
-    const data = fse.readJSONSync(fileName);
+    const data = JSON.parse(getFileSystem().readTextFile(fileName));
 
     return compileJsonData(fileName, data, version, compilationOutput, compilerSettings, kind);
 }
+
+/**
+ * Reads contract artifacts from the Foundry output directory (`out/`) without recompiling.
+ * Sources are recovered relative to the `root` directory (parent of `outDir` by default).
+ */
+export async function compileFoundryOutDir(outDir: string, root?: string): Promise<CompileResult> {
+    return getBuildArtifactResult(readFoundryOutDir(outDir, root));
+}
@@ -0,0 +1,78 @@
+import { getPushSize, OpcodeNames } from "./opcodes";
+
+export interface Instruction {
+    /**
+     * Position of the instruction in the instruction list.
+     * Entries of the source map correspond to instructions by this index.
+     */
+    index: number;
+
+    /**
+     * Program counter (byte offset of the instruction in the bytecode)
+     */
+    pc: number;
+
+    opcode: number;
+    name: string;
+
+    /**
+     * Hex-encoded immediate value of `PUSH1` - `PUSH32` instructions (without `0x` prefix).
+     * Immediate bytes, that are truncated by the end of the bytecode, are zero-padded.
+     */
+    pushData?: string;
+}
+
+/**
+ * Library link references (`__$<hash>$__` or `__<name>__` placeholders) of unlinked bytecode
+ */
+const rxLinkReference = /__[$_A-Za-z0-9./:]{36}__/g;
+
+/**
+ * Converts hex-encoded bytecode (as in `evm.bytecode.object`) to bytes.
+ * Placeholders of unlinked libraries are replaced by zero addresses.
+ */
+export function bytecodeToBytes(bytecode: string): Uint8Array {
+    const hex = bytecode.replace(/^0x/, "").replace(rxLinkReference, "0".repeat(40));
+
+    if (hex.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(hex)) {
+        throw new Error(`Invalid bytecode "${bytecode.slice(0, 32)}..."`);
+    }
+
+    return Uint8Array.from(Buffer.from(hex, "hex"));
+}
+
+/**
+ * Splits bytecode into instructions. Data, that follows the code (e.g. the metadata trailer),
+ * is disassembled as instructions too, as there is no reliable way to tell it apart.
+ */
+export function disassemble(bytecode: string | Uint8Array): Instruction[] {
+    const bytes = typeof bytecode === "string" ? bytecodeToBytes(bytecode) : bytecode;
+    const result: Instruction[] = [];
+
+    for (let pc = 0; pc < bytes.length; ) {
+        const opcode = bytes[pc];
+        const name = OpcodeNames.get(opcode);
+        const instruction: Instruction = {
+            index: result.length,
+            pc,
+            opcode,
+            name: name === undefined ? "INVALID" : name
+        };
+
+        const pushSize = getPushSize(opcode);
+
+        if (pushSize > 0) {
+            const data = Buffer.alloc(pushSize);
+
+            data.set(bytes.subarray(pc + 1, pc + 1 + pushSize));
+
+            instruction.pushData = data.toString("hex");
+        }
+
+        result.push(instruction);
+
+        pc += 1 + pushSize;
+    }
+
+    return result;
+}
@@ -0,0 +1,4 @@
+export * from "./disassembler";
+export * from "./metadata";
+export * from "./opcodes";
+export * from "./source_map";
@@ -0,0 +1,235 @@
+import { bytecodeToBytes } from "./disassembler";
+
+/**
+ * Metadata, that the compiler appends to the runtime bytecode in CBOR encoding.
+ * Hashes are hex-encoded (without `0x` prefix).
+ *
+ * @see https://docs.soliditylang.org/en/latest/metadata.html#encoding-of-the-metadata-hash-in-the-bytecode
+ */
+export interface BytecodeMetadata {
+    /**
+     * IPFS multihash of the metadata JSON (`0x1220` prefix followed by SHA-256 digest)
+     */
+    ipfs?: string;
+
+    /**
+     * Swarm hashes of the metadata JSON (before Solidity 0.5.11 and after it)
+     */
+    bzzr0?: string;
+    bzzr1?: string;
+
+    /**
+     * Compiler version. Release versions are encoded as three bytes (e.g. `0.8.12`),
+     * while prerelease versions are encoded as strings (e.g. `0.8.13-ci.2022.2.14+commit.1a2b3c4d`).
+     * Is not present before Solidity 0.5.9.
+     */
+    solc?: string;
+
+    /**
+     * Is set when experimental features (e.g. SMTChecker or ABI coder v2 before 0.8.0) are used
+     */
+    experimental?: boolean;
+
+    /**
+     * Other entries of the CBOR map as they are decoded
+     */
+    [key: string]: any;
+}
+
+export interface MetadataTrailer {
+    metadata: BytecodeMetadata;
+
+    /**
+     * Byte offset, the trailer starts at (that is the size of the code without the trailer)
+     */
+    offset: number;
+
+    /**
+     * Size of the trailer in bytes (including two bytes of the CBOR length)
+     */
+    length: number;
+}
+
+/**
+ * Values of CBOR simple types (major type 7)
+ */
+const SimpleValues = new Map<number, any>([
+    [20, false],
+    [21, true],
+    [22, null],
+    [23, undefined]
+]);
+
+class CBORDecoder {
+    private offset = 0;
+
+    constructor(private readonly bytes: Uint8Array) {}
+
+    get done(): boolean {
+        return this.offset === this.bytes.length;
+    }
+
+    private readByte(): number {
+        if (this.offset >= this.bytes.length) {
+            throw new Error("Unexpected end of CBOR data");
+        }
+
+        return this.bytes[this.offset++];
+    }
+
+    private readBytes(size: number): Uint8Array {
+        if (this.offset + size > this.bytes.length) {
+            throw new Error("Unexpected end of CBOR data");
+        }
+
+        const result = this.bytes.subarray(this.offset, this.offset + size);
+
+        this.offset += size;
+
+        return result;
+    }
+
+    private readArgument(info: number): number {
+        if (info < 24) {
+            return info;
+        }
+
+        if (info > 27) {
+            throw new Error(`Unsupported CBOR additional information ${info}`);
+        }
+
+        let result = 0;
+
+        for (const byte of this.readBytes(1 << (info - 24))) {
+            result = result * 256 + byte;
+        }
+
+        return result;
+    }
+
+    /**
+     * Reads the next item. Only definite-length items, that are produced by the compiler, are supported.
+     */
+    read(): any {
+        const head = this.readByte();
+        const major = head >> 5;
+        const info = head & 0x1f;
+
+        if (major === 7) {
+            if (!SimpleValues.has(info)) {
+                throw new Error(`Unsupported CBOR simple value ${info}`);
+            }
+
+            return SimpleValues.get(info);
+        }
+
+        const argument = this.readArgument(info);
+
+        if (major === 0) {
+            return argument;
+        }
+
+        if (major === 1) {
+            return -1 - argument;
+        }
+
+        if (major === 2) {
+            return this.readBytes(argument);
+        }
+
+        if (major === 3) {
+            return Buffer.from(this.readBytes(argument)).toString("utf-8");
+        }
+
+        if (major === 4) {
+            return Array.from({ length: argument }, () => this.read());
+        }
+
+        if (major === 5) {
+            const result: { [key: string]: any } = {};
+
+            for (let i = 0; i < argument; i++) {
+                const key = this.read();
+
+                result[String(key)] = this.read();
+            }
+
+            return result;
+        }
+
+        throw new Error(`Unsupported CBOR major type ${major}`);
+    }
+}
+
+function toBytecodeMetadata(map: { [key: string]: any }): BytecodeMetadata {
+    const result: BytecodeMetadata = {};
+
+    for (const [key, value] of Object.entries(map)) {
+        if (key === "solc" && value instanceof Uint8Array) {
+            result.solc = Array.from(value).join(".");
+        } else if (value instanceof Uint8Array) {
+            result[key] = Buffer.from(value).toString("hex");
+        } else {
+            result[key] = value;
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Decodes CBOR metadata at the end of the runtime bytecode (as in `evm.deployedBytecode.object`).
+ * The last two bytes of the bytecode are the big-endian length of the CBOR data, that precedes them.
+ *
+ * Creation bytecode ends with the runtime bytecode, so its trailer is decoded too,
+ * unless the constructor arguments are appended.
+ *
+ * Returns `undefined` if the bytecode has no valid trailer
+ * (e.g. it was compiled with `metadata.appendCBOR` disabled).
+ */
+export function getMetadataTrailer(bytecode: string | Uint8Array): MetadataTrailer | undefined {
+    const bytes = typeof bytecode === "string" ? bytecodeToBytes(bytecode) : bytecode;
+
+    if (bytes.length < 2) {
+        return undefined;
+    }
+
+    const size = bytes[bytes.length - 2] * 256 + bytes[bytes.length - 1];
+    const offset = bytes.length - 2 - size;
+
+    if (size === 0 || offset < 0) {
+        return undefined;
+    }
+
+    const decoder = new CBORDecoder(bytes.subarray(offset, bytes.length - 2));
+
+    let map: any;
+
+    try {
+        map = decoder.read();
+    } catch (e) {
+        return undefined;
+    }
+
+    if (
+        !decoder.done ||
+        !(map instanceof Object) ||
+        map instanceof Array ||
+        map instanceof Uint8Array
+    ) {
+        return undefined;
+    }
+
+    return { metadata: toBytecodeMetadata(map), offset, length: size + 2 };
+}
+
+/**
+ * Returns decoded CBOR metadata of the runtime bytecode or `undefined` if there is none
+ */
+export function decodeBytecodeMetadata(
+    bytecode: string | Uint8Array
+): BytecodeMetadata | undefined {
+    const trailer = getMetadataTrailer(bytecode);
+
+    return trailer === undefined ? undefined : trailer.metadata;
+}
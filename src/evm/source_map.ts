@@ -0,0 +1,279 @@
+import { ASTNode } from "../ast/ast_node";
+import { SourceUnit } from "../ast/implementation/meta/source_unit";
+import { parseSourceLocation } from "../ast/utils";
+import { SolcBytecodeOutput } from "../compile/output";
+import { disassemble, Instruction } from "./disassembler";
+
+export enum JumpType {
+    /**
+     * Jump into a function
+     */
+    In = "i",
+
+    /**
+     * Return from a function
+     */
+    Out = "o",
+
+    /**
+     * Regular jump (as part of a loop, for example)
+     */
+    Regular = "-"
+}
+
+export interface SourceMapEntry {
+    offset: number;
+    length: number;
+
+    /**
+     * Index of the source file (`-1` if the instruction is not mapped to any source)
+     */
+    sourceIndex: number;
+
+    jump: JumpType;
+
+    /**
+     * Depth of the modifier, which code is executed (`0` before Solidity 0.6.0)
+     */
+    modifierDepth: number;
+}
+
+/**
+ * Source, that is generated by the compiler (see `evm.bytecode.generatedSources`)
+ */
+export interface GeneratedSource {
+    id: number;
+    name: string;
+    language: string;
+    contents: string;
+    ast: any;
+}
+
+/**
+ * Decodes compressed source map of the compiler (`s:l:f:j:m` entries, separated by `;`).
+ * Empty and missing fields of the entry take their values from the previous entry.
+ *
+ * @see https://docs.soliditylang.org/en/latest/internals/source_mappings.html
+ */
+export function decodeSourceMap(sourceMap: string): SourceMapEntry[] {
+    const result: SourceMapEntry[] = [];
+
+    if (sourceMap === "") {
+        return result;
+    }
+
+    let previous: SourceMapEntry = {
+        offset: -1,
+        length: -1,
+        sourceIndex: -1,
+        jump: JumpType.Regular,
+        modifierDepth: 0
+    };
+
+    for (const item of sourceMap.split(";")) {
+        const fields = item.split(":");
+        const entry = { ...previous };
+
+        const getNumber = (index: number, fallback: number): number => {
+            const value = fields[index];
+
+            if (value === undefined || value === "") {
+                return fallback;
+            }
+
+            const parsed = parseInt(value, 10);
+
+            if (isNaN(parsed)) {
+                throw new Error(`Invalid source map entry "${item}"`);
+            }
+
+            return parsed;
+        };
+
+        entry.offset = getNumber(0, previous.offset);
+        entry.length = getNumber(1, previous.length);
+        entry.sourceIndex = getNumber(2, previous.sourceIndex);
+        entry.modifierDepth = getNumber(4, previous.modifierDepth);
+
+        if (fields[3] !== undefined && fields[3] !== "") {
+            if (!Object.values<string>(JumpType).includes(fields[3])) {
+                throw new Error(`Invalid source map entry "${item}"`);
+            }
+
+            entry.jump = fields[3] as JumpType;
+        }
+
+        result.push(entry);
+
+        previous = entry;
+    }
+
+    return result;
+}
+
+/**
+ * Index of bytecode instructions, that links program counters
+ * to the source map entries and to the AST nodes.
+ *
+ * Source units are matched to the source map entries by `sourceListIndex`.
+ * Indices, that do not belong to any of the units, are matched to the generated sources by `id`.
+ */
+export class SourceMapIndex {
+    readonly instructions: Instruction[];
+    readonly entries: SourceMapEntry[];
+
+    private instructionsByPc = new Map<number, Instruction>();
+    private units = new Map<number, SourceUnit>();
+    private generatedSources = new Map<number, GeneratedSource>();
+
+    /**
+     * Innermost nodes by source ranges of the units
+     */
+    private nodesBySrc = new Map<SourceUnit, Map<string, ASTNode | undefined>>();
+
+    /**
+     * @param bytecode Hex-encoded bytecode (`evm.bytecode.object` or `evm.deployedBytecode.object`)
+     * @param sourceMap Compressed source map of the same bytecode
+     * @param units Source units of the compilation
+     * @param generatedSources Generated sources of the same bytecode
+     */
+    constructor(
+        bytecode: string,
+        sourceMap: string,
+        units: Iterable<SourceUnit>,
+        generatedSources: GeneratedSource[] = []
+    ) {
+        this.instructions = disassemble(bytecode);
+        this.entries = decodeSourceMap(sourceMap);
+
+        for (const instruction of this.instructions) {
+            this.instructionsByPc.set(instruction.pc, instruction);
+        }
+
+        for (const unit of units) {
+            this.units.set(unit.sourceListIndex, unit);
+        }
+
+        for (const source of generatedSources) {
+            this.generatedSources.set(source.id, source);
+        }
+    }
+
+    /**
+     * Creates index for the bytecode section of the contract output
+     * (`evm.bytecode` or `evm.deployedBytecode`)
+     */
+    static fromBytecodeOutput(
+        output: SolcBytecodeOutput,
+        units: Iterable<SourceUnit>
+    ): SourceMapIndex {
+        return new SourceMapIndex(
+            output.object,
+            output.sourceMap === undefined ? "" : output.sourceMap,
+            units,
+            output.generatedSources === undefined ? [] : output.generatedSources
+        );
+    }
+
+    getInstruction(pc: number): Instruction | undefined {
+        return this.instructionsByPc.get(pc);
+    }
+
+    /**
+     * Returns source map entry for the instruction at `pc`.
+     * Instructions past the end of the source map (e.g. the metadata trailer) have no entries.
+     */
+    getEntry(pc: number): SourceMapEntry | undefined {
+        const instruction = this.instructionsByPc.get(pc);
+
+        return instruction === undefined ? undefined : this.entries[instruction.index];
+    }
+
+    /**
+     * Returns generated source, the instruction at `pc` is mapped to
+     */
+    getGeneratedSource(pc: number): GeneratedSource | undefined {
+        const entry = this.getEntry(pc);
+
+        if (entry === undefined || this.units.has(entry.sourceIndex)) {
+            return undefined;
+        }
+
+        return this.generatedSources.get(entry.sourceIndex);
+    }
+
+    /**
+     * Returns the innermost node, which `src` matches the source range of the instruction at `pc`.
+     * If there is no such node (e.g. the range is a part of inline assembly),
+     * the innermost node, that encloses the range, is returned.
+     */
+    getNode(pc: number): ASTNode | undefined {
+        const entry = this.getEntry(pc);
+
+        if (entry === undefined) {
+            return undefined;
+        }
+
+        const unit = this.units.get(entry.sourceIndex);
+
+        if (unit === undefined) {
+            return undefined;
+        }
+
+        let nodes = this.nodesBySrc.get(unit);
+
+        if (nodes === undefined) {
+            nodes = getInnermostNodesBySrc(unit);
+
+            this.nodesBySrc.set(unit, nodes);
+        }
+
+        const src = `${entry.offset}:${entry.length}:${entry.sourceIndex}`;
+
+        if (!nodes.has(src)) {
+            nodes.set(src, findEnclosingNode(unit, entry.offset, entry.length));
+        }
+
+        return nodes.get(src);
+    }
+
+    /**
+     * Returns instructions, that are mapped to the `node`
+     */
+    getInstructions(node: ASTNode): Instruction[] {
+        return this.instructions.filter((instruction) => this.getNode(instruction.pc) === node);
+    }
+}
+
+function getInnermostNodesBySrc(unit: SourceUnit): Map<string, ASTNode | undefined> {
+    const result = new Map<string, ASTNode | undefined>();
+
+    /**
+     * Nodes are visited parents first, so deeper nodes with the same range override outer ones
+     */
+    unit.walk((node) => {
+        result.set(node.src, node);
+    });
+
+    return result;
+}
+
+function findEnclosingNode(unit: SourceUnit, offset: number, length: number): ASTNode | undefined {
+    let result: ASTNode | undefined;
+    let resultLength = Infinity;
+
+    unit.walk((node) => {
+        const location = parseSourceLocation(node.src);
+
+        if (
+            location.offset <= offset &&
+            location.offset + location.length >= offset + length &&
+            location.length <= resultLength
+        ) {
+            result = node;
+            resultLength = location.length;
+        }
+    });
+
+    return result;
+}
@@ -1,4 +1,6 @@
+export * from "./analysis";
 export * from "./ast";
 export * from "./compile";
+export * from "./evm";
 export * from "./misc";
 export * from "./types";
@@ -12,6 +12,7 @@ import {
     BoolType,
     BytesType,
     FixedBytesType,
+    FunctionType,
     IntType,
     MappingType,
     StringType,
@@ -126,6 +127,11 @@ export function abiTypeToCanonicalName(t: TypeNode): string {
         return abiTypeToCanonicalName(t.to);
     }
 
+    // External function types are encoded as address and selector
+    if (t instanceof FunctionType) {
+        return "function";
+    }
+
     assert(false, "Unexpected ABI Type: {0}", t);
 }
 
@@ -168,6 +174,10 @@ export function abiTypeToLibraryCanonicalName(t: TypeNode): string {
         return t.location === DataLocation.Storage ? `${toName} storage` : toName;
     }
 
+    if (t instanceof FunctionType) {
+        return "function";
+    }
+
     if (t instanceof UserDefinedType) {
         return getUserDefinedTypeFQName(t.definition);
     }
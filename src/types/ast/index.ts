@@ -13,8 +13,10 @@ export * from "./mapping_type";
 export * from "./module_type";
 export * from "./packed_array_type";
 export * from "./pointer";
+export * from "./rational_literal";
 export * from "./string";
 export * from "./string_literal";
+export * from "./super_type";
 export * from "./tuple_type";
 export * from "./type";
 export * from "./typename_type";
@@ -19,4 +19,19 @@ export class IntType extends TypeNode {
     getFields(): any[] {
         return [this.nBits, this.signed];
     }
+
+    max(): bigint {
+        return BigInt(2) ** BigInt(this.signed ? this.nBits - 1 : this.nBits) - BigInt(1);
+    }
+
+    min(): bigint {
+        return this.signed ? -(BigInt(2) ** BigInt(this.nBits - 1)) : BigInt(0);
+    }
+
+    /**
+     * Checks if `value` is in range of values of the type
+     */
+    fits(value: bigint): boolean {
+        return value >= this.min() && value <= this.max();
+    }
 }
@@ -0,0 +1,27 @@
+import { Range } from "../../misc";
+import { TypeNode } from "./type";
+
+/**
+ * Type of the constant expression, that evaluates to a non-integer rational number
+ * (e.g. `1 / 2` or `0.5`). The fraction is expected to be reduced,
+ * with the sign kept in the `numerator`.
+ */
+export class RationalLiteralType extends TypeNode {
+    public readonly numerator: bigint;
+    public readonly denominator: bigint;
+
+    constructor(numerator: bigint, denominator: bigint, src?: Range) {
+        super(src);
+
+        this.numerator = numerator;
+        this.denominator = denominator;
+    }
+
+    pp(): string {
+        return `rational_const ${this.numerator.toString()} / ${this.denominator.toString()}`;
+    }
+
+    getFields(): any[] {
+        return [this.numerator, this.denominator];
+    }
+}
@@ -0,0 +1,25 @@
+import { ContractDefinition } from "../../ast";
+import { Range } from "../../misc";
+import { TypeNode } from "./type";
+
+/**
+ * Type of the contract, that is referenced by `super` keyword (as `type(contract super X)`).
+ * Members are looked up in the bases of the `contract` according to its linearization.
+ */
+export class SuperType extends TypeNode {
+    readonly contract: ContractDefinition;
+
+    constructor(contract: ContractDefinition, src?: Range) {
+        super(src);
+
+        this.contract = contract;
+    }
+
+    pp(): string {
+        return `contract super ${this.contract.name}`;
+    }
+
+    getFields(): any[] {
+        return [this.contract.id];
+    }
+}
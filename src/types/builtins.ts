@@ -7,7 +7,8 @@ import {
     FixedBytesType,
     FunctionType,
     IntType,
-    PointerType
+    PointerType,
+    StringType
 } from "./ast";
 import { VersionDependentType } from "./utils";
 
@@ -17,22 +18,158 @@ import { VersionDependentType } from "./utils";
  */
 export const BuiltinSymbols = new Map<string, VersionDependentType>([
     /**
-     * @todo Add support for encode(), decode(), encodePacked(), encodeWithSelector(), encodeWithSignature()
+     * Note that `decode()` returns types, that are specified by its second argument.
+     * Parameters of variadic functions are not listed.
+     *
      * @see https://github.com/ethereum/solidity/releases/tag/v0.4.22
+     * @see https://github.com/ethereum/solidity/releases/tag/v0.5.0
+     * @see https://github.com/ethereum/solidity/releases/tag/v0.8.11
      */
-    ["abi", [new BuiltinStructType("abi", new Map()), ">=0.4.22"]],
+    [
+        "abi",
+        [
+            new BuiltinStructType(
+                "abi",
+                new Map<string, VersionDependentType>([
+                    [
+                        "decode",
+                        [
+                            new FunctionType(
+                                undefined,
+                                [new PointerType(new BytesType(), DataLocation.Memory)],
+                                [],
+                                FunctionVisibility.Default,
+                                FunctionStateMutability.Pure
+                            ),
+                            ">=0.5.0"
+                        ]
+                    ],
+                    [
+                        "encode",
+                        [
+                            new FunctionType(
+                                undefined,
+                                [],
+                                [new PointerType(new BytesType(), DataLocation.Memory)],
+                                FunctionVisibility.Default,
+                                FunctionStateMutability.Pure
+                            ),
+                            ">=0.4.22"
+                        ]
+                    ],
+                    [
+                        "encodePacked",
+                        [
+                            new FunctionType(
+                                undefined,
+                                [],
+                                [new PointerType(new BytesType(), DataLocation.Memory)],
+                                FunctionVisibility.Default,
+                                FunctionStateMutability.Pure
+                            ),
+                            ">=0.4.22"
+                        ]
+                    ],
+                    [
+                        "encodeWithSelector",
+                        [
+                            new FunctionType(
+                                undefined,
+                                [new FixedBytesType(4)],
+                                [new PointerType(new BytesType(), DataLocation.Memory)],
+                                FunctionVisibility.Default,
+                                FunctionStateMutability.Pure
+                            ),
+                            ">=0.4.22"
+                        ]
+                    ],
+                    [
+                        "encodeWithSignature",
+                        [
+                            new FunctionType(
+                                undefined,
+                                [new PointerType(new StringType(), DataLocation.Memory)],
+                                [new PointerType(new BytesType(), DataLocation.Memory)],
+                                FunctionVisibility.Default,
+                                FunctionStateMutability.Pure
+                            ),
+                            ">=0.4.22"
+                        ]
+                    ],
+                    [
+                        "encodeCall",
+                        [
+                            new FunctionType(
+                                undefined,
+                                [],
+                                [new PointerType(new BytesType(), DataLocation.Memory)],
+                                FunctionVisibility.Default,
+                                FunctionStateMutability.Pure
+                            ),
+                            ">=0.8.11"
+                        ]
+                    ]
+                ])
+            ),
+            ">=0.4.22"
+        ]
+    ],
 
     /**
-     * @todo Add support for concat()
      * @see https://github.com/ethereum/solidity/releases/tag/v0.8.4
      */
-    ["bytes", [new BuiltinStructType("bytes", new Map()), ">=0.8.4"]],
+    [
+        "bytes",
+        [
+            new BuiltinStructType(
+                "bytes",
+                new Map<string, VersionDependentType>([
+                    [
+                        "concat",
+                        [
+                            new FunctionType(
+                                undefined,
+                                [],
+                                [new PointerType(new BytesType(), DataLocation.Memory)],
+                                FunctionVisibility.Default,
+                                FunctionStateMutability.Pure
+                            ),
+                            ">=0.8.4"
+                        ]
+                    ]
+                ])
+            ),
+            ">=0.8.4"
+        ]
+    ],
 
     /**
-     * @todo Add support for concat()
      * @see https://github.com/ethereum/solidity/releases/tag/v0.8.12
      */
-    ["string", [new BuiltinStructType("string", new Map()), ">=0.8.12"]],
+    [
+        "string",
+        [
+            new BuiltinStructType(
+                "string",
+                new Map<string, VersionDependentType>([
+                    [
+                        "concat",
+                        [
+                            new FunctionType(
+                                undefined,
+                                [],
+                                [new PointerType(new StringType(), DataLocation.Memory)],
+                                FunctionVisibility.Default,
+                                FunctionStateMutability.Pure
+                            ),
+                            ">=0.8.12"
+                        ]
+                    ]
+                ])
+            ),
+            ">=0.8.12"
+        ]
+    ],
     [
         "block",
         [
@@ -219,9 +356,28 @@ export const BuiltinSymbols = new Map<string, VersionDependentType>([
             ),
             ">=0.4.13"
         ]
-    ]
+    ],
     /**
-     * @todo Add support for revert() and require(). Note their signature changes.
+     * Low-level logging functions `log0()` - `log4()`,
+     * that accept data and the corresponding number of topics.
+     *
+     * @see https://docs.soliditylang.org/en/latest/080-breaking-changes.html
+     */
+    ...[0, 1, 2, 3, 4].map((nTopics): [string, VersionDependentType] => [
+        `log${nTopics}`,
+        [
+            new FunctionType(
+                undefined,
+                Array.from({ length: nTopics + 1 }, () => new FixedBytesType(32)),
+                [],
+                FunctionVisibility.Default,
+                FunctionStateMutability.NonPayable
+            ),
+            "<0.8.0"
+        ]
+    ])
+    /**
+     * Note that revert() and require() are overloaded, so they are handled by `InferType`.
      * @see https://github.com/ethereum/solidity/releases/tag/v0.4.22
      */
 ]);
@@ -241,11 +397,72 @@ export const BuiltinAddressMembers = new Map<string, VersionDependentType>([
             ">=0.4.13"
         ]
     ],
-    ["code", [new PointerType(new BytesType(), DataLocation.Memory), ">=0.8.0"]]
+    ["code", [new PointerType(new BytesType(), DataLocation.Memory), ">=0.8.0"]],
+    ["codehash", [new FixedBytesType(32), ">=0.8.0"]],
+    /**
+     * Prior to Solidity 0.5.0 `call()` and `delegatecall()` were variadic and returned only `bool`.
+     * Inference engine handles them separately.
+     *
+     * @see https://docs.soliditylang.org/en/latest/050-breaking-changes.html
+     */
+    [
+        "call",
+        [
+            new FunctionType(
+                undefined,
+                [new PointerType(new BytesType(), DataLocation.Memory)],
+                [new BoolType(), new PointerType(new BytesType(), DataLocation.Memory)],
+                FunctionVisibility.Default,
+                FunctionStateMutability.Payable
+            ),
+            ">=0.5.0"
+        ]
+    ],
+    [
+        "delegatecall",
+        [
+            new FunctionType(
+                undefined,
+                [new PointerType(new BytesType(), DataLocation.Memory)],
+                [new BoolType(), new PointerType(new BytesType(), DataLocation.Memory)],
+                FunctionVisibility.Default,
+                FunctionStateMutability.NonPayable
+            ),
+            ">=0.5.0"
+        ]
+    ],
+    [
+        "send",
+        [
+            new FunctionType(
+                undefined,
+                [new IntType(256, false)],
+                [new BoolType()],
+                FunctionVisibility.Default,
+                FunctionStateMutability.NonPayable
+            ),
+            ">=0.4.13"
+        ]
+    ],
+    [
+        "transfer",
+        [
+            new FunctionType(
+                undefined,
+                [new IntType(256, false)],
+                [],
+                FunctionVisibility.Default,
+                FunctionStateMutability.NonPayable
+            ),
+            ">=0.4.13"
+        ]
+    ]
 ]);
 
 /**
- * @todo Support type() members: min, max, interfaceId, name, runtimeCode, creationCode
+ * Note that type() members (min, max, interfaceId, name, runtimeCode, creationCode)
+ * depend on the argument of type() and are handled by `InferType`.
+ *
  * @see https://github.com/ethereum/solidity/releases/tag/v0.6.8
  * @see https://github.com/ethereum/solidity/releases/tag/v0.6.7
  * @see https://github.com/ethereum/solidity/releases/tag/v0.5.3
@@ -1,4 +1,5 @@
 export * from "./ast";
 export * from "./builtins";
+export * from "./infer";
 export * from "./typeStrings";
 export * from "./utils";
@@ -0,0 +1,1623 @@
+import { gte, lt } from "semver";
+import {
+    ArrayTypeName,
+    Assignment,
+    ASTNode,
+    BinaryOperation,
+    Conditional,
+    ContractDefinition,
+    ContractKind,
+    DataLocation,
+    ElementaryTypeName,
+    ElementaryTypeNameExpression,
+    EnumDefinition,
+    ErrorDefinition,
+    EventDefinition,
+    Expression,
+    FunctionCall,
+    FunctionCallKind,
+    FunctionCallOptions,
+    FunctionDefinition,
+    FunctionKind,
+    FunctionStateMutability,
+    FunctionVisibility,
+    Identifier,
+    ImportDirective,
+    IndexAccess,
+    IndexRangeAccess,
+    Literal,
+    LiteralKind,
+    MemberAccess,
+    NewExpression,
+    ParameterList,
+    resolveAny,
+    StructDefinition,
+    TupleExpression,
+    UnaryOperation,
+    UserDefinedTypeName,
+    UserDefinedValueTypeDefinition,
+    VariableDeclaration,
+    VariableDeclarationStatement
+} from "../ast";
+import { EtherUnit, TimeUnit } from "../ast/constants";
+import { assert, pp } from "../misc";
+import {
+    AddressType,
+    ArrayType,
+    BoolType,
+    BuiltinStructType,
+    BytesType,
+    FixedBytesType,
+    FunctionType,
+    ImportRefType,
+    IntLiteralType,
+    IntType,
+    MappingType,
+    PackedArrayType,
+    PointerType,
+    RationalLiteralType,
+    StringLiteralType,
+    StringType,
+    SuperType,
+    TupleType,
+    TypeNameType,
+    TypeNode,
+    UserDefinedType
+} from "./ast";
+import { BuiltinAddressMembers, BuiltinSymbols } from "./builtins";
+import {
+    elementaryTypeNameToTypeNode,
+    generalizeType,
+    getTypeForCompilerVersion,
+    getUserDefinedTypeFQName,
+    specializeType,
+    typeNameToTypeNode,
+    VersionDependentType
+} from "./utils";
+
+const unitMultipliers = new Map<string, bigint>([
+    [EtherUnit.Wei, BigInt(1)],
+    [EtherUnit.GWei, BigInt(10) ** BigInt(9)],
+    [EtherUnit.Szabo, BigInt(10) ** BigInt(12)],
+    [EtherUnit.Finney, BigInt(10) ** BigInt(15)],
+    [EtherUnit.Ether, BigInt(10) ** BigInt(18)],
+    [TimeUnit.Seconds, BigInt(1)],
+    [TimeUnit.Minutes, BigInt(60)],
+    [TimeUnit.Hours, BigInt(3600)],
+    [TimeUnit.Days, BigInt(86400)],
+    [TimeUnit.Weeks, BigInt(604800)],
+    [TimeUnit.Years, BigInt(31536000)]
+]);
+
+const comparisonOperators = new Set<string>(["==", "!=", "<", ">", "<=", ">="]);
+const logicalOperators = new Set<string>(["&&", "||"]);
+const shiftOperators = new Set<string>(["<<", ">>", ">>>"]);
+
+const uint256 = new IntType(256, false);
+
+type LiteralType = IntLiteralType | RationalLiteralType;
+
+function abs(value: bigint): bigint {
+    return value < BigInt(0) ? -value : value;
+}
+
+function gcd(a: bigint, b: bigint): bigint {
+    while (b !== BigInt(0)) {
+        [a, b] = [b, a % b];
+    }
+
+    return abs(a);
+}
+
+/**
+ * Returns the type of the constant `numerator / denominator`:
+ * `IntLiteralType` if it is an integer and `RationalLiteralType` otherwise.
+ */
+function makeLiteralType(numerator: bigint, denominator: bigint): LiteralType {
+    assert(denominator !== BigInt(0), "Division by zero in constant expression");
+
+    if (denominator < BigInt(0)) {
+        numerator = -numerator;
+        denominator = -denominator;
+    }
+
+    const divisor = gcd(numerator, denominator);
+
+    numerator /= divisor;
+    denominator /= divisor;
+
+    return denominator === BigInt(1)
+        ? new IntLiteralType(numerator)
+        : new RationalLiteralType(numerator, denominator);
+}
+
+/**
+ * Returns the value of the literal type as a fraction
+ * or `undefined` if the value is unknown.
+ */
+function toFraction(type: LiteralType): [bigint, bigint] | undefined {
+    if (type instanceof RationalLiteralType) {
+        return [type.numerator, type.denominator];
+    }
+
+    return type.literal === undefined ? undefined : [type.literal, BigInt(1)];
+}
+
+function isLiteralType(type: TypeNode): type is LiteralType {
+    return type instanceof IntLiteralType || type instanceof RationalLiteralType;
+}
+
+/**
+ * Computes the value of the number literal (including sub-denomination).
+ * Literals, that do not evaluate to an integer, get `RationalLiteralType`.
+ */
+function evalNumberLiteral(literal: Literal): LiteralType {
+    assert(literal.kind === LiteralKind.Number, "Expected number literal, got {0}", literal);
+
+    const value = literal.value.replace(/_/g, "").trim();
+
+    let numerator: bigint;
+    let denominator = BigInt(1);
+
+    if (/^0x/i.test(value)) {
+        numerator = BigInt(value);
+    } else {
+        const m = value.match(/^([0-9]*)(?:\.([0-9]*))?(?:e(-?[0-9]+))?$/i);
+
+        assert(m !== null, "Unable to parse number literal {0}", literal);
+
+        const intPart = m[1];
+        const fracPart = m[2] === undefined ? "" : m[2];
+        const exp = m[3] === undefined ? 0 : parseInt(m[3]);
+
+        numerator = BigInt((intPart + fracPart).replace(/^0+(?=.)/, "") || "0");
+        denominator = BigInt(10) ** BigInt(fracPart.length);
+
+        if (exp >= 0) {
+            numerator *= BigInt(10) ** BigInt(exp);
+        } else {
+            denominator *= BigInt(10) ** BigInt(-exp);
+        }
+    }
+
+    if (literal.subdenomination !== undefined) {
+        const multiplier = unitMultipliers.get(literal.subdenomination);
+
+        assert(multiplier !== undefined, "Unknown sub-denomination of literal {0}", literal);
+
+        numerator *= multiplier;
+    }
+
+    return makeLiteralType(numerator, denominator);
+}
+
+/**
+ * Returns the smallest integer type, that is able to hold `literal`.
+ */
+function smallestIntType(literal: bigint): IntType | undefined {
+    const signed = literal < BigInt(0);
+
+    for (let nBits = 8; nBits <= 256; nBits += 8) {
+        const type = new IntType(nBits, signed);
+
+        if (type.fits(literal)) {
+            return type;
+        }
+    }
+
+    return undefined;
+}
+
+function isReferenceType(type: TypeNode): boolean {
+    return (
+        type instanceof PackedArrayType ||
+        type instanceof ArrayType ||
+        type instanceof MappingType ||
+        (type instanceof UserDefinedType && type.definition instanceof StructDefinition)
+    );
+}
+
+/**
+ * Type inference engine, that computes `TypeNode`s for expressions
+ * based only on the AST structure (without relying on `typeString`s).
+ *
+ * Typing rules are applied according to the compiler `version`,
+ * in the same way as `VersionDependentType`s are resolved.
+ */
+export class InferType {
+    readonly version: string;
+
+    constructor(version: string) {
+        this.version = version;
+    }
+
+    /**
+     * Computes the type of the expression `expr`.
+     */
+    typeOf(expr: Expression): TypeNode {
+        if (expr instanceof Literal) {
+            return this.typeOfLiteral(expr);
+        }
+
+        if (expr instanceof Identifier) {
+            return this.typeOfIdentifier(expr);
+        }
+
+        if (expr instanceof MemberAccess) {
+            return this.typeOfMemberAccess(expr);
+        }
+
+        if (expr instanceof IndexAccess) {
+            return this.typeOfIndexAccess(expr);
+        }
+
+        if (expr instanceof IndexRangeAccess) {
+            return this.typeOfIndexRangeAccess(expr);
+        }
+
+        if (expr instanceof UnaryOperation) {
+            return this.typeOfUnaryOperation(expr);
+        }
+
+        if (expr instanceof BinaryOperation) {
+            return this.typeOfBinaryOperation(expr);
+        }
+
+        if (expr instanceof Assignment) {
+            return this.typeOfAssignment(expr);
+        }
+
+        if (expr instanceof Conditional) {
+            return this.typeOfConditional(expr);
+        }
+
+        if (expr instanceof TupleExpression) {
+            return this.typeOfTupleExpression(expr);
+        }
+
+        if (expr instanceof FunctionCall) {
+            return this.typeOfFunctionCall(expr);
+        }
+
+        if (expr instanceof FunctionCallOptions) {
+            return this.typeOf(expr.vExpression);
+        }
+
+        if (expr instanceof NewExpression) {
+            return this.typeOfNewExpression(expr);
+        }
+
+        if (expr instanceof ElementaryTypeNameExpression) {
+            return this.typeOfElementaryTypeNameExpression(expr);
+        }
+
+        throw new Error(`NYI type inference of ${pp(expr)}`);
+    }
+
+    typeOfLiteral(node: Literal): TypeNode {
+        if (node.kind === LiteralKind.Bool) {
+            return new BoolType();
+        }
+
+        if (node.kind === LiteralKind.HexString) {
+            return new StringLiteralType(node.hexValue, true);
+        }
+
+        if (node.kind === LiteralKind.String || node.kind === LiteralKind.UnicodeString) {
+            /**
+             * Since 0.7.0 the compiler represents strings with non-printable
+             * (or non-ASCII) characters by their hex-encoded bytes
+             */
+            if (gte(this.version, "0.7.0") && !/^[\x20-\x7e]*$/.test(node.value)) {
+                return new StringLiteralType(node.hexValue, true);
+            }
+
+            return new StringLiteralType(node.value, false);
+        }
+
+        if (/^0x[0-9a-f]{40}$/i.test(node.value) && node.subdenomination === undefined) {
+            /**
+             * Address literals are `address payable` in 0.5.x - 0.7.x
+             */
+            return new AddressType(gte(this.version, "0.5.0") && lt(this.version, "0.8.0"));
+        }
+
+        return evalNumberLiteral(node);
+    }
+
+    typeOfIdentifier(node: Identifier): TypeNode {
+        const def = node.vReferencedDeclaration;
+
+        if (def === undefined) {
+            return this.typeOfUnresolvedIdentifier(node);
+        }
+
+        if (def instanceof FunctionDefinition) {
+            return this.funDefToType(
+                def,
+                def.visibility === FunctionVisibility.External
+                    ? FunctionVisibility.External
+                    : FunctionVisibility.Internal
+            );
+        }
+
+        return this.typeOfDeclaration(def);
+    }
+
+    /**
+     * Computes the type of an identifier, that has no referenced declaration:
+     * it is either a builtin, or it was constructed without resolved reference.
+     * In the latter case the name is resolved in scope of the identifier.
+     */
+    private typeOfUnresolvedIdentifier(node: Identifier): TypeNode {
+        const builtinT = this.typeOfBuiltinIdentifier(node);
+
+        if (builtinT !== undefined) {
+            return builtinT;
+        }
+
+        const defs = [...resolveAny(node.name, node, this.version)];
+
+        if (defs.length === 0) {
+            throw new Error(`Unable to resolve identifier ${node.name}`);
+        }
+
+        if (defs.length === 1) {
+            return this.typeOfDeclaration(defs[0]);
+        }
+
+        const call = node.parent;
+
+        assert(
+            call instanceof FunctionCall && call.vExpression === node,
+            "Unable to pick overload for {0}: it is not a callee",
+            node
+        );
+
+        const types = defs.map((def) =>
+            def instanceof FunctionDefinition
+                ? this.funDefToType(def, FunctionVisibility.Internal)
+                : this.typeOfDeclaration(def)
+        );
+
+        return this.resolveOverload(types, call.vArguments);
+    }
+
+    private typeOfBuiltinIdentifier(node: Identifier): TypeNode | undefined {
+        const name = node.name;
+
+        if (name === "this") {
+            const contract = node.getClosestParentByType(ContractDefinition);
+
+            assert(contract !== undefined, "Unexpected `this` outside of contract", node);
+
+            return new UserDefinedType(getUserDefinedTypeFQName(contract), contract);
+        }
+
+        if (name === "super") {
+            const contract = node.getClosestParentByType(ContractDefinition);
+
+            assert(contract !== undefined, "Unexpected `super` outside of contract", node);
+
+            /**
+             * `super` is typed as a type of the contract since 0.8.0
+             */
+            return lt(this.version, "0.8.0")
+                ? new SuperType(contract)
+                : new TypeNameType(new SuperType(contract));
+        }
+
+        if (name === "now" && lt(this.version, "0.7.0")) {
+            return uint256;
+        }
+
+        const call = node.parent instanceof FunctionCall ? node.parent : undefined;
+        const nArgs = call !== undefined && call.vExpression === node ? call.vArguments.length : 0;
+
+        const stringT = new PointerType(new StringType(), DataLocation.Memory);
+
+        /**
+         * Note that the result of `type()` depends on its argument
+         * and is computed in `typeOfFunctionCall()`.
+         */
+        if (name === "type") {
+            return this.makeBuiltinFunType([], [], FunctionStateMutability.Pure);
+        }
+
+        if (name === "assert") {
+            return this.makeBuiltinFunType([new BoolType()], [], FunctionStateMutability.Pure);
+        }
+
+        if (name === "require") {
+            return this.makeBuiltinFunType(
+                nArgs > 1 ? [new BoolType(), stringT] : [new BoolType()],
+                [],
+                FunctionStateMutability.Pure
+            );
+        }
+
+        if (name === "revert") {
+            return this.makeBuiltinFunType(
+                nArgs > 0 ? [stringT] : [],
+                [],
+                FunctionStateMutability.Pure
+            );
+        }
+
+        if (name === "selfdestruct" || (name === "suicide" && lt(this.version, "0.5.0"))) {
+            return this.makeBuiltinFunType(
+                [new AddressType(gte(this.version, "0.5.0"))],
+                [],
+                FunctionStateMutability.NonPayable
+            );
+        }
+
+        /**
+         * Hash functions accept any number of arguments of any types before Solidity 0.5.0
+         */
+        if (
+            lt(this.version, "0.5.0") &&
+            (name === "keccak256" || name === "sha3" || name === "sha256" || name === "ripemd160")
+        ) {
+            return this.makeBuiltinFunType(
+                [],
+                [new FixedBytesType(name === "ripemd160" ? 20 : 32)],
+                FunctionStateMutability.Pure
+            );
+        }
+
+        return this.lookupBuiltin(BuiltinSymbols, name);
+    }
+
+    /**
+     * Computes the type of the expression, that references declaration `def`.
+     * Note that functions are typed as internal functions.
+     */
+    typeOfDeclaration(def: ASTNode): TypeNode {
+        if (def instanceof VariableDeclaration) {
+            return this.variableDeclarationToTypeNode(def);
+        }
+
+        if (def instanceof FunctionDefinition) {
+            return this.funDefToType(def, FunctionVisibility.Internal);
+        }
+
+        if (def instanceof EventDefinition || def instanceof ErrorDefinition) {
+            return this.eventOrErrorToType(def);
+        }
+
+        if (
+            def instanceof ContractDefinition ||
+            def instanceof EnumDefinition ||
+            def instanceof UserDefinedValueTypeDefinition
+        ) {
+            return new TypeNameType(new UserDefinedType(getUserDefinedTypeFQName(def), def));
+        }
+
+        if (def instanceof StructDefinition) {
+            return new TypeNameType(
+                new PointerType(
+                    new UserDefinedType(getUserDefinedTypeFQName(def), def),
+                    DataLocation.Storage,
+                    "pointer"
+                )
+            );
+        }
+
+        if (def instanceof ImportDirective) {
+            return new ImportRefType(def);
+        }
+
+        throw new Error(`NYI typing of reference to ${pp(def)}`);
+    }
+
+    typeOfMemberAccess(node: MemberAccess): TypeNode {
+        const baseExpr = node.vExpression;
+        const baseT = this.typeOf(baseExpr);
+        const member = node.memberName;
+        const def = node.vReferencedDeclaration;
+
+        if (baseT instanceof ImportRefType) {
+            assert(def !== undefined, "Unable to type unresolved import member {0}", node);
+
+            return this.typeOfDeclaration(def);
+        }
+
+        if (baseT instanceof BuiltinStructType) {
+            return this.typeOfBuiltinStructMember(node, baseT);
+        }
+
+        /**
+         * `super.member` references functions of the bases, that are called internally
+         */
+        if (
+            baseT instanceof SuperType ||
+            (baseT instanceof TypeNameType && baseT.type instanceof SuperType)
+        ) {
+            assert(
+                def instanceof FunctionDefinition,
+                "Unable to type unresolved super member {0}",
+                node
+            );
+
+            return this.funDefToType(def, FunctionVisibility.Internal);
+        }
+
+        if (baseT instanceof TypeNameType) {
+            return this.typeOfStaticMember(node, baseT);
+        }
+
+        /**
+         * Functions, attached via `using for` directive.
+         * These are resolved before struct fields and builtin members,
+         * as lookups of the latter fail for the attached function names.
+         */
+        if (def instanceof FunctionDefinition && this.isAttachableFunction(def)) {
+            return this.funDefToType(def, FunctionVisibility.Internal);
+        }
+
+        if (baseT instanceof PointerType) {
+            const to = baseT.to;
+
+            if (to instanceof UserDefinedType && to.definition instanceof StructDefinition) {
+                const field = to.definition.vMembers.find((field) => field.name === member);
+
+                assert(field !== undefined, "Unknown struct field {0}", node);
+                assert(field.vType !== undefined, "Expected struct field {0} to have type", field);
+
+                return specializeType(typeNameToTypeNode(field.vType), baseT.location);
+            }
+
+            if (to instanceof ArrayType || to instanceof BytesType || to instanceof StringType) {
+                return this.typeOfArrayMember(node, baseT);
+            }
+        }
+
+        if (baseT instanceof UserDefinedType && baseT.definition instanceof ContractDefinition) {
+            if (def instanceof FunctionDefinition) {
+                return this.funDefToType(def, FunctionVisibility.External);
+            }
+
+            if (def instanceof VariableDeclaration) {
+                return def.getterFunType();
+            }
+
+            /**
+             * Contracts inherit members of address before 0.5.0
+             */
+            if (lt(this.version, "0.5.0")) {
+                return this.typeOfAddressMember(node, new AddressType(false));
+            }
+        }
+
+        if (baseT instanceof AddressType) {
+            return this.typeOfAddressMember(node, baseT);
+        }
+
+        if (baseT instanceof FixedBytesType && member === "length") {
+            return new IntType(8, false);
+        }
+
+        if (baseT instanceof FunctionType) {
+            if (member === "selector") {
+                return new FixedBytesType(4);
+            }
+
+            if (member === "address") {
+                return new AddressType(false);
+            }
+
+            if (member === "value" || member === "gas") {
+                return this.makeBuiltinFunType(
+                    [uint256],
+                    [baseT],
+                    FunctionStateMutability.NonPayable
+                );
+            }
+        }
+
+        throw new Error(`NYI typing of member ${member} of ${baseT.pp()}`);
+    }
+
+    /**
+     * Checks if `def` could be attached to a type via `using for` directive,
+     * that is it is a library function or a free function.
+     */
+    private isAttachableFunction(def: FunctionDefinition): boolean {
+        const scope = def.vScope;
+
+        return !(scope instanceof ContractDefinition) || scope.kind === ContractKind.Library;
+    }
+
+    private typeOfBuiltinStructMember(node: MemberAccess, baseT: BuiltinStructType): TypeNode {
+        const member = node.memberName;
+
+        /**
+         * `msg.sender` and `tx.origin` are no longer payable since 0.8.0
+         */
+        if (
+            ((baseT.name === "msg" && member === "sender") ||
+                (baseT.name === "tx" && member === "origin")) &&
+            gte(this.version, "0.8.0")
+        ) {
+            return new AddressType(false);
+        }
+
+        if (baseT.name === "abi" && member === "decode") {
+            const call = node.parent;
+
+            assert(
+                call instanceof FunctionCall && call.vExpression === node,
+                "Unexpected abi.decode outside of a call",
+                node
+            );
+
+            return this.makeBuiltinFunType(
+                [new PointerType(new BytesType(), DataLocation.Memory)],
+                this.typesOfDecodeArgument(call),
+                FunctionStateMutability.Pure
+            );
+        }
+
+        const type = this.lookupBuiltin(baseT.members, member);
+
+        assert(type !== undefined, "Unknown builtin member {0}", node);
+
+        return type;
+    }
+
+    private typeOfStaticMember(node: MemberAccess, baseT: TypeNameType): TypeNode {
+        const member = node.memberName;
+        const def = node.vReferencedDeclaration;
+        const baseExpr = node.vExpression;
+
+        /**
+         * `type(X).member`
+         */
+        if (
+            baseExpr instanceof FunctionCall &&
+            baseExpr.vExpression instanceof Identifier &&
+            baseExpr.vExpression.name === "type"
+        ) {
+            if (member === "name") {
+                return new PointerType(new StringType(), DataLocation.Memory);
+            }
+
+            if (member === "creationCode" || member === "runtimeCode") {
+                return new PointerType(new BytesType(), DataLocation.Memory);
+            }
+
+            if (member === "interfaceId") {
+                return new FixedBytesType(4);
+            }
+
+            if (member === "min" || member === "max") {
+                return baseT.type;
+            }
+
+            throw new Error(`Unknown meta type member ${member}`);
+        }
+
+        const innerT = baseT.type;
+
+        /**
+         * `bytes.concat()` and `string.concat()`
+         */
+        if (
+            innerT instanceof PointerType &&
+            (innerT.to instanceof BytesType || innerT.to instanceof StringType)
+        ) {
+            const builtinT = this.lookupBuiltin(BuiltinSymbols, innerT.to.pp());
+
+            if (builtinT instanceof BuiltinStructType) {
+                const memberT = this.lookupBuiltin(builtinT.members, member);
+
+                if (memberT !== undefined) {
+                    return memberT;
+                }
+            }
+        }
+
+        if (innerT instanceof UserDefinedType) {
+            const typeDef = innerT.definition;
+
+            if (typeDef instanceof EnumDefinition) {
+                return innerT;
+            }
+
+            if (typeDef instanceof UserDefinedValueTypeDefinition) {
+                const underlyingT = typeNameToTypeNode(typeDef.underlyingType);
+
+                if (member === "wrap") {
+                    return this.makeBuiltinFunType(
+                        [underlyingT],
+                        [innerT],
+                        FunctionStateMutability.Pure
+                    );
+                }
+
+                if (member === "unwrap") {
+                    return this.makeBuiltinFunType(
+                        [innerT],
+                        [underlyingT],
+                        FunctionStateMutability.Pure
+                    );
+                }
+            }
+
+            if (typeDef instanceof ContractDefinition) {
+                assert(def !== undefined, "Unable to type unresolved member {0}", node);
+
+                return this.typeOfDeclaration(def);
+            }
+        }
+
+        throw new Error(`NYI typing of member ${member} of ${baseT.pp()}`);
+    }
+
+    private typeOfArrayMember(node: MemberAccess, baseT: PointerType): TypeNode {
+        const member = node.memberName;
+
+        if (member === "length") {
+            return uint256;
+        }
+
+        const to = baseT.to;
+        const elementT = to instanceof ArrayType ? to.elementT : new FixedBytesType(1);
+
+        if (member === "push") {
+            if (lt(this.version, "0.6.0")) {
+                return this.makeBuiltinFunType(
+                    [elementT],
+                    [uint256],
+                    FunctionStateMutability.NonPayable
+                );
+            }
+
+            const call = node.parent;
+            const nArgs =
+                call instanceof FunctionCall && call.vExpression === node
+                    ? call.vArguments.length
+                    : 0;
+
+            /**
+             * Array is the bound first argument of `push()` and `pop()` since Solidity 0.8.2
+             */
+            const selfTs = gte(this.version, "0.8.2")
+                ? [new PointerType(to, baseT.location, "pointer")]
+                : [];
+
+            return nArgs === 0
+                ? this.makeBuiltinFunType(selfTs, [elementT], FunctionStateMutability.NonPayable)
+                : this.makeBuiltinFunType(
+                      [...selfTs, elementT],
+                      [],
+                      FunctionStateMutability.NonPayable
+                  );
+        }
+
+        if (member === "pop") {
+            return this.makeBuiltinFunType(
+                gte(this.version, "0.8.2") ? [new PointerType(to, baseT.location, "pointer")] : [],
+                [],
+                FunctionStateMutability.NonPayable
+            );
+        }
+
+        throw new Error(`Unknown array member ${member}`);
+    }
+
+    private typeOfAddressMember(node: MemberAccess, baseT: AddressType): TypeNode {
+        const member = node.memberName;
+
+        if (
+            lt(this.version, "0.5.0") &&
+            (member === "call" || member === "delegatecall" || member === "callcode")
+        ) {
+            return this.makeBuiltinFunType(
+                [],
+                [new BoolType()],
+                member === "call"
+                    ? FunctionStateMutability.Payable
+                    : FunctionStateMutability.NonPayable
+            );
+        }
+
+        const type = this.lookupBuiltin(BuiltinAddressMembers, member);
+
+        assert(type !== undefined, "Unknown address member {0} of {1}", node, baseT.pp());
+
+        return type;
+    }
+
+    typeOfIndexAccess(node: IndexAccess): TypeNode {
+        const baseT = this.typeOf(node.vBaseExpression);
+
+        if (baseT instanceof TypeNameType) {
+            const [innerT] = generalizeType(baseT.type);
+
+            let size: bigint | undefined;
+
+            if (node.vIndexExpression !== undefined) {
+                const sizeT = this.typeOf(node.vIndexExpression);
+
+                assert(
+                    sizeT instanceof IntLiteralType && sizeT.literal !== undefined,
+                    "NYI non-literal array type sizes",
+                    node
+                );
+
+                size = sizeT.literal;
+            }
+
+            return new TypeNameType(
+                specializeType(new ArrayType(innerT, size), DataLocation.Memory)
+            );
+        }
+
+        if (baseT instanceof PointerType) {
+            const to = baseT.to;
+
+            if (to instanceof ArrayType) {
+                return to.elementT;
+            }
+
+            if (to instanceof BytesType) {
+                return new FixedBytesType(1);
+            }
+
+            if (to instanceof MappingType) {
+                return to.valueType;
+            }
+        }
+
+        if (baseT instanceof FixedBytesType) {
+            return new FixedBytesType(1);
+        }
+
+        throw new Error(`NYI typing of index access on ${baseT.pp()}`);
+    }
+
+    typeOfIndexRangeAccess(node: IndexRangeAccess): TypeNode {
+        const baseT = this.typeOf(node.vBaseExpression);
+
+        assert(baseT instanceof PointerType, "Unexpected index range access on {0}", baseT.pp());
+
+        return new PointerType(baseT.to, baseT.location, "slice");
+    }
+
+    typeOfUnaryOperation(node: UnaryOperation): TypeNode {
+        if (node.operator === "!") {
+            return new BoolType();
+        }
+
+        if (node.operator === "delete") {
+            return new TupleType([]);
+        }
+
+        const subT = this.typeOf(node.vSubExpression);
+
+        if (subT instanceof RationalLiteralType && node.operator === "-") {
+            return new RationalLiteralType(-subT.numerator, subT.denominator);
+        }
+
+        if (subT instanceof IntLiteralType && subT.literal !== undefined) {
+            if (node.operator === "-") {
+                return new IntLiteralType(-subT.literal);
+            }
+
+            if (node.operator === "~") {
+                return new IntLiteralType(-subT.literal - BigInt(1));
+            }
+        }
+
+        return subT;
+    }
+
+    typeOfBinaryOperation(node: BinaryOperation): TypeNode {
+        const operator = node.operator;
+
+        if (comparisonOperators.has(operator) || logicalOperators.has(operator)) {
+            return new BoolType();
+        }
+
+        const leftT = this.typeOf(node.vLeftExpression);
+        const rightT = this.typeOf(node.vRightExpression);
+
+        if (leftT instanceof RationalLiteralType || rightT instanceof RationalLiteralType) {
+            assert(
+                isLiteralType(leftT) && isLiteralType(rightT),
+                "Unexpected operation {0} on rational constant",
+                node
+            );
+
+            return this.foldRationalLiteral(operator, leftT, rightT);
+        }
+
+        if (leftT instanceof IntLiteralType && rightT instanceof IntLiteralType) {
+            const result = this.foldBinaryLiteral(operator, leftT, rightT);
+
+            if (result !== undefined) {
+                return result;
+            }
+        }
+
+        if (shiftOperators.has(operator) || operator === "**") {
+            if (leftT instanceof IntLiteralType) {
+                if (gte(this.version, "0.7.0")) {
+                    return new IntType(
+                        256,
+                        leftT.literal !== undefined && leftT.literal < BigInt(0)
+                    );
+                }
+
+                return this.mobileType(leftT);
+            }
+
+            return leftT;
+        }
+
+        const commonT = this.commonType(leftT, rightT);
+
+        assert(
+            commonT !== undefined,
+            "Unable to find common type for {0} and {1} in {2}",
+            leftT.pp(),
+            rightT.pp(),
+            node
+        );
+
+        return commonT;
+    }
+
+    private foldBinaryLiteral(
+        operator: string,
+        leftT: IntLiteralType,
+        rightT: IntLiteralType
+    ): LiteralType | undefined {
+        const a = leftT.literal;
+        const b = rightT.literal;
+
+        if (a === undefined || b === undefined) {
+            return undefined;
+        }
+
+        const zero = BigInt(0);
+
+        switch (operator) {
+            case "+":
+                return new IntLiteralType(a + b);
+            case "-":
+                return new IntLiteralType(a - b);
+            case "*":
+                return new IntLiteralType(a * b);
+            case "/":
+                return makeLiteralType(a, b);
+            case "%":
+                assert(b !== zero, "Modulo by zero");
+
+                return new IntLiteralType(a % b);
+            case "**":
+                return b < zero ? makeLiteralType(BigInt(1), a ** -b) : new IntLiteralType(a ** b);
+            case "<<":
+                return new IntLiteralType(a * BigInt(2) ** b);
+            case ">>": {
+                const d = BigInt(2) ** b;
+                const q = a / d;
+
+                /**
+                 * Shifting right rounds towards negative infinity
+                 */
+                return new IntLiteralType(a < zero && q * d !== a ? q - BigInt(1) : q);
+            }
+            case "&":
+                return new IntLiteralType(a & b);
+            case "|":
+                return new IntLiteralType(a | b);
+            case "^":
+                return new IntLiteralType(a ^ b);
+            default:
+                return undefined;
+        }
+    }
+
+    /**
+     * Folds the arithmetic operation on constants, when any of them is a rational number.
+     * The result is an integer constant, if the fraction is reduced to one (e.g. `1 / 2 * 4`).
+     */
+    private foldRationalLiteral(
+        operator: string,
+        leftT: LiteralType,
+        rightT: LiteralType
+    ): LiteralType {
+        const left = toFraction(leftT);
+        const right = toFraction(rightT);
+
+        assert(
+            left !== undefined && right !== undefined,
+            "Unable to fold {0} {1} {2}",
+            leftT.pp(),
+            operator,
+            rightT.pp()
+        );
+
+        const [an, ad] = left;
+        const [bn, bd] = right;
+
+        switch (operator) {
+            case "+":
+                return makeLiteralType(an * bd + bn * ad, ad * bd);
+            case "-":
+                return makeLiteralType(an * bd - bn * ad, ad * bd);
+            case "*":
+                return makeLiteralType(an * bn, ad * bd);
+            case "/":
+                return makeLiteralType(an * bd, ad * bn);
+            case "%": {
+                assert(bn !== BigInt(0), "Modulo by zero");
+
+                /**
+                 * Remainder has the sign of the dividend, as the quotient is truncated
+                 */
+                const quotient = (an * bd) / (ad * bn);
+
+                return makeLiteralType(an * bd - quotient * bn * ad, ad * bd);
+            }
+            case "**": {
+                assert(bd === BigInt(1), "Unexpected rational exponent {0}", rightT.pp());
+
+                return bn < BigInt(0)
+                    ? makeLiteralType(ad ** -bn, an ** -bn)
+                    : makeLiteralType(an ** bn, ad ** bn);
+            }
+            default:
+                throw new Error(
+                    `Operator ${operator} is not applicable to rational constants ${leftT.pp()} and ${rightT.pp()}`
+                );
+        }
+    }
+
+    typeOfAssignment(node: Assignment): TypeNode {
+        if (node.vLeftHandSide instanceof TupleExpression) {
+            return new TupleType([]);
+        }
+
+        return this.typeOf(node.vLeftHandSide);
+    }
+
+    typeOfConditional(node: Conditional): TypeNode {
+        const trueT = this.mobileType(this.typeOf(node.vTrueExpression));
+        const falseT = this.mobileType(this.typeOf(node.vFalseExpression));
+
+        const commonT = this.commonType(trueT, falseT);
+
+        assert(
+            commonT !== undefined,
+            "Unable to find common type for {0} and {1} in {2}",
+            trueT.pp(),
+            falseT.pp(),
+            node
+        );
+
+        return commonT;
+    }
+
+    typeOfTupleExpression(node: TupleExpression): TypeNode {
+        if (node.isInlineArray) {
+            assert(node.vComponents.length > 0, "Unexpected empty inline array {0}", node);
+
+            let elementT: TypeNode | undefined;
+
+            for (const component of node.vComponents) {
+                const componentT = this.mobileType(this.typeOf(component));
+
+                elementT =
+                    elementT === undefined ? componentT : this.commonType(elementT, componentT);
+
+                assert(elementT !== undefined, "Unable to type inline array {0}", node);
+            }
+
+            const [generalT] = generalizeType(elementT as TypeNode);
+
+            return specializeType(
+                new ArrayType(generalT, BigInt(node.vComponents.length)),
+                DataLocation.Memory
+            );
+        }
+
+        const components = node.vOriginalComponents;
+
+        if (components.length === 1 && components[0] !== null) {
+            return this.typeOf(components[0]);
+        }
+
+        return new TupleType(
+            components.map((component) => {
+                if (component === null) {
+                    throw new Error(`NYI typing of tuples with empty components ${pp(node)}`);
+                }
+
+                return this.typeOf(component);
+            })
+        );
+    }
+
+    typeOfFunctionCall(node: FunctionCall): TypeNode {
+        if (node.kind === FunctionCallKind.TypeConversion) {
+            return this.typeOfTypeConversion(node);
+        }
+
+        if (node.vExpression instanceof Identifier && node.vExpression.name === "type") {
+            assert(node.vArguments.length === 1, "Expected single argument of {0}", node);
+
+            return this.typeOf(node.vArguments[0]);
+        }
+
+        const calleeT = this.typeOf(node.vExpression);
+
+        if (node.kind === FunctionCallKind.StructConstructorCall) {
+            assert(
+                calleeT instanceof TypeNameType && calleeT.type instanceof PointerType,
+                "Unexpected callee type {0} in struct constructor call",
+                calleeT.pp()
+            );
+
+            return new PointerType(calleeT.type.to, DataLocation.Memory);
+        }
+
+        assert(
+            calleeT instanceof FunctionType,
+            "Unexpected callee type {0} in {1}",
+            calleeT.pp(),
+            node
+        );
+
+        const rets = calleeT.returns;
+
+        return rets.length === 1 ? rets[0] : new TupleType(rets);
+    }
+
+    private typeOfTypeConversion(node: FunctionCall): TypeNode {
+        const calleeT = this.typeOf(node.vExpression);
+
+        assert(
+            calleeT instanceof TypeNameType,
+            "Unexpected callee type {0} in type conversion",
+            calleeT.pp()
+        );
+
+        assert(node.vArguments.length === 1, "Expected single argument of {0}", node);
+
+        const targetT = calleeT.type;
+        const argT = this.typeOf(node.vArguments[0]);
+
+        if (targetT instanceof PointerType) {
+            const location = argT instanceof PointerType ? argT.location : DataLocation.Memory;
+
+            return new PointerType(targetT.to, location);
+        }
+
+        if (targetT instanceof AddressType && !targetT.payable) {
+            return new AddressType(this.isPayableAddressConversion(argT));
+        }
+
+        return targetT;
+    }
+
+    /**
+     * Checks if `address(x)` conversion results in `address payable` type,
+     * according to the rules of 0.5.x - 0.7.x compilers.
+     */
+    private isPayableAddressConversion(argT: TypeNode): boolean {
+        if (lt(this.version, "0.5.0") || gte(this.version, "0.8.0")) {
+            return false;
+        }
+
+        if (
+            argT instanceof IntType ||
+            argT instanceof IntLiteralType ||
+            argT instanceof FixedBytesType
+        ) {
+            return true;
+        }
+
+        if (argT instanceof AddressType) {
+            return argT.payable;
+        }
+
+        if (argT instanceof UserDefinedType && argT.definition instanceof ContractDefinition) {
+            for (const base of argT.definition.vLinearizedBaseContracts) {
+                for (const fn of base.vFunctions) {
+                    if (
+                        (fn.kind === FunctionKind.Receive || fn.kind === FunctionKind.Fallback) &&
+                        fn.stateMutability === FunctionStateMutability.Payable
+                    ) {
+                        return true;
+                    }
+                }
+            }
+        }
+
+        return false;
+    }
+
+    private typesOfDecodeArgument(call: FunctionCall): TypeNode[] {
+        assert(call.vArguments.length === 2, "Expected two arguments of {0}", call);
+
+        const typesT = this.typeOf(call.vArguments[1]);
+        const elements = typesT instanceof TupleType ? typesT.elements : [typesT];
+
+        return elements.map((elementT) => {
+            assert(
+                elementT instanceof TypeNameType,
+                "Unexpected type {0} in abi.decode()",
+                elementT.pp()
+            );
+
+            const [generalT] = generalizeType(elementT.type);
+
+            return specializeType(generalT, DataLocation.Memory);
+        });
+    }
+
+    typeOfNewExpression(node: NewExpression): TypeNode {
+        const typeName = node.vTypeName;
+
+        if (typeName instanceof UserDefinedTypeName) {
+            const def = typeName.vReferencedDeclaration;
+
+            assert(
+                def instanceof ContractDefinition,
+                "Unexpected new expression with type {0}",
+                typeName
+            );
+
+            const constructor = def.vConstructor;
+            const params = constructor === undefined ? [] : this.paramsToTypes(constructor);
+
+            const mutability =
+                constructor !== undefined &&
+                constructor.stateMutability === FunctionStateMutability.Payable
+                    ? FunctionStateMutability.Payable
+                    : FunctionStateMutability.NonPayable;
+
+            return new FunctionType(
+                undefined,
+                params,
+                [new UserDefinedType(getUserDefinedTypeFQName(def), def)],
+                FunctionVisibility.Internal,
+                mutability
+            );
+        }
+
+        assert(
+            typeName instanceof ArrayTypeName ||
+                (typeName instanceof ElementaryTypeName &&
+                    (typeName.name === "bytes" || typeName.name === "string")),
+            "Unexpected new expression with type {0}",
+            typeName
+        );
+
+        return this.makeBuiltinFunType(
+            [uint256],
+            [specializeType(typeNameToTypeNode(typeName), DataLocation.Memory)],
+            FunctionStateMutability.Pure
+        );
+    }
+
+    typeOfElementaryTypeNameExpression(node: ElementaryTypeNameExpression): TypeNode {
+        const type =
+            node.typeName instanceof ElementaryTypeName
+                ? elementaryTypeNameToTypeNode(node.typeName.name, node.typeName.stateMutability)
+                : elementaryTypeNameToTypeNode(node.typeName);
+
+        return new TypeNameType(
+            isReferenceType(type) ? new PointerType(type, DataLocation.Storage, "pointer") : type
+        );
+    }
+
+    /**
+     * Picks the function type from `candidates`, that accepts `args`.
+     * Throws if there is no such candidate, or if there are multiple ones.
+     */
+    resolveOverload(candidates: TypeNode[], args: Expression[]): TypeNode {
+        const argTs = args.map((arg) => this.typeOf(arg));
+
+        const matches = candidates.filter(
+            (candidate) =>
+                candidate instanceof FunctionType &&
+                candidate.parameters.length === argTs.length &&
+                candidate.parameters.every((paramT, i) =>
+                    this.isImplicitlyCastable(argTs[i], paramT)
+                )
+        );
+
+        assert(
+            matches.length === 1,
+            "Expected single overload to match arguments ({0}), got {1}",
+            argTs.map((argT) => argT.pp()).join(","),
+            matches.length
+        );
+
+        return matches[0];
+    }
+
+    /**
+     * Checks if a value of type `fromT` is implicitly convertible to type `toT`.
+     *
+     * This check is conservative and does not cover all the compiler rules.
+     */
+    isImplicitlyCastable(fromT: TypeNode, toT: TypeNode): boolean {
+        if (fromT.pp() === toT.pp()) {
+            return true;
+        }
+
+        if (fromT instanceof IntLiteralType) {
+            if (toT instanceof IntType) {
+                return fromT.literal === undefined || toT.fits(fromT.literal);
+            }
+
+            if (toT instanceof FixedBytesType) {
+                return fromT.literal === BigInt(0);
+            }
+
+            return false;
+        }
+
+        if (fromT instanceof IntType && toT instanceof IntType) {
+            if (fromT.signed === toT.signed) {
+                return fromT.nBits <= toT.nBits;
+            }
+
+            return !fromT.signed && toT.signed && fromT.nBits < toT.nBits;
+        }
+
+        if (fromT instanceof FixedBytesType && toT instanceof FixedBytesType) {
+            return fromT.size <= toT.size;
+        }
+
+        if (fromT instanceof AddressType && toT instanceof AddressType) {
+            return fromT.payable || !toT.payable;
+        }
+
+        if (fromT instanceof StringLiteralType) {
+            if (toT instanceof PointerType) {
+                return toT.to instanceof StringType || toT.to instanceof BytesType;
+            }
+
+            if (toT instanceof FixedBytesType) {
+                return !fromT.isHex
+                    ? Buffer.from(fromT.literal, "utf-8").length <= toT.size
+                    : fromT.literal.length / 2 <= toT.size;
+            }
+
+            return false;
+        }
+
+        if (fromT instanceof PointerType && toT instanceof PointerType) {
+            return (
+                this.isImplicitlyCastable(fromT.to, toT.to) &&
+                (fromT.location === toT.location || toT.location !== DataLocation.Storage)
+            );
+        }
+
+        if (fromT instanceof UserDefinedType && toT instanceof UserDefinedType) {
+            const fromDef = fromT.definition;
+            const toDef = toT.definition;
+
+            if (fromDef instanceof ContractDefinition && toDef instanceof ContractDefinition) {
+                return fromDef.isSubclassOf(toDef);
+            }
+
+            return fromDef === toDef;
+        }
+
+        if (fromT instanceof UserDefinedType && toT instanceof AddressType) {
+            return fromT.definition instanceof ContractDefinition && lt(this.version, "0.5.0");
+        }
+
+        return false;
+    }
+
+    /**
+     * Computes the type, that both `a` and `b` are implicitly convertible to,
+     * similarly to the rules of the compiler for binary operators.
+     */
+    commonType(a: TypeNode, b: TypeNode): TypeNode | undefined {
+        if (a instanceof IntLiteralType && b instanceof IntLiteralType) {
+            const mobileA = this.mobileType(a);
+            const mobileB = this.mobileType(b);
+
+            return this.commonType(mobileA, mobileB);
+        }
+
+        if (this.isImplicitlyCastable(a, b)) {
+            return b;
+        }
+
+        if (this.isImplicitlyCastable(b, a)) {
+            return a;
+        }
+
+        if (a instanceof IntType && b instanceof IntLiteralType) {
+            return a;
+        }
+
+        if (b instanceof IntType && a instanceof IntLiteralType) {
+            return b;
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Computes the type, that a value of type `type` would have when stored in a variable.
+     * Literals get the smallest type that is able to hold them
+     * and string literals are converted to `string memory`.
+     * Rational constants would get fixed point types, that are not supported yet.
+     */
+    mobileType(type: TypeNode): TypeNode {
+        if (type instanceof IntLiteralType) {
+            if (type.literal === undefined) {
+                return uint256;
+            }
+
+            const result = smallestIntType(type.literal);
+
+            assert(result !== undefined, "Literal {0} does not fit into integer type", type.pp());
+
+            return result;
+        }
+
+        if (type instanceof StringLiteralType) {
+            return new PointerType(new StringType(), DataLocation.Memory);
+        }
+
+        if (type instanceof RationalLiteralType) {
+            throw new Error(`NYI fixed point mobile type of ${type.pp()}`);
+        }
+
+        return type;
+    }
+
+    /**
+     * Computes the type of the variable declared with `decl`.
+     * Unlike `variableDeclarationToTypeNode()` in `types/utils`,
+     * this also handles implicit data locations and `var` declarations of Solidity 0.4.x.
+     */
+    variableDeclarationToTypeNode(decl: VariableDeclaration): TypeNode {
+        if (decl.vType === undefined) {
+            return this.typeOfVarDeclaration(decl);
+        }
+
+        const type = typeNameToTypeNode(decl.vType);
+
+        return specializeType(type, this.getDeclarationLocation(decl, type));
+    }
+
+    private typeOfVarDeclaration(decl: VariableDeclaration): TypeNode {
+        const stmt = decl.parent;
+
+        assert(
+            stmt instanceof VariableDeclarationStatement && stmt.vInitialValue !== undefined,
+            "Unable to infer type of untyped variable declaration {0}",
+            decl
+        );
+
+        const initialT = this.typeOf(stmt.vInitialValue);
+
+        if (stmt.assignments.length > 1 || initialT instanceof TupleType) {
+            assert(initialT instanceof TupleType, "Expected tuple type of {0}", stmt.vInitialValue);
+
+            const idx = stmt.assignments.indexOf(decl.id);
+
+            return this.mobileType(initialT.elements[idx]);
+        }
+
+        return this.mobileType(initialT);
+    }
+
+    /**
+     * Returns the data location of the variable declaration,
+     * considering the defaults of the compiler, when location is not specified explicitly.
+     */
+    private getDeclarationLocation(decl: VariableDeclaration, type: TypeNode): DataLocation {
+        if (decl.storageLocation !== DataLocation.Default) {
+            return decl.storageLocation;
+        }
+
+        if (decl.stateVariable) {
+            return decl.constant ? DataLocation.Memory : DataLocation.Storage;
+        }
+
+        if (!isReferenceType(type)) {
+            return DataLocation.Default;
+        }
+
+        if (type instanceof MappingType) {
+            return DataLocation.Storage;
+        }
+
+        const scope = decl.parent;
+
+        if (scope instanceof ParameterList) {
+            const fn = scope.parent;
+
+            if (
+                fn instanceof FunctionDefinition &&
+                fn.visibility === FunctionVisibility.External &&
+                scope === fn.vParameters
+            ) {
+                return DataLocation.CallData;
+            }
+
+            return DataLocation.Memory;
+        }
+
+        if (decl.parent instanceof StructDefinition) {
+            return DataLocation.Storage;
+        }
+
+        /**
+         * Local variables of reference types default to storage in 0.4.x
+         */
+        return lt(this.version, "0.5.0") ? DataLocation.Storage : DataLocation.Memory;
+    }
+
+    private paramsToTypes(def: FunctionDefinition | EventDefinition | ErrorDefinition): TypeNode[] {
+        return def.vParameters.vParameters.map((param) =>
+            this.variableDeclarationToTypeNode(param)
+        );
+    }
+
+    private funDefToType(def: FunctionDefinition, visibility: FunctionVisibility): FunctionType {
+        const rets = def.vReturnParameters.vParameters.map((param) =>
+            this.variableDeclarationToTypeNode(param)
+        );
+
+        return new FunctionType(
+            visibility === FunctionVisibility.External ? def.name : undefined,
+            this.paramsToTypes(def),
+            rets,
+            visibility,
+            def.stateMutability
+        );
+    }
+
+    private eventOrErrorToType(def: EventDefinition | ErrorDefinition): FunctionType {
+        const params = def.vParameters.vParameters.map((param) => {
+            assert(param.vType !== undefined, "Expected parameter {0} to have type", param);
+
+            const type = typeNameToTypeNode(param.vType);
+
+            return specializeType(type, DataLocation.Memory);
+        });
+
+        return new FunctionType(
+            def.name,
+            params,
+            [],
+            FunctionVisibility.Internal,
+            def instanceof ErrorDefinition
+                ? FunctionStateMutability.Pure
+                : FunctionStateMutability.NonPayable
+        );
+    }
+
+    private makeBuiltinFunType(
+        params: TypeNode[],
+        rets: TypeNode[],
+        mutability: FunctionStateMutability
+    ): FunctionType {
+        return new FunctionType(undefined, params, rets, FunctionVisibility.Default, mutability);
+    }
+
+    private lookupBuiltin(
+        mapping: Map<string, VersionDependentType>,
+        name: string
+    ): TypeNode | undefined {
+        const typing = mapping.get(name);
+
+        return typing === undefined ? undefined : getTypeForCompilerVersion(typing, this.version);
+    }
+}
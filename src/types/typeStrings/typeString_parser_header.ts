@@ -27,8 +27,10 @@ import {
     MappingType,
     ModuleType,
     PointerType,
+    RationalLiteralType,
     StringLiteralType,
     StringType,
+    SuperType,
     TupleType,
     TypeNameType,
     TypeNode,
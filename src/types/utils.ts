@@ -150,60 +150,71 @@ export function getUserDefinedTypeFQName(def: UserDefinition): string {
 }
 
 /**
- * Convert a given ast `TypeName` into a `TypeNode`. This produces "general
- * type patterns" without any specific storage information.
- *
- * @param astT - original AST `TypeName`
- * @returns equivalent `TypeNode`.
+ * Convert a name of elementary type (e.g. `uint256`, `address payable` or `bytes`)
+ * into a `TypeNode`. The `stateMutability` is respected for `address` types.
  */
-export function typeNameToTypeNode(astT: TypeName): TypeNode {
-    if (astT instanceof ElementaryTypeName) {
-        const name = astT.name.trim();
+export function elementaryTypeNameToTypeNode(
+    typeName: string,
+    stateMutability: "nonpayable" | "payable" = "nonpayable"
+): TypeNode {
+    const name = typeName.trim();
+
+    if (name === "bool") {
+        return new BoolType();
+    }
 
-        if (name === "bool") {
-            return new BoolType();
-        }
+    const rxAddress = /^address *(payable)?$/;
 
-        const rxAddress = /^address *(payable)?$/;
+    if (rxAddress.test(name)) {
+        return new AddressType(name === "address payable" || stateMutability === "payable");
+    }
 
-        if (rxAddress.test(name)) {
-            return new AddressType(astT.stateMutability === "payable");
-        }
+    const rxInt = /^(u?)int([0-9]*)$/;
 
-        const rxInt = /^(u?)int([0-9]*)$/;
+    let m = name.match(rxInt);
 
-        let m = name.match(rxInt);
+    if (m !== null) {
+        const signed = m[1] !== "u";
+        const nBits = m[2] === "" ? 256 : parseInt(m[2]);
 
-        if (m !== null) {
-            const signed = m[1] !== "u";
-            const nBits = m[2] === "" ? 256 : parseInt(m[2]);
+        return new IntType(nBits, signed);
+    }
 
-            return new IntType(nBits, signed);
-        }
+    const rxFixedBytes = /^bytes([0-9]+)$/;
 
-        const rxFixedBytes = /^bytes([0-9]+)$/;
+    m = name.match(rxFixedBytes);
 
-        m = name.match(rxFixedBytes);
+    if (m !== null) {
+        const size = parseInt(m[1]);
 
-        if (m !== null) {
-            const size = parseInt(m[1]);
+        return new FixedBytesType(size);
+    }
 
-            return new FixedBytesType(size);
-        }
+    if (name === "byte") {
+        return new FixedBytesType(1);
+    }
 
-        if (name === "byte") {
-            return new FixedBytesType(1);
-        }
+    if (name === "bytes") {
+        return new BytesType();
+    }
 
-        if (name === "bytes") {
-            return new BytesType();
-        }
+    if (name === "string") {
+        return new StringType();
+    }
 
-        if (name === "string") {
-            return new StringType();
-        }
+    throw new Error(`NYI converting elementary AST Type ${name}`);
+}
 
-        throw new Error(`NYI converting elementary AST Type ${name}`);
+/**
+ * Convert a given ast `TypeName` into a `TypeNode`. This produces "general
+ * type patterns" without any specific storage information.
+ *
+ * @param astT - original AST `TypeName`
+ * @returns equivalent `TypeNode`.
+ */
+export function typeNameToTypeNode(astT: TypeName): TypeNode {
+    if (astT instanceof ElementaryTypeName) {
+        return elementaryTypeNameToTypeNode(astT.name, astT.stateMutability);
     }
 
     if (astT instanceof ArrayTypeName) {
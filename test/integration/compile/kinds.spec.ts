@@ -129,6 +129,14 @@ describe(`Native and WASM compilers produce the same results for all files`, ()
                 defaultCompilationOutput,
                 defaultCompilerSettings
             ]
+        ],
+        [
+            "test/samples/solidity/analysis/verification/main.sol",
+            [
+                ["@lib/=test/samples/solidity/analysis/verification/lib/"],
+                defaultCompilationOutput,
+                defaultCompilerSettings
+            ]
         ]
     ]);
 
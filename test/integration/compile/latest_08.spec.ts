@@ -72,7 +72,15 @@ const encounters = new Map<string, number>([
     ["StructuredDocumentation", 3],
     ["RevertStatement", 3],
     ["UserDefinedValueTypeDefinition", 4],
-    ["FunctionTypeName", 4]
+    ["FunctionTypeName", 4],
+    ["YulBlock", 4],
+    ["YulVariableDeclaration", 5],
+    ["YulTypedName", 5],
+    ["YulLiteral", 6],
+    ["YulExpressionStatement", 3],
+    ["YulFunctionCall", 4],
+    ["YulIdentifier", 13],
+    ["YulAssignment", 3]
 ]);
 
 for (const compilerKind of PossibleCompilerKinds) {
@@ -119,7 +127,7 @@ for (const compilerKind of PossibleCompilerKinds) {
             expect(sourceUnit.src).toEqual("0:7057:0");
             expect(sourceUnit.absolutePath).toEqual(mainSample);
             expect(sourceUnit.children.length).toEqual(21);
-            expect(sourceUnit.getChildren().length).toEqual(570);
+            expect(sourceUnit.getChildren().length).toEqual(613);
         });
 
         it(`Validate parsed output (${astKind})`, () => {
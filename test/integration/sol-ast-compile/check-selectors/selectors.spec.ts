@@ -0,0 +1,36 @@
+import expect from "expect";
+import { PossibleCompilerKinds } from "../../../../src";
+import { SolAstCompileCommand, SolAstCompileExec } from "../common";
+
+const sample = "test/samples/solidity/analysis/abi.sol";
+
+for (const kind of PossibleCompilerKinds) {
+    const args = [sample, "--compiler-kind", kind, "--check-selectors"];
+    const command = SolAstCompileCommand(...args);
+
+    describe(command, () => {
+        let exitCode: number | null;
+        let outData: string;
+        let errData: string;
+
+        before(() => {
+            const result = SolAstCompileExec(...args);
+
+            outData = result.stdout;
+            errData = result.stderr;
+            exitCode = result.status;
+        });
+
+        it("Exit code is valid", () => {
+            expect(exitCode).toEqual(0);
+        });
+
+        it("STDERR is empty", () => {
+            expect(errData).toEqual("");
+        });
+
+        it("STDOUT is correct", () => {
+            expect(outData).toEqual("No selector mismatches found\n");
+        });
+    });
+}
@@ -0,0 +1,142 @@
+import expect from "expect";
+import { PossibleCompilerKinds } from "../../../../src";
+import { SolAstCompileCommand, SolAstCompileExec } from "../common";
+
+const previous = "test/samples/solidity/analysis/upgrade/v1.sol";
+const sample = "test/samples/solidity/analysis/upgrade/v2.sol";
+
+for (const kind of PossibleCompilerKinds) {
+    const args = [
+        sample,
+        "--compiler-kind",
+        kind,
+        "--check-upgrade",
+        previous,
+        "--contract",
+        "Storage"
+    ];
+
+    const command = SolAstCompileCommand(...args);
+
+    describe(command, () => {
+        let exitCode: number | null;
+        let outData: string;
+        let errData: string;
+
+        before(() => {
+            const result = SolAstCompileExec(...args);
+
+            outData = result.stdout;
+            errData = result.stderr;
+            exitCode = result.status;
+        });
+
+        it("Exit code is valid", () => {
+            expect(exitCode).toEqual(1);
+        });
+
+        it("STDERR is empty", () => {
+            expect(errData).toEqual("");
+        });
+
+        it("STDOUT is correct", () => {
+            expect(outData).toContain(
+                "[reordered] State variable Storage.a is moved to slot 1 offset 16 instead of slot 1 offset 0"
+            );
+
+            expect(outData).toContain(`${previous}:8:4`);
+            expect(outData).toContain(`${sample}:13:4`);
+
+            expect(outData).toContain("[removed] State variable Storage.legacy is removed");
+            expect(outData).toContain(
+                "[gap_shrunk] Storage gap Storage.__gap ends at slot 9 instead of 15"
+            );
+        });
+    });
+}
+
+for (const kind of PossibleCompilerKinds) {
+    const args = [
+        previous,
+        "--compiler-kind",
+        kind,
+        "--check-upgrade",
+        previous,
+        "--contract",
+        "Token"
+    ];
+
+    const command = SolAstCompileCommand(...args);
+
+    describe(command, () => {
+        let exitCode: number | null;
+        let outData: string;
+        let errData: string;
+
+        before(() => {
+            const result = SolAstCompileExec(...args);
+
+            outData = result.stdout;
+            errData = result.stderr;
+            exitCode = result.status;
+        });
+
+        it("Exit code is valid", () => {
+            expect(exitCode).toEqual(0);
+        });
+
+        it("STDERR is empty", () => {
+            expect(errData).toEqual("");
+        });
+
+        it("STDOUT is correct", () => {
+            expect(outData).toEqual("No storage incompatibilities found\n");
+        });
+    });
+}
+
+/**
+ * Previous version is compiled with its own compiler version (auto),
+ * regardless of the version of the new one.
+ */
+for (const kind of PossibleCompilerKinds) {
+    const args = [
+        sample,
+        "--compiler-kind",
+        kind,
+        "--compiler-version",
+        "0.8.12",
+        "--check-upgrade",
+        "test/samples/solidity/analysis/upgrade/v0.sol",
+        "--contract",
+        "Storage"
+    ];
+
+    const command = SolAstCompileCommand(...args);
+
+    describe(command, () => {
+        let exitCode: number | null;
+        let outData: string;
+        let errData: string;
+
+        before(() => {
+            const result = SolAstCompileExec(...args);
+
+            outData = result.stdout;
+            errData = result.stderr;
+            exitCode = result.status;
+        });
+
+        it("Exit code is valid", () => {
+            expect(exitCode).toEqual(1);
+        });
+
+        it("STDERR is empty", () => {
+            expect(errData).toEqual("");
+        });
+
+        it("STDOUT is correct", () => {
+            expect(outData).toContain("[removed] State variable Storage.legacy is removed");
+        });
+    });
+}
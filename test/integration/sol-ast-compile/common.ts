@@ -25,11 +25,21 @@ export const options = [
     "compiler-version",
     "compiler-kind",
     "path-remapping",
+    "base-path",
+    "include-path",
     "compiler-settings",
     "raw",
     "with-sources",
+    "diagnostics",
     "tree",
     "source",
     "xpath",
-    "depth"
+    "depth",
+    "check-upgrade",
+    "check-upgrade-compiler-version",
+    "verification-input",
+    "contract",
+    "check-selectors",
+    "prefetch-compilers",
+    "compiler-cache"
 ];
@@ -0,0 +1,55 @@
+import expect from "expect";
+import { PossibleCompilerKinds } from "../../../src";
+import { SolAstCompileCommand, SolAstCompileExec } from "./common";
+
+const cases: Array<[string, number, Array<[string, string]>]> = [
+    [
+        "test/samples/solidity/diagnostics.sol",
+        0,
+        [
+            [
+                "warning",
+                "Unused function parameter. Remove or comment out the variable name to silence this warning."
+            ],
+            ["warning", "Unused local variable."]
+        ]
+    ],
+    ["test/samples/solidity/error_060.json", 1, [["error", "Expected ';' but got '}'"]]]
+];
+
+for (const [sample, code, expected] of cases) {
+    for (const kind of PossibleCompilerKinds) {
+        const args = [sample, "--compiler-kind", kind, "--diagnostics"];
+        const command = SolAstCompileCommand(...args);
+
+        describe(command, () => {
+            let exitCode: number | null;
+            let outData: string;
+            let errData: string;
+
+            before(() => {
+                const result = SolAstCompileExec(...args);
+
+                outData = result.stdout;
+                errData = result.stderr;
+                exitCode = result.status;
+            });
+
+            it("Exit code is valid", () => {
+                expect(exitCode).toEqual(code);
+            });
+
+            it("STDERR is empty", () => {
+                expect(errData).toEqual("");
+            });
+
+            it("STDOUT is correct", () => {
+                const diagnostics = JSON.parse(outData);
+
+                expect(
+                    diagnostics.map((diagnostic: any) => [diagnostic.severity, diagnostic.message])
+                ).toEqual(expected);
+            });
+        });
+    }
+}
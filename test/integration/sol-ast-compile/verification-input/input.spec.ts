@@ -0,0 +1,66 @@
+import expect from "expect";
+import path from "path";
+import { PossibleCompilerKinds } from "../../../../src";
+import { SolAstCompileCommand, SolAstCompileExec } from "../common";
+
+const dir = "test/samples/solidity/analysis/verification";
+const sample = `${dir}/main.sol`;
+
+for (const kind of PossibleCompilerKinds) {
+    const args = [
+        sample,
+        "--compiler-kind",
+        kind,
+        "--path-remapping",
+        `@lib/=${dir}/lib/`,
+        "--compiler-settings",
+        '{"optimizer":{"enabled":true,"runs":1000},"modelChecker":{"engine":"none"}}',
+        "--verification-input",
+        "--contract",
+        "Main"
+    ];
+
+    const command = SolAstCompileCommand(...args);
+
+    describe(command, () => {
+        let exitCode: number | null;
+        let outData: string;
+        let errData: string;
+
+        before(() => {
+            const result = SolAstCompileExec(...args);
+
+            outData = result.stdout;
+            errData = result.stderr;
+            exitCode = result.status;
+        });
+
+        it("Exit code is valid", () => {
+            expect(exitCode).toEqual(0);
+        });
+
+        it("STDERR is empty", () => {
+            expect(errData).toEqual("");
+        });
+
+        it("STDOUT is correct", () => {
+            const { compilerVersion, contractName, input } = JSON.parse(outData);
+
+            expect(compilerVersion).toEqual("0.8.12");
+            /**
+             * Entry file is resolved to the absolute path, while remapped import is not
+             */
+            expect(contractName).toEqual(`${path.resolve(sample)}:Main`);
+
+            expect(Object.keys(input.sources)).toEqual([
+                path.resolve(sample),
+                path.resolve(dir, "token.sol"),
+                `${dir}/lib/math.sol`
+            ]);
+
+            expect(input.settings.remappings).toEqual([`@lib/=${dir}/lib/`]);
+            expect(input.settings.optimizer).toEqual({ enabled: true, runs: 1000 });
+            expect(input.settings.modelChecker).toBeUndefined();
+        });
+    });
+}
@@ -0,0 +1,14 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+import "@oz/access/Ownable.sol";
+import "math/Math.sol";
+import "@helpers/Helpers.sol";
+
+contract Token is Ownable {
+    mapping(address => uint256) public balances;
+
+    function mint(address to, uint256 amount) external onlyOwner {
+        balances[to] = Math.max(balances[to], double(amount));
+    }
+}
@@ -0,0 +1,6 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+function double(uint256 x) pure returns (uint256) {
+    return x * 2;
+}
@@ -0,0 +1,10 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+import "@acme/lib/Counter.sol";
+
+contract Vault is Counter {
+    function deposit() external payable {
+        increment();
+    }
+}
@@ -0,0 +1,3 @@
+pragma solidity ^0.6.0;
+
+contract A {}
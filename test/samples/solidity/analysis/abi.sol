@@ -0,0 +1,117 @@
+pragma solidity 0.8.12;
+
+error Unauthorized(address caller);
+
+type Price is uint128;
+
+interface IToken {
+    event Transfer(address indexed from, address indexed to, uint256 value);
+
+    function balanceOf(address owner) external view returns (uint256);
+
+    function total() external view returns (uint256);
+}
+
+library Lib {
+    enum Mode {
+        Off,
+        On
+    }
+
+    struct Data {
+        uint256 value;
+        mapping(uint256 => uint256) items;
+    }
+
+    function get(Data storage data, Mode mode) public view returns (uint256) {
+        return mode == Mode.On ? data.value : 0;
+    }
+
+    function mode(Mode[] memory modes) public pure returns (Mode) {
+        return modes[0];
+    }
+
+    function pure_(uint256[] memory values) external pure returns (uint256) {
+        return values.length;
+    }
+
+    function set(Data storage data, uint256 value) public {
+        data.value = value;
+    }
+}
+
+abstract contract Base {
+    enum Kind {
+        A,
+        B
+    }
+
+    struct Point {
+        int64 x;
+        int64 y;
+    }
+
+    struct Shape {
+        Kind kind;
+        Point[] points;
+        Point origin;
+        string name;
+        mapping(uint256 => uint256) extra;
+    }
+
+    error Failed(uint256 code, Point where);
+
+    event Moved(Point indexed from, Point to) anonymous;
+    event Transfer(address indexed from, address indexed to, uint256 value, bytes data);
+
+    Shape public shape;
+    mapping(address => mapping(string => Point[])) public points;
+    uint256[3][] public matrix;
+
+    constructor(uint256 seed) payable {
+        matrix.push([seed, seed, seed]);
+    }
+
+    fallback() external {}
+
+    function move(Point calldata to) external virtual returns (Point memory);
+
+    function total() external view virtual returns (uint256);
+}
+
+contract Token is Base, IToken {
+    uint256 public override(Base, IToken) total;
+    Price public price;
+
+    constructor() Base(1) {}
+
+    receive() external payable {}
+
+    function balanceOf(address) external pure override returns (uint256) {
+        return 0;
+    }
+
+    function move(Point calldata to) external override returns (Point memory) {
+        if (to.x < 0) {
+            revert Unauthorized(msg.sender);
+        }
+
+        emit Moved(to, to);
+
+        return to;
+    }
+
+    function apply_(function(uint256) external returns (bool) callback, IToken token, Kind kind)
+        public
+        payable
+        returns (bool ok, Price)
+    {
+        ok = kind == Kind.A && callback(token.balanceOf(address(this)));
+
+        return (ok, price);
+    }
+
+    function apply_(uint256 value) public pure returns (Base.Point[2] memory result) {
+        result[0].x = int64(int256(value));
+    }
+}
@@ -0,0 +1,70 @@
+pragma solidity 0.8.12;
+
+function double(uint x) pure returns (uint) {
+    return x * 2;
+}
+
+library Math {
+    function inc(uint x) internal pure returns (uint) {
+        return x + 1;
+    }
+
+    function twice(uint x) internal pure returns (uint) {
+        return inc(inc(x));
+    }
+}
+
+interface IToken {
+    function balanceOf(address owner) external view returns (uint);
+}
+
+contract Owned {
+    address public owner;
+
+    constructor(address initialOwner) {
+        owner = initialOwner;
+    }
+
+    modifier onlyOwner() virtual {
+        require(msg.sender == owner);
+        _;
+    }
+}
+
+contract Base is Owned {
+    uint internal total = double(1);
+
+    constructor() Owned(msg.sender) {}
+
+    function hook(uint x) internal virtual returns (uint) {
+        return x;
+    }
+
+    function update(uint x) public onlyOwner {
+        total = hook(x);
+    }
+}
+
+contract Child is Base {
+    using Math for uint;
+
+    IToken internal token;
+
+    modifier onlyOwner() override {
+        _;
+    }
+
+    function hook(uint x) internal override returns (uint) {
+        return super.hook(x.twice()) + Math.inc(x);
+    }
+
+    function query() public view returns (uint) {
+        return token.balanceOf(this.owner());
+    }
+
+    function spawn() public returns (Base) {
+        Base.hook(1);
+
+        return new Base();
+    }
+}
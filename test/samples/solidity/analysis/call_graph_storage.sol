@@ -0,0 +1,25 @@
+pragma solidity 0.8.12;
+
+contract Ledger {
+    mapping(address => uint) internal balances;
+
+    function credit(mapping(address => uint) storage book, address account, uint amount)
+        internal
+        virtual
+    {
+        book[account] += amount;
+    }
+
+    function deposit() public payable {
+        credit(balances, msg.sender, msg.value);
+    }
+}
+
+contract Bank is Ledger {
+    function credit(mapping(address => uint) storage book, address account, uint amount)
+        internal
+        override
+    {
+        super.credit(book, account, amount * 2);
+    }
+}
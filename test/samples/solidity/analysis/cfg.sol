@@ -0,0 +1,110 @@
+pragma solidity 0.8.12;
+
+interface IOracle {
+    function price() external returns (uint);
+}
+
+contract Base {
+    uint internal counter;
+
+    modifier guarded(uint x) virtual {
+        require(x > 0);
+        _;
+    }
+}
+
+contract CFGSample is Base {
+    error Failure(uint code);
+
+    IOracle internal oracle;
+
+    modifier twice() {
+        _;
+        _;
+    }
+
+    modifier guarded(uint x) override {
+        if (x == 0) {
+            return;
+        }
+
+        _;
+        counter++;
+    }
+
+    function branches(uint a) public pure returns (uint) {
+        if (a > 10) {
+            return 1;
+        } else if (a > 5) {
+            a += 1;
+        }
+
+        return a;
+    }
+
+    function loops(uint n) public pure returns (uint s) {
+        for (uint i = 0; i < n; i++) {
+            if (i == 3) {
+                continue;
+            }
+
+            if (i == 7) {
+                break;
+            }
+
+            s += i;
+        }
+
+        while (s > 100) {
+            s /= 2;
+        }
+
+        do {
+            s++;
+        } while (s < 10);
+    }
+
+    function shortCircuit(bool a, bool b, uint c) public pure returns (uint) {
+        bool d = a && (b || c > 1);
+
+        return d ? c : c + 1;
+    }
+
+    function failures(uint a) public pure {
+        if (a == 1) {
+            revert Failure(a);
+        }
+
+        if (a == 2) {
+            revert("Two");
+        }
+
+        unchecked {
+            a -= 1;
+        }
+
+        a += 1;
+    }
+
+    function tryCatch() public returns (uint) {
+        try oracle.price() returns (uint p) {
+            return p;
+        } catch Error(string memory) {
+            return 1;
+        } catch (bytes memory) {
+            return 2;
+        }
+    }
+
+    function tryPartial() public {
+        try oracle.price() {
+            counter = 1;
+        } catch Error(string memory) {
+            counter = 2;
+        }
+    }
+
+    function modified(uint x) public twice guarded(x) {
+        counter += x;
+    }
+}
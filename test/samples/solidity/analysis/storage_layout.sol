@@ -0,0 +1,77 @@
+pragma solidity 0.8.12;
+
+type Price is uint128;
+
+interface IToken {
+    function totalSupply() external view returns (uint);
+}
+
+contract Base {
+    uint8 internal a;
+    bool internal b;
+    address internal owner;
+    uint256 internal constant LIMIT = 10;
+    uint256 internal immutable created;
+
+    constructor() {
+        created = block.timestamp;
+    }
+}
+
+contract Layout is Base {
+    enum State {
+        Idle,
+        Active
+    }
+
+    struct Position {
+        uint64 amount;
+        uint64 since;
+        address holder;
+        uint256[2] marks;
+        State state;
+    }
+
+    uint16 internal c;
+    State internal state;
+    Price internal price;
+    IToken internal token;
+    bytes4 internal selector;
+    int120 internal delta;
+    uint256[3] internal fixedArray;
+    uint8[40] internal packedArray;
+    uint[] internal dynamicArray;
+    Position internal position;
+    Position[] internal positions;
+    mapping(address => Position) internal positionOf;
+    mapping(uint => mapping(address => bool)) internal approvals;
+    string internal name;
+    bytes internal data;
+    function(uint) internal pure returns (uint) internal internalFn;
+    function(uint) external returns (bool) internal externalFn;
+    bool internal last;
+}
+
+contract Nested {
+    type Amount is uint64;
+
+    struct Node {
+        uint8 tag;
+        Node[] children;
+        mapping(string => Amount) balances;
+    }
+
+    struct Pair {
+        bytes16 left;
+        bytes16 right;
+    }
+
+    address payable internal recipient;
+    Amount internal amount;
+    Node internal root;
+    Pair[3] internal pairs;
+    uint16[][2] internal matrix;
+    Layout.State[33] internal states;
+    mapping(bytes => uint[]) internal lists;
+    function(uint[] memory) external returns (string memory) internal callback;
+}
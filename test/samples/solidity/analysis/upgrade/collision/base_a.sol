@@ -0,0 +1,5 @@
+pragma solidity ^0.5.0;
+
+contract Base {
+    uint256 value;
+}
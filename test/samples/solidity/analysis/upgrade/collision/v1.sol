@@ -0,0 +1,8 @@
+pragma solidity ^0.5.0;
+
+import {Base as BaseA} from "./base_a.sol";
+import {Base as BaseB} from "./base_b.sol";
+
+contract Main is BaseA, BaseB {
+    uint256 total;
+}
@@ -0,0 +1,16 @@
+pragma solidity ^0.7.0;
+
+contract Ownable {
+    address owner;
+}
+
+contract Storage is Ownable {
+    uint128 a;
+    uint128 b;
+    uint256 total;
+    mapping(address => uint256) balances;
+    uint64 legacy;
+    uint32 counter;
+    bool paused;
+    uint256[10] __gap;
+}
@@ -0,0 +1,26 @@
+pragma solidity 0.8.12;
+
+contract Ownable {
+    address owner;
+}
+
+contract Storage is Ownable {
+    uint128 a;
+    uint128 b;
+    uint256 total;
+    mapping(address => uint256) balances;
+    uint64 legacy;
+    uint32 counter;
+    bool paused;
+    uint256[10] __gap;
+}
+
+contract Token is Storage {
+    uint8 decimals;
+    string symbol;
+}
+
+contract Vault {
+    uint256 shares;
+    uint256[10] __gap;
+}
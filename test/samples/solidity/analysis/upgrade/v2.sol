@@ -0,0 +1,29 @@
+pragma solidity 0.8.12;
+
+contract Ownable {
+    address owner;
+}
+
+contract Pausable {
+    bool stopped;
+}
+
+contract Storage is Ownable {
+    uint128 b;
+    uint128 a;
+    uint256 supply;
+    mapping(address => uint128) balances;
+    uint32 counter;
+    bool paused;
+    uint256[4] __gap;
+}
+
+contract Token is Pausable, Storage {
+    uint8 decimals;
+    string symbol;
+}
+
+contract Vault {
+    uint256 shares;
+    uint256[12] __gap;
+}
@@ -0,0 +1,15 @@
+pragma solidity 0.8.12;
+
+library Math {
+    function max(uint256 a, uint256 b) internal pure returns (uint256) {
+        return a > b ? a : b;
+    }
+}
+
+library Registry {
+    event Registered(address account);
+
+    function register(address account) external {
+        emit Registered(account);
+    }
+}
@@ -0,0 +1,14 @@
+pragma solidity 0.8.12;
+
+import "@lib/math.sol";
+import "./token.sol";
+
+contract Main is Token {
+    function max(uint256 a, uint256 b) external pure returns (uint256) {
+        return Math.max(a, b);
+    }
+
+    function register() external {
+        Registry.register(msg.sender);
+    }
+}
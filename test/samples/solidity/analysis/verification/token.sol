@@ -0,0 +1,9 @@
+pragma solidity 0.8.12;
+
+contract Token {
+    uint256 public total;
+
+    function mint(uint256 amount) external {
+        total += amount;
+    }
+}
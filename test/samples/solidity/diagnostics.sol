@@ -0,0 +1,10 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.12;
+
+contract Test {
+    function unused(uint256 a) public pure returns (uint256) {
+        uint256 b;
+
+        return 1;
+    }
+}
@@ -43,7 +43,7 @@ contract StmtDocs04 {
         {} else /// False body Block docstring
         {}
         /// InlineAssembly docstring
-        assembly { }
+        assembly {}
         /// Return docstring
         return;
     }
@@ -0,0 +1,209 @@
+pragma solidity 0.8.12;
+
+type Price is uint128;
+
+enum Color {
+    Red,
+    Green
+}
+
+struct Point {
+    int64 x;
+    int64 y;
+}
+
+error Failure(uint256 code, string reason);
+
+function freeAdd(uint8 a, uint8 b) pure returns (uint8) {
+    return a + b;
+}
+
+library Math {
+    function add(uint8 a, uint8 b) internal pure returns (uint8) {
+        return freeAdd(a, b);
+    }
+}
+
+library Sets {
+    struct AddressSet {
+        address[] values;
+        mapping(address => uint256) indexes;
+    }
+
+    function add(AddressSet storage set, address value) internal returns (bool) {
+        if (set.indexes[value] != 0) {
+            return false;
+        }
+
+        set.values.push(value);
+        set.indexes[value] = set.values.length;
+
+        return true;
+    }
+}
+
+library Arrays {
+    function sum(uint16[] storage xs) internal view returns (uint256 result) {
+        for (uint256 i = 0; i < xs.length; i++) {
+            result += xs[i];
+        }
+    }
+}
+
+interface IToken {
+    function balanceOf(address owner) external view returns (uint256);
+}
+
+contract Base {
+    event Transfer(address indexed from, address indexed to, uint256 amount);
+
+    function value() public pure virtual returns (uint256) {
+        return 1;
+    }
+}
+
+contract Inference is Base {
+    using Math for uint8;
+    using Sets for Sets.AddressSet;
+    using Arrays for uint16[];
+
+    uint256 public total;
+    uint16[] internal numbers;
+    mapping(address => Point) internal points;
+    bytes internal data;
+    string internal name;
+    Color internal color;
+    Price internal price;
+    IToken internal token;
+    Sets.AddressSet internal holders;
+
+    uint256 constant LIMIT = 10 ** 3 + 5;
+
+    constructor() payable {}
+
+    receive() external payable {}
+
+    function value() public pure override returns (uint256) {
+        return 2;
+    }
+
+    function overloaded(uint8 a) public pure returns (uint8) {
+        return a;
+    }
+
+    function overloaded(bytes memory a) public pure returns (bytes memory) {
+        return a;
+    }
+
+    function literals() public pure {
+        uint256 a = 1 + 2 * 3;
+        int256 b = -5;
+        uint256 c = 1 ether + 2 gwei;
+        uint256 d = 3 days;
+        uint256 e = 0xff & 0x0f;
+        uint256 f = 1 << 10;
+        uint256 g = 2e3;
+        bool h = true && !false;
+        string memory s = "abc";
+        bytes memory x = hex"0102";
+        address addr = 0x1234567890123456789012345678901234567890;
+        uint256 i = 1 / 2 * 4 + (0.5 * 6) / 3;
+        int256 j = -2.5e1 / 5;
+        uint256 k = 2 ** -1 * 4;
+
+        unchecked {
+            a = 255 + 1;
+            b = -128 - 1;
+        }
+
+        (a, b, c, d, e, f, g, h, s, x, addr, i, j, k);
+    }
+
+    function operators(uint8 a, uint16 b, int32 c) public pure returns (uint16) {
+        uint16 r = a + b;
+        int32 q = c * 2;
+        uint8 s = a << 2;
+        uint256 p = 2 ** a;
+        bool cmp = a < b || c != 0;
+
+        r += b;
+        q = -c;
+        s++;
+
+        (q, p, cmp);
+
+        return cond(a > 1) ? r : b;
+    }
+
+    function cond(bool v) internal pure returns (bool) {
+        return v;
+    }
+
+    function members(address payable to) public payable returns (uint256, bytes32) {
+        uint256 bal = to.balance;
+        bool ok = to.send(1);
+        (bool success, bytes memory ret) = to.call{ value: 1 }("");
+        bytes32 hash = keccak256(abi.encodePacked(msg.sender, block.number));
+        uint256 len = numbers.length;
+        bytes4 sel = this.value.selector;
+        address self = address(this);
+
+        to.transfer(1);
+        numbers.push(1);
+        numbers.pop();
+
+        (ok, success, ret, len, sel, self);
+
+        return (bal + tx.gasprice, hash);
+    }
+
+    function locations(uint256[] calldata xs) external returns (uint256) {
+        Point storage p = points[msg.sender];
+        Point memory m = Point(1, 2);
+        uint16[] storage nums = numbers;
+        uint256[] calldata part = xs[1:];
+        uint16[] memory copy = new uint16[](3);
+        bytes memory joined = bytes.concat(data, "x");
+        string memory both = string.concat(name, "y");
+
+        p.x = m.y;
+        copy[0] = nums[0];
+
+        return part.length + joined.length + bytes(both).length;
+    }
+
+    function meta() public view returns (uint256) {
+        uint8 lo = type(uint8).max;
+        bytes4 id = type(IToken).interfaceId;
+        string memory n = type(Inference).name;
+        Price p = Price.wrap(5);
+        uint128 raw = Price.unwrap(p);
+        Color col = Color.Green;
+        uint256 bal = token.balanceOf(address(this));
+
+        (id, n, col);
+
+        return lo + raw + bal + total + super.value();
+    }
+
+    function calls(bytes memory payload) public pure returns (uint8) {
+        (uint8 a, bytes memory b) = abi.decode(payload, (uint8, bytes));
+        bytes memory c = overloaded(b);
+        uint8 d = overloaded(a);
+        uint8[3] memory arr = [1, 2, 3];
+
+        require(c.length > 0, "empty");
+
+        if (d == 0) {
+            revert Failure(1, "zero");
+        }
+
+        return d.add(arr[0]);
+    }
+
+    function attached() public returns (uint256) {
+        bool added = holders.add(msg.sender);
+
+        return added ? numbers.sum() : 0;
+    }
+}
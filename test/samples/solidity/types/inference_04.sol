@@ -0,0 +1,40 @@
+pragma solidity ^0.4.24;
+
+contract Base04 {
+    function value() public pure returns (uint256) {
+        return 1;
+    }
+}
+
+contract Inference04 is Base04 {
+    uint256 public total;
+    uint8[] internal numbers;
+
+    function value() public pure returns (uint256) {
+        return 2;
+    }
+
+    function literals(uint8 c) public view returns (uint256) {
+        uint256 a = now + 1 days;
+        var b = 300;
+        uint256 p = 2 ** c;
+        uint256 s = 1 << c;
+        int256 n = -1;
+        uint256 r = 1 / 2 * 4 + 0.5 * 6;
+
+        return a + b + p + s + uint256(n) + r;
+    }
+
+    function members() public returns (uint256) {
+        bytes32 h = sha3(total);
+        address self = this;
+        uint256 len = numbers.push(2);
+
+        return uint256(h) + self.balance + len + super.value();
+    }
+
+    function logs(bytes32 topic) public {
+        log0(bytes32(0));
+        log2(bytes32(1), topic, keccak256("x"));
+    }
+}
@@ -0,0 +1,33 @@
+pragma solidity ^0.6.0;
+
+contract Base06 {
+    function value() public pure virtual returns (uint256) {
+        return 1;
+    }
+}
+
+contract Inference06 is Base06 {
+    uint256 internal total;
+    uint16[] internal numbers;
+
+    receive() external payable {}
+
+    function value() public pure override returns (uint256) {
+        return 2;
+    }
+
+    function literals(uint8 c) public view returns (uint256) {
+        uint256 a = now + 1 hours;
+        uint256 p = 2 ** c;
+        uint256 s = 1 << c;
+        uint256 r = 1 / 2 * 4 + 0.5 * 6;
+        address payable self = address(this);
+        address payable lit = 0x1234567890123456789012345678901234567890;
+        return a + p + s + r + self.balance + lit.balance + numbers.length + super.value();
+    }
+
+    function logs(bytes32 topic) public {
+        log0(bytes32(0));
+        log2(bytes32(uint256(1)), topic, keccak256("x"));
+    }
+}
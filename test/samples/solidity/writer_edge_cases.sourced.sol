@@ -27,22 +27,22 @@ contract SourceWriterEdgeCases {
     function inlineAssembly() public {
         address addr = address(this);
         assembly {
-    let a := balance(addr)
-    let b := sload(0x20)
-    let c := staticcall(2100, addr, 0, 0, 0, 0)
-    let d := origin()
-    let e := gasprice()
-    let f := coinbase()
-    let g := timestamp()
-    let h := number()
-    let i := difficulty()
-    let j := gaslimit()
-    let k := blockhash(1)
-    let l := extcodesize(addr)
-    let m := caller()
-    let n := callvalue()
-    extcodecopy(0, 0, 0, 0)
-}
+            let a := balance(addr)
+            let b := sload(0x20)
+            let c := staticcall(2100, addr, 0, 0, 0, 0)
+            let d := origin()
+            let e := gasprice()
+            let f := coinbase()
+            let g := timestamp()
+            let h := number()
+            let i := difficulty()
+            let j := gaslimit()
+            let k := blockhash(1)
+            let l := extcodesize(addr)
+            let m := caller()
+            let n := callvalue()
+            extcodecopy(0, 0, 0, 0)
+        }
     }
 
     function makeCustomFields() public {
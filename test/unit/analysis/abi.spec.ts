@@ -0,0 +1,120 @@
+import expect from "expect";
+import {
+    ASTNodeFactory,
+    ASTReader,
+    CompilationOutput,
+    CompilerKind,
+    compileSol,
+    ContractDefinition,
+    DataLocation,
+    detectCompileErrors,
+    FunctionKind,
+    FunctionStateMutability,
+    FunctionVisibility,
+    getContractABI,
+    Mutability,
+    PossibleCompilerKinds,
+    SourceUnit,
+    StateVariableVisibility
+} from "../../../src";
+
+const sample = "./test/samples/solidity/analysis/abi.sol";
+
+describe("getContractABI()", () => {
+    for (const kind of PossibleCompilerKinds) {
+        describe(`[${kind}] ${sample}`, () => {
+            let data: any;
+            let unit: SourceUnit;
+
+            before(async () => {
+                const result = await compileSol(
+                    sample,
+                    "auto",
+                    [],
+                    [CompilationOutput.AST, CompilationOutput.ABI],
+                    undefined,
+                    kind as CompilerKind
+                );
+
+                data = result.data;
+
+                expect(detectCompileErrors(data)).toHaveLength(0);
+
+                const units = new ASTReader().read(data);
+
+                expect(units.length).toEqual(1);
+
+                unit = units[0];
+            });
+
+            for (const name of ["IToken", "Lib", "Base", "Token"]) {
+                it(`ABI of ${name} matches compiler output`, () => {
+                    const contract = unit.vContracts.find(
+                        (candidate) => candidate.name === name
+                    ) as ContractDefinition;
+
+                    const expected = data.contracts[unit.sourceEntryKey][name].abi;
+
+                    expect(JSON.stringify(getContractABI(contract))).toEqual(
+                        JSON.stringify(expected)
+                    );
+                });
+            }
+
+            it("ABI reflects functions, added by ASTNodeFactory", () => {
+                const contract = unit.vContracts.find(
+                    (candidate) => candidate.name === "Token"
+                ) as ContractDefinition;
+
+                const factory = new ASTNodeFactory(contract.requiredContext);
+                const type = factory.makeElementaryTypeName("bytes", "bytes");
+                const param = factory.makeVariableDeclaration(
+                    false,
+                    false,
+                    "payload",
+                    0,
+                    false,
+                    DataLocation.CallData,
+                    StateVariableVisibility.Default,
+                    Mutability.Mutable,
+                    "bytes",
+                    undefined,
+                    type
+                );
+
+                const fn = factory.makeFunctionDefinition(
+                    contract.id,
+                    FunctionKind.Function,
+                    "added",
+                    false,
+                    FunctionVisibility.External,
+                    FunctionStateMutability.Pure,
+                    false,
+                    factory.makeParameterList([param]),
+                    factory.makeParameterList([]),
+                    [],
+                    undefined,
+                    factory.makeBlock([])
+                );
+
+                param.scope = fn.id;
+
+                contract.appendChild(fn);
+
+                const entry = getContractABI(contract).find(
+                    (candidate) => candidate.name === "added"
+                );
+
+                expect(entry).toEqual({
+                    inputs: [{ internalType: "bytes", name: "payload", type: "bytes" }],
+                    name: "added",
+                    outputs: [],
+                    stateMutability: "pure",
+                    type: "function"
+                });
+
+                contract.removeChild(fn);
+            });
+        });
+    }
+});
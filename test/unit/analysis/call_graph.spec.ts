@@ -0,0 +1,217 @@
+import expect from "expect";
+import {
+    assert,
+    ASTReader,
+    buildCallGraph,
+    CallGraph,
+    CallGraphEdge,
+    CallGraphNode,
+    CallKind,
+    CompilerKind,
+    compileSol,
+    ContractDefinition,
+    detectCompileErrors,
+    getCallGraphNodeName,
+    InheritanceSpecifier,
+    ModifierInvocation,
+    PossibleCompilerKinds,
+    SourceUnit
+} from "../../../src";
+
+const sample = "./test/samples/solidity/analysis/call_graph.sol";
+const storageSample = "./test/samples/solidity/analysis/call_graph_storage.sol";
+
+function getNode(graph: CallGraph, name: string): CallGraphNode {
+    const nodes = graph.nodes.filter((node) => getCallGraphNodeName(node) === name);
+
+    assert(nodes.length === 1, `Unable to get call graph node with name "${name}"`);
+
+    return nodes[0];
+}
+
+function getContract(unit: SourceUnit, name: string): ContractDefinition {
+    const contract = unit.vContracts.find((candidate) => candidate.name === name);
+
+    assert(contract !== undefined, `Unable to get contract with name "${name}"`);
+
+    return contract;
+}
+
+function describeEdges(edges: CallGraphEdge[]): Array<[string, string]> {
+    return edges.map((edge) => [getCallGraphNodeName(edge.callee), edge.kind]);
+}
+
+describe("buildCallGraph()", () => {
+    for (const kind of PossibleCompilerKinds) {
+        describe(`[${kind}] ${sample}`, () => {
+            let unit: SourceUnit;
+            let graph: CallGraph;
+
+            before(async () => {
+                const { data } = await compileSol(
+                    sample,
+                    "auto",
+                    [],
+                    undefined,
+                    undefined,
+                    kind as CompilerKind
+                );
+
+                expect(detectCompileErrors(data)).toHaveLength(0);
+
+                const units = new ASTReader().read(data);
+
+                expect(units.length).toEqual(1);
+
+                unit = units[0];
+                graph = buildCallGraph(units);
+            });
+
+            it("Virtual dispatch depends on the most-derived contract", () => {
+                const update = getNode(graph, "Base.update");
+
+                expect(describeEdges(graph.getCallees(update, getContract(unit, "Base")))).toEqual([
+                    ["Owned.onlyOwner", CallKind.Modifier],
+                    ["Base.hook", CallKind.Internal]
+                ]);
+
+                expect(describeEdges(graph.getCallees(update, getContract(unit, "Child")))).toEqual(
+                    [
+                        ["Child.onlyOwner", CallKind.Modifier],
+                        ["Child.hook", CallKind.Internal]
+                    ]
+                );
+
+                expect(graph.getCallees(update)).toHaveLength(4);
+            });
+
+            it("Super, library and external calls", () => {
+                const hook = getNode(graph, "Child.hook");
+
+                expect(describeEdges(graph.getCallees(hook))).toEqual([
+                    ["Base.hook", CallKind.Super],
+                    ["Math.twice", CallKind.Library],
+                    ["Math.inc", CallKind.Library]
+                ]);
+
+                expect(describeEdges(graph.getCallees(getNode(graph, "Child.query")))).toEqual([
+                    ["IToken.balanceOf", CallKind.External],
+                    ["Owned.owner", CallKind.External]
+                ]);
+
+                expect(describeEdges(graph.getCallees(getNode(graph, "Math.twice")))).toEqual([
+                    ["Math.inc", CallKind.Internal],
+                    ["Math.inc", CallKind.Internal]
+                ]);
+            });
+
+            it("Explicitly bound calls and contract creation", () => {
+                const spawn = getNode(graph, "Child.spawn");
+
+                expect(describeEdges(graph.getCallees(spawn))).toEqual([
+                    ["Base.hook", CallKind.Internal],
+                    ["Base.constructor", CallKind.Creation]
+                ]);
+            });
+
+            it("Base constructor calls and state variable initializers", () => {
+                const constructor = getNode(graph, "Base.constructor");
+                const edges = graph.getCallees(constructor, getContract(unit, "Base"));
+
+                expect(describeEdges(edges)).toEqual([
+                    ["Owned.constructor", CallKind.BaseConstructor],
+                    ["Owned.constructor", CallKind.BaseConstructor],
+                    ["double", CallKind.Internal]
+                ]);
+
+                expect(edges[0].callSite).toBeInstanceOf(InheritanceSpecifier);
+                expect(edges[1].callSite).toBeInstanceOf(ModifierInvocation);
+
+                const child = getNode(graph, "Child");
+
+                expect(child).toBeInstanceOf(ContractDefinition);
+                expect(describeEdges(graph.getCallees(child))).toEqual([
+                    ["Base.constructor", CallKind.BaseConstructor]
+                ]);
+
+                expect(graph.getCallers(getNode(graph, "double"))).toHaveLength(2);
+            });
+
+            it("Edges are annotated with call sites", () => {
+                for (const edge of graph.edges) {
+                    expect(graph.getEdgesAt(edge.callSite)).toContain(edge);
+
+                    if (edge.callSite instanceof ModifierInvocation) {
+                        expect(edge.caller).toBe(edge.callSite.parent);
+                    }
+                }
+            });
+
+            it("JSON and DOT export", () => {
+                const json = JSON.parse(JSON.stringify(graph));
+
+                expect(json.nodes).toHaveLength(graph.nodes.length);
+                expect(json.edges).toHaveLength(graph.edges.length);
+
+                const edge = graph.edges[0];
+
+                expect(json.edges[0]).toEqual({
+                    caller: edge.caller.id,
+                    callee: edge.callee.id,
+                    kind: edge.kind,
+                    callSite: edge.callSite.id,
+                    contract: edge.contract ? edge.contract.id : null
+                });
+
+                const dot = graph.toDot();
+                const hook = getNode(graph, "Child.hook");
+                const superHook = getNode(graph, "Base.hook");
+
+                expect(dot.startsWith("digraph CallGraph {")).toBeTruthy();
+                expect(dot).toContain(`N${hook.id} [label="Child.hook"];`);
+                expect(dot).toContain(`N${hook.id} -> N${superHook.id} [label="super"];`);
+            });
+        });
+    }
+
+    for (const kind of PossibleCompilerKinds) {
+        describe(`[${kind}] ${storageSample}`, () => {
+            let unit: SourceUnit;
+            let graph: CallGraph;
+
+            before(async () => {
+                const { data } = await compileSol(
+                    storageSample,
+                    "auto",
+                    [],
+                    undefined,
+                    undefined,
+                    kind as CompilerKind
+                );
+
+                expect(detectCompileErrors(data)).toHaveLength(0);
+
+                const units = new ASTReader().read(data);
+
+                unit = units[0];
+                graph = buildCallGraph(units);
+            });
+
+            it("Functions with mapping parameters are resolved", () => {
+                const deposit = getNode(graph, "Ledger.deposit");
+
+                expect(
+                    describeEdges(graph.getCallees(deposit, getContract(unit, "Ledger")))
+                ).toEqual([["Ledger.credit", CallKind.Internal]]);
+
+                expect(describeEdges(graph.getCallees(deposit, getContract(unit, "Bank")))).toEqual(
+                    [["Bank.credit", CallKind.Internal]]
+                );
+
+                expect(describeEdges(graph.getCallees(getNode(graph, "Bank.credit")))).toEqual([
+                    ["Ledger.credit", CallKind.Super]
+                ]);
+            });
+        });
+    }
+});
@@ -0,0 +1,234 @@
+import expect from "expect";
+import {
+    assert,
+    ASTReader,
+    BasicBlock,
+    BinaryOperation,
+    Block,
+    Break,
+    buildCFG,
+    CFGEdgeKind,
+    CompilerKind,
+    compileSol,
+    Conditional,
+    Continue,
+    detectCompileErrors,
+    ExpressionStatement,
+    ForStatement,
+    FunctionDefinition,
+    PossibleCompilerKinds,
+    Return,
+    SourceUnit,
+    TryStatement,
+    UncheckedBlock,
+    WhileStatement
+} from "../../../src";
+
+const sample = "./test/samples/solidity/analysis/cfg.sol";
+
+function getFunction(unit: SourceUnit, name: string): FunctionDefinition {
+    const fns = unit.getChildrenBySelector<FunctionDefinition>(
+        (node) => node instanceof FunctionDefinition && node.name === name
+    );
+
+    assert(fns.length === 1, `Unable to get function with name "${name}"`);
+
+    return fns[0];
+}
+
+function successorKinds(block: BasicBlock): CFGEdgeKind[] {
+    return block.successors.map((edge) => edge.kind);
+}
+
+describe("buildCFG()", () => {
+    for (const kind of PossibleCompilerKinds) {
+        describe(`[${kind}] ${sample}`, () => {
+            let unit: SourceUnit;
+
+            before(async () => {
+                const { data } = await compileSol(
+                    sample,
+                    "auto",
+                    [],
+                    undefined,
+                    undefined,
+                    kind as CompilerKind
+                );
+
+                expect(detectCompileErrors(data)).toHaveLength(0);
+
+                const units = new ASTReader().read(data);
+
+                expect(units.length).toEqual(1);
+
+                unit = units[0];
+            });
+
+            it("If statements and returns", () => {
+                const cfg = buildCFG(getFunction(unit, "branches"));
+
+                expect(successorKinds(cfg.entry)).toEqual([CFGEdgeKind.True, CFGEdgeKind.False]);
+
+                const returns = cfg.exit.predecessors;
+
+                expect(returns.map((edge) => edge.kind)).toEqual([
+                    CFGEdgeKind.Return,
+                    CFGEdgeKind.Return
+                ]);
+
+                for (const edge of returns) {
+                    expect(edge.from.nodes[edge.from.nodes.length - 1]).toBeInstanceOf(Return);
+                }
+
+                expect(cfg.revert.predecessors).toHaveLength(0);
+            });
+
+            it("Loops with break and continue", () => {
+                const fn = getFunction(unit, "loops");
+                const cfg = buildCFG(fn);
+
+                const forStmt = fn.getChildrenByType(ForStatement)[0];
+                const whileStmt = fn.getChildrenByType(WhileStatement)[0];
+                const continueStmt = fn.getChildrenByType(Continue)[0];
+                const breakStmt = fn.getChildrenByType(Break)[0];
+
+                const [header] = cfg.getBlocksOf(forStmt);
+                const [continueBlock] = cfg.getBlocksOf(continueStmt);
+                const [breakBlock] = cfg.getBlocksOf(breakStmt);
+                const [latch] = cfg.getBlocksOf(forStmt.vLoopExpression as ExpressionStatement);
+
+                expect(continueBlock.successors).toEqual([
+                    { from: continueBlock, to: latch, kind: CFGEdgeKind.Continue }
+                ]);
+
+                expect(latch.successors.map((edge) => edge.to)).toEqual([header]);
+
+                const [afterFor] = breakBlock.successors.map((edge) => edge.to);
+
+                expect(successorKinds(breakBlock)).toEqual([CFGEdgeKind.Break]);
+                expect(afterFor.predecessors.map((edge) => edge.from)).toContain(header);
+                expect(afterFor.successors.map((edge) => edge.to)).toEqual(
+                    cfg.getBlocksOf(whileStmt)
+                );
+
+                expect(cfg.exit.predecessors).toHaveLength(1);
+            });
+
+            it("Short-circuit operators and conditionals", () => {
+                const fn = getFunction(unit, "shortCircuit");
+                const cfg = buildCFG(fn);
+
+                const and = fn.getChildrenBySelector<BinaryOperation>(
+                    (node) => node instanceof BinaryOperation && node.operator === "&&"
+                )[0];
+
+                const [leftBlock] = cfg.getBlocksOf(and.vLeftExpression);
+
+                expect(leftBlock).toBe(cfg.entry);
+                expect(successorKinds(leftBlock).sort()).toEqual([
+                    CFGEdgeKind.False,
+                    CFGEdgeKind.True
+                ]);
+
+                const [andBlock] = cfg.getBlocksOf(and);
+
+                expect(andBlock.predecessors.length).toEqual(2);
+
+                const conditional = fn.getChildrenByType(Conditional)[0];
+                const [conditionBlock] = cfg.getBlocksOf(conditional.vCondition);
+                const [joinBlock] = cfg.getBlocksOf(conditional);
+
+                expect(conditionBlock).toBe(andBlock);
+                expect(successorKinds(conditionBlock)).toEqual([
+                    CFGEdgeKind.True,
+                    CFGEdgeKind.False
+                ]);
+
+                expect(joinBlock.predecessors).toHaveLength(2);
+                expect(joinBlock.nodes).toEqual([conditional, conditional.parent]);
+            });
+
+            it("Reverts and unchecked blocks", () => {
+                const fn = getFunction(unit, "failures");
+                const cfg = buildCFG(fn);
+
+                expect(cfg.revert.predecessors.map((edge) => edge.kind)).toEqual([
+                    CFGEdgeKind.Revert,
+                    CFGEdgeKind.Revert
+                ]);
+
+                const unchecked = fn.getChildrenByType(UncheckedBlock)[0];
+                const [uncheckedBlock] = cfg.getBlocksOf(unchecked.vStatements[0]);
+
+                expect(uncheckedBlock.unchecked).toEqual(true);
+                expect(uncheckedBlock.nodes).toEqual(unchecked.vStatements);
+                expect(uncheckedBlock.successors.map((edge) => edge.to.unchecked)).toEqual([false]);
+            });
+
+            it("Try-catch statements", () => {
+                const full = buildCFG(getFunction(unit, "tryCatch"));
+
+                expect(successorKinds(full.entry)).toEqual([
+                    CFGEdgeKind.TrySuccess,
+                    CFGEdgeKind.TryCatch,
+                    CFGEdgeKind.TryCatch
+                ]);
+
+                expect(full.revert.predecessors).toHaveLength(0);
+
+                const fn = getFunction(unit, "tryPartial");
+                const partial = buildCFG(fn);
+                const [tryBlock] = partial.getBlocksOf(fn.getChildrenByType(TryStatement)[0]);
+
+                expect(successorKinds(tryBlock)).toEqual([
+                    CFGEdgeKind.TrySuccess,
+                    CFGEdgeKind.TryCatch,
+                    CFGEdgeKind.Revert
+                ]);
+            });
+
+            it("Modifier inlining", () => {
+                const fn = getFunction(unit, "modified");
+                const body = (fn.vBody as Block).vStatements[0];
+
+                const plain = buildCFG(fn);
+
+                expect(plain.getBlocksOf(body)).toHaveLength(1);
+                expect(plain.blocks).toHaveLength(3);
+
+                const inlined = buildCFG(fn, { inlineModifiers: true });
+
+                /**
+                 * Modifier `twice` has two placeholders,
+                 * so the function body is spliced in twice
+                 */
+                expect(inlined.getBlocksOf(body)).toHaveLength(2);
+                expect(inlined.getBlocksOf(fn.vModifiers[0])).toEqual([inlined.entry]);
+                expect(inlined.getBlocksOf(fn.vModifiers[1])).toHaveLength(2);
+
+                /**
+                 * Early return in the overriding `guarded` modifier
+                 * continues execution after the placeholder of `twice`
+                 */
+                const returnEdges = inlined.edges.filter(
+                    (edge) => edge.kind === CFGEdgeKind.Return
+                );
+
+                expect(returnEdges).toHaveLength(2);
+                expect(returnEdges[0].to.nodes[0]).toBe(
+                    inlined.getBlocksOf(fn.vModifiers[1])[1].nodes[0]
+                );
+            });
+
+            it("DOT export", () => {
+                const cfg = buildCFG(getFunction(unit, "branches"));
+                const dot = cfg.toDot((node) => node.type);
+
+                expect(dot.startsWith('digraph "branches" {')).toBeTruthy();
+                expect(dot).toContain('B0 [label="B0 (entry)\\lIfStatement\\l"];');
+                expect(dot).toContain('B0 -> B3 [label="true"];');
+                expect(dot.split("->")).toHaveLength(cfg.edges.length + 1);
+            });
+        });
+    }
+});
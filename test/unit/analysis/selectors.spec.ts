@@ -0,0 +1,142 @@
+import expect from "expect";
+import {
+    ASTReader,
+    checkSelectors,
+    CompilerKind,
+    compileSol,
+    ContractDefinition,
+    detectCompileErrors,
+    FunctionDefinition,
+    PossibleCompilerKinds,
+    SelectorCheckOutputs,
+    SelectorMismatchKind,
+    SolcOutput,
+    SourceUnit,
+    VariableDeclaration
+} from "../../../src";
+import { ABIEncoderVersion } from "../../../src/types/abi";
+
+const sample = "./test/samples/solidity/analysis/abi.sol";
+
+describe("checkSelectors()", () => {
+    for (const kind of PossibleCompilerKinds) {
+        describe(`[${kind}] ${sample}`, () => {
+            let data: SolcOutput;
+            let units: SourceUnit[];
+            let compilerVersion: string;
+
+            /**
+             * Returns copy of the compiler output with modified method identifiers of the contract
+             */
+            const patch = (
+                contract: string,
+                modify: (identifiers: { [signature: string]: string }) => void
+            ): SolcOutput => {
+                const result: SolcOutput = JSON.parse(JSON.stringify(data));
+                const output = (result.contracts as any)[units[0].sourceEntryKey][contract];
+
+                modify(output.evm.methodIdentifiers);
+
+                return result;
+            };
+
+            before(async () => {
+                const result = await compileSol(
+                    sample,
+                    "auto",
+                    [],
+                    SelectorCheckOutputs,
+                    undefined,
+                    kind as CompilerKind
+                );
+
+                data = result.data;
+                compilerVersion = result.compilerVersion as string;
+
+                expect(detectCompileErrors(data)).toHaveLength(0);
+
+                units = new ASTReader().read(data);
+            });
+
+            it("Computed selectors match compiler output", () => {
+                expect(checkSelectors(units, data, compilerVersion)).toEqual([]);
+            });
+
+            it("Different selectors are reported", () => {
+                const patched = patch("Token", (identifiers) => {
+                    identifiers["balanceOf(address)"] = "00000000";
+                });
+
+                const mismatches = checkSelectors(units, patched, compilerVersion);
+
+                expect(mismatches).toHaveLength(1);
+
+                const [mismatch] = mismatches;
+
+                expect(mismatch.kind).toEqual(SelectorMismatchKind.Selector);
+                expect(mismatch.contract.name).toEqual("Token");
+                expect(mismatch.node).toBeInstanceOf(FunctionDefinition);
+                expect((mismatch.node.vScope as ContractDefinition).name).toEqual("Token");
+                expect(mismatch.encoderVersion).toEqual(ABIEncoderVersion.V2);
+                expect(mismatch.computed).toEqual("70a08231");
+                expect(mismatch.expected).toEqual("00000000");
+                expect(mismatch.message).toEqual(
+                    "Selector of balanceOf(address) of function Token.balanceOf is 70a08231 instead of 00000000 for Token"
+                );
+            });
+
+            it("Different signatures are reported", () => {
+                const patched = patch("Token", (identifiers) => {
+                    identifiers["total(uint128)"] = identifiers["total()"];
+                    identifiers["extra()"] = "12345678";
+
+                    delete identifiers["total()"];
+                });
+
+                const mismatches = checkSelectors(units, patched, compilerVersion);
+
+                expect(
+                    mismatches.map((mismatch) => [
+                        mismatch.kind,
+                        mismatch.signature,
+                        mismatch.expectedSignature
+                    ])
+                ).toEqual([
+                    [SelectorMismatchKind.Signature, "total()", "total(uint128)"],
+                    [SelectorMismatchKind.Missing, "extra()", undefined]
+                ]);
+
+                expect(mismatches[0].node).toBeInstanceOf(VariableDeclaration);
+                expect(mismatches[0].message).toEqual(
+                    "Signature total() of getter of Token.total is not reported by the compiler for Token (compiler reports total(uint128))"
+                );
+
+                expect(mismatches[1].node).toBe(mismatches[1].contract);
+                expect(mismatches[1].expected).toEqual("12345678");
+            });
+
+            it("Different interface ids are reported", () => {
+                const patched = patch("IToken", (identifiers) => {
+                    identifiers["total()"] = "00000000";
+                });
+
+                const mismatches = checkSelectors(units, patched, compilerVersion);
+
+                expect(mismatches.map((mismatch) => mismatch.kind)).toEqual([
+                    SelectorMismatchKind.Selector,
+                    SelectorMismatchKind.InterfaceId
+                ]);
+
+                const [, mismatch] = mismatches;
+
+                expect(mismatch.node).toBeInstanceOf(ContractDefinition);
+                expect(mismatch.computed).toEqual("5d7b530b");
+                expect(mismatch.expected).toEqual("70a08231");
+            });
+
+            it("Contracts without compiler output are skipped", () => {
+                expect(checkSelectors(units, {}, compilerVersion)).toEqual([]);
+            });
+        });
+    }
+});
@@ -0,0 +1,97 @@
+import expect from "expect";
+import {
+    ASTNodeFactory,
+    ASTReader,
+    CompilationOutput,
+    CompilerKind,
+    compileSol,
+    ContractDefinition,
+    DataLocation,
+    detectCompileErrors,
+    getStorageLayout,
+    Mutability,
+    PossibleCompilerKinds,
+    SourceUnit,
+    StateVariableVisibility
+} from "../../../src";
+
+const sample = "./test/samples/solidity/analysis/storage_layout.sol";
+
+describe("getStorageLayout()", () => {
+    for (const kind of PossibleCompilerKinds) {
+        describe(`[${kind}] ${sample}`, () => {
+            let data: any;
+            let unit: SourceUnit;
+
+            before(async () => {
+                const result = await compileSol(
+                    sample,
+                    "auto",
+                    [],
+                    [CompilationOutput.AST, CompilationOutput.STORAGE_LAYOUT],
+                    undefined,
+                    kind as CompilerKind
+                );
+
+                data = result.data;
+
+                expect(detectCompileErrors(data)).toHaveLength(0);
+
+                const units = new ASTReader().read(data);
+
+                expect(units.length).toEqual(1);
+
+                unit = units[0];
+            });
+
+            for (const name of ["IToken", "Base", "Layout", "Nested"]) {
+                it(`Layout of ${name} matches compiler output`, () => {
+                    const contract = unit.vContracts.find(
+                        (candidate) => candidate.name === name
+                    ) as ContractDefinition;
+
+                    const expected = data.contracts[unit.sourceEntryKey][name].storageLayout;
+
+                    expect(getStorageLayout(contract)).toEqual(expected);
+                });
+            }
+
+            it("Layout reflects state variables, added by ASTNodeFactory", () => {
+                const contract = unit.vContracts.find(
+                    (candidate) => candidate.name === "Base"
+                ) as ContractDefinition;
+
+                const factory = new ASTNodeFactory(contract.requiredContext);
+                const type = factory.makeElementaryTypeName("uint32", "uint32");
+                const variable = factory.makeVariableDeclaration(
+                    false,
+                    false,
+                    "added",
+                    contract.id,
+                    true,
+                    DataLocation.Default,
+                    StateVariableVisibility.Internal,
+                    Mutability.Mutable,
+                    type.typeString,
+                    undefined,
+                    type
+                );
+
+                contract.insertBefore(variable, contract.vStateVariables[0]);
+
+                const layout = getStorageLayout(contract);
+
+                expect(
+                    layout.storage.map((entry) => [entry.label, entry.slot, entry.offset])
+                ).toEqual([
+                    ["added", "0", 0],
+                    ["a", "0", 4],
+                    ["b", "0", 5],
+                    ["owner", "0", 6]
+                ]);
+
+                contract.removeChild(variable);
+            });
+        });
+    }
+});
@@ -0,0 +1,211 @@
+import expect from "expect";
+import fse from "fs-extra";
+import * as path from "path";
+import {
+    assert,
+    ASTReader,
+    checkStorageUpgrade,
+    CompilerKind,
+    compileSol,
+    ContractDefinition,
+    detectCompileErrors,
+    PossibleCompilerKinds,
+    SourceUnit,
+    StorageIssue,
+    StorageIssueKind
+} from "../../../src";
+
+const samples = {
+    old: "./test/samples/solidity/analysis/upgrade/v1.sol",
+    new: "./test/samples/solidity/analysis/upgrade/v2.sol"
+};
+
+const collisionSamples = {
+    old: "./test/samples/solidity/analysis/upgrade/collision/v1.sol",
+    new: "./test/samples/solidity/analysis/upgrade/collision/v2.sol"
+};
+
+function getContract(unit: SourceUnit, name: string): ContractDefinition {
+    const contract = unit.vContracts.find((candidate) => candidate.name === name);
+
+    assert(contract !== undefined, `Unable to get contract with name "${name}"`);
+
+    return contract;
+}
+
+function describeIssues(issues: StorageIssue[]): Array<[StorageIssueKind, string]> {
+    return issues.map((issue) => [issue.kind, issue.old.declaration.name]);
+}
+
+describe("checkStorageUpgrade()", () => {
+    for (const kind of PossibleCompilerKinds) {
+        describe(`[${kind}] ${samples.old} -> ${samples.new}`, () => {
+            let oldUnit: SourceUnit;
+            let newUnit: SourceUnit;
+            let oldFiles: Map<string, string>;
+            let newFiles: Map<string, string>;
+
+            before(async () => {
+                const units: SourceUnit[] = [];
+
+                for (const sample of [samples.old, samples.new]) {
+                    const { data } = await compileSol(
+                        sample,
+                        "auto",
+                        [],
+                        undefined,
+                        undefined,
+                        kind as CompilerKind
+                    );
+
+                    expect(detectCompileErrors(data)).toHaveLength(0);
+
+                    units.push(...new ASTReader().read(data));
+                }
+
+                expect(units.length).toEqual(2);
+
+                [oldUnit, newUnit] = units;
+
+                oldFiles = new Map([[samples.old, fse.readFileSync(samples.old, "utf-8")]]);
+                newFiles = new Map([[samples.new, fse.readFileSync(samples.new, "utf-8")]]);
+            });
+
+            it("Same version is compatible", () => {
+                const contract = getContract(oldUnit, "Token");
+
+                expect(checkStorageUpgrade(contract, contract)).toHaveLength(0);
+            });
+
+            it("Reordered, removed, retyped variables and shrunk gaps are reported", () => {
+                const issues = checkStorageUpgrade(
+                    getContract(oldUnit, "Storage"),
+                    getContract(newUnit, "Storage")
+                );
+
+                expect(describeIssues(issues)).toEqual([
+                    [StorageIssueKind.Reordered, "a"],
+                    [StorageIssueKind.Reordered, "b"],
+                    [StorageIssueKind.TypeChanged, "balances"],
+                    [StorageIssueKind.Removed, "legacy"],
+                    [StorageIssueKind.Reordered, "counter"],
+                    [StorageIssueKind.Reordered, "paused"],
+                    [StorageIssueKind.GapShrunk, "__gap"]
+                ]);
+
+                expect(issues[2].message).toEqual(
+                    'Type of state variable Storage.balances is changed from "mapping(address => uint256)" to "mapping(address => uint128)"'
+                );
+
+                expect(issues[3].new).toBeUndefined();
+            });
+
+            it("Base contracts, inserted before existing ones, are reported", () => {
+                const issues = checkStorageUpgrade(
+                    getContract(oldUnit, "Token"),
+                    getContract(newUnit, "Token")
+                );
+
+                expect(issues[0].kind).toEqual(StorageIssueKind.BaseInserted);
+                expect(issues[0].message).toEqual(
+                    "State variable Ownable.owner is shifted to slot 0 offset 1 instead of slot 0 offset 0 by inserted base contracts: Pausable"
+                );
+
+                expect(
+                    issues.every((issue) => issue.kind !== StorageIssueKind.Reordered)
+                ).toBeTruthy();
+            });
+
+            it("Grown gaps are reported", () => {
+                const issues = checkStorageUpgrade(
+                    getContract(oldUnit, "Vault"),
+                    getContract(newUnit, "Vault")
+                );
+
+                expect(describeIssues(issues)).toEqual([[StorageIssueKind.GapGrown, "__gap"]]);
+                expect(issues[0].message).toEqual(
+                    "Storage gap Vault.__gap grows from 10 to 12 slots"
+                );
+            });
+
+            it("Issues point to declarations of both versions", () => {
+                const [issue] = checkStorageUpgrade(
+                    getContract(oldUnit, "Storage"),
+                    getContract(newUnit, "Storage"),
+                    oldFiles,
+                    newFiles
+                );
+
+                assert(issue.new !== undefined, "Expected new declaration to be reported");
+
+                expect(issue.old.declaration.vScope).toBe(getContract(oldUnit, "Storage"));
+                expect(issue.new.declaration.vScope).toBe(getContract(newUnit, "Storage"));
+
+                expect(issue.old.location.fileName).toEqual(samples.old);
+                expect(issue.old.coordinates.start).toEqual({ line: 8, column: 4 });
+
+                expect(issue.new.location.fileName).toEqual(samples.new);
+                expect(issue.new.coordinates.start).toEqual({ line: 13, column: 4 });
+            });
+        });
+
+        describe(`[${kind}] ${collisionSamples.old} -> ${collisionSamples.new}`, () => {
+            let oldMain: ContractDefinition;
+            let newMain: ContractDefinition;
+
+            before(async () => {
+                const contracts: ContractDefinition[] = [];
+
+                for (const sample of [collisionSamples.old, collisionSamples.new]) {
+                    const { data } = await compileSol(
+                        sample,
+                        "auto",
+                        [],
+                        undefined,
+                        undefined,
+                        kind as CompilerKind
+                    );
+
+                    expect(detectCompileErrors(data)).toHaveLength(0);
+
+                    const units = new ASTReader().read(data);
+                    const unit = units.find((candidate) =>
+                        candidate.vContracts.some((contract) => contract.name === "Main")
+                    );
+
+                    assert(unit !== undefined, `Unable to get source unit of "${sample}"`);
+
+                    contracts.push(getContract(unit, "Main"));
+                }
+
+                [oldMain, newMain] = contracts;
+            });
+
+            it("Bases with the same name from different units are not confused", () => {
+                expect(checkStorageUpgrade(oldMain, oldMain)).toHaveLength(0);
+            });
+
+            it("Reordered bases with the same name are reported", () => {
+                const issues = checkStorageUpgrade(oldMain, newMain);
+
+                expect(describeIssues(issues)).toEqual([
+                    [StorageIssueKind.Reordered, "value"],
+                    [StorageIssueKind.Reordered, "value"]
+                ]);
+
+                expect(
+                    issues.map((issue) => [
+                        path.basename(
+                            (issue.old.declaration.vScope as ContractDefinition).vScope.absolutePath
+                        ),
+                        issue.old.slot,
+                        issue.new && issue.new.slot
+                    ])
+                ).toEqual([
+                    ["base_a.sol", "0", "1"],
+                    ["base_b.sol", "1", "0"]
+                ]);
+            });
+        });
+    }
+});
@@ -0,0 +1,132 @@
+import expect from "expect";
+import {
+    ASTReader,
+    CompilationOutput,
+    CompileResult,
+    CompilerKind,
+    compileSol,
+    ContractDefinition,
+    createVerificationInput,
+    detectCompileErrors,
+    getCompilerForVersion,
+    getImportClosure,
+    SourceUnit,
+    VerificationOutputs
+} from "../../../src";
+
+const dir = "test/samples/solidity/analysis/verification";
+const sample = `${dir}/main.sol`;
+const remappings = [`@lib/=${dir}/lib/`];
+const library = "0x00000000000000000000000000000000000000aa";
+
+const settings = {
+    optimizer: { enabled: true, runs: 1000 },
+    evmVersion: "london",
+    libraries: { [`${dir}/lib/math.sol`]: { Registry: library } },
+    modelChecker: { engine: "none" }
+};
+
+describe("createVerificationInput()", () => {
+    let result: CompileResult;
+    let units: SourceUnit[];
+
+    const getContract = (name: string): ContractDefinition => {
+        for (const unit of units) {
+            const contract = unit.vContracts.find((candidate) => candidate.name === name);
+
+            if (contract) {
+                return contract;
+            }
+        }
+
+        throw new Error(`Unable to find contract "${name}"`);
+    };
+
+    before(async () => {
+        result = await compileSol(
+            sample,
+            "auto",
+            remappings,
+            [CompilationOutput.AST, ...VerificationOutputs],
+            settings,
+            CompilerKind.WASM
+        );
+
+        expect(detectCompileErrors(result.data)).toHaveLength(0);
+
+        units = new ASTReader().read(result.data);
+    });
+
+    it("getImportClosure() returns imported units", () => {
+        const names = (contract: string) =>
+            getImportClosure(getContract(contract)).map((unit) => unit.sourceEntryKey);
+
+        expect(names("Main")).toEqual([sample, `${dir}/lib/math.sol`, `${dir}/token.sol`]);
+        expect(names("Token")).toEqual([`${dir}/token.sol`]);
+    });
+
+    it("Input contains only the import closure and the bytecode-related settings", () => {
+        const verification = createVerificationInput(
+            getContract("Token"),
+            result.files,
+            result.compilerVersion as string,
+            remappings,
+            settings
+        );
+
+        expect(verification.compilerVersion).toEqual("0.8.12");
+        expect(verification.contractName).toEqual(`${dir}/token.sol:Token`);
+
+        const { input } = verification;
+
+        expect(Object.keys(input.sources)).toEqual([`${dir}/token.sol`]);
+        expect(input.sources[`${dir}/token.sol`].content).toEqual(
+            result.files.get(`${dir}/token.sol`)
+        );
+
+        expect(input.settings.remappings).toEqual(remappings);
+        expect(input.settings.optimizer).toEqual(settings.optimizer);
+        expect(input.settings.evmVersion).toEqual("london");
+        expect(input.settings.libraries).toEqual(settings.libraries);
+        expect(input.settings.modelChecker).toBeUndefined();
+    });
+
+    for (const name of ["Main", "Token", "Registry"]) {
+        it(`Input of ${name} compiles to the same bytecode`, async () => {
+            const contract = getContract(name);
+            const { input } = createVerificationInput(
+                contract,
+                result.files,
+                result.compilerVersion as string,
+                remappings,
+                settings
+            );
+
+            const compiler = await getCompilerForVersion("0.8.12", CompilerKind.WASM);
+
+            if (compiler === undefined) {
+                throw new Error("Compiler is expected");
+            }
+
+            const data = await compiler.compile(input);
+
+            expect(detectCompileErrors(data)).toHaveLength(0);
+
+            const fileName = contract.vScope.sourceEntryKey;
+            const original = (result.data.contracts as any)[fileName][name];
+            const reproduced = data.contracts[fileName][name];
+
+            expect(reproduced.metadata).toEqual(original.metadata);
+            expect(reproduced.evm.bytecode.object).toEqual(original.evm.bytecode.object);
+            expect(reproduced.evm.deployedBytecode.object).toEqual(
+                original.evm.deployedBytecode.object
+            );
+        });
+    }
+
+    it("Missing sources are reported", () => {
+        expect(() =>
+            createVerificationInput(getContract("Token"), new Map(), "0.8.12", remappings)
+        ).toThrow(`Unable to find contents of the source "${dir}/token.sol"`);
+    });
+});
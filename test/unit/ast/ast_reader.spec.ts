@@ -1,5 +1,15 @@
 import expect from "expect";
-import { ASTContext, ASTNode, ASTReader } from "../../../src";
+import {
+    ASTContext,
+    ASTNode,
+    ASTReader,
+    ContractDefinition,
+    Identifier,
+    ImportDirective,
+    readFoundryOutDir,
+    shiftRawIds,
+    SourceUnit
+} from "../../../src";
 import { ModernConfiguration } from "../../../src/ast/modern/configuration";
 
 describe("ASTContext", () => {
@@ -99,3 +109,86 @@ describe("ASTReader", () => {
         });
     });
 });
+
+describe("shiftRawIds()", () => {
+    it("Outputs of different compilations are read into the same context", () => {
+        const { data, files } = readFoundryOutDir("test/samples/projects/foundry/out");
+        const reader = new ASTReader();
+
+        const first = reader.read(data, undefined, files);
+        const offset = reader.context.lastId;
+        const second = reader.read(
+            { ...data, sources: shiftRawIds(data.sources, offset) },
+            undefined,
+            files
+        );
+
+        expect(second.map((unit) => unit.id)).toEqual(first.map((unit) => unit.id + offset));
+        expect(reader.context.lastId).toEqual(offset * 2);
+
+        const units = new Set<SourceUnit>(second);
+        const inSecond = (node: ASTNode) =>
+            units.has(node.getClosestParentByType(SourceUnit) as SourceUnit);
+
+        for (const unit of second) {
+            for (const contract of unit.getChildrenByType(ContractDefinition)) {
+                expect(contract.scope).toEqual(unit.id);
+                expect(contract.vLinearizedBaseContracts.every(inSecond)).toEqual(true);
+            }
+
+            for (const id of unit.getChildrenByType(Identifier)) {
+                const original = reader.context.locate(id.id - offset) as Identifier;
+
+                if (["msg", "require"].includes(id.name)) {
+                    expect(id.raw.referencedDeclaration).toEqual(
+                        original.raw.referencedDeclaration
+                    );
+                } else if (id.vReferencedDeclaration !== undefined) {
+                    expect(inSecond(id.vReferencedDeclaration)).toEqual(true);
+                } else {
+                    expect(id.raw.referencedDeclaration).toEqual(
+                        original.raw.referencedDeclaration + offset
+                    );
+                }
+            }
+
+            for (const directive of unit.getChildrenByType(ImportDirective)) {
+                /**
+                 * Units without contracts have no Foundry artifacts
+                 */
+                const imported = reader.context.locate(directive.sourceUnit);
+
+                expect(imported === undefined || units.has(imported as SourceUnit)).toEqual(true);
+                expect(directive.sourceUnit).toBeGreaterThan(offset);
+            }
+
+            for (const ids of unit.exportedSymbols.values()) {
+                expect(ids).toBeGreaterThan(offset);
+            }
+        }
+    });
+
+    it("Original data is not modified", () => {
+        const raw = {
+            id: 1,
+            exportedSymbols: { A: [3] },
+            nodes: [{ id: 2, referencedDeclaration: -15, overloadedDeclarations: [3], scope: 1 }]
+        };
+
+        expect(shiftRawIds(raw, 10)).toEqual({
+            id: 11,
+            exportedSymbols: { A: [13] },
+            nodes: [{ id: 12, referencedDeclaration: -15, overloadedDeclarations: [13], scope: 11 }]
+        });
+
+        expect(raw.id).toEqual(1);
+        expect(raw.exportedSymbols.A).toEqual([3]);
+        expect(raw.nodes[0].scope).toEqual(1);
+    });
+
+    it("Builtin ids are kept as is", () => {
+        expect(shiftRawIds({ referencedDeclaration: 4294967268 }, 10)).toEqual({
+            referencedDeclaration: 4294967268
+        });
+    });
+});
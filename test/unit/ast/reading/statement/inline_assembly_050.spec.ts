@@ -6,7 +6,12 @@ import {
     compileJson,
     FunctionDefinition,
     InlineAssembly,
-    SourceUnit
+    SourceUnit,
+    VariableDeclaration,
+    YulAssignment,
+    YulBlock,
+    YulFunctionCall,
+    YulIdentifier
 } from "../../../../../src";
 
 describe("InlineAssembly (Solc 0.5.0)", () => {
@@ -38,7 +43,7 @@ describe("InlineAssembly (Solc 0.5.0)", () => {
         expect(statements[0].src).toEqual("124:27:0");
         expect(statements[0].type).toEqual(InlineAssembly.name);
         expect((statements[0].parent as ASTNode).type).toEqual(Block.name);
-        expect(statements[0].children.length).toEqual(0);
+        expect(statements[0].children.length).toEqual(1);
         expect(statements[0].externalReferences.length).toEqual(2);
         expect(statements[0].operations).toEqual("{ y := add(x, 1) }");
     });
@@ -52,7 +57,7 @@ describe("InlineAssembly (Solc 0.5.0)", () => {
         expect(statements[0].src).toEqual("220:73:0");
         expect(statements[0].type).toEqual(InlineAssembly.name);
         expect((statements[0].parent as ASTNode).type).toEqual(Block.name);
-        expect(statements[0].children.length).toEqual(0);
+        expect(statements[0].children.length).toEqual(1);
         expect(statements[0].externalReferences.length).toEqual(2);
         expect(statements[0].operations).toEqual("{\n    let y := 100\n    x := sub(y, x)\n}");
     });
@@ -66,7 +71,7 @@ describe("InlineAssembly (Solc 0.5.0)", () => {
         expect(statements[0].src).toEqual("405:86:0");
         expect(statements[0].type).toEqual(InlineAssembly.name);
         expect((statements[0].parent as ASTNode).type).toEqual(Block.name);
-        expect(statements[0].children.length).toEqual(0);
+        expect(statements[0].children.length).toEqual(1);
         expect(statements[0].externalReferences.length).toEqual(4);
         expect(statements[0].operations).toEqual("{\n    x := sub(x, 1)\n    x := add(1, x)\n}");
 
@@ -74,10 +79,40 @@ describe("InlineAssembly (Solc 0.5.0)", () => {
         expect(statements[1].src).toEqual("511:100:0");
         expect(statements[1].type).toEqual(InlineAssembly.name);
         expect((statements[1].parent as ASTNode).type).toEqual(Block.name);
-        expect(statements[1].children.length).toEqual(0);
+        expect(statements[1].children.length).toEqual(1);
         expect(statements[1].externalReferences.length).toEqual(4);
         expect(statements[1].operations).toEqual(
             "{\n    let y := 200\n    a := add(x, y)\n    b := sub(x, y)\n}"
         );
     });
+
+    it(`Yul AST is parsed from operations and linked to external references`, () => {
+        const [statement] = funcs[0].getChildrenByType(InlineAssembly);
+        const yul = statement.yul as YulBlock;
+
+        expect(yul).toBeInstanceOf(YulBlock);
+        expect(yul.parent).toEqual(statement);
+        expect(yul.vStatements.length).toEqual(1);
+
+        const assignment = yul.vStatements[0] as YulAssignment;
+
+        expect(assignment).toBeInstanceOf(YulAssignment);
+
+        const [y] = assignment.vVariableNames;
+        const call = assignment.vValue as YulFunctionCall;
+        const x = call.vArguments[0] as YulIdentifier;
+
+        expect(call.vFunctionName.name).toEqual("add");
+        expect(call.vFunctionName.referencedDeclaration).toEqual(-1);
+
+        expect(y.name).toEqual("y");
+        expect(y.src).toEqual("135:1:0");
+        expect(y.vReferencedDeclaration).toBeInstanceOf(VariableDeclaration);
+        expect((y.vReferencedDeclaration as VariableDeclaration).name).toEqual("y");
+
+        expect(x.name).toEqual("x");
+        expect(x.src).toEqual("144:1:0");
+        expect(x.vReferencedDeclaration).toBeInstanceOf(VariableDeclaration);
+        expect((x.vReferencedDeclaration as VariableDeclaration).name).toEqual("x");
+    });
 });
@@ -0,0 +1,143 @@
+import expect from "expect";
+import {
+    ASTReader,
+    compileJson,
+    FunctionDefinition,
+    InlineAssembly,
+    SourceUnit,
+    VariableDeclaration,
+    YulAssignment,
+    YulBlock,
+    YulBreak,
+    YulCase,
+    YulContinue,
+    YulForLoop,
+    YulFunctionCall,
+    YulFunctionDefinition,
+    YulIdentifier,
+    YulIf,
+    YulLeave,
+    YulLiteral,
+    YulSwitch,
+    YulVariableDeclaration
+} from "../../../../../src";
+
+describe("InlineAssembly (Solc 0.8.0)", () => {
+    const sample = "test/samples/solidity/statements/inline_assembly_080.json";
+
+    let mainUnit: SourceUnit;
+    let funcs: FunctionDefinition[];
+
+    before(async () => {
+        const reader = new ASTReader();
+        const { data } = await compileJson(sample, "0.8.0");
+        const units = reader.read(data);
+
+        mainUnit = units[0];
+
+        funcs = mainUnit.getChildrenByType(FunctionDefinition);
+    });
+
+    it(`Detect all INLINE ASSEMBLY statements`, () => {
+        const statements = mainUnit.getChildrenByType(InlineAssembly);
+
+        expect(statements.length).toEqual(2);
+
+        for (const statement of statements) {
+            expect(statement.operations).toBeUndefined();
+            expect(statement.yul).toBeInstanceOf(YulBlock);
+            expect(statement.children).toEqual([statement.yul]);
+            expect((statement.yul as YulBlock).parent).toEqual(statement);
+        }
+    });
+
+    it(`Yul nodes receive unique ids`, () => {
+        const ids = new Set(mainUnit.getChildren().map((node) => node.id));
+
+        expect(ids.size).toEqual(mainUnit.getChildren().length);
+    });
+
+    it(`Check Yul AST in assemblyReadsState()`, () => {
+        const [statement] = funcs[0].getChildrenByType(InlineAssembly);
+        const yul = statement.yul as YulBlock;
+
+        expect(yul.vStatements.length).toEqual(26);
+
+        const [strDecl] = yul.vStatements as YulVariableDeclaration[];
+
+        expect(strDecl).toBeInstanceOf(YulVariableDeclaration);
+        expect(strDecl.vVariables.map((v) => v.name)).toEqual(["str"]);
+        expect(strDecl.vValue).toBeInstanceOf(YulLiteral);
+
+        const literal = strDecl.vValue as YulLiteral;
+
+        expect(literal.kind).toEqual("string");
+        expect(literal.value).toEqual("abc");
+
+        const balance = (yul.vStatements[1] as YulVariableDeclaration).vValue as YulFunctionCall;
+
+        expect(balance).toBeInstanceOf(YulFunctionCall);
+        expect(balance.vFunctionName.name).toEqual("balance");
+        expect(balance.vArguments.length).toEqual(1);
+        expect((balance.vArguments[0] as YulIdentifier).name).toEqual("addr");
+
+        const ifs = yul.getChildrenByType(YulIf);
+
+        expect(ifs.length).toEqual(1);
+
+        const defs = ifs[0].getChildrenByType(YulFunctionDefinition);
+
+        expect(defs.map((def) => def.name)).toEqual(["fn1", "fn2"]);
+        expect(defs[0].getChildrenByType(YulLeave).length).toEqual(1);
+        expect(defs[1].vParameters.map((p) => p.name)).toEqual(["arg1", "arg2"]);
+        expect(defs[1].vReturnVariables.map((p) => p.name)).toEqual(["ret1", "ret2"]);
+
+        const assignments = ifs[0].vBody.getChildrenByType(YulAssignment);
+
+        expect(assignments.length).toEqual(1);
+        expect(assignments[0].vVariableNames.map((v) => v.name)).toEqual(["v", "t"]);
+
+        const switches = yul.getChildrenByType(YulSwitch);
+
+        expect(switches.length).toEqual(3);
+        expect(switches.map((s) => s.vCases.map((c) => c.isDefault))).toEqual([
+            [false, true],
+            [false],
+            [true]
+        ]);
+
+        const firstCase = switches[0].vCases[0];
+
+        expect(firstCase).toBeInstanceOf(YulCase);
+        expect((firstCase.vValue as YulLiteral).kind).toEqual("bool");
+        expect((firstCase.vValue as YulLiteral).value).toEqual("false");
+
+        const loops = yul.getChildrenByType(YulForLoop);
+
+        expect(loops.length).toEqual(2);
+        expect(loops[0].vPre.vStatements.length).toEqual(1);
+        expect(loops[0].vCondition).toBeInstanceOf(YulFunctionCall);
+        expect(loops[0].getChildrenByType(YulContinue).length).toEqual(1);
+        expect(loops[0].getChildrenByType(YulBreak).length).toEqual(1);
+        expect(loops[1].vPre.vStatements.length).toEqual(0);
+        expect(loops[1].vPost.vStatements.length).toEqual(0);
+    });
+
+    it(`Yul identifiers are linked to external references`, () => {
+        for (const statement of mainUnit.getChildrenByType(InlineAssembly)) {
+            const refs = statement
+                .getChildrenByType(YulIdentifier)
+                .filter((identifier) => identifier.referencedDeclaration !== -1);
+
+            expect(refs.length).toEqual(statement.externalReferences.length);
+
+            for (const identifier of refs) {
+                const decl = identifier.vReferencedDeclaration as VariableDeclaration;
+
+                expect(decl).toBeInstanceOf(VariableDeclaration);
+                expect(decl.name).toEqual("addr");
+                expect(identifier.name).toEqual("addr");
+            }
+        }
+    });
+});
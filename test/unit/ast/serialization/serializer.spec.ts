@@ -0,0 +1,226 @@
+import expect from "expect";
+import fse from "fs-extra";
+import {
+    ASTContext,
+    ASTKind,
+    ASTNode,
+    ASTNodeFactory,
+    ASTReader,
+    ASTSerializer,
+    CompilerKind,
+    compileSol,
+    DefaultASTSerializerMapping,
+    detectCompileErrors,
+    LiteralKind,
+    SourceUnit
+} from "../../../../src";
+
+const samples: string[] = [
+    "test/samples/solidity/declarations/contract_0413.json",
+    "test/samples/solidity/declarations/contract_050.json",
+    "test/samples/solidity/expressions/tuple_0424.json",
+    "test/samples/solidity/expressions/tuple_050.json",
+    "test/samples/solidity/meta/imports/A_0413.json",
+    "test/samples/solidity/meta/imports/A_050.json",
+    "test/samples/solidity/meta/using_for_0413.json",
+    "test/samples/solidity/meta/using_for_050.json",
+    "test/samples/solidity/statements/for_0413.json",
+    "test/samples/solidity/statements/for_050.json",
+    "test/samples/solidity/statements/inline_assembly_0413.json",
+    "test/samples/solidity/statements/inline_assembly_050.json",
+    "test/samples/solidity/statements/inline_assembly_080.json",
+    "test/samples/solidity/statements/variable_declaration_0413.json",
+    "test/samples/solidity/statements/variable_declaration_050.json",
+    "test/samples/solidity/types/types_0413.json",
+    "test/samples/solidity/types/types_050.json",
+    "test/samples/solidity/error_060.json",
+    "test/samples/solidity/dispatch_05.json"
+];
+
+/**
+ * Compiler outputs, which modern ASTs are compared with serialized ones
+ */
+const compilerSamples: Array<[string, () => Promise<any>]> = [
+    [
+        "test/samples/solidity/statements/inline_assembly_080.json",
+        async () => fse.readJSONSync("test/samples/solidity/statements/inline_assembly_080.json")
+    ],
+    [
+        "test/samples/solidity/latest_08.sol",
+        async () => {
+            const { data } = await compileSol(
+                "test/samples/solidity/latest_08.sol",
+                "0.8.12",
+                [],
+                undefined,
+                undefined,
+                CompilerKind.WASM
+            );
+
+            expect(detectCompileErrors(data)).toHaveLength(0);
+
+            return data;
+        }
+    ]
+];
+
+function collectNodes(json: any, nodeType: string, result: any[] = []): any[] {
+    if (json instanceof Array) {
+        for (const element of json) {
+            collectNodes(element, nodeType, result);
+        }
+    } else if (json instanceof Object) {
+        if (json.nodeType === nodeType) {
+            result.push(json);
+        }
+
+        for (const value of Object.values(json)) {
+            collectNodes(value, nodeType, result);
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Checks that the properties, that are present both in the serialized and in the compiler JSON,
+ * have the same values. Compiler produces extra properties, that are not preserved by the reader
+ * (e.g. `typeIdentifier` or `isPure`), while the serializer emits `null`s for absent children.
+ *
+ * Builtin references are normalized to `-1` by the reader, so they are skipped too.
+ */
+function expectConforms(serialized: any, compiled: any, path: string): void {
+    if (serialized instanceof Array && compiled instanceof Array) {
+        expect(`${path}.length = ${serialized.length}`).toEqual(
+            `${path}.length = ${compiled.length}`
+        );
+
+        serialized.forEach((element, i) => expectConforms(element, compiled[i], `${path}[${i}]`));
+    } else if (serialized instanceof Object && compiled instanceof Object) {
+        for (const key of Object.keys(serialized)) {
+            if (!(key in compiled) || (key === "referencedDeclaration" && serialized[key] === -1)) {
+                continue;
+            }
+
+            expectConforms(serialized[key], compiled[key], `${path}.${key}`);
+        }
+    } else {
+        expect(`${path} = ${JSON.stringify(serialized)}`).toEqual(
+            `${path} = ${JSON.stringify(compiled)}`
+        );
+    }
+}
+
+/**
+ * Context ids are unique per reader, so they are excluded from comparison.
+ */
+function printUnits(units: SourceUnit[]): string {
+    return units
+        .map((unit) => unit.print(Infinity))
+        .join("\n")
+        .replace(/ASTContext #\d+/g, "ASTContext");
+}
+
+describe("ASTSerializer", () => {
+    const serializer = new ASTSerializer(DefaultASTSerializerMapping);
+
+    describe("serializeSourceUnits()", () => {
+        for (const sample of samples) {
+            it(`Read-serialize-read round trip for ${sample}`, () => {
+                const data = fse.readJSONSync(sample);
+
+                const units = new ASTReader().read(data);
+                const json = serializer.serializeSourceUnits(units);
+
+                const copies = new ASTReader().read(
+                    JSON.parse(JSON.stringify(json)),
+                    ASTKind.Modern
+                );
+
+                expect(printUnits(copies)).toEqual(printUnits(units));
+                expect(serializer.serializeSourceUnits(copies)).toEqual(json);
+            });
+        }
+    });
+
+    describe("Conformance with compiler AST", () => {
+        for (const [sample, getData] of compilerSamples) {
+            describe(sample, () => {
+                let data: any;
+                let json: any;
+
+                before(async () => {
+                    data = await getData();
+
+                    const units = new ASTReader().read(data, ASTKind.Modern);
+
+                    json = JSON.parse(JSON.stringify(serializer.serializeSourceUnits(units)));
+                });
+
+                it("Serialized properties match compiler AST", () => {
+                    for (const [key, source] of Object.entries<any>(data.sources)) {
+                        expectConforms(json.sources[key].ast, source.ast, key);
+                    }
+                });
+
+                it("InlineAssembly nodes match compiler AST exactly", () => {
+                    const compiled = collectNodes(data.sources, "InlineAssembly");
+                    const serialized = collectNodes(json.sources, "InlineAssembly");
+
+                    expect(compiled.length).toBeGreaterThan(0);
+                    expect(serialized).toEqual(compiled);
+
+                    for (const node of serialized) {
+                        expect(node.evmVersion).toBeDefined();
+                    }
+                });
+            });
+        }
+    });
+
+    describe("serialize()", () => {
+        it("Serializes nodes, produced by ASTNodeFactory", () => {
+            const factory = new ASTNodeFactory(new ASTContext());
+
+            const node = factory.makeBinaryOperation(
+                "uint8",
+                "+",
+                factory.makeLiteral("int_const 1", LiteralKind.Number, "", "1"),
+                factory.makeIdentifier("uint8", "x", -1)
+            );
+
+            const [left, right] = [node.vLeftExpression, node.vRightExpression];
+
+            expect(serializer.serialize(node)).toEqual({
+                id: node.id,
+                nodeType: "BinaryOperation",
+                src: "0:0:0",
+                typeDescriptions: { typeString: "uint8" },
+                operator: "+",
+                leftExpression: {
+                    id: left.id,
+                    nodeType: "Literal",
+                    src: "0:0:0",
+                    typeDescriptions: { typeString: "int_const 1" },
+                    kind: "number",
+                    hexValue: "",
+                    value: "1"
+                },
+                rightExpression: {
+                    id: right.id,
+                    nodeType: "Identifier",
+                    src: "0:0:0",
+                    typeDescriptions: { typeString: "uint8" },
+                    name: "x",
+                    referencedDeclaration: -1
+                }
+            });
+        });
+
+        it("Throws an error on unknown ASTNode", () => {
+            const node = new ASTNode(0, "0:0:0");
+
+            expect(() => new ASTSerializer(new Map()).serialize(node)).toThrow();
+        });
+    });
+});
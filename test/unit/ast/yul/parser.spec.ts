@@ -0,0 +1,213 @@
+import expect from "expect";
+import { parseYulOperations } from "../../../../src";
+
+const src = "0:0:0";
+
+const goodSamples: Array<[string, string, any]> = [
+    ["empty block", "{}", { nodeType: "YulBlock", src, statements: [] }],
+    [
+        "variable declaration",
+        "{ let x := 1 }",
+        {
+            nodeType: "YulBlock",
+            src,
+            statements: [
+                {
+                    nodeType: "YulVariableDeclaration",
+                    src,
+                    variables: [{ nodeType: "YulTypedName", src, name: "x", type: "" }],
+                    value: { nodeType: "YulLiteral", src, kind: "number", value: "1", type: "" }
+                }
+            ]
+        }
+    ],
+    [
+        "uninitialized variables",
+        "{ let a, b }",
+        {
+            nodeType: "YulBlock",
+            src,
+            statements: [
+                {
+                    nodeType: "YulVariableDeclaration",
+                    src,
+                    variables: [
+                        { nodeType: "YulTypedName", src, name: "a", type: "" },
+                        { nodeType: "YulTypedName", src, name: "b", type: "" }
+                    ],
+                    value: null
+                }
+            ]
+        }
+    ],
+    [
+        "assignment of call",
+        '{\n    x_slot, y := f(0x20, "a")\n}',
+        {
+            nodeType: "YulBlock",
+            src,
+            statements: [
+                {
+                    nodeType: "YulAssignment",
+                    src,
+                    variableNames: [
+                        { nodeType: "YulIdentifier", src, name: "x_slot" },
+                        { nodeType: "YulIdentifier", src, name: "y" }
+                    ],
+                    value: {
+                        nodeType: "YulFunctionCall",
+                        src,
+                        functionName: { nodeType: "YulIdentifier", src, name: "f" },
+                        arguments: [
+                            {
+                                nodeType: "YulLiteral",
+                                src,
+                                kind: "number",
+                                value: "0x20",
+                                type: ""
+                            },
+                            {
+                                nodeType: "YulLiteral",
+                                src,
+                                kind: "string",
+                                value: "a",
+                                hexValue: "61",
+                                type: ""
+                            }
+                        ]
+                    }
+                }
+            ]
+        }
+    ],
+    [
+        "control flow",
+        `{
+            // comment
+            if lt(x, 1) { leave }
+            switch x case 0 { break } /* comment */ default { continue }
+            for { let i := 0 } true {} {}
+            function f(a, b) -> c {}
+        }`,
+        {
+            nodeType: "YulBlock",
+            src,
+            statements: [
+                {
+                    nodeType: "YulIf",
+                    src,
+                    condition: {
+                        nodeType: "YulFunctionCall",
+                        src,
+                        functionName: { nodeType: "YulIdentifier", src, name: "lt" },
+                        arguments: [
+                            { nodeType: "YulIdentifier", src, name: "x" },
+                            { nodeType: "YulLiteral", src, kind: "number", value: "1", type: "" }
+                        ]
+                    },
+                    body: {
+                        nodeType: "YulBlock",
+                        src,
+                        statements: [{ nodeType: "YulLeave", src }]
+                    }
+                },
+                {
+                    nodeType: "YulSwitch",
+                    src,
+                    expression: { nodeType: "YulIdentifier", src, name: "x" },
+                    cases: [
+                        {
+                            nodeType: "YulCase",
+                            src,
+                            value: {
+                                nodeType: "YulLiteral",
+                                src,
+                                kind: "number",
+                                value: "0",
+                                type: ""
+                            },
+                            body: {
+                                nodeType: "YulBlock",
+                                src,
+                                statements: [{ nodeType: "YulBreak", src }]
+                            }
+                        },
+                        {
+                            nodeType: "YulCase",
+                            src,
+                            value: "default",
+                            body: {
+                                nodeType: "YulBlock",
+                                src,
+                                statements: [{ nodeType: "YulContinue", src }]
+                            }
+                        }
+                    ]
+                },
+                {
+                    nodeType: "YulForLoop",
+                    src,
+                    pre: {
+                        nodeType: "YulBlock",
+                        src,
+                        statements: [
+                            {
+                                nodeType: "YulVariableDeclaration",
+                                src,
+                                variables: [{ nodeType: "YulTypedName", src, name: "i", type: "" }],
+                                value: {
+                                    nodeType: "YulLiteral",
+                                    src,
+                                    kind: "number",
+                                    value: "0",
+                                    type: ""
+                                }
+                            }
+                        ]
+                    },
+                    condition: {
+                        nodeType: "YulLiteral",
+                        src,
+                        kind: "bool",
+                        value: "true",
+                        type: ""
+                    },
+                    post: { nodeType: "YulBlock", src, statements: [] },
+                    body: { nodeType: "YulBlock", src, statements: [] }
+                },
+                {
+                    nodeType: "YulFunctionDefinition",
+                    src,
+                    name: "f",
+                    parameters: [
+                        { nodeType: "YulTypedName", src, name: "a", type: "" },
+                        { nodeType: "YulTypedName", src, name: "b", type: "" }
+                    ],
+                    returnVariables: [{ nodeType: "YulTypedName", src, name: "c", type: "" }],
+                    body: { nodeType: "YulBlock", src, statements: [] }
+                }
+            ]
+        }
+    ]
+];
+
+const badSamples: Array<[string, string]> = [
+    ["label", "{\n    loop:\n    jump(loop)\n}"],
+    ["stack assignment", "{\n    1\n    =: x\n}"],
+    ["instructional style", "{\n    0x20\n    mload\n    pop\n}"],
+    ["keyword as identifier", "{ let let := 1 }"]
+];
+
+describe("Yul operations parser", () => {
+    for (const [name, sample, expected] of goodSamples) {
+        it(`Parses ${name}`, () => {
+            expect(parseYulOperations(sample, { src })).toEqual(expected);
+        });
+    }
+
+    for (const [name, sample] of badSamples) {
+        it(`Rejects ${name}`, () => {
+            expect(() => parseYulOperations(sample, { src })).toThrow();
+        });
+    }
+});
@@ -0,0 +1,133 @@
+import expect from "expect";
+import fse from "fs-extra";
+import {
+    ASTReader,
+    compileFoundryOutDir,
+    compileJson,
+    ContractDefinition,
+    isFoundryArtifact,
+    isHardhatBuildInfo,
+    readFoundryArtifacts
+} from "../../../src";
+
+const buildInfo =
+    "test/samples/projects/hardhat/artifacts/build-info/4f4c2a4ff5c5b0d0a8b2d8d3b1c9e8f7.json";
+
+const foundryOut = "test/samples/projects/foundry/out";
+const foundryArtifact = `${foundryOut}/Token.sol/Token.json`;
+
+function getContractNames(data: any, files: Map<string, string>): string[] {
+    const reader = new ASTReader();
+
+    return reader
+        .read(data, undefined, files)
+        .map((unit) => unit.getChildrenByType(ContractDefinition))
+        .reduce((all, defs) => all.concat(defs), [])
+        .map((contract) => contract.name)
+        .sort();
+}
+
+describe("Build artifacts", () => {
+    it("Formats are detected", () => {
+        const info = fse.readJSONSync(buildInfo);
+        const artifact = fse.readJSONSync(foundryArtifact);
+
+        expect(isHardhatBuildInfo(info)).toEqual(true);
+        expect(isFoundryArtifact(info)).toEqual(false);
+
+        expect(isHardhatBuildInfo(artifact)).toEqual(false);
+        expect(isFoundryArtifact(artifact)).toEqual(true);
+
+        expect(isHardhatBuildInfo(info.output)).toEqual(false);
+        expect(isFoundryArtifact(info.output)).toEqual(false);
+    });
+
+    it("Hardhat build info", async () => {
+        const result = await compileJson(buildInfo, "auto");
+
+        expect(result.compilerVersion).toEqual("0.8.12");
+        expect(result.compilerSettings.optimizer).toEqual({ enabled: true, runs: 200 });
+        expect(result.warnings).toEqual([]);
+
+        expect([...result.files.keys()].sort()).toEqual([
+            "@acme/lib/Counter.sol",
+            "contracts/Vault.sol"
+        ]);
+
+        expect(result.files.get("contracts/Vault.sol")).toEqual(
+            fse.readFileSync("test/samples/projects/hardhat/contracts/Vault.sol", "utf-8")
+        );
+
+        expect(getContractNames(result.data, result.files)).toEqual(["Counter", "Vault"]);
+    });
+
+    it("Foundry contract artifact", async () => {
+        const result = await compileJson(foundryArtifact, "auto");
+
+        expect(result.compilerVersion).toEqual("0.8.12");
+        expect(result.compilerSettings).toEqual(
+            expect.objectContaining({
+                evmVersion: "london",
+                optimizer: { enabled: true, runs: 1000 }
+            })
+        );
+
+        expect(result.compilerSettings.compilationTarget).toBeUndefined();
+
+        expect(Object.keys(result.data.sources as any)).toEqual(["src/Token.sol"]);
+        expect(Object.keys((result.data.contracts as any)["src/Token.sol"])).toEqual(["Token"]);
+
+        /**
+         * Sources are recovered from the project directory
+         */
+        expect([...result.files.keys()].sort()).toEqual([
+            "lib/math/src/Math.sol",
+            "lib/oz/contracts/access/Ownable.sol",
+            "src/Token.sol",
+            "src/utils/Helpers.sol"
+        ]);
+    });
+
+    it("Foundry output directory", async () => {
+        const result = await compileFoundryOutDir(foundryOut);
+
+        expect(result.compilerVersion).toEqual("0.8.12");
+        expect(Object.keys(result.data.sources as any).sort()).toEqual([
+            "lib/math/src/Math.sol",
+            "lib/oz/contracts/access/Ownable.sol",
+            "src/Token.sol"
+        ]);
+
+        expect(result.files.get("src/Token.sol")).toEqual(
+            fse.readFileSync("test/samples/projects/foundry/src/Token.sol", "utf-8")
+        );
+
+        expect(getContractNames(result.data, result.files)).toEqual(["Math", "Ownable", "Token"]);
+    });
+
+    it("Sources with mismatching hashes are not recovered", () => {
+        const artifact = fse.readJSONSync(foundryArtifact);
+
+        artifact.rawMetadata = undefined;
+        artifact.metadata.sources["src/Token.sol"].keccak256 = "0x" + "0".repeat(64);
+
+        const result = readFoundryArtifacts([artifact], "test/samples/projects/foundry");
+
+        expect(result.files.has("src/Token.sol")).toEqual(false);
+        expect(result.files.has("src/utils/Helpers.sol")).toEqual(true);
+
+        expect(readFoundryArtifacts([artifact]).files.size).toEqual(0);
+    });
+
+    it("Artifacts of different compiler versions are rejected", () => {
+        const first = fse.readJSONSync(foundryArtifact);
+        const second = fse.readJSONSync(`${foundryOut}/Math.sol/Math.json`);
+
+        second.rawMetadata = undefined;
+        second.metadata.compiler.version = "0.8.11+commit.d7f03943";
+
+        expect(() => readFoundryArtifacts([first, second])).toThrow(
+            "Artifacts are produced by different compiler versions: 0.8.12 and 0.8.11"
+        );
+    });
+});
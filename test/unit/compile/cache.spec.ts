@@ -0,0 +1,192 @@
+import expect from "expect";
+import fse from "fs-extra";
+import os from "os";
+import path from "path";
+import {
+    CompilationCache,
+    CompilationOutput,
+    CompilerKind,
+    compileSol,
+    getCompilationCache,
+    setCompilationCache
+} from "../../../src";
+import { createCompilerInput } from "../../../src/compile/input";
+
+const sample = "test/samples/solidity/getters_08.sol";
+
+describe("CompilationCache", () => {
+    let root: string;
+
+    before(() => {
+        root = fse.mkdtempSync(path.join(os.tmpdir(), "solc-compilation-cache-"));
+    });
+
+    afterEach(() => {
+        setCompilationCache(undefined);
+    });
+
+    after(() => {
+        fse.removeSync(root);
+    });
+
+    it("Keys depend on input, version and kind", () => {
+        const files = new Map([["a.sol", "contract A {}"]]);
+        const input = createCompilerInput(files, [], [CompilationOutput.ALL], undefined);
+        const key = CompilationCache.getKey(input, "0.8.12", CompilerKind.WASM);
+
+        expect(key).toMatch(/^[0-9a-f]{64}$/);
+        expect(
+            CompilationCache.getKey(JSON.parse(JSON.stringify(input)), "0.8.12", CompilerKind.WASM)
+        ).toEqual(key);
+
+        expect(CompilationCache.getKey(input, "0.8.11", CompilerKind.WASM)).not.toEqual(key);
+        expect(CompilationCache.getKey(input, "0.8.12", CompilerKind.Native)).not.toEqual(key);
+
+        files.set("a.sol", "contract B {}");
+
+        expect(
+            CompilationCache.getKey(
+                createCompilerInput(files, [], [CompilationOutput.ALL], undefined),
+                "0.8.12",
+                CompilerKind.WASM
+            )
+        ).not.toEqual(key);
+    });
+
+    it("Cached outputs are returned without invoking the compiler", async () => {
+        const cache = new CompilationCache(path.join(root, "compile"));
+
+        setCompilationCache(cache);
+
+        expect(getCompilationCache()).toBe(cache);
+
+        const first = await compileSol(
+            sample,
+            "0.8.12",
+            [],
+            undefined,
+            undefined,
+            CompilerKind.WASM
+        );
+
+        expect((first.data as any).sentinel).toBeUndefined();
+
+        const source = fse.readFileSync(sample, "utf-8");
+        const input = createCompilerInput(
+            new Map([[sample, source]]),
+            [],
+            [CompilationOutput.ALL],
+            undefined
+        );
+
+        const key = CompilationCache.getKey(input, "0.8.12", CompilerKind.WASM);
+
+        expect(cache.has(key)).toEqual(true);
+
+        const entryPath = path.join(cache.dir, key + ".json");
+
+        fse.writeJSONSync(entryPath, { ...fse.readJSONSync(entryPath), sentinel: true });
+
+        const second = await compileSol(
+            sample,
+            "0.8.12",
+            [],
+            undefined,
+            undefined,
+            CompilerKind.WASM
+        );
+
+        expect((second.data as any).sentinel).toEqual(true);
+        expect(second.data.sources).toEqual(first.data.sources);
+
+        expect(cache.invalidate(input, "0.8.12", CompilerKind.WASM)).toEqual(true);
+        expect(cache.has(key)).toEqual(false);
+
+        const third = await compileSol(
+            sample,
+            "0.8.12",
+            [],
+            undefined,
+            undefined,
+            CompilerKind.WASM
+        );
+
+        expect((third.data as any).sentinel).toBeUndefined();
+        expect(cache.has(key)).toEqual(true);
+    });
+
+    it("Least recently used entries are evicted", async () => {
+        const cache = new CompilationCache(path.join(root, "evict"), { maxEntries: 2 });
+
+        cache.set("a", { name: "a" });
+        cache.set("b", { name: "b" });
+
+        /**
+         * Make "a" the most recently used entry
+         */
+        const past = new Date(Date.now() - 10000);
+
+        fse.utimesSync(path.join(cache.dir, "b.json"), past, past);
+
+        expect(cache.get("a")).toEqual({ name: "a" });
+
+        cache.set("c", { name: "c" });
+
+        expect(cache.has("a")).toEqual(true);
+        expect(cache.has("b")).toEqual(false);
+        expect(cache.has("c")).toEqual(true);
+
+        const sized = new CompilationCache(path.join(root, "sized"), {
+            maxSize: JSON.stringify({ name: "a" }).length * 2
+        });
+
+        sized.set("a", { name: "a" });
+        sized.set("b", { name: "b" });
+
+        expect(sized.size()).toEqual(JSON.stringify({ name: "a" }).length * 2);
+
+        fse.utimesSync(path.join(sized.dir, "a.json"), past, past);
+
+        sized.set("c", { name: "c" });
+
+        expect(sized.has("a")).toEqual(false);
+        expect(sized.has("b")).toEqual(true);
+        expect(sized.has("c")).toEqual(true);
+    });
+
+    it("Entries could be deleted and cleared", () => {
+        const cache = new CompilationCache(path.join(root, "clear"));
+
+        cache.set("a", { name: "a" });
+        cache.set("b", { name: "b" });
+
+        expect(cache.delete("a")).toEqual(true);
+        expect(cache.delete("a")).toEqual(false);
+        expect(cache.get("a")).toBeUndefined();
+
+        cache.clear();
+
+        expect(cache.has("b")).toEqual(false);
+        expect(cache.size()).toEqual(0);
+    });
+
+    it("Cache is configured by environment variable", () => {
+        const env = { ...process.env };
+        const dir = path.join(root, "env");
+
+        try {
+            process.env["SOL_AST_COMPILATION_CACHE"] = dir;
+
+            const cache = getCompilationCache();
+
+            expect(cache).toBeInstanceOf(CompilationCache);
+            expect((cache as CompilationCache).dir).toEqual(dir);
+
+            setCompilationCache(null);
+
+            expect(getCompilationCache()).toBeUndefined();
+        } finally {
+            process.env = env;
+        }
+    });
+});
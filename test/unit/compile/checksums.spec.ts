@@ -0,0 +1,101 @@
+import crypto from "crypto";
+import expect from "expect";
+import fse from "fs-extra";
+import { keccak256 } from "js-sha3";
+import os from "os";
+import path from "path";
+import {
+    CompilerChecksumError,
+    CompilerPlatformMetadata,
+    getCompilerBuildEntry,
+    quarantineCompilerFile,
+    verifyCompilerChecksums,
+    VersionListEntry
+} from "../../../src";
+
+/**
+ * Build entry with checksums, that do not match the sample file
+ */
+const entry: VersionListEntry = {
+    path: "soljson-v0.0.0.js",
+    version: "0.0.0",
+    longVersion: "0.0.0+commit.00000000",
+    sha256: "0xb5e52c6a4cef3a6b3cae4b8f5e6de57b4ba6b1dd29b497c1b1a5ac4ca0f8bf6b",
+    keccak256: "0x1a6b6e15ed8dbdfb3d8a6d2a15c1b0ee2bb1a0d0d8c55c0c6e6b1e0d3b6bbd6d",
+    urls: []
+};
+
+describe("Compiler checksums", () => {
+    let dir: string;
+    let filePath: string;
+    let expected: VersionListEntry;
+
+    before(() => {
+        dir = fse.mkdtempSync(path.join(os.tmpdir(), "solc-checksums-"));
+        filePath = path.join(dir, entry.path);
+
+        fse.writeFileSync(filePath, "compiler");
+
+        expected = {
+            ...entry,
+            sha256: "0x" + crypto.createHash("sha256").update("compiler").digest("hex"),
+            keccak256: "0x" + keccak256("compiler")
+        };
+    });
+
+    after(() => {
+        fse.removeSync(dir);
+    });
+
+    it("getCompilerBuildEntry() finds build by file name", () => {
+        const md: CompilerPlatformMetadata = {
+            builds: [entry],
+            releases: { "0.0.0": entry.path }
+        };
+
+        expect(getCompilerBuildEntry(md, entry.path)).toBe(entry);
+        expect(getCompilerBuildEntry(md, "missing.js")).toBeUndefined();
+    });
+
+    it("verifyCompilerChecksums() accepts matching file", () => {
+        expect(() => verifyCompilerChecksums(filePath, expected)).not.toThrow();
+        expect(() =>
+            verifyCompilerChecksums(filePath, {
+                ...expected,
+                sha256: expected.sha256.slice(2).toUpperCase()
+            })
+        ).not.toThrow();
+    });
+
+    it("verifyCompilerChecksums() rejects mismatching file", () => {
+        const cases: Array<[VersionListEntry, string]> = [
+            [{ ...expected, sha256: entry.sha256 }, "sha256"],
+            [{ ...expected, keccak256: entry.keccak256 }, "keccak256"]
+        ];
+
+        for (const [corrupted, algorithm] of cases) {
+            expect.assertions(4);
+
+            try {
+                verifyCompilerChecksums(filePath, corrupted);
+            } catch (e: any) {
+                expect(e).toBeInstanceOf(CompilerChecksumError);
+                expect(e).toMatchObject({
+                    path: filePath,
+                    algorithm,
+                    expected: (corrupted as any)[algorithm],
+                    actual: (expected as any)[algorithm]
+                });
+            }
+        }
+    });
+
+    it("quarantineCompilerFile() moves file aside", () => {
+        const target = quarantineCompilerFile(filePath);
+
+        expect(fse.existsSync(filePath)).toBeFalsy();
+        expect(path.dirname(target)).toEqual(path.join(dir, "quarantine"));
+        expect(path.basename(target).startsWith(entry.path + ".")).toBeTruthy();
+        expect(fse.readFileSync(target, "utf-8")).toEqual("compiler");
+    });
+});
@@ -0,0 +1,125 @@
+import expect from "expect";
+import fse from "fs-extra";
+import {
+    CompileFailedError,
+    CompilerDiagnostic,
+    CompilerKind,
+    compileSol,
+    compileSourceString,
+    detectCompileDiagnostics,
+    DiagnosticSeverity,
+    PossibleCompilerKinds
+} from "../../../src";
+
+const sample = "./test/samples/solidity/diagnostics.sol";
+
+const duplicateSource = `pragma solidity 0.8.12;
+
+contract A {
+    uint256 x;
+    uint256 x;
+}
+`;
+
+describe("detectCompileDiagnostics()", () => {
+    it("Parses legacy string messages (Solc < 0.5)", () => {
+        const data = fse.readJSONSync("test/samples/solidity/error_0413.json");
+
+        expect(detectCompileDiagnostics(data, "0.4.13")).toEqual([
+            {
+                severity: DiagnosticSeverity.Error,
+                type: "ParserError",
+                message: "Expected token Semicolon got 'RBrace'",
+                formattedMessage: data.errors[0],
+                compilerVersion: "0.4.13"
+            }
+        ]);
+    });
+
+    it("Parses structured messages (Solc >= 0.5)", () => {
+        const data = fse.readJSONSync("test/samples/solidity/error_060.json");
+        const [diagnostic] = detectCompileDiagnostics(data);
+
+        expect(diagnostic).toEqual({
+            severity: DiagnosticSeverity.Error,
+            type: "ParserError",
+            component: "general",
+            message: "Expected ';' but got '}'",
+            formattedMessage: data.errors[0].formattedMessage,
+            sourceLocation: {
+                file: data.errors[0].sourceLocation.file,
+                start: 35,
+                end: 36
+            }
+        });
+    });
+
+    for (const kind of PossibleCompilerKinds) {
+        describe(`[${kind}] Compilation results`, () => {
+            it("Warnings are returned in CompileResult", async () => {
+                const { warnings } = await compileSol(
+                    sample,
+                    "auto",
+                    [],
+                    undefined,
+                    undefined,
+                    kind as CompilerKind
+                );
+
+                expect(warnings.map((warning) => [warning.severity, warning.errorCode])).toEqual([
+                    [DiagnosticSeverity.Warning, "5667"],
+                    [DiagnosticSeverity.Warning, "2072"]
+                ]);
+
+                const [unusedParam] = warnings;
+
+                expect(unusedParam.type).toEqual("Warning");
+                expect(unusedParam.compilerVersion).toEqual("0.8.12");
+                expect(unusedParam.sourceLocation).toEqual({
+                    file: sample,
+                    start: 93,
+                    end: 102
+                });
+            });
+
+            it("Errors are reported by CompileFailedError", async () => {
+                expect.assertions(3);
+
+                try {
+                    await compileSourceString(
+                        "duplicate.sol",
+                        duplicateSource,
+                        "auto",
+                        [],
+                        undefined,
+                        undefined,
+                        kind as CompilerKind
+                    );
+                } catch (e: any) {
+                    expect(e).toBeInstanceOf(CompileFailedError);
+
+                    const [failure] = (e as CompileFailedError).failures;
+                    const [error] = failure.errors as CompilerDiagnostic[];
+
+                    expect(error).toMatchObject({
+                        severity: DiagnosticSeverity.Error,
+                        type: "DeclarationError",
+                        errorCode: "2333",
+                        message: "Identifier already declared.",
+                        sourceLocation: { file: "duplicate.sol", start: 57, end: 66 },
+                        compilerVersion: "0.8.12"
+                    });
+
+                    expect(error.secondarySourceLocations).toEqual([
+                        {
+                            file: "duplicate.sol",
+                            start: 42,
+                            end: 51,
+                            message: "The previous declaration is here:"
+                        }
+                    ]);
+                }
+            });
+        });
+    }
+});
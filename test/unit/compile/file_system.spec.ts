@@ -0,0 +1,162 @@
+import crypto from "crypto";
+import expect from "expect";
+import { keccak256 } from "js-sha3";
+import path from "path";
+import {
+    ASTReader,
+    CompilationCache,
+    CompilerKind,
+    CompilerPlatformMetadata,
+    compileSol,
+    ContractDefinition,
+    getCachedCompilerVersions,
+    getFileSystem,
+    LocalFileSystem,
+    MemoryFileSystem,
+    quarantineCompilerFile,
+    setFileSystem,
+    verifyCompilerChecksums,
+    VersionListEntry
+} from "../../../src";
+
+describe("MemoryFileSystem", () => {
+    it("Files and implicit directories", () => {
+        const fs = new MemoryFileSystem({
+            "/project/src/A.sol": "contract A {}",
+            "/project/src/lib/B.sol": Buffer.from("contract B {}")
+        });
+
+        expect(fs.exists("/project")).toEqual(true);
+        expect(fs.exists("/project/src/A.sol")).toEqual(true);
+        expect(fs.exists("/project/src/C.sol")).toEqual(false);
+
+        expect(fs.stat("/project/src").isDirectory).toEqual(true);
+        expect(fs.stat("/project/src/A.sol")).toEqual(
+            expect.objectContaining({ isDirectory: false, size: 13 })
+        );
+
+        expect(fs.readDir("/project/src")).toEqual(["A.sol", "lib"]);
+        expect(fs.readTextFile("/project/src/lib/B.sol")).toEqual("contract B {}");
+        expect(() => fs.readFile("/project/src/C.sol")).toThrow("No such file");
+        expect(() => fs.readDir("/project/src/A.sol")).toThrow("No such directory");
+
+        fs.move("/project/src/A.sol", "/project/out/A.sol");
+
+        expect(fs.exists("/project/src/A.sol")).toEqual(false);
+        expect(fs.readTextFile("/project/out/A.sol")).toEqual("contract A {}");
+
+        fs.remove("/project/src");
+
+        expect(fs.exists("/project/src")).toEqual(false);
+        expect(fs.readDir("/project")).toEqual(["out"]);
+    });
+
+    it("Relative paths are resolved against the working directory", () => {
+        const fs = new MemoryFileSystem({ "contracts/A.sol": "" });
+
+        expect(fs.exists(path.resolve("contracts/A.sol"))).toEqual(true);
+        expect(fs.readDir(".")).toEqual(["contracts"]);
+    });
+});
+
+describe("Compiling in-memory projects", () => {
+    afterEach(() => {
+        setFileSystem(undefined);
+    });
+
+    it("Default file system is the local disk", () => {
+        expect(getFileSystem()).toBe(LocalFileSystem);
+    });
+
+    it("compileSol() reads sources and resolves imports in the file system", async () => {
+        setFileSystem(
+            new MemoryFileSystem({
+                "/virtual/contracts/A.sol":
+                    'pragma solidity 0.8.12; import "./B.sol"; import "@lib/C.sol"; contract A is B, C {}',
+                "/virtual/contracts/B.sol": "pragma solidity 0.8.12; contract B {}",
+                "/virtual/node_modules/@lib/C.sol": "pragma solidity 0.8.12; contract C {}"
+            })
+        );
+
+        const result = await compileSol(
+            "/virtual/contracts/A.sol",
+            "auto",
+            [],
+            undefined,
+            undefined,
+            CompilerKind.WASM
+        );
+
+        expect([...result.files.keys()].sort()).toEqual([
+            "/virtual/contracts/A.sol",
+            "/virtual/contracts/B.sol",
+            "@lib/C.sol"
+        ]);
+
+        const contracts = new ASTReader()
+            .read(result.data, undefined, result.files)
+            .map((unit) => unit.getChildrenByType(ContractDefinition))
+            .reduce((all, defs) => all.concat(defs), [])
+            .map((contract) => contract.name)
+            .sort();
+
+        expect(contracts).toEqual(["A", "B", "C"]);
+    });
+});
+
+describe("Caches on in-memory file system", () => {
+    it("CompilationCache", () => {
+        const fs = new MemoryFileSystem();
+        const cache = new CompilationCache("/cache", { maxEntries: 2 }, fs);
+
+        cache.set("a", { output: 1 });
+        cache.set("b", { output: 2 });
+
+        expect(cache.get("a")).toEqual({ output: 1 });
+        expect(fs.readDir("/cache").sort()).toEqual(["a.json", "b.json"]);
+        expect(cache.size()).toEqual(fs.stat("/cache/a.json").size * 2);
+
+        cache.clear();
+
+        expect(cache.has("a")).toEqual(false);
+        expect(fs.exists("/cache")).toEqual(false);
+    });
+
+    it("Compiler cache", () => {
+        const content = Buffer.from("compiler");
+        const entry: VersionListEntry = {
+            path: "soljson-v0.0.1.js",
+            version: "0.0.1",
+            longVersion: "0.0.1+commit.00000000",
+            sha256: "0x" + crypto.createHash("sha256").update(content).digest("hex"),
+            keccak256: "0x" + keccak256(content),
+            urls: []
+        };
+
+        const md: CompilerPlatformMetadata = {
+            builds: [entry],
+            releases: { "0.0.1": entry.path, "0.0.2": "soljson-v0.0.2.js" }
+        };
+
+        const fs = new MemoryFileSystem({
+            "/compilers/bin/list.json": JSON.stringify(md),
+            "/compilers/bin/soljson-v0.0.1.js": content
+        });
+
+        expect(getCachedCompilerVersions("bin", "/compilers", fs)).toEqual(["0.0.1"]);
+
+        verifyCompilerChecksums("/compilers/bin/soljson-v0.0.1.js", entry, fs);
+
+        fs.writeFile("/compilers/bin/soljson-v0.0.1.js", "corrupted");
+
+        expect(() =>
+            verifyCompilerChecksums("/compilers/bin/soljson-v0.0.1.js", entry, fs)
+        ).toThrow("Checksum verification failed");
+
+        const target = quarantineCompilerFile("/compilers/bin/soljson-v0.0.1.js", fs);
+
+        expect(path.dirname(target)).toEqual("/compilers/bin/quarantine");
+        expect(fs.readTextFile(target)).toEqual("corrupted");
+        expect(getCachedCompilerVersions("bin", "/compilers", fs)).toEqual([]);
+    });
+});
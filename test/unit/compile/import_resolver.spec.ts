@@ -15,6 +15,18 @@ describe("FileSystemResolver", () => {
                 expect(resolver.resolve(fileName)).toEqual(result);
             });
         }
+
+        it("Resolves relative file names against the base path", () => {
+            const based = new FileSystemResolver("test/samples/solidity");
+
+            expect(based.resolve("node.sol")).toEqual(
+                path.join("test/samples/solidity", "node.sol")
+            );
+            expect(based.resolve(path.resolve("test/samples/solidity/node.sol"))).toEqual(
+                path.resolve("test/samples/solidity/node.sol")
+            );
+            expect(based.resolve("missing.sol")).toBeUndefined();
+        });
     });
 });
 
@@ -1,8 +1,16 @@
 import expect from "expect";
 import fse from "fs-extra";
+import os from "os";
 import { join } from "path";
-import { FileSystemResolver } from "../../../../src";
-import { findAllFiles } from "../../../../src/compile/inference";
+import {
+    CompileInferenceError,
+    FileSystemResolver,
+    IncludePathResolver,
+    parsePathRemapping,
+    Remapping,
+    UnresolvedImportsError
+} from "../../../../src";
+import { applyRemappings, buildImportGraph, findAllFiles } from "../../../../src/compile/inference";
 
 const SAMPLES_DIR = join("test", "samples", "solidity");
 
@@ -87,4 +95,242 @@ contract Foo {
 
         expect(() => findAllFiles(files, [], [])).toThrow(/Couldn't find a.sol/);
     });
+
+    it("All missing files are reported", () => {
+        const files = new Map<string, string>([
+            ["foo.sol", 'import "a.sol"; import "./lib/b.sol";'],
+            ["bar.sol", 'import "a.sol";']
+        ]);
+
+        const resolver = new FileSystemResolver("missing");
+
+        try {
+            findAllFiles(files, [], [resolver]);
+
+            throw new Error("Expected an error");
+        } catch (e: any) {
+            expect(e).toBeInstanceOf(UnresolvedImportsError);
+            expect(e).toBeInstanceOf(CompileInferenceError);
+
+            expect(e.unresolved).toEqual([
+                {
+                    importer: "bar.sol",
+                    path: "a.sol",
+                    sourceUnitName: "a.sol",
+                    candidates: [join("missing", "a.sol")]
+                },
+                {
+                    importer: "foo.sol",
+                    path: "./lib/b.sol",
+                    sourceUnitName: "lib/b.sol",
+                    candidates: [join("missing", "lib/b.sol")]
+                },
+                {
+                    importer: "foo.sol",
+                    path: "a.sol",
+                    sourceUnitName: "a.sol",
+                    candidates: [join("missing", "a.sol")]
+                }
+            ]);
+
+            expect(e.message).toEqual(
+                [
+                    'Couldn\'t find a.sol (imported as "a.sol" by bar.sol)',
+                    'Couldn\'t find lib/b.sol (imported as "./lib/b.sol" by foo.sol)',
+                    'Couldn\'t find a.sol (imported as "a.sol" by foo.sol)'
+                ].join("\n")
+            );
+        }
+    });
+});
+
+describe("applyRemappings()", () => {
+    const remappings: Remapping[] = [
+        ["", "@oz/", "lib/oz/"],
+        ["lib/a/", "@oz/", "lib/a/node_modules/oz/"],
+        ["", "@oz/contracts/", "lib/oz-contracts/"],
+        ["", "dup/", "first/"],
+        ["", "dup/", "second/"]
+    ];
+
+    const cases: Array<[string, string, string]> = [
+        ["src/A.sol", "@oz/Token.sol", "lib/oz/Token.sol"],
+        ["lib/a/B.sol", "@oz/Token.sol", "lib/a/node_modules/oz/Token.sol"],
+        ["lib/a/B.sol", "@oz/contracts/Token.sol", "lib/a/node_modules/oz/contracts/Token.sol"],
+        ["src/A.sol", "@oz/contracts/Token.sol", "lib/oz-contracts/Token.sol"],
+        ["src/A.sol", "dup/Token.sol", "second/Token.sol"],
+        ["src/A.sol", "other/Token.sol", "other/Token.sol"]
+    ];
+
+    for (const [importer, path, expected] of cases) {
+        it(`"${path}" imported by "${importer}" is remapped to "${expected}"`, () => {
+            expect(applyRemappings(remappings, importer, path)).toEqual(expected);
+        });
+    }
+});
+
+describe("findAllFiles() applies remappings as solc does", () => {
+    let root: string;
+
+    before(() => {
+        root = fse.mkdtempSync(join(os.tmpdir(), "find-all-files-"));
+
+        const sources: { [fileName: string]: string } = {
+            "src/A.sol": 'import "@oz/Token.sol"; import "lib/a/B.sol";',
+            "src/Local.sol": "",
+            "lib/a/B.sol": 'import "@oz/Token.sol"; import "./mocks/M.sol";',
+            "lib/oz/Token.sol": "",
+            "lib/a/node_modules/oz/Token.sol": "",
+            "lib/a/mocks/M.sol": "",
+            "test/mocks/M.sol": ""
+        };
+
+        for (const [fileName, content] of Object.entries(sources)) {
+            fse.outputFileSync(join(root, fileName), content);
+        }
+    });
+
+    after(() => {
+        fse.removeSync(root);
+    });
+
+    it("Context-scoped remappings and remappings of relative imports", () => {
+        const files = new Map([["src/A.sol", fse.readFileSync(join(root, "src/A.sol"), "utf-8")]]);
+
+        findAllFiles(
+            files,
+            parsePathRemapping([
+                "@oz/=lib/oz/",
+                "lib/a/:@oz/=lib/a/node_modules/oz/",
+                "lib/a/mocks/=test/mocks/"
+            ]),
+            [new IncludePathResolver(root)]
+        );
+
+        expect([...files.keys()].sort()).toEqual([
+            "lib/a/B.sol",
+            "lib/a/node_modules/oz/Token.sol",
+            "lib/oz/Token.sol",
+            "src/A.sol",
+            "test/mocks/M.sol"
+        ]);
+    });
+
+    it("Include paths", () => {
+        const files = new Map([["Entry.sol", 'import "Local.sol"; import "B.sol";']]);
+
+        findAllFiles(files, parsePathRemapping(["@oz/=oz/"]), [
+            new IncludePathResolver(join(root, "src"), [
+                join(root, "lib/a"),
+                join(root, "lib/a/node_modules")
+            ])
+        ]);
+
+        expect([...files.keys()].sort()).toEqual([
+            "B.sol",
+            "Entry.sol",
+            "Local.sol",
+            "mocks/M.sol",
+            "oz/Token.sol"
+        ]);
+    });
+
+    it("Files, found in multiple include paths, are errors", () => {
+        const resolver = new IncludePathResolver(join(root, "lib/oz"), [
+            join(root, "lib/a/node_modules/oz")
+        ]);
+
+        expect(() => resolver.resolve("Token.sol")).toThrow(CompileInferenceError);
+        expect(() => resolver.resolve("Token.sol")).toThrow(/^Ambiguous import Token.sol/);
+        expect(resolver.resolve("Missing.sol")).toBeUndefined();
+    });
+});
+
+describe("buildImportGraph()", () => {
+    let root: string;
+
+    before(() => {
+        root = fse.mkdtempSync(join(os.tmpdir(), "import-graph-"));
+
+        const sources: { [fileName: string]: string } = {
+            "B.sol": 'import "./C.sol"; import "Main.sol";',
+            "C.sol": 'import "./D.sol"; import "./C.sol";',
+            "D.sol": "",
+            "E.sol": 'import "./D.sol";'
+        };
+
+        for (const [fileName, content] of Object.entries(sources)) {
+            fse.outputFileSync(join(root, fileName), content);
+        }
+    });
+
+    after(() => {
+        fse.removeSync(root);
+    });
+
+    it("Dependencies, cycles and topological order", () => {
+        const resolver = new FileSystemResolver(root);
+        const files = new Map([["Main.sol", 'import "./B.sol"; import "E.sol" as E;']]);
+        const graph = buildImportGraph(files, [], [resolver]);
+
+        expect(graph.roots).toEqual(["Main.sol"]);
+        expect(graph.unresolved).toEqual([]);
+        expect([...graph.nodes.keys()].sort()).toEqual([
+            "B.sol",
+            "C.sol",
+            "D.sol",
+            "E.sol",
+            "Main.sol"
+        ]);
+
+        expect([...files.keys()].sort()).toEqual([...graph.nodes.keys()].sort());
+
+        const main = graph.nodes.get("Main.sol");
+        const c = graph.nodes.get("C.sol");
+
+        expect(main).toEqual({
+            sourceUnitName: "Main.sol",
+            resolver: undefined,
+            resolvedPath: undefined,
+            imports: [
+                { path: "./B.sol", sourceUnitName: "B.sol" },
+                { path: "E.sol", sourceUnitName: "E.sol" }
+            ]
+        });
+
+        expect(c?.resolver).toBe(resolver);
+        expect(c?.resolvedPath).toEqual(join(root, "C.sol"));
+
+        expect(graph.getImports("C.sol")).toEqual(["D.sol", "C.sol"]);
+        expect(graph.getImporters("D.sol").sort()).toEqual(["C.sol", "E.sol"]);
+        expect(graph.getImportChain("C.sol")).toEqual(["Main.sol", "B.sol", "C.sol"]);
+        expect(graph.getImportChain("D.sol")).toEqual(["Main.sol", "E.sol", "D.sol"]);
+        expect(graph.getImportChain("Missing.sol")).toBeUndefined();
+
+        expect(graph.findCycles()).toEqual([["C.sol"], ["Main.sol", "B.sol"]]);
+
+        const order = graph.topologicalOrder();
+
+        expect([...order].sort()).toEqual([...graph.nodes.keys()].sort());
+        expect(order.indexOf("D.sol")).toBeLessThan(order.indexOf("C.sol"));
+        expect(order.indexOf("D.sol")).toBeLessThan(order.indexOf("E.sol"));
+        expect(order.indexOf("C.sol")).toBeLessThan(order.indexOf("B.sol"));
+        expect(order.indexOf("B.sol")).toBeLessThan(order.indexOf("Main.sol"));
+        expect(order.indexOf("E.sol")).toBeLessThan(order.indexOf("Main.sol"));
+    });
+
+    it("Unresolved imports are collected", () => {
+        const files = new Map([["Main.sol", 'import "./B.sol"; import "Missing.sol";']]);
+        const graph = buildImportGraph(files, [], [new FileSystemResolver(root)]);
+
+        expect(graph.nodes.has("Missing.sol")).toEqual(false);
+        expect(graph.unresolved).toEqual([
+            {
+                importer: "Main.sol",
+                path: "Missing.sol",
+                sourceUnitName: "Missing.sol",
+                candidates: [join(root, "Missing.sol")]
+            }
+        ]);
+    });
 });
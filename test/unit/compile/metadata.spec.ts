@@ -0,0 +1,83 @@
+import expect from "expect";
+import {
+    CompilationOutput,
+    CompilerKind,
+    compileSol,
+    getContractMetadata,
+    MetadataSourceStatus,
+    parseContractMetadata,
+    SolcContractMetadata,
+    verifyMetadataSources
+} from "../../../src";
+
+const sample = "./test/samples/solidity/node.sol";
+
+describe("Contract metadata", () => {
+    let metadata: SolcContractMetadata;
+    let files: Map<string, string>;
+
+    before(async () => {
+        const result = await compileSol(
+            sample,
+            "auto",
+            [],
+            [CompilationOutput.METADATA],
+            undefined,
+            CompilerKind.WASM
+        );
+
+        const [output] = Object.values<any>((result.data.contracts as any)[sample]);
+
+        metadata = getContractMetadata(output) as SolcContractMetadata;
+        files = result.files;
+    });
+
+    it("parseContractMetadata() accepts metadata of the compiler", () => {
+        expect(parseContractMetadata(JSON.stringify(metadata))).toEqual(metadata);
+        expect(metadata.language).toEqual("Solidity");
+        expect(Object.keys(metadata.sources)).toEqual([...files.keys()]);
+    });
+
+    it("parseContractMetadata() rejects invalid metadata", () => {
+        expect(() => parseContractMetadata("[]")).toThrow("Invalid contract metadata: []");
+        expect(() => parseContractMetadata('{"version":1}')).toThrow(
+            'Invalid contract metadata: {"version":1}'
+        );
+
+        const json = JSON.stringify({ ...metadata, sources: { "a.sol": { urls: [] } } });
+
+        expect(() => parseContractMetadata(json)).toThrow("Invalid contract metadata");
+        expect(() => parseContractMetadata("{")).toThrow(SyntaxError);
+    });
+
+    it("verifyMetadataSources() matches hashes of the compiled files", () => {
+        const checks = verifyMetadataSources(metadata, files);
+
+        expect(checks.length).toEqual(files.size);
+
+        for (const check of checks) {
+            expect(check.status).toEqual(MetadataSourceStatus.Match);
+            expect(check.actual).toEqual(check.expected);
+            expect(`0x${check.expected}`).toEqual(metadata.sources[check.fileName].keccak256);
+        }
+    });
+
+    it("verifyMetadataSources() reports modified and missing files", () => {
+        const [fileName] = files.keys();
+        const modified = new Map([[fileName, files.get(fileName) + "\n"]]);
+
+        const [check] = verifyMetadataSources(metadata, modified);
+
+        expect(check.fileName).toEqual(fileName);
+        expect(check.status).toEqual(MetadataSourceStatus.Mismatch);
+        expect(check.actual).not.toEqual(check.expected);
+
+        expect(verifyMetadataSources(metadata, new Map())).toEqual([
+            {
+                fileName,
+                status: MetadataSourceStatus.Missing,
+                expected: metadata.sources[fileName].keccak256.replace(/^0x/, "")
+            }
+        ]);
+    });
+});
@@ -0,0 +1,133 @@
+import crypto from "crypto";
+import expect from "expect";
+import fse from "fs-extra";
+import { keccak256 } from "js-sha3";
+import os from "os";
+import path from "path";
+import { pathToFileURL } from "url";
+import {
+    CompilerChecksumError,
+    CompilerKind,
+    CompilerUnavailableError,
+    getCompilerMirror,
+    isOfflineMode,
+    prefetchCompilers
+} from "../../../src";
+
+const content = "fake compiler";
+const fileName = "soljson-v0.8.12.js";
+
+function makeMirror(dir: string, sha256: string): void {
+    fse.outputJSONSync(path.join(dir, "bin", "list.json"), {
+        builds: [
+            {
+                path: fileName,
+                version: "0.8.12",
+                longVersion: "0.8.12+commit.f00d7308",
+                sha256,
+                keccak256: "0x" + keccak256(content),
+                urls: []
+            }
+        ],
+        releases: {
+            "0.8.12": fileName,
+            "0.8.11": "soljson-v0.8.11.js"
+        }
+    });
+
+    fse.outputFileSync(path.join(dir, "bin", fileName), content);
+}
+
+describe("Compiler mirrors and offline mode", () => {
+    const env = { ...process.env };
+
+    let root: string;
+    let mirror: string;
+
+    before(() => {
+        root = fse.mkdtempSync(path.join(os.tmpdir(), "solc-mirror-"));
+        mirror = path.join(root, "mirror");
+
+        makeMirror(mirror, "0x" + crypto.createHash("sha256").update(content).digest("hex"));
+    });
+
+    afterEach(() => {
+        process.env = { ...env };
+    });
+
+    after(() => {
+        fse.removeSync(root);
+    });
+
+    it("Defaults are used without environment variables", () => {
+        delete process.env["SOL_AST_COMPILER_MIRROR"];
+        delete process.env["SOL_AST_COMPILER_OFFLINE"];
+
+        expect(getCompilerMirror()).toEqual("https://binaries.soliditylang.org");
+        expect(isOfflineMode()).toEqual(false);
+
+        process.env["SOL_AST_COMPILER_OFFLINE"] = "false";
+
+        expect(isOfflineMode()).toEqual(false);
+
+        process.env["SOL_AST_COMPILER_OFFLINE"] = "1";
+
+        expect(isOfflineMode()).toEqual(true);
+    });
+
+    for (const [title, getLocation] of [
+        ["local directory", () => mirror],
+        ["file:// URL", () => pathToFileURL(mirror).href]
+    ] as Array<[string, () => string]>) {
+        it(`Compilers are prefetched from ${title}`, async () => {
+            const cacheDir = fse.mkdtempSync(path.join(root, "cache-"));
+
+            process.env["SOL_AST_COMPILER_MIRROR"] = getLocation();
+
+            const paths = await prefetchCompilers(["0.8.12"], CompilerKind.WASM, cacheDir);
+
+            expect(paths).toEqual([path.join(cacheDir, "bin", fileName)]);
+            expect(fse.readFileSync(paths[0], "utf-8")).toEqual(content);
+            expect(fse.existsSync(path.join(cacheDir, "bin", "list.json"))).toEqual(true);
+        });
+    }
+
+    it("Corrupted compilers are quarantined", async () => {
+        const corrupted = path.join(root, "corrupted");
+        const cacheDir = path.join(root, "cache-corrupted");
+
+        makeMirror(corrupted, "0x" + "0".repeat(64));
+
+        process.env["SOL_AST_COMPILER_MIRROR"] = corrupted;
+
+        await expect(prefetchCompilers(["0.8.12"], CompilerKind.WASM, cacheDir)).rejects.toThrow(
+            CompilerChecksumError
+        );
+
+        expect(fse.existsSync(path.join(cacheDir, "bin", fileName))).toEqual(false);
+        expect(fse.readdirSync(path.join(cacheDir, "bin", "quarantine"))).toHaveLength(1);
+    });
+
+    it("Offline mode only uses cached compilers", async () => {
+        const cacheDir = path.join(root, "cache-offline");
+
+        process.env["SOL_AST_COMPILER_MIRROR"] = mirror;
+
+        await prefetchCompilers(["0.8.12"], CompilerKind.WASM, cacheDir);
+
+        process.env["SOL_AST_COMPILER_OFFLINE"] = "1";
+
+        expect(await prefetchCompilers(["0.8.12"], CompilerKind.WASM, cacheDir)).toHaveLength(1);
+
+        await expect(prefetchCompilers(["0.8.11"], CompilerKind.WASM, cacheDir)).rejects.toThrow(
+            new CompilerUnavailableError(
+                `Compiler 0.8.11 for platform "bin" is not found in cache dir ${cacheDir} (offline mode)`,
+                ["0.8.12"]
+            )
+        );
+
+        await expect(
+            prefetchCompilers(["0.8.12"], CompilerKind.WASM, path.join(root, "cache-empty"))
+        ).rejects.toThrow(CompilerUnavailableError);
+    });
+});
@@ -0,0 +1,186 @@
+import expect from "expect";
+import fse from "fs-extra";
+import os from "os";
+import path from "path";
+import {
+    compile,
+    CompilationCache,
+    CompilationOutput,
+    CompilerAbortedError,
+    CompilerCrashError,
+    CompilerKind,
+    CompilerTimeoutError,
+    getCompilerForVersion,
+    NativeCompiler,
+    setCompilationCache,
+    setNativeCompilerPath
+} from "../../../src";
+import { createCompilerInput } from "../../../src/compile/input";
+
+const version = "0.8.12";
+
+/**
+ * Fake compilers, that consume the input and behave as described
+ */
+const scripts: { [name: string]: string } = {
+    ok: `echo '{"sources":{}}'`,
+    warning: `echo "harmless warning" >&2; echo '{"sources":{}}'`,
+    crash: `echo "boom" >&2; exit 3`,
+    invalid: `echo "not json"`,
+    slow: `exec sleep 30`,
+    verbose: `head -c 100000 /dev/zero | tr '\\0' 'a'`
+};
+
+describe("NativeCompiler invocation", () => {
+    const input = createCompilerInput(new Map([["A.sol", "contract A {}"]]), [], [], undefined);
+
+    let dir: string;
+
+    const getCompiler = async (name: string): Promise<NativeCompiler> => {
+        setNativeCompilerPath(version, path.join(dir, name));
+
+        const compiler = await getCompilerForVersion(version, CompilerKind.Native);
+
+        expect(compiler).toBeInstanceOf(NativeCompiler);
+
+        return compiler as NativeCompiler;
+    };
+
+    before(function () {
+        if (os.platform() === "win32") {
+            this.skip();
+        }
+
+        dir = fse.mkdtempSync(path.join(os.tmpdir(), "solc-native-"));
+
+        for (const [name, script] of Object.entries(scripts)) {
+            fse.writeFileSync(path.join(dir, name), `#!/bin/sh\ncat > /dev/null\n${script}\n`, {
+                mode: 0o755
+            });
+        }
+    });
+
+    afterEach(() => {
+        setNativeCompilerPath(version, undefined);
+    });
+
+    after(() => {
+        if (dir !== undefined) {
+            fse.removeSync(dir);
+        }
+    });
+
+    it("Custom binary is used instead of the downloaded one", async () => {
+        const compiler = await getCompiler("ok");
+
+        expect(compiler.path).toEqual(path.join(dir, "ok"));
+        expect(await compiler.compile(input)).toEqual({ sources: {} });
+    });
+
+    it("Stderr handling is configurable", async () => {
+        const compiler = await getCompiler("warning");
+
+        await expect(compiler.compile(input)).rejects.toThrow(CompilerCrashError);
+        await expect(compiler.compile(input, { stderr: "ignore" })).resolves.toEqual({
+            sources: {}
+        });
+
+        const messages: string[] = [];
+
+        await compiler.compile(input, { stderr: (stderr) => messages.push(stderr) });
+
+        expect(messages).toEqual(["harmless warning\n"]);
+    });
+
+    it("Crashes are reported with exit code and stderr", async () => {
+        const compiler = await getCompiler("crash");
+
+        try {
+            await compiler.compile(input, { stderr: "ignore" });
+
+            throw new Error("Expected an error");
+        } catch (e: any) {
+            expect(e).toBeInstanceOf(CompilerCrashError);
+            expect(e.exitCode).toEqual(3);
+            expect(e.stderr).toEqual("boom\n");
+        }
+
+        await expect((await getCompiler("invalid")).compile(input)).rejects.toThrow(
+            "Compiler produced invalid output"
+        );
+
+        await expect((await getCompiler("missing")).compile(input)).rejects.toThrow(
+            CompilerCrashError
+        );
+    });
+
+    it("Slow compiler is killed on timeout", async () => {
+        const compiler = await getCompiler("slow");
+        const start = Date.now();
+
+        try {
+            await compiler.compile(input, { timeout: 200 });
+
+            throw new Error("Expected an error");
+        } catch (e: any) {
+            expect(e).toBeInstanceOf(CompilerTimeoutError);
+            expect(e.timeout).toEqual(200);
+        }
+
+        expect(Date.now() - start).toBeLessThan(5000);
+    });
+
+    it("Compilation is cancelled by the signal", async () => {
+        const compiler = await getCompiler("slow");
+        const controller = new AbortController();
+
+        setTimeout(() => controller.abort(), 100);
+
+        await expect(compiler.compile(input, { signal: controller.signal })).rejects.toThrow(
+            CompilerAbortedError
+        );
+
+        await expect(compiler.compile(input, { signal: controller.signal })).rejects.toThrow(
+            CompilerAbortedError
+        );
+    });
+
+    it("Output size is limited", async () => {
+        const compiler = await getCompiler("verbose");
+
+        await expect(compiler.compile(input, { maxOutputSize: 1000 })).rejects.toThrow(
+            "output exceeds 1000 bytes"
+        );
+    });
+
+    it("Outputs of custom binary are not cached", async () => {
+        const files = new Map([["A.sol", "contract A {}"]]);
+        const cache = new CompilationCache(path.join(dir, "cache"));
+        const key = CompilationCache.getKey(
+            createCompilerInput(files, [], [CompilationOutput.ALL], undefined),
+            version,
+            CompilerKind.Native
+        );
+
+        cache.set(key, { sources: { "A.sol": { id: 0 } } });
+
+        setCompilationCache(cache);
+        setNativeCompilerPath(version, path.join(dir, "ok"));
+
+        try {
+            const output = await compile(
+                files,
+                [],
+                version,
+                [CompilationOutput.ALL],
+                undefined,
+                CompilerKind.Native
+            );
+
+            expect(output).toEqual({ sources: {} });
+            expect(cache.get(key)).toEqual({ sources: { "A.sol": { id: 0 } } });
+        } finally {
+            setCompilationCache(undefined);
+        }
+    });
+});
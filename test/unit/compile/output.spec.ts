@@ -0,0 +1,129 @@
+import expect from "expect";
+import {
+    ASTReader,
+    CompilationOutput,
+    CompilerKind,
+    compileSourceString,
+    ContractDefinition,
+    getContractMetadata,
+    getContractOutput,
+    SolcOutput,
+    SourceUnit
+} from "../../../src";
+
+const source = `// SPDX-License-Identifier: MIT
+pragma solidity 0.8.12;
+
+/// @title Storage
+/// @notice Stores a value
+abstract contract Base {
+    uint256 public value;
+
+    /// @dev Sets the value
+    function set(uint256 v) external virtual;
+}
+
+contract Storage is Base {
+    function set(uint256 v) external override {
+        value = v;
+    }
+}
+`;
+
+async function compile(output: CompilationOutput[]): Promise<[SolcOutput, ContractDefinition[]]> {
+    const result = await compileSourceString(
+        "Storage.sol",
+        source,
+        "0.8.12",
+        [],
+        output,
+        undefined,
+        CompilerKind.WASM
+    );
+
+    const data: SolcOutput = result.data;
+    const units: SourceUnit[] = new ASTReader().read(result.data);
+
+    return [data, units[0].getChildrenByType(ContractDefinition)];
+}
+
+describe("Typed compiler output", () => {
+    it("getContractOutput() returns output of the contract", async () => {
+        const [data, [base, storage]] = await compile([CompilationOutput.ALL]);
+
+        const baseOutput = getContractOutput(data, base);
+        const storageOutput = getContractOutput(data, storage);
+
+        expect(baseOutput).toBe(data.contracts?.["Storage.sol"]["Base"]);
+        expect(storageOutput).toBe(data.contracts?.["Storage.sol"]["Storage"]);
+
+        if (baseOutput === undefined || storageOutput === undefined) {
+            throw new Error("Contract outputs are expected");
+        }
+
+        expect(storageOutput.abi?.map((entry) => entry.name)).toEqual(["set", "value"]);
+        expect(storageOutput.evm?.methodIdentifiers).toEqual({
+            "set(uint256)": "60fe47b1",
+            "value()": "3fa4f245"
+        });
+
+        expect(storageOutput.storageLayout?.storage.map((entry) => entry.label)).toEqual(["value"]);
+
+        expect(storageOutput.evm?.bytecode?.object).toMatch(/^[0-9a-f]+$/);
+        expect(storageOutput.evm?.deployedBytecode?.sourceMap).toBeDefined();
+        expect(storageOutput.evm?.gasEstimates?.external).toBeDefined();
+
+        /**
+         * IR is not selected by the wildcard
+         */
+        expect(storageOutput.ir).toBeUndefined();
+
+        /**
+         * Abstract contracts have no bytecode
+         */
+        expect(baseOutput.evm?.bytecode?.object).toEqual("");
+        expect(baseOutput.userdoc?.notice).toEqual("Stores a value");
+        expect(baseOutput.devdoc?.methods?.["set(uint256)"]).toEqual({
+            details: "Sets the value"
+        });
+
+        const metadata = getContractMetadata(storageOutput);
+
+        expect(metadata?.compiler.version).toMatch(/^0\.8\.12\+commit/);
+        expect(metadata?.settings.compilationTarget).toEqual({ "Storage.sol": "Storage" });
+        expect(Object.keys(metadata?.sources || {})).toEqual(["Storage.sol"]);
+    });
+
+    it("Sections, that are not requested, are undefined", async () => {
+        const [data, [, storage]] = await compile([
+            CompilationOutput.AST,
+            CompilationOutput.ABI,
+            CompilationOutput.IR,
+            CompilationOutput.EVM_METHODIDENTIFIERS
+        ]);
+
+        const output = getContractOutput(data, storage);
+
+        expect(output?.abi).toBeDefined();
+        expect(output?.ir).toMatch(/object "Storage_\d+"/);
+        expect(output?.evm?.methodIdentifiers).toBeDefined();
+
+        expect(output?.metadata).toBeUndefined();
+        expect(output?.devdoc).toBeUndefined();
+        expect(output?.userdoc).toBeUndefined();
+        expect(output?.storageLayout).toBeUndefined();
+        expect(output?.irOptimized).toBeUndefined();
+        expect(output?.evm?.bytecode).toBeUndefined();
+        expect(output?.evm?.deployedBytecode).toBeUndefined();
+        expect(output?.evm?.gasEstimates).toBeUndefined();
+
+        expect(getContractMetadata(output || {})).toBeUndefined();
+    });
+
+    it("Contracts, that are not compiled, have no output", async () => {
+        const [data, [base]] = await compile([CompilationOutput.AST]);
+
+        expect(getContractOutput(data, base)).toBeUndefined();
+        expect(getContractOutput({}, base)).toBeUndefined();
+    });
+});
@@ -0,0 +1,245 @@
+import expect from "expect";
+import path from "path";
+import {
+    CompilerKind,
+    compileProject,
+    ContractDefinition,
+    findProjectSources,
+    groupProjectSources,
+    LatestCompilerVersion,
+    loadProjectConfig,
+    parseToml,
+    ProjectKind,
+    SourceUnit,
+    TomlSyntaxError
+} from "../../../src";
+
+const samples = "test/samples/projects";
+
+describe("Project configuration", () => {
+    it("parseToml()", () => {
+        const toml = parseToml(`# Comment
+title = "Example \\"project\\""
+
+[profile.default]
+src = 'src'
+libs = [
+    "lib", # dependencies
+    "modules",
+]
+optimizer = true
+optimizer_runs = 1_000
+ratio = -1.5e2
+"quoted key" = { enabled = false, nested.value = 1 }
+
+[profile.ci]
+matrix = [[1, 2], []]
+
+[[products]]
+name = "Hammer"
+
+[[products]]
+name = "Nail"
+
+[products.size]
+length = 3
+`);
+
+        expect(toml).toEqual({
+            title: 'Example "project"',
+            profile: {
+                default: {
+                    src: "src",
+                    libs: ["lib", "modules"],
+                    optimizer: true,
+                    optimizer_runs: 1000,
+                    ratio: -150,
+                    "quoted key": { enabled: false, nested: { value: 1 } }
+                },
+                ci: {
+                    matrix: [[1, 2], []]
+                }
+            },
+            products: [{ name: "Hammer" }, { name: "Nail", size: { length: 3 } }]
+        });
+
+        expect(() => parseToml("key = ")).toThrow(TomlSyntaxError);
+        expect(() => parseToml('key = "value')).toThrow(TomlSyntaxError);
+        expect(() => parseToml("products = 1\n[[products]]")).toThrow(TomlSyntaxError);
+        expect(() => parseToml("[[products]\n")).toThrow(TomlSyntaxError);
+        expect(() => parseToml("a = 1 b = 2")).toThrow(TomlSyntaxError);
+    });
+
+    it("Foundry project", () => {
+        const root = path.resolve(samples, "foundry");
+        const config = loadProjectConfig(root);
+
+        expect(config).toEqual({
+            kind: ProjectKind.Foundry,
+            root,
+            sources: "src",
+            libs: ["lib"],
+            remappings: ["@oz/=lib/oz/contracts/", "@helpers/=src/utils/", "math/=lib/math/src/"],
+            compilers: [
+                {
+                    version: "0.8.12",
+                    settings: {
+                        optimizer: { enabled: true, runs: 1000 },
+                        evmVersion: "london"
+                    }
+                }
+            ],
+            compilerSettings: {
+                optimizer: { enabled: true, runs: 1000 },
+                evmVersion: "london"
+            }
+        });
+
+        expect(findProjectSources(config)).toEqual(["src/Token.sol", "src/utils/Helpers.sol"]);
+    });
+
+    it("Foundry profile is selected by environment variable", () => {
+        const env = { ...process.env };
+
+        try {
+            process.env["FOUNDRY_PROFILE"] = "ci";
+
+            const config = loadProjectConfig(path.join(samples, "foundry"));
+
+            expect(config.compilerSettings.optimizer).toEqual({ enabled: true, runs: 10 });
+        } finally {
+            process.env = env;
+        }
+    });
+
+    it("Hardhat project", () => {
+        const root = path.resolve(samples, "hardhat");
+        const config = loadProjectConfig(root);
+
+        expect(config).toEqual({
+            kind: ProjectKind.Hardhat,
+            root,
+            sources: "contracts",
+            libs: ["node_modules"],
+            remappings: [],
+            compilers: [
+                {
+                    version: "0.8.12",
+                    settings: { optimizer: { enabled: true, runs: 200 } }
+                }
+            ],
+            compilerSettings: { optimizer: { enabled: true, runs: 200 } }
+        });
+
+        expect(findProjectSources(config)).toEqual(["contracts/Vault.sol"]);
+    });
+
+    it("Sources are grouped by compatible pragmas", () => {
+        const config = loadProjectConfig(path.join(samples, "mixed"));
+
+        expect(config.kind).toEqual(ProjectKind.Plain);
+
+        const groups = groupProjectSources(config);
+
+        expect(groups.map((group) => group.entries)).toEqual([["A.sol", "C.sol"], ["B.sol"]]);
+
+        expect(groups[0].compilerVersions[0]).toEqual("0.6.12");
+        expect(groups[0].compilerVersions).not.toContain("0.7.0");
+        expect(groups[1].compilerVersions[0]).toEqual(LatestCompilerVersion);
+
+        expect([...groups[0].files.keys()].sort()).toEqual(["A.sol", "C.sol"]);
+        expect([...groups[1].files.keys()].sort()).toEqual(["B.sol", "C.sol"]);
+    });
+});
+
+describe("compileProject()", () => {
+    for (const [name, expected] of [
+        [
+            "foundry",
+            [
+                "src/Token.sol",
+                "lib/oz/contracts/access/Ownable.sol",
+                "lib/math/src/Math.sol",
+                "src/utils/Helpers.sol"
+            ]
+        ],
+        ["hardhat", ["contracts/Vault.sol", "@acme/lib/Counter.sol"]]
+    ] as Array<[string, string[]]>) {
+        it(`Compiles ${name} project`, async () => {
+            const result = await compileProject(
+                path.join(samples, name),
+                undefined,
+                CompilerKind.WASM
+            );
+
+            expect(result.groups).toHaveLength(1);
+            expect(result.groups[0].compilerVersion).toEqual("0.8.12");
+
+            const units = result.sourceUnits.map((unit) => unit.absolutePath);
+
+            expect(units.sort()).toEqual([...expected].sort());
+
+            for (const unit of result.sourceUnits) {
+                expect(unit.compilerVersion).toEqual("0.8.12");
+                expect(unit.context).toBe(result.context);
+            }
+
+            expect([...result.files.keys()].sort()).toEqual([...expected].sort());
+
+            const contracts = result.sourceUnits
+                .map((unit) => unit.getChildrenByType(ContractDefinition))
+                .reduce((all, defs) => all.concat(defs), [])
+                .map((contract) => contract.name);
+
+            expect(contracts).toContain(name === "foundry" ? "Token" : "Vault");
+        });
+    }
+
+    it("Compiles groups of different versions into the same context", async () => {
+        const result = await compileProject(
+            path.join(samples, "mixed"),
+            undefined,
+            CompilerKind.WASM
+        );
+
+        expect(result.groups.map((group) => group.compilerVersion)).toEqual([
+            "0.6.12",
+            LatestCompilerVersion
+        ]);
+
+        const versions = new Map(
+            result.sourceUnits.map((unit) => [unit.absolutePath, unit.compilerVersion])
+        );
+
+        expect(versions).toEqual(
+            new Map([
+                ["A.sol", "0.6.12"],
+                ["C.sol", "0.6.12"],
+                ["B.sol", LatestCompilerVersion]
+            ])
+        );
+
+        const units = [...result.context.nodes].filter(
+            (node): node is SourceUnit => node instanceof SourceUnit
+        );
+
+        /**
+         * C.sol is compiled by both groups
+         */
+        expect(units.map((unit) => unit.absolutePath).sort()).toEqual([
+            "A.sol",
+            "B.sol",
+            "C.sol",
+            "C.sol"
+        ]);
+
+        const b = result.sourceUnits.find((unit) => unit.absolutePath === "B.sol") as SourceUnit;
+        const [contract] = b.getChildrenByType(ContractDefinition);
+        const [base] = contract.vInheritanceSpecifiers;
+
+        expect(base.vBaseType.vReferencedDeclaration).toBe(contract.vLinearizedBaseContracts[1]);
+        expect(contract.vLinearizedBaseContracts[1].vScope.compilerVersion).toEqual(
+            LatestCompilerVersion
+        );
+    });
+});
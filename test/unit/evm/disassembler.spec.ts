@@ -0,0 +1,35 @@
+import expect from "expect";
+import { bytecodeToBytes, disassemble } from "../../../src";
+
+describe("disassemble()", () => {
+    it("Instructions and immediate values", () => {
+        expect(disassemble("0x6080604052600436106100")).toEqual([
+            { index: 0, pc: 0, opcode: 0x60, name: "PUSH1", pushData: "80" },
+            { index: 1, pc: 2, opcode: 0x60, name: "PUSH1", pushData: "40" },
+            { index: 2, pc: 4, opcode: 0x52, name: "MSTORE" },
+            { index: 3, pc: 5, opcode: 0x60, name: "PUSH1", pushData: "04" },
+            { index: 4, pc: 7, opcode: 0x36, name: "CALLDATASIZE" },
+            { index: 5, pc: 8, opcode: 0x10, name: "LT" },
+            { index: 6, pc: 9, opcode: 0x61, name: "PUSH2", pushData: "0000" }
+        ]);
+    });
+
+    it("Unassigned bytes and newer opcodes", () => {
+        expect(disassemble("0c5f5cfe").map((instruction) => instruction.name)).toEqual([
+            "INVALID",
+            "PUSH0",
+            "TLOAD",
+            "INVALID"
+        ]);
+    });
+
+    it("Library placeholders are replaced by zero addresses", () => {
+        const bytecode = `73__$${"ab".repeat(17)}$__3014`;
+
+        expect(bytecodeToBytes(bytecode)).toHaveLength(23);
+        expect(disassemble(bytecode)[0].pushData).toEqual("00".repeat(20));
+
+        expect(() => bytecodeToBytes("0x6")).toThrow("Invalid bytecode");
+        expect(() => bytecodeToBytes("zz")).toThrow("Invalid bytecode");
+    });
+});
@@ -0,0 +1,112 @@
+import expect from "expect";
+import {
+    CompilationOutput,
+    CompilerKind,
+    compileSourceString,
+    decodeBytecodeMetadata,
+    getMetadataTrailer
+} from "../../../src";
+
+const source = `pragma solidity 0.8.12;
+
+contract Counter {
+    uint256 public count;
+
+    function inc() external {
+        count++;
+    }
+}
+`;
+
+/**
+ * Encodes short CBOR text string
+ */
+function text(value: string): string {
+    return (0x60 + value.length).toString(16) + Buffer.from(value).toString("hex");
+}
+
+/**
+ * Appends length of the CBOR data to it
+ */
+function trailer(cbor: string): string {
+    return cbor + (cbor.length / 2).toString(16).padStart(4, "0");
+}
+
+describe("getMetadataTrailer()", () => {
+    it("Swarm hash of legacy compilers is decoded", () => {
+        const hash = "0123456789abcdef".repeat(4);
+        const code = "6080604052600080fd00";
+        const result = getMetadataTrailer(code + trailer("a1" + text("bzzr0") + "5820" + hash));
+
+        expect(result).toEqual({
+            metadata: { bzzr0: hash },
+            offset: code.length / 2,
+            length: 43
+        });
+    });
+
+    it("Experimental flag and prerelease versions are decoded", () => {
+        const hash = "1220" + "ab".repeat(32);
+        const cbor = [
+            "a3",
+            text("ipfs"),
+            "5822",
+            hash,
+            text("experimental"),
+            "f5",
+            text("solc"),
+            text("0.8.13-nightly")
+        ].join("");
+
+        expect(decodeBytecodeMetadata("0x00" + trailer(cbor))).toEqual({
+            ipfs: hash,
+            experimental: true,
+            solc: "0.8.13-nightly"
+        });
+    });
+
+    it("Bytecode without valid trailer is rejected", () => {
+        for (const bytecode of [
+            "",
+            "00",
+            "6080604052600080fd",
+            "6080604052600080fd0000",
+            "00ff",
+            trailer("a1" + text("solc")),
+            trailer(text("solc")),
+            trailer("a1" + text("solc") + "430008" + "0c00")
+        ]) {
+            expect(getMetadataTrailer(bytecode)).toBeUndefined();
+        }
+    });
+
+    it("Trailer of compiled bytecode is decoded", async () => {
+        const result = await compileSourceString(
+            "Counter.sol",
+            source,
+            "0.8.12",
+            [],
+            [CompilationOutput.EVM],
+            undefined,
+            CompilerKind.WASM
+        );
+
+        const { evm } = (result.data.contracts as any)["Counter.sol"]["Counter"];
+        const runtime = getMetadataTrailer(evm.deployedBytecode.object);
+
+        expect(runtime).toBeDefined();
+
+        if (runtime === undefined) {
+            return;
+        }
+
+        expect(runtime.metadata.solc).toEqual("0.8.12");
+        expect(runtime.metadata.ipfs).toMatch(/^1220[0-9a-f]{64}$/);
+        expect(runtime.offset + runtime.length).toEqual(evm.deployedBytecode.object.length / 2);
+
+        /**
+         * Creation bytecode ends with the runtime bytecode
+         */
+        expect(decodeBytecodeMetadata(evm.bytecode.object)).toEqual(runtime.metadata);
+    });
+});
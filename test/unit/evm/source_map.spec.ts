@@ -0,0 +1,137 @@
+import expect from "expect";
+import {
+    ASTReader,
+    CompilerKind,
+    compileSourceString,
+    decodeSourceMap,
+    FunctionDefinition,
+    JumpType,
+    Return,
+    SourceMapIndex,
+    SourceUnit
+} from "../../../src";
+
+const source = `pragma solidity 0.8.12;
+
+contract Counter {
+    uint256 public count;
+
+    function add(uint256 value) external returns (uint256) {
+        count += value;
+
+        return count;
+    }
+}
+`;
+
+describe("decodeSourceMap()", () => {
+    it("Empty and missing fields are taken from the previous entry", () => {
+        expect(decodeSourceMap("1:2:1;:9;2:1:2;;5:::o:1;")).toEqual([
+            { offset: 1, length: 2, sourceIndex: 1, jump: JumpType.Regular, modifierDepth: 0 },
+            { offset: 1, length: 9, sourceIndex: 1, jump: JumpType.Regular, modifierDepth: 0 },
+            { offset: 2, length: 1, sourceIndex: 2, jump: JumpType.Regular, modifierDepth: 0 },
+            { offset: 2, length: 1, sourceIndex: 2, jump: JumpType.Regular, modifierDepth: 0 },
+            { offset: 5, length: 1, sourceIndex: 2, jump: JumpType.Out, modifierDepth: 1 },
+            { offset: 5, length: 1, sourceIndex: 2, jump: JumpType.Out, modifierDepth: 1 }
+        ]);
+
+        expect(decodeSourceMap("0:10:-1:i")).toEqual([
+            { offset: 0, length: 10, sourceIndex: -1, jump: JumpType.In, modifierDepth: 0 }
+        ]);
+
+        expect(decodeSourceMap("")).toEqual([]);
+    });
+
+    it("Invalid entries are rejected", () => {
+        expect(() => decodeSourceMap("1:x:0")).toThrow('Invalid source map entry "1:x:0"');
+        expect(() => decodeSourceMap("1:2:0:q")).toThrow('Invalid source map entry "1:2:0:q"');
+    });
+});
+
+describe("SourceMapIndex", () => {
+    let units: SourceUnit[];
+    let bytecode: any;
+    let deployedBytecode: any;
+
+    before(async () => {
+        const result = await compileSourceString(
+            "Counter.sol",
+            source,
+            "0.8.12",
+            [],
+            undefined,
+            undefined,
+            CompilerKind.WASM
+        );
+
+        units = new ASTReader().read(result.data);
+
+        const evm = (result.data.contracts as any)["Counter.sol"].Counter.evm;
+
+        bytecode = evm.bytecode;
+        deployedBytecode = evm.deployedBytecode;
+    });
+
+    it("Program counters are linked to the innermost AST nodes", () => {
+        const index = SourceMapIndex.fromBytecodeOutput(deployedBytecode, units);
+        const [add] = units[0].getChildrenByType(FunctionDefinition);
+        const [ret] = add.getChildrenByType(Return);
+
+        expect(index.entries.length).toBeGreaterThan(0);
+        expect(index.entries.length).toBeLessThanOrEqual(index.instructions.length);
+
+        const nodes = index.instructions.map((instruction) => index.getNode(instruction.pc));
+
+        expect(nodes).toContain(add);
+        expect(nodes).toContain(ret);
+
+        const retInstructions = index.getInstructions(ret);
+
+        expect(retInstructions.length).toBeGreaterThan(0);
+
+        for (const instruction of retInstructions) {
+            const entry = index.getEntry(instruction.pc);
+
+            expect(entry && `${entry.offset}:${entry.length}:${entry.sourceIndex}`).toEqual(
+                ret.src
+            );
+        }
+
+        /**
+         * Instructions of the metadata trailer are not mapped
+         */
+        const last = index.instructions[index.instructions.length - 1];
+
+        expect(index.getEntry(last.pc)).toBeUndefined();
+        expect(index.getNode(last.pc)).toBeUndefined();
+        expect(index.getInstruction(1)).toBeUndefined();
+    });
+
+    it("Generated sources", () => {
+        const index = SourceMapIndex.fromBytecodeOutput(deployedBytecode, units);
+        const generated = index.instructions.filter(
+            (instruction) => index.getGeneratedSource(instruction.pc) !== undefined
+        );
+
+        expect(generated.length).toBeGreaterThan(0);
+
+        for (const instruction of generated) {
+            expect(index.getGeneratedSource(instruction.pc)).toEqual(
+                expect.objectContaining({ id: 1, name: "#utility.yul", language: "Yul" })
+            );
+
+            expect(index.getNode(instruction.pc)).toBeUndefined();
+        }
+
+        /**
+         * Creation code of the contract does not use generated sources
+         */
+        const creation = SourceMapIndex.fromBytecodeOutput(bytecode, units);
+
+        expect(
+            creation.instructions.every(
+                (instruction) => creation.getGeneratedSource(instruction.pc) === undefined
+            )
+        ).toEqual(true);
+    });
+});
@@ -192,6 +192,38 @@ const cases: Array<[Map<string, VersionDependentType>, string, string[], TypeNod
             FunctionStateMutability.Pure
         )
     ],
+    [
+        BuiltinSymbols,
+        "log0",
+        ["0.4.13", "0.7.6"],
+        new FunctionType(
+            undefined,
+            [new FixedBytesType(32)],
+            [],
+            FunctionVisibility.Default,
+            FunctionStateMutability.NonPayable
+        )
+    ],
+    [
+        BuiltinSymbols,
+        "log4",
+        ["0.4.13", "0.7.6"],
+        new FunctionType(
+            undefined,
+            [
+                new FixedBytesType(32),
+                new FixedBytesType(32),
+                new FixedBytesType(32),
+                new FixedBytesType(32),
+                new FixedBytesType(32)
+            ],
+            [],
+            FunctionVisibility.Default,
+            FunctionStateMutability.NonPayable
+        )
+    ],
+    [BuiltinSymbols, "log0", ["0.8.0", LatestCompilerVersion], undefined],
+    [BuiltinSymbols, "log5", ["0.4.13", LatestCompilerVersion], undefined],
     [BuiltinAddressMembers, "balance", ["0.4.13", LatestCompilerVersion], new IntType(256, false)],
     [
         BuiltinAddressMembers,
@@ -0,0 +1,298 @@
+import expect from "expect";
+import {
+    ASTContext,
+    ASTNodeFactory,
+    ASTReader,
+    CompilerKind,
+    compileSol,
+    ContractDefinition,
+    detectCompileErrors,
+    eq,
+    EtherUnit,
+    Expression,
+    FunctionDefinition,
+    FunctionVisibility,
+    Identifier,
+    ImportDirective,
+    LiteralKind,
+    MemberAccess,
+    ModifierInvocation,
+    PossibleCompilerKinds
+} from "../../../src";
+import {
+    BoolType,
+    BuiltinStructType,
+    FunctionType,
+    getNodeType,
+    ImportRefType,
+    InferType,
+    IntLiteralType,
+    IntType,
+    RationalLiteralType,
+    TypeNode
+} from "../../../src/types";
+
+/**
+ * Samples with expected compiler versions and minimal numbers of compared expressions
+ */
+const samples: Array<[string, string, number]> = [
+    ["./test/samples/solidity/types/inference.sol", "0.8.12", 300],
+    ["./test/samples/solidity/types/inference_04.sol", "0.4.26", 60],
+    ["./test/samples/solidity/types/inference_06.sol", "0.6.12", 50],
+    ["./test/samples/solidity/compile_04.sol", "0.4.26", 90],
+    ["./test/samples/solidity/compile_05.sol", "0.5.17", 90],
+    ["./test/samples/solidity/latest_06.sol", "0.6.12", 200],
+    ["./test/samples/solidity/latest_07.sol", "0.7.6", 100],
+    ["./test/samples/solidity/latest_08.sol", "0.8.12", 100]
+];
+
+/**
+ * Compares the inferred type with the type, that is parsed from the typeString.
+ *
+ * TypeStrings omit both `internal` and `default` visibility of function types,
+ * so the parsed `internal` visibility matches the inferred `default` one.
+ * Parameters and returns are compared one by one, as `eq()` would also require
+ * nodes, that are shared between them in the inferred type, to be shared in the parsed one.
+ */
+function typesMatch(inferredT: TypeNode, expectedT: TypeNode): boolean {
+    if (!(inferredT instanceof FunctionType && expectedT instanceof FunctionType)) {
+        return eq(inferredT, expectedT);
+    }
+
+    const listsMatch = (inferredTs: TypeNode[], expectedTs: TypeNode[]) =>
+        inferredTs.length === expectedTs.length &&
+        inferredTs.every((t, i) => typesMatch(t, expectedTs[i]));
+
+    return (
+        (inferredT.visibility === expectedT.visibility ||
+            (inferredT.visibility === FunctionVisibility.Default &&
+                expectedT.visibility === FunctionVisibility.Internal)) &&
+        inferredT.mutability === expectedT.mutability &&
+        listsMatch(inferredT.parameters, expectedT.parameters) &&
+        listsMatch(inferredT.returns, expectedT.returns)
+    );
+}
+
+/**
+ * The compiler types `abi.decode` as `function () pure`,
+ * while its inferred type contains the actual parameters and returns.
+ */
+function isAbiDecode(expr: Expression): boolean {
+    return (
+        expr instanceof MemberAccess &&
+        expr.memberName === "decode" &&
+        expr.vExpression instanceof Identifier &&
+        expr.vExpression.name === "abi"
+    );
+}
+
+describe("Type inference engine", () => {
+    describe("Inferred types match typeStrings of the compiler", () => {
+        for (const [sample, compilerVersion, minChecked] of samples) {
+            for (const compilerKind of PossibleCompilerKinds) {
+                it(`[${compilerKind}] ${sample}`, async () => {
+                    const result = await compileSol(
+                        sample,
+                        "auto",
+                        [],
+                        undefined,
+                        undefined,
+                        compilerKind as CompilerKind
+                    );
+
+                    expect(result.compilerVersion).toEqual(compilerVersion);
+                    expect(detectCompileErrors(result.data)).toHaveLength(0);
+
+                    const reader = new ASTReader();
+                    const sourceUnits = reader.read(result.data);
+                    const infer = new InferType(compilerVersion);
+
+                    let checked = 0;
+
+                    for (const unit of sourceUnits) {
+                        for (const expr of unit.getChildrenByType(Expression)) {
+                            if (
+                                expr.typeString === undefined ||
+                                expr.getClosestParentByType(ImportDirective) !== undefined
+                            ) {
+                                continue;
+                            }
+
+                            if (isAbiDecode(expr)) {
+                                continue;
+                            }
+
+                            // Long constants are abbreviated in typeStrings (e.g. `1157...(70 digits omitted)...9935`)
+                            if (expr.typeString.includes("digits omitted")) {
+                                continue;
+                            }
+
+                            // Modifier names in modifier invocations do not have a value type
+                            if (expr.parent instanceof ModifierInvocation) {
+                                continue;
+                            }
+
+                            const inferredT = infer.typeOf(expr);
+
+                            // Builtin structs (e.g. `msg`) and imported modules
+                            // are modeled differently by typeString parser
+                            if (
+                                inferredT instanceof BuiltinStructType ||
+                                inferredT instanceof ImportRefType
+                            ) {
+                                continue;
+                            }
+
+                            const expectedT = getNodeType(expr, compilerVersion);
+
+                            expect(typesMatch(inferredT, expectedT)).toBeTruthy();
+
+                            checked++;
+                        }
+                    }
+
+                    expect(checked).toBeGreaterThanOrEqual(minChecked);
+                });
+            }
+        }
+    });
+
+    describe("Functions attached via using for", () => {
+        const sample = "./test/samples/solidity/types/inference.sol";
+
+        for (const compilerKind of PossibleCompilerKinds) {
+            it(`[${compilerKind}] Struct and array members are resolved to library functions`, async () => {
+                const result = await compileSol(
+                    sample,
+                    "auto",
+                    [],
+                    undefined,
+                    undefined,
+                    compilerKind as CompilerKind
+                );
+
+                const [unit] = new ASTReader().read(result.data);
+                const infer = new InferType("0.8.12");
+
+                const members = unit.getChildrenByType(MemberAccess).filter((member) => {
+                    const def = member.vReferencedDeclaration;
+
+                    return (
+                        def instanceof FunctionDefinition &&
+                        def.vScope instanceof ContractDefinition &&
+                        (def.vScope.name === "Sets" || def.vScope.name === "Arrays")
+                    );
+                });
+
+                expect(members.map((member) => infer.typeOf(member).pp())).toEqual([
+                    "function (struct Sets.AddressSet storage,address) returns (bool)",
+                    "function (uint16[] storage) view returns (uint256)"
+                ]);
+
+                for (const member of members) {
+                    expect(eq(infer.typeOf(member), getNodeType(member, "0.8.12"))).toBeTruthy();
+                }
+            });
+        }
+    });
+
+    describe("Expressions built by ASTNodeFactory", () => {
+        const factory = new ASTNodeFactory(new ASTContext());
+        const infer = new InferType("0.8.12");
+
+        const makeNumber = (value: string, unit?: EtherUnit) =>
+            factory.makeLiteral("<missing>", LiteralKind.Number, "", value, unit);
+
+        const cases: Array<[string, () => Expression, TypeNode]> = [
+            [
+                "1 ether + 2",
+                () =>
+                    factory.makeBinaryOperation(
+                        "<missing>",
+                        "+",
+                        makeNumber("1", EtherUnit.Ether),
+                        makeNumber("2")
+                    ),
+                new IntLiteralType(BigInt("1000000000000000002"))
+            ],
+            [
+                "-(2 ** 8)",
+                () =>
+                    factory.makeUnaryOperation(
+                        "<missing>",
+                        true,
+                        "-",
+                        factory.makeTupleExpression("<missing>", false, [
+                            factory.makeBinaryOperation(
+                                "<missing>",
+                                "**",
+                                makeNumber("2"),
+                                makeNumber("8")
+                            )
+                        ])
+                    ),
+                new IntLiteralType(BigInt(-256))
+            ],
+            [
+                "true ? 1 : 300",
+                () =>
+                    factory.makeConditional(
+                        "<missing>",
+                        factory.makeLiteral("<missing>", LiteralKind.Bool, "", "true"),
+                        makeNumber("1"),
+                        makeNumber("300")
+                    ),
+                new IntType(16, false)
+            ],
+            [
+                "1 / 2",
+                () =>
+                    factory.makeBinaryOperation("<missing>", "/", makeNumber("1"), makeNumber("2")),
+                new RationalLiteralType(BigInt(1), BigInt(2))
+            ],
+            [
+                "1 / 2 * 4",
+                () =>
+                    factory.makeBinaryOperation(
+                        "<missing>",
+                        "*",
+                        factory.makeBinaryOperation(
+                            "<missing>",
+                            "/",
+                            makeNumber("1"),
+                            makeNumber("2")
+                        ),
+                        makeNumber("4")
+                    ),
+                new IntLiteralType(BigInt(2))
+            ],
+            [
+                "0.5 ether",
+                () => makeNumber("0.5", EtherUnit.Ether),
+                new IntLiteralType(BigInt("500000000000000000"))
+            ],
+            [
+                "1 < 2",
+                () =>
+                    factory.makeBinaryOperation("<missing>", "<", makeNumber("1"), makeNumber("2")),
+                new BoolType()
+            ]
+        ];
+
+        for (const [name, builder, expectedT] of cases) {
+            it(name, () => {
+                const inferredT = infer.typeOf(builder());
+
+                expect(inferredT.pp()).toEqual(expectedT.pp());
+            });
+        }
+
+        it("now", () => {
+            const now = factory.makeIdentifier("<missing>", "now", -1);
+
+            expect(new InferType("0.4.26").typeOf(now).pp()).toEqual("uint256");
+            expect(new InferType("0.6.12").typeOf(now).pp()).toEqual("uint256");
+            expect(() => new InferType("0.8.12").typeOf(now)).toThrow();
+        });
+    });
+});
@@ -94,7 +94,7 @@ describe("Check canonical signatures are generated correctly", () => {
 
                 expect(errors).toHaveLength(0);
 
-                const data = result.data;
+                const data: any = result.data;
 
                 const reader = new ASTReader();
                 const sourceUnits = reader.read(data, ASTKind.Any);